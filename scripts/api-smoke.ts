@@ -0,0 +1,155 @@
+/**
+ * API smoke test against the mock RPC server.
+ *
+ *   npm run api-smoke
+ *
+ * Starts the mock RPC on MOCK_RPC_PORT (default 8898) with the default
+ * scenario, points both network RPC URLs at it, then calls every /api/*
+ * route handler in-process and checks the status and a property of the
+ * response that the scenario determines. USD prices and token symbols come
+ * from fixtures/prices.json, so it needs no network.
+ */
+import { join } from 'node:path';
+
+const PORT = Number(process.env.MOCK_RPC_PORT) || 8898;
+
+// Must be set before anything imports src/lib/constants or connections
+process.env.SOLANA_RPC_URL = `http://127.0.0.1:${PORT}`;
+process.env.SOLANA_MAINNET_RPC_URL = `http://127.0.0.1:${PORT}`;
+// ...and before src/lib/price-providers builds its chains
+process.env.PRICE_FILE = join(__dirname, '..', 'fixtures', 'prices.json');
+process.env.PRICE_PROVIDERS = 'static';
+process.env.METADATA_PROVIDERS = 'static,metaplex';
+
+type Json = { [key: string]: unknown };
+
+interface Case {
+  /** Route directory under src/app/api */
+  route: string;
+  method?: 'GET' | 'POST';
+  path?: string;
+  body?: unknown;
+  params?: Record<string, string>;
+  /** Returns a problem description, or null when the response looks right */
+  check: (json: Json) => string | null;
+}
+
+function expect(ok: boolean, problem: string): string | null {
+  return ok ? null : problem;
+}
+
+/** Array length, or -1 when not an array */
+function len(value: unknown): number {
+  return Array.isArray(value) ? value.length : -1;
+}
+
+async function main(): Promise<number> {
+  const { buildDefaultScenario, expandScenario } = await import('./mock-scenario');
+  const { startMockRpcServer } = await import('./mock-rpc-server');
+  const { PROGRAM_REGISTRY } = await import('../src/lib/registry');
+  const { CONFIG } = await import('../src/lib/constants');
+  const { parseAccount } = await import('../src/lib/percolator');
+
+  const scenario = buildDefaultScenario();
+  const { server, url } = await startMockRpcServer(scenario, PORT);
+  console.log(`[api-smoke] Mock RPC on ${url} (${scenario.accounts.length} accounts)\n`);
+
+  const programs = PROGRAM_REGISTRY.length;
+  const address = CONFIG.SLAB.toBase58();
+  const slab = { address };
+  const slabData = expandScenario(scenario).find((a) => a.pubkey === address)!.data;
+  const lpOwner = parseAccount(slabData, 0).owner.toBase58();
+
+  const cases: Case[] = [
+    { route: 'market', check: (j) => expect(Number(j.numSlabs) >= 1 && Math.round(Number(j.oraclePrice)) === 150, `numSlabs=${j.numSlabs} oraclePrice=${j.oraclePrice}`) },
+    { route: 'positions', check: (j) => {
+      const positions = (j.positions as Json[] | undefined) ?? [];
+      const parts = positions.map((p) => p.pnlAttribution as Json);
+      const funded = parts.filter((a) => Number(a?.funding) !== 0).length;
+      const summed = parts.every((a) => Math.abs(Number(a?.price) + Number(a?.funding) + Number(a?.fees) - Number(a?.total)) < 1e-9);
+      const matched = positions.every((p, i) => Math.abs(Number(parts[i]?.total) - Number(p.unrealizedPnl)) < 1e-9);
+      return expect(parts.length > 0 && funded > 0 && summed && matched, `${parts.length} positions, ${funded} with unsettled funding, components ${summed ? 'sum' : "don't sum"} to total, total ${matched ? 'matches' : "doesn't match"} unrealizedPnl`);
+    } },
+    { route: 'lps', check: (j) => expect(len(j.lps) >= 2, `${len(j.lps)} LPs`) },
+    { route: 'activity', check: (j) => expect(len(j.events) > 0, 'no activity events') },
+    { route: 'ecosystem', check: (j) => expect((j.programs as Json)?.active === programs, `active programs ${(j.programs as Json)?.active}/${programs}`) },
+    { route: 'radar', check: (j) => expect(len(j.programs) === programs, `${len(j.programs)} programs`) },
+    { route: 'top-markets', check: (j) => {
+      const modes = (j.markets as Json[] | undefined)?.map((m) => m.oracleMode) ?? [];
+      return expect(len(j.markets) === programs && modes.every((m) => m === 'chainlink'), `${len(j.markets)} markets, oracles ${[...new Set(modes)].join(',')}`);
+    } },
+    { route: 'oracles', check: (j) => {
+      const summary = j.summary as Json | undefined;
+      return expect(len(j.slabs) === programs && summary?.unreadable === 0, `${len(j.slabs)} feeds, ${summary?.unreadable} unreadable`);
+    } },
+    { route: 'liquidations', check: (j) => expect(len(j.critical) >= 0, 'no critical list') },
+    { route: 'slab/[address]', path: `slab/${address}`, params: slab, check: (j) => {
+      const oracle = j.oracle as Json | null;
+      return expect(j.slabPubkey === address && oracle?.source === 'chainlink' && !oracle.error && oracle.stalenessSlots !== null && Math.round(Number(j.solUsdPrice)) === 150, `slabPubkey=${j.slabPubkey} oracle=${oracle?.source} ${oracle?.error ?? ''} price=${j.solUsdPrice}`);
+    } },
+    { route: 'slab/[address]/history', path: `slab/${address}/history`, params: slab, check: (j) => expect(len(j.points) >= 0, 'no points') },
+    { route: 'slab/[address]/divergence', path: `slab/${address}/divergence`, params: slab, check: (j) => {
+      const current = j.current as Json | undefined;
+      return expect(Math.round(Number(current?.index)) === 150 && Number(current?.mark) > 0 && current?.dex === 150 && current?.markIndexBps !== null && len(j.samples) >= 1, `mark=${current?.mark} index=${current?.index} dex=${current?.dex} samples=${len(j.samples)}`);
+    } },
+    { route: 'slab/[address]/funding', path: `slab/${address}/funding`, params: slab, check: (j) => {
+      const current = j.current as Json | undefined;
+      const timing = j.slotTiming as Json | undefined;
+      return expect(current?.rateBpsPerSlot === 1 && timing?.source === 'rpc' && timing.msPerSlot === 400 && Number(current?.aprPct) > 0 && (j.window as Json)?.samples === 1, `rate=${current?.rateBpsPerSlot} slot=${timing?.msPerSlot}ms (${timing?.source}) samples=${(j.window as Json)?.samples}`);
+    } },
+    { route: 'prices', path: `prices?mints=${CONFIG.MINT.toBase58()}`, check: (j) => {
+      const sol = (j.prices as Record<string, Json> | undefined)?.[CONFIG.MINT.toBase58()];
+      return expect(sol?.usd === 150 && sol?.source === 'static' && len(j.providers) === 3, `sol=${JSON.stringify(sol)} providers=${len(j.providers)}`);
+    } },
+    { route: 'slab/[address]/candles', path: `slab/${address}/candles`, params: slab, check: (j) => expect(len(j.candles) >= 0, 'no candles') },
+    { route: 'slab/[address]/account/[idx]', path: `slab/${address}/account/0`, params: { address, idx: '0' }, check: (j) => expect((j.account as Json)?.kind === 'lp' && len(j.events) >= 1 && len(j.history) >= 1, `kind=${(j.account as Json)?.kind} events=${len(j.events)} history=${len(j.history)}`) },
+    { route: 'slab/[address]/transactions', path: `slab/${address}/transactions`, params: slab, check: (j) => expect(len(j.events) >= 3, `${len(j.events)} events`) },
+    { route: 'owner/[pubkey]', path: `owner/${lpOwner}`, params: { pubkey: lpOwner }, check: (j) => {
+      const market = (j.markets as Json[] | undefined)?.[0];
+      const totals = j.totals as Json | undefined;
+      return expect(len(j.markets) === 1 && market?.slabPubkey === address && len(market?.positions) === 1 && market?.collateralMint === CONFIG.MINT.toBase58() && totals?.collateral === undefined, `markets=${len(j.markets)} slab=${market?.slabPubkey} collateral=${market?.collateralSymbol} totals.collateral=${totals?.collateral}`);
+    } },
+    { route: 'crank', method: 'POST', body: {}, check: (j) => expect(j.success === true, `crank failed: ${j.details ?? j.error}`) },
+    { route: 'crank/history', check: (j) => expect(len(j.entries) === 1, `${len(j.entries)} crank log entries`) },
+    { route: 'crank/status', check: (j) => expect(j.crankCount === 1, `crankCount=${j.crankCount}`) },
+    { route: 'crank/bot', method: 'POST', body: { action: 'stop' }, check: (j) => expect(j.running === false, 'bot still running') },
+  ];
+
+  let failed = 0;
+  for (const c of cases) {
+    const method = c.method ?? 'GET';
+    const label = `${method} /api/${c.path ?? c.route}`;
+    let problem: string | null;
+    try {
+      const mod = await import(`../src/app/api/${c.route}/route`);
+      const request = new Request(`http://localhost/api/${c.path ?? c.route}`, {
+        method,
+        body: c.body === undefined ? undefined : JSON.stringify(c.body),
+      });
+      const res: Response = await mod[method](request, { params: Promise.resolve(c.params ?? {}) });
+      const json = (await res.json()) as Json;
+      problem = res.status === 200 ? c.check(json) : `HTTP ${res.status}: ${json.details ?? json.error}`;
+    } catch (err) {
+      problem = `threw: ${err instanceof Error ? err.message : String(err)}`;
+    }
+
+    if (problem) {
+      failed++;
+      console.log(`  FAIL  ${label}\n    ${problem}`);
+    } else {
+      console.log(`  ok    ${label}`);
+    }
+  }
+
+  console.log(`\n${cases.length - failed}/${cases.length} routes passed`);
+  server.close();
+  return failed;
+}
+
+main().then(
+  (failed) => process.exit(failed > 0 ? 1 : 0),
+  (err) => {
+    console.error('[api-smoke]', err);
+    process.exit(1);
+  },
+);
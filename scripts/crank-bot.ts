@@ -0,0 +1,78 @@
+/**
+ * Standalone crank bot.
+ *
+ *   SLAB_HISTORY_DB=./data/history.db npm run crank-bot
+ *
+ * Drives the crank scheduler on its own timer instead of the /api/crank/status
+ * poll, so cranking continues with no browser open. Start/stop, interval and
+ * scope still come from POST /api/crank/bot: the route persists them to the
+ * shared store and each pass here re-reads them. While this process's
+ * heartbeat is fresh, the web app stops cranking from polls.
+ *
+ * Set CRANK_HEALTH_PORT to serve GET /health (200 while passes are on time,
+ * 503 once they stall).
+ */
+import { createServer, type Server } from 'node:http';
+import { getCrankBotStatus, runCrankBotPass } from '../src/lib/crank';
+
+const TICK_MS = Number(process.env.CRANK_BOT_TICK_MS) || 2_000;
+const HEALTH_PORT = Number(process.env.CRANK_HEALTH_PORT) || 0;
+
+let stopping = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let server: Server | null = null;
+let lastPassAt = 0;
+let lastPassMs = 0;
+
+async function tick(): Promise<void> {
+  try {
+    const result = await runCrankBotPass();
+    lastPassAt = Date.now();
+    lastPassMs = result.durationMs;
+    if (result.attempted > 0) {
+      console.log(`[crank-bot] ${result.attempted} crank(s) in ${result.durationMs}ms`);
+    }
+  } catch (err) {
+    console.error('[crank-bot] Pass failed:', err);
+  }
+
+  if (!stopping) timer = setTimeout(tick, TICK_MS);
+}
+
+function startHealthServer(port: number): void {
+  server = createServer(async (req, res) => {
+    if (req.url !== '/health') {
+      res.writeHead(404).end();
+      return;
+    }
+    const healthy = lastPassAt > 0 && Date.now() - lastPassAt < Math.max(TICK_MS * 5, 30_000);
+    try {
+      const status = await getCrankBotStatus();
+      res.writeHead(healthy ? 200 : 503, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ healthy, lastPassAt, lastPassMs, ...status }));
+    } catch (err) {
+      res.writeHead(503, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ healthy: false, lastPassAt, error: err instanceof Error ? err.message : String(err) }));
+    }
+  });
+  server.listen(port, () => console.log(`[crank-bot] Health on :${port}/health`));
+}
+
+function shutdown(signal: string): void {
+  if (stopping) return;
+  stopping = true;
+  if (timer) clearTimeout(timer);
+  server?.close();
+  console.log(`[crank-bot] ${signal} received, stopping`);
+  // An in-flight pass finishes (and logs its cranks) on its own.
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+if (!process.env.SLAB_HISTORY_DB) {
+  console.warn('[crank-bot] SLAB_HISTORY_DB is not set; the web app cannot see or control this bot');
+}
+if (HEALTH_PORT) startHealthServer(HEALTH_PORT);
+console.log(`[crank-bot] Starting, tick ${TICK_MS}ms`);
+void tick();
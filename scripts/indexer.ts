@@ -0,0 +1,45 @@
+/**
+ * Standalone slab indexer.
+ *
+ *   SLAB_HISTORY_DB=./data/history.db npm run indexer
+ *
+ * Runs runIndexerCycle() on a fixed interval until SIGINT/SIGTERM. Point the
+ * web app at the same SLAB_HISTORY_DB so it serves what this process records.
+ */
+import { runIndexerCycle } from '../src/lib/indexer';
+
+const INTERVAL_MS = Number(process.env.INDEXER_INTERVAL_MS) || 10_000;
+
+let stopping = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+async function tick(): Promise<void> {
+  try {
+    const result = await runIndexerCycle();
+    console.log(
+      `[indexer] ${result.slabsRecorded}/${result.slabsSeen} slabs in ${result.durationMs}ms` +
+        (result.failures > 0 ? ` (${result.failures} failed)` : ''),
+    );
+  } catch (err) {
+    console.error('[indexer] Cycle failed:', err);
+  }
+
+  if (!stopping) timer = setTimeout(tick, INTERVAL_MS);
+}
+
+function shutdown(signal: string): void {
+  if (stopping) return;
+  stopping = true;
+  if (timer) clearTimeout(timer);
+  console.log(`[indexer] ${signal} received, stopping`);
+  // An in-flight cycle finishes on its own; nothing is scheduled after it.
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+if (!process.env.SLAB_HISTORY_DB) {
+  console.warn('[indexer] SLAB_HISTORY_DB is not set; history stays in this process and the web app will not see it');
+}
+console.log(`[indexer] Starting, interval ${INTERVAL_MS}ms`);
+void tick();
@@ -0,0 +1,336 @@
+/**
+ * Offline Solana JSON-RPC stand-in, served from a scenario file.
+ *
+ * A scenario is a set of accounts (slabs, vaults, mints, oracles, matcher
+ * contexts) plus optional signature history. The server answers the RPC
+ * methods the terminal uses, so every route runs against it unchanged:
+ *
+ *   getProgramAccounts (dataSize / memcmp / dataSlice), getMultipleAccounts,
+ *   getAccountInfo, getSlot, getBlockHeight, getBalance, getTokenAccountBalance,
+ *   getSignaturesForAddress, getSignatureStatuses, getTransaction,
+ *   getLatestBlockhash, sendTransaction, simulateTransaction,
+ *   getRecentPrioritizationFees, getRecentPerformanceSamples, requestAirdrop
+ *
+ * The slot advances with wall time (~400ms). sendTransaction confirms
+ * immediately, and a KeeperCrank sets the slab's lastCrankSlot, so the crank
+ * bot can run end to end. Sent transactions join the scenario's recorded ones
+ * in getSignaturesForAddress / getTransaction, so they show up in activity.
+ *
+ * See scripts/mock-rpc.ts for the CLI and scripts/mock-scenario.ts for the
+ * scenario format and the synthetic default.
+ */
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import bs58 from 'bs58';
+import { decodeInstructionData, SLAB_ACCOUNT_INDEX } from '../src/lib/instructions';
+import { parseEngine, serializeEngine } from '../src/lib/percolator';
+import type { RecordedTransaction } from '../src/lib/tx-decoder';
+import { expandScenario, type MockAccount, type MockScenario } from './mock-scenario';
+
+interface RpcRequest {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  method: string;
+  params?: unknown[];
+}
+
+type Filter = { dataSize: number } | { memcmp: { offset: number; bytes: string; encoding?: 'base58' | 'base64' } };
+
+interface AccountConfig {
+  encoding?: string;
+  dataSlice?: { offset: number; length: number };
+  filters?: Filter[];
+  withContext?: boolean;
+}
+
+class RpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+const SLOT_MS = 400;
+const BLOCKHASH = bs58.encode(Buffer.alloc(32, 7));
+
+// ── Handler ─────────────────────────────────────────────────────────────
+
+export interface MockRpc {
+  handle(request: RpcRequest): unknown;
+  slot(): number;
+}
+
+export function createMockRpc(scenario: MockScenario): MockRpc {
+  const accounts = new Map<string, MockAccount>(expandScenario(scenario).map((a) => [a.pubkey, a]));
+  const transactions = new Map<string, RecordedTransaction>();
+  // Signatures per referenced account, newest first
+  const byAddress = new Map<string, string[]>();
+  const airdrops = new Set<string>();
+
+  function record(tx: RecordedTransaction): void {
+    transactions.set(tx.signature, tx);
+    for (const key of new Set(tx.accountKeys)) {
+      const list = byAddress.get(key) ?? [];
+      list.push(tx.signature);
+      list.sort((a, b) => transactions.get(b)!.slot - transactions.get(a)!.slot);
+      byAddress.set(key, list);
+    }
+  }
+  for (const tx of scenario.transactions ?? []) record(tx);
+
+  const startedAt = Date.now();
+  const slot = () => scenario.slot + Math.floor((Date.now() - startedAt) / SLOT_MS);
+  const context = () => ({ slot: slot(), apiVersion: '1.18.0' });
+
+  function encode(account: MockAccount, config: AccountConfig = {}) {
+    const slice = config.dataSlice;
+    const data = slice ? account.data.subarray(slice.offset, slice.offset + slice.length) : account.data;
+    return {
+      data: [data.toString('base64'), 'base64'],
+      executable: account.executable ?? false,
+      lamports: account.lamports,
+      owner: account.owner,
+      rentEpoch: 0,
+      space: account.data.length,
+    };
+  }
+
+  function matches(account: MockAccount, filters: Filter[] = []): boolean {
+    return filters.every((f) => {
+      if ('dataSize' in f) return account.data.length === f.dataSize;
+      const bytes = f.memcmp.encoding === 'base64' ? Buffer.from(f.memcmp.bytes, 'base64') : Buffer.from(bs58.decode(f.memcmp.bytes));
+      return account.data.subarray(f.memcmp.offset, f.memcmp.offset + bytes.length).equals(bytes);
+    });
+  }
+
+  function tokenBalance(address: string) {
+    const account = accounts.get(address);
+    if (!account || account.owner !== TOKEN_PROGRAM_ID.toBase58() || account.data.length < 72) {
+      throw new RpcError(-32602, `Invalid param: not a Token account`);
+    }
+    const amount = account.data.readBigUInt64LE(64);
+    const mint = accounts.get(new PublicKey(account.data.subarray(0, 32)).toBase58());
+    const decimals = mint && mint.data.length >= 45 ? mint.data.readUInt8(44) : 9;
+    const ui = Number(amount) / 10 ** decimals;
+    return { amount: amount.toString(), decimals, uiAmount: ui, uiAmountString: String(ui) };
+  }
+
+  /** Confirm a sent transaction and apply the effects we model (cranks) */
+  function accept(wire: Buffer): string {
+    const tx = VersionedTransaction.deserialize(wire);
+    const signature = bs58.encode(tx.signatures[0]);
+    const keys = tx.message.staticAccountKeys.map((k) => k.toBase58());
+    const now = slot();
+    const instructions = tx.message.compiledInstructions;
+
+    for (const ix of instructions) {
+      const decoded = decodeInstructionData(Buffer.from(ix.data));
+      if (decoded?.kind !== 'crank') continue;
+      const slab = accounts.get(keys[ix.accountKeyIndexes[SLAB_ACCOUNT_INDEX.crank]]);
+      if (!slab || slab.owner !== keys[ix.programIdIndex]) continue;
+      const engine = parseEngine(slab.data);
+      serializeEngine(slab.data, { ...engine, currentSlot: BigInt(now), lastCrankSlot: BigInt(now) });
+    }
+
+    record({
+      signature,
+      slot: now,
+      blockTime: Math.floor(Date.now() / 1000),
+      err: null,
+      accountKeys: keys,
+      instructions: instructions.map((ix) => ({
+        programIdIndex: ix.programIdIndex,
+        accounts: ix.accountKeyIndexes,
+        data: bs58.encode(ix.data),
+      })),
+      innerInstructions: [],
+    });
+    return signature;
+  }
+
+  /** getTransaction `json` encoding. The header is nominal: one signer, no readonly split. */
+  function renderTransaction(tx: RecordedTransaction) {
+    return {
+      slot: tx.slot,
+      blockTime: tx.blockTime,
+      version: 'legacy',
+      transaction: {
+        signatures: [tx.signature],
+        message: {
+          header: { numRequiredSignatures: 1, numReadonlySignedAccounts: 0, numReadonlyUnsignedAccounts: 0 },
+          accountKeys: tx.accountKeys,
+          recentBlockhash: BLOCKHASH,
+          instructions: tx.instructions,
+        },
+      },
+      meta: {
+        err: tx.err,
+        fee: 5_000,
+        preBalances: tx.accountKeys.map(() => 0),
+        postBalances: tx.accountKeys.map(() => 0),
+        innerInstructions: tx.innerInstructions,
+        logMessages: [],
+        computeUnitsConsumed: 12_000,
+        loadedAddresses: { writable: [], readonly: [] },
+      },
+    };
+  }
+
+  const methods: Record<string, (params: unknown[]) => unknown> = {
+    getHealth: () => 'ok',
+    getVersion: () => ({ 'solana-core': '1.18.0', 'feature-set': 0 }),
+    getSlot: () => slot(),
+    getBlockHeight: () => slot(),
+    getLatestBlockhash: () => ({ context: context(), value: { blockhash: BLOCKHASH, lastValidBlockHeight: slot() + 150 } }),
+
+    getAccountInfo: ([address, config]) => {
+      const account = accounts.get(address as string);
+      return { context: context(), value: account ? encode(account, config as AccountConfig) : null };
+    },
+
+    getMultipleAccounts: ([addresses, config]) => ({
+      context: context(),
+      value: (addresses as string[]).map((a) => {
+        const account = accounts.get(a);
+        return account ? encode(account, config as AccountConfig) : null;
+      }),
+    }),
+
+    getProgramAccounts: ([programId, rawConfig]) => {
+      const config = (rawConfig ?? {}) as AccountConfig;
+      const value = [...accounts.values()]
+        .filter((a) => a.owner === programId && matches(a, config.filters))
+        .map((a) => ({ pubkey: a.pubkey, account: encode(a, config) }));
+      return config.withContext ? { context: context(), value } : value;
+    },
+
+    getBalance: ([address]) => ({ context: context(), value: accounts.get(address as string)?.lamports ?? 0 }),
+
+    getTokenAccountBalance: ([address]) => ({ context: context(), value: tokenBalance(address as string) }),
+
+    getSignaturesForAddress: ([address, rawConfig]) => {
+      const limit = (rawConfig as { limit?: number } | undefined)?.limit ?? 1000;
+      return (byAddress.get(address as string) ?? []).slice(0, limit).map((signature) => {
+        const tx = transactions.get(signature)!;
+        return { signature, slot: tx.slot, blockTime: tx.blockTime, err: tx.err, memo: null, confirmationStatus: 'finalized' };
+      });
+    },
+
+    getSignatureStatuses: ([sigs]) => ({
+      context: context(),
+      value: (sigs as string[]).map((s) => {
+        const tx = transactions.get(s);
+        if (tx) return { slot: tx.slot, confirmations: null, err: tx.err, confirmationStatus: 'confirmed' };
+        return airdrops.has(s) ? { slot: slot(), confirmations: null, err: null, confirmationStatus: 'confirmed' } : null;
+      }),
+    }),
+
+    getTransaction: ([signature]) => {
+      const tx = transactions.get(signature as string);
+      return tx ? renderTransaction(tx) : null;
+    },
+
+    getRecentPrioritizationFees: () => [],
+
+    // One sample per minute at the mock's own slot pace
+    getRecentPerformanceSamples: ([limit]) => Array.from({ length: (limit as number | undefined) ?? 720 }, (_, i) => ({
+      slot: slot() - i * (60_000 / SLOT_MS),
+      numSlots: 60_000 / SLOT_MS,
+      numTransactions: 0,
+      numNonVoteTransactions: 0,
+      samplePeriodSecs: 60,
+    })),
+
+    simulateTransaction: () => ({
+      context: context(),
+      value: { err: null, logs: [], accounts: null, unitsConsumed: 12_000, returnData: null },
+    }),
+
+    sendTransaction: ([encoded, rawConfig]) => {
+      const encoding = (rawConfig as { encoding?: string } | undefined)?.encoding ?? 'base58';
+      const wire = encoding === 'base64' ? Buffer.from(encoded as string, 'base64') : Buffer.from(bs58.decode(encoded as string));
+      return accept(wire);
+    },
+
+    requestAirdrop: ([address, lamports]) => {
+      const account = accounts.get(address as string);
+      if (account) {
+        account.lamports += lamports as number;
+      } else {
+        accounts.set(address as string, {
+          pubkey: address as string,
+          owner: PublicKey.default.toBase58(),
+          lamports: lamports as number,
+          data: Buffer.alloc(0),
+        });
+      }
+      const signature = bs58.encode(Buffer.alloc(64, airdrops.size + 1));
+      airdrops.add(signature);
+      return signature;
+    },
+  };
+
+  return {
+    slot,
+    handle(request) {
+      const method = methods[request.method];
+      try {
+        if (!method) throw new RpcError(-32601, `Method not found: ${request.method}`);
+        return { jsonrpc: '2.0', id: request.id, result: method(request.params ?? []) };
+      } catch (err) {
+        const code = err instanceof RpcError ? err.code : -32603;
+        const message = err instanceof Error ? err.message : String(err);
+        return { jsonrpc: '2.0', id: request.id, error: { code, message } };
+      }
+    },
+  };
+}
+
+// ── HTTP server ─────────────────────────────────────────────────────────
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (c: Buffer) => chunks.push(c));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Serve `scenario` over HTTP JSON-RPC (single and batch requests).
+ * Resolves once listening.
+ */
+export function startMockRpcServer(
+  scenario: MockScenario,
+  port: number,
+  opts: { log?: boolean } = {},
+): Promise<{ server: Server; rpc: MockRpc; url: string }> {
+  const rpc = createMockRpc(scenario);
+
+  const server = createServer(async (req, res) => {
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+    try {
+      const body = JSON.parse(await readBody(req)) as RpcRequest | RpcRequest[];
+      const requests = Array.isArray(body) ? body : [body];
+      if (opts.log) for (const r of requests) console.log(`[mock-rpc] ${r.method}`);
+      const responses = requests.map((r) => rpc.handle(r));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(Array.isArray(body) ? responses : responses[0]));
+    } catch {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }));
+    }
+  });
+
+  return new Promise((resolve) => {
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address();
+      const actualPort = typeof address === 'object' && address ? address.port : port;
+      resolve({ server, rpc, url: `http://127.0.0.1:${actualPort}` });
+    });
+  });
+}
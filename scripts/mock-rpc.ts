@@ -0,0 +1,49 @@
+/**
+ * Mock RPC server CLI.
+ *
+ *   npm run mock-rpc                          # serve the built-in default scenario
+ *   npm run mock-rpc -- serve scenario.json   # serve a scenario file
+ *   npm run mock-rpc -- init scenario.json    # write the default scenario to edit
+ *
+ * Then point the app at it:
+ *
+ *   SOLANA_RPC_URL=http://127.0.0.1:8899 SOLANA_MAINNET_RPC_URL=http://127.0.0.1:8899 npm run dev
+ *
+ * MOCK_RPC_PORT overrides the port (default 8899); MOCK_RPC_LOG=1 logs each
+ * request's method.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { buildDefaultScenario, type MockScenario } from './mock-scenario';
+import { startMockRpcServer } from './mock-rpc-server';
+
+const PORT = Number(process.env.MOCK_RPC_PORT) || 8899;
+
+async function main(): Promise<void> {
+  const [command = 'serve', path] = process.argv.slice(2);
+
+  if (command === 'init') {
+    if (!path) throw new Error('Usage: mock-rpc init <scenario.json>');
+    const scenario = buildDefaultScenario();
+    writeFileSync(path, JSON.stringify(scenario, null, 2) + '\n');
+    console.log(`[mock-rpc] Wrote ${scenario.accounts.length} accounts to ${path}`);
+    return;
+  }
+
+  if (command !== 'serve') throw new Error(`Unknown command: ${command} (expected serve | init)`);
+
+  const scenario: MockScenario = path ? JSON.parse(readFileSync(path, 'utf8')) : buildDefaultScenario();
+  const { server, url } = await startMockRpcServer(scenario, PORT, { log: process.env.MOCK_RPC_LOG === '1' });
+  console.log(`[mock-rpc] ${scenario.accounts.length} accounts from ${path ?? 'default scenario'} on ${url}`);
+
+  const shutdown = () => {
+    console.log('[mock-rpc] Shutting down');
+    server.close(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((err) => {
+  console.error('[mock-rpc]', err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,399 @@
+/**
+ * Scenario files for the mock RPC server.
+ *
+ * A scenario is JSON:
+ *
+ *   {
+ *     "description": "...",
+ *     "slot": 350000000,
+ *     "accounts": [
+ *       { "pubkey": "...", "owner": "...", "lamports": 1, "space": 992560, "data": "<base64>" }
+ *     ],
+ *     "transactions": [<RecordedTransaction>, ...]
+ *   }
+ *
+ * `data` may omit trailing zero bytes when `space` gives the full account
+ * size, which keeps a scenario with several 992,560-byte slabs small.
+ * Transactions use the RecordedTransaction shape of fixtures/transactions and
+ * are listed by getSignaturesForAddress for every account they reference.
+ *
+ * buildDefaultScenario() produces one slab per registry program (the Toly
+ * slab at CONFIG.SLAB) with a few deposits, trades and cranks, their vaults,
+ * the wSOL mint, the Chainlink feed and both LP matcher contexts — enough for
+ * every /api/* route.
+ */
+import { createHash } from 'node:crypto';
+import { PublicKey, TransactionMessage, type TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import bs58 from 'bs58';
+import { CONFIG } from '../src/lib/constants';
+import {
+  buildDepositCollateralInstruction,
+  buildKeeperCrankInstruction,
+  buildTradeCpiInstruction,
+} from '../src/lib/instructions';
+import { PROGRAM_REGISTRY, type ProgramEntry } from '../src/lib/registry';
+import { serializeSlab } from '../src/lib/percolator';
+import { AccountKind, type Account, type SlabState } from '../src/lib/types';
+import type { RecordedTransaction } from '../src/lib/tx-decoder';
+
+// ── Format ──────────────────────────────────────────────────────────────
+
+export interface ScenarioAccount {
+  pubkey: string;
+  owner: string;
+  lamports?: number;
+  executable?: boolean;
+  /** Full data length; `data` is zero-padded up to it */
+  space?: number;
+  /** Base64 account data */
+  data: string;
+}
+
+export interface MockScenario {
+  description?: string;
+  /** Slot at server start; advances ~every 400ms */
+  slot: number;
+  accounts: ScenarioAccount[];
+  transactions?: RecordedTransaction[];
+}
+
+/** A scenario account with its data expanded to full size */
+export interface MockAccount {
+  pubkey: string;
+  owner: string;
+  lamports: number;
+  executable?: boolean;
+  data: Buffer;
+}
+
+export function expandScenario(scenario: MockScenario): MockAccount[] {
+  return scenario.accounts.map((a) => {
+    const raw = Buffer.from(a.data, 'base64');
+    const data = Buffer.alloc(Math.max(a.space ?? 0, raw.length));
+    raw.copy(data);
+    return {
+      pubkey: a.pubkey,
+      owner: a.owner,
+      lamports: a.lamports ?? rentExempt(data.length),
+      executable: a.executable,
+      data,
+    };
+  });
+}
+
+/** Encode account data for a scenario, trimming trailing zeros */
+export function compactAccount(pubkey: PublicKey, owner: PublicKey, data: Buffer): ScenarioAccount {
+  let end = data.length;
+  while (end > 0 && data[end - 1] === 0) end--;
+  return {
+    pubkey: pubkey.toBase58(),
+    owner: owner.toBase58(),
+    space: data.length,
+    data: data.subarray(0, end).toString('base64'),
+  };
+}
+
+function rentExempt(space: number): number {
+  return (space + 128) * 6_960;
+}
+
+// ── Default scenario ────────────────────────────────────────────────────
+
+const MAGIC = 0x504552434f4c4154n; // "PERCOLAT"
+const START_SLOT = 350_000_000;
+const SOL_USD = 150;
+// Chainlink OCR2 store program (owner of the devnet SOL/USD feed)
+const CHAINLINK_STORE = new PublicKey('HEvSKofvBgfaexv23kMabbYqxasxU3mQ4ibBMEmJWHny');
+
+function derivedKey(seed: string): PublicKey {
+  return new PublicKey(createHash('sha256').update(`mock-rpc:${seed}`).digest());
+}
+
+function fakeSignature(seed: string): string {
+  const h = createHash('sha512').update(`mock-rpc:${seed}`).digest();
+  return bs58.encode(h);
+}
+
+/** Compile instructions into the RecordedTransaction shape (legacy message) */
+function recordTransaction(seed: string, slot: number, payer: PublicKey, ixs: TransactionInstruction[]): RecordedTransaction {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions: ixs,
+  }).compileToLegacyMessage();
+
+  return {
+    signature: fakeSignature(seed),
+    slot,
+    blockTime: null,
+    err: null,
+    accountKeys: message.accountKeys.map((k) => k.toBase58()),
+    instructions: message.instructions.map((ix) => ({
+      programIdIndex: ix.programIdIndex,
+      accounts: ix.accounts,
+      data: ix.data,
+    })),
+    innerInstructions: [],
+  };
+}
+
+/** A deposit, a matcher trade and a crank on each slab, oldest first */
+function slabHistory(entry: ProgramEntry, slab: PublicKey, state: SlabState): RecordedTransaction[] {
+  const programId = new PublicKey(entry.programId);
+  const lp = state.accounts[0];
+  const { idx: userIdx, account: user } = state.accounts.find((a) => a.account.kind === AccountKind.User)!;
+  const keeper = derivedKey(`keeper:${entry.id}`);
+
+  return [
+    recordTransaction(`${entry.id}:deposit`, START_SLOT - 300, user.owner, [
+      buildDepositCollateralInstruction(
+        { user: user.owner, slab, userAta: derivedKey(`ata:${entry.id}`), vault: state.config.vaultPubkey },
+        userIdx,
+        user.capital,
+        programId,
+      ),
+    ]),
+    recordTransaction(`${entry.id}:trade`, START_SLOT - 200, user.owner, [
+      buildTradeCpiInstruction(
+        { user: user.owner, lpOwner: lp.account.owner, slab, matcherContext: lp.account.matcherContext, oracle: state.config.indexFeedId },
+        { lpIdx: lp.idx, userIdx, size: user.positionSize },
+        programId,
+      ),
+    ]),
+    recordTransaction(`${entry.id}:crank`, START_SLOT - 20, keeper, [
+      buildKeeperCrankInstruction(keeper, slab, state.config.indexFeedId, undefined, programId),
+    ]),
+  ];
+}
+
+function account(seed: string, kind: AccountKind, fields: Partial<Account>): Account {
+  return {
+    kind,
+    accountId: 0n,
+    capital: 0n,
+    pnl: 0n,
+    reservedPnl: 0n,
+    warmupStartedAtSlot: 0n,
+    warmupSlopePerStep: 0n,
+    positionSize: 0n,
+    entryPrice: 0n,
+    fundingIndex: 0n,
+    matcherProgram: PublicKey.default,
+    matcherContext: PublicKey.default,
+    owner: derivedKey(`owner:${seed}`),
+    feeCredits: 0n,
+    lastFeeSlot: 0n,
+    ...fields,
+  };
+}
+
+/** An LP at index 0 and a spread of long/short users, one near liquidation */
+function slabState(entry: ProgramEntry, vault: PublicKey, lpContexts: PublicKey[]): SlabState {
+  const inverted = entry.id === 'toly-original';
+  const priceE6 = inverted ? 1_000_000_000_000n / BigInt(SOL_USD * 1_000_000) : BigInt(SOL_USD * 1_000_000);
+  const slot = BigInt(START_SLOT);
+
+  const accounts: SlabState['accounts'] = lpContexts.map((ctx, i) => ({
+    idx: i,
+    account: account(`${entry.id}:lp${i}`, AccountKind.LP, {
+      accountId: BigInt(i + 1),
+      capital: 500_000_000_000n,
+      matcherProgram: CONFIG.MATCHER_PROGRAM,
+      matcherContext: ctx,
+    }),
+  }));
+
+  const users: [capital: bigint, position: bigint, pnl: bigint][] = [
+    [10_000_000_000n, 40_000_000_000n, 120_000_000n],
+    [5_000_000_000n, -25_000_000_000n, -80_000_000n],
+    [2_000_000_000n, 0n, 0n],
+    [8_000_000_000n, -60_000_000_000n, 310_000_000n],
+    [300_000_000n, 18_000_000_000n, -250_000_000n],
+  ];
+  let netUser = 0n;
+  for (const [capital, positionSize, pnl] of users) {
+    const idx = accounts.length;
+    netUser += positionSize;
+    accounts.push({
+      idx,
+      account: account(`${entry.id}:user${idx}`, AccountKind.User, {
+        accountId: BigInt(idx + 1),
+        capital,
+        positionSize,
+        pnl,
+        entryPrice: priceE6,
+        lastFeeSlot: slot - 100n,
+      }),
+    });
+  }
+
+  const totalCapital = accounts.reduce((sum, a) => sum + a.account.capital, 0n);
+  const openInterest = users.reduce((sum, [, p]) => sum + (p < 0n ? -p : p), 0n);
+
+  return {
+    header: {
+      magic: MAGIC,
+      version: 1,
+      bump: 255,
+      flags: 0,
+      resolved: false,
+      admin: derivedKey(`admin:${entry.id}`),
+      nonce: 0n,
+      lastThrUpdateSlot: slot - 50n,
+    },
+    config: {
+      collateralMint: CONFIG.MINT,
+      vaultPubkey: vault,
+      indexFeedId: new PublicKey(entry.oracleAddress ?? CONFIG.ORACLE),
+      maxStalenessSlots: 100n,
+      confFilterBps: 50,
+      vaultAuthorityBump: 254,
+      invert: inverted ? 1 : 0,
+      unitScale: 0,
+      fundingHorizonSlots: 500n,
+      fundingKBps: 100n,
+      fundingInvScaleNotionalE6: 1_000_000_000_000n,
+      fundingMaxPremiumBps: 500n,
+      fundingMaxBpsPerSlot: 5n,
+      threshFloor: 0n,
+      threshRiskBps: 50n,
+      threshUpdateIntervalSlots: 10n,
+      threshStepBps: 50n,
+      threshAlphaBps: 1_000n,
+      threshMin: 0n,
+      threshMax: 10_000_000_000_000n,
+      threshMinStep: 1n,
+      oracleAuthority: PublicKey.default,
+      authorityPriceE6: 0n,
+      authorityTimestamp: 0n,
+      oraclePriceCapE2bps: 0n,
+      lastEffectivePriceE6: priceE6,
+    },
+    params: {
+      warmupPeriodSlots: 100n,
+      maintenanceMarginBps: 500n,
+      initialMarginBps: 1_000n,
+      tradingFeeBps: 10n,
+      maxAccounts: BigInt(Math.floor((entry.slabSizes[0] - 9_528) / 240)),
+      newAccountFee: 1_000_000n,
+      riskReductionThreshold: 0n,
+      maintenanceFeePerSlot: 0n,
+      maxCrankStalenessSlots: 200n,
+      liquidationFeeBps: 100n,
+      liquidationFeeCap: 1_000_000_000n,
+      liquidationBufferBps: 50n,
+      minLiquidationAbs: 100_000n,
+    },
+    engine: {
+      vault: totalCapital,
+      insuranceFund: { balance: 25_000_000_000n, feeRevenue: 1_250_000_000n },
+      currentSlot: slot - 20n,
+      fundingIndexQpbE6: 15_000n,  // one slot at 1bps on $150; accounts hold unsettled funding
+      lastFundingSlot: slot - 20n,
+      fundingRateBpsPerSlotLast: 1n,
+      lastCrankSlot: slot - 20n,
+      maxCrankStalenessSlots: 200n,
+      totalOpenInterest: openInterest,
+      cTot: totalCapital,
+      pnlPosTot: 430_000_000n,
+      liqCursor: 0,
+      gcCursor: 0,
+      lastSweepStartSlot: slot - 40n,
+      lastSweepCompleteSlot: slot - 30n,
+      crankCursor: 0,
+      sweepStartIdx: 0,
+      lifetimeLiquidations: 3n,
+      lifetimeForceCloses: 0n,
+      netLpPos: -netUser,
+      lpSumAbs: netUser < 0n ? -netUser : netUser,
+      lpMaxAbs: netUser < 0n ? -netUser : netUser,
+      lpMaxAbsSweep: netUser < 0n ? -netUser : netUser,
+      numUsedAccounts: accounts.length,
+      nextAccountId: BigInt(accounts.length + 1),
+    },
+    accounts,
+  };
+}
+
+/** SPL token account: mint, owner, amount, initialized */
+function tokenAccount(mint: PublicKey, owner: PublicKey, amount: bigint): Buffer {
+  const data = Buffer.alloc(165);
+  mint.toBuffer().copy(data, 0);
+  owner.toBuffer().copy(data, 32);
+  data.writeBigUInt64LE(amount, 64);
+  data.writeUInt8(1, 108);
+  return data;
+}
+
+/** SPL mint: decimals at 44, initialized at 45 */
+function mintAccount(decimals: number): Buffer {
+  const data = Buffer.alloc(82);
+  data.writeUInt8(decimals, 44);
+  data.writeUInt8(1, 45);
+  return data;
+}
+
+/** Chainlink OCR2 feed as read by oracle.ts: decimals @138, round slot @200, timestamp @208, answer @216 */
+function chainlinkFeed(decimals: number, usd: number, slot: number): Buffer {
+  const data = Buffer.alloc(256);
+  data.writeUInt8(decimals, 138);
+  data.writeBigUInt64LE(BigInt(slot), 200);
+  data.writeUInt32LE(Math.floor(Date.now() / 1000), 208);
+  data.writeBigInt64LE(BigInt(Math.round(usd * 10 ** decimals)), 216);
+  return data;
+}
+
+/** Matcher context as read by matcher.ts (fields from offset 64) */
+function matcherContext(kind: 0 | 1, lpPda: PublicKey, oraclePriceE6: bigint): Buffer {
+  const data = Buffer.alloc(320);
+  const base = 64;
+  data.writeBigUInt64LE(0x4d41544348455200n, base); // "MATCHER"
+  data.writeUInt32LE(1, base + 8);
+  data.writeUInt8(kind, base + 12);
+  lpPda.toBuffer().copy(data, base + 16);
+  data.writeUInt32LE(kind === 0 ? 0 : 5, base + 48);
+  data.writeUInt32LE(50, base + 52);
+  data.writeUInt32LE(200, base + 56);
+  data.writeUInt32LE(kind === 0 ? 0 : 10, base + 60);
+  data.writeBigUInt64LE(1_000_000_000_000n, base + 64);
+  data.writeBigUInt64LE(50_000_000_000n, base + 80);
+  data.writeBigUInt64LE(oraclePriceE6, base + 112);
+  data.writeBigUInt64LE(oraclePriceE6, base + 120);
+  data.writeBigUInt64LE(500_000_000_000n, base + 128);
+  return data;
+}
+
+export function buildDefaultScenario(): MockScenario {
+  const accounts: ScenarioAccount[] = [];
+  const transactions: RecordedTransaction[] = [];
+
+  for (const entry of PROGRAM_REGISTRY) {
+    const isToly = entry.id === 'toly-original';
+    const slab = isToly ? CONFIG.SLAB : derivedKey(`slab:${entry.id}`);
+    const vault = isToly ? CONFIG.VAULT : derivedKey(`vault:${entry.id}`);
+    const lpContexts = isToly ? [CONFIG.LP0_MATCHER_CTX, CONFIG.LP4_MATCHER_CTX] : [derivedKey(`matcher:${entry.id}`)];
+
+    const state = slabState(entry, vault, lpContexts);
+    accounts.push(compactAccount(slab, new PublicKey(entry.programId), serializeSlab(state, entry.slabSizes[0])));
+    accounts.push(compactAccount(vault, TOKEN_PROGRAM_ID, tokenAccount(CONFIG.MINT, CONFIG.VAULT_PDA, state.engine.vault)));
+
+    if (isToly) {
+      const priceE6 = state.config.lastEffectivePriceE6;
+      accounts.push(compactAccount(CONFIG.LP0_MATCHER_CTX, CONFIG.MATCHER_PROGRAM, matcherContext(0, CONFIG.LP0_PDA, priceE6)));
+      accounts.push(compactAccount(CONFIG.LP4_MATCHER_CTX, CONFIG.MATCHER_PROGRAM, matcherContext(1, CONFIG.LP4_PDA, priceE6)));
+    }
+
+    transactions.push(...slabHistory(entry, slab, state));
+  }
+
+  accounts.push(compactAccount(CONFIG.MINT, TOKEN_PROGRAM_ID, mintAccount(9)));
+  accounts.push(compactAccount(CONFIG.ORACLE, CHAINLINK_STORE, chainlinkFeed(8, SOL_USD, START_SLOT - 5)));
+
+  return {
+    description: 'One slab per registry program, vaults, wSOL mint, Chainlink SOL/USD feed and LP matcher contexts',
+    slot: START_SLOT,
+    accounts,
+    transactions,
+  };
+}
@@ -0,0 +1,531 @@
+/**
+ * Slab fixture corpus and parser round-trip check.
+ *
+ *   npm run slab-fixtures
+ *
+ * Each corpus entry is a typed SlabHeader / MarketConfig / RiskParams /
+ * EngineState plus accounts, synthesized into a slab buffer of one of the
+ * three deployed sizes and parsed back with percolator.ts. Every parser
+ * must return exactly what went in.
+ *
+ * The synthesizer lays structs out from the Rust field order and alignment
+ * (LayoutWriter below), not from the layout registry, so a wrong offset
+ * in slab-layout.ts shows up as a mismatch here. The same
+ * independence checks serializeSlab: its output must equal the synthesized
+ * buffer byte for byte. A header version with no registered layout must be
+ * rejected rather than parsed.
+ */
+import { PublicKey } from '@solana/web3.js';
+import {
+  parseAllAccounts,
+  parseConfig,
+  parseCrankState,
+  parseEngine,
+  parseHeader,
+  parseParams,
+  parseSlab,
+  parseUsedIndices,
+  serializeSlab,
+  setAccountUsed,
+} from '../src/lib/percolator';
+import {
+  AccountKind,
+  type Account,
+  type EngineState,
+  type MarketConfig,
+  type RiskParams,
+  type SlabHeader,
+} from '../src/lib/types';
+
+// ── Layout ──────────────────────────────────────────────────────────────
+
+/** Slab account sizes in the registry */
+type SlabSize = 62_808 | 249_480 | 992_560;
+
+const MAGIC = 0x504552434f4c4154n; // "PERCOLAT"
+const MAX_ACCOUNTS = 4096;
+const ACCOUNT_LEN = 240;
+
+const U64_MAX = (1n << 64n) - 1n;
+const U128_MAX = (1n << 128n) - 1n;
+const I64_MIN = -(1n << 63n);
+const I128_MIN = -(1n << 127n);
+const I128_MAX = (1n << 127n) - 1n;
+
+/**
+ * Sequential little-endian writer with repr(C) alignment (SBF: u128 is
+ * 8-aligned). Fields are written in declaration order.
+ */
+class LayoutWriter {
+  private off: number;
+
+  constructor(private readonly buf: Buffer, private readonly base: number) {
+    this.off = base;
+  }
+
+  /** Bytes written since `base` */
+  get size(): number {
+    return this.off - this.base;
+  }
+
+  private align(n: number): void {
+    const rel = this.size % n;
+    if (rel !== 0) this.off += n - rel;
+  }
+
+  u8(v: number): this { this.buf.writeUInt8(v, this.off); this.off += 1; return this; }
+  u16(v: number): this { this.align(2); this.buf.writeUInt16LE(v, this.off); this.off += 2; return this; }
+  u32(v: number): this { this.align(4); this.buf.writeUInt32LE(v, this.off); this.off += 4; return this; }
+  u64(v: bigint): this { this.align(8); this.buf.writeBigUInt64LE(v, this.off); this.off += 8; return this; }
+  i64(v: bigint): this { this.align(8); this.buf.writeBigInt64LE(v, this.off); this.off += 8; return this; }
+
+  u128(v: bigint): this {
+    this.align(8);
+    this.buf.writeBigUInt64LE(v & U64_MAX, this.off);
+    this.buf.writeBigUInt64LE(v >> 64n, this.off + 8);
+    this.off += 16;
+    return this;
+  }
+
+  i128(v: bigint): this {
+    return this.u128(v & U128_MAX);
+  }
+
+  pubkey(v: PublicKey): this {
+    v.toBuffer().copy(this.buf, this.off);
+    this.off += 32;
+    return this;
+  }
+
+  /** Explicit padding / reserved bytes (left zero) */
+  skip(n: number): this { this.off += n; return this; }
+
+  /** Close the struct: pad to 8 and assert its size */
+  end(name: string, expected: number): number {
+    this.align(8);
+    if (this.size !== expected) throw new Error(`${name} laid out as ${this.size} bytes, expected ${expected}`);
+    return this.off;
+  }
+}
+
+interface SlabFixture {
+  name: string;
+  size: SlabSize;
+  header: SlabHeader;
+  config: MarketConfig;
+  params: RiskParams;
+  engine: EngineState;
+  accounts: { idx: number; account: Account }[];
+}
+
+/** Accounts that fit in a slab of `size` bytes with the 4096-slot engine header */
+function accountCapacity(size: number): number {
+  return Math.floor((size - 72 - 320 - 9136) / ACCOUNT_LEN);
+}
+
+function synthesizeSlab(f: SlabFixture): Buffer {
+  const buf = Buffer.alloc(f.size);
+
+  // SlabHeader
+  const h = f.header;
+  const configOff = new LayoutWriter(buf, 0)
+    .u64(h.magic).u32(h.version).u8(h.bump).u8(h.flags).skip(2).pubkey(h.admin)
+    .u64(h.nonce).u64(h.lastThrUpdateSlot).skip(8)
+    .end('SlabHeader', 72);
+
+  // MarketConfig
+  const c = f.config;
+  const engineOff = new LayoutWriter(buf, configOff)
+    .pubkey(c.collateralMint).pubkey(c.vaultPubkey).pubkey(c.indexFeedId)
+    .u64(c.maxStalenessSlots).u16(c.confFilterBps).u8(c.vaultAuthorityBump).u8(c.invert).u32(c.unitScale)
+    .u64(c.fundingHorizonSlots).u64(c.fundingKBps).i128(c.fundingInvScaleNotionalE6)
+    .u64(c.fundingMaxPremiumBps).u64(c.fundingMaxBpsPerSlot)
+    .u128(c.threshFloor).u64(c.threshRiskBps).u64(c.threshUpdateIntervalSlots)
+    .u64(c.threshStepBps).u64(c.threshAlphaBps).u128(c.threshMin).u128(c.threshMax).u128(c.threshMinStep)
+    .pubkey(c.oracleAuthority).u64(c.authorityPriceE6).i64(c.authorityTimestamp)
+    .u64(c.oraclePriceCapE2bps).u64(c.lastEffectivePriceE6)
+    .end('MarketConfig', 320);
+
+  // RiskEngine, up to its params
+  const e = f.engine;
+  const paramsOff = new LayoutWriter(buf, engineOff)
+    .u128(e.vault).u128(e.insuranceFund.balance).u128(e.insuranceFund.feeRevenue)
+    .end('RiskEngine prefix', 48);
+
+  // RiskParams
+  const p = f.params;
+  const afterParams = new LayoutWriter(buf, paramsOff)
+    .u64(p.warmupPeriodSlots).u64(p.maintenanceMarginBps).u64(p.initialMarginBps).u64(p.tradingFeeBps)
+    .u64(p.maxAccounts).u128(p.newAccountFee).u128(p.riskReductionThreshold).u128(p.maintenanceFeePerSlot)
+    .u64(p.maxCrankStalenessSlots).u64(p.liquidationFeeBps).u128(p.liquidationFeeCap)
+    .u64(p.liquidationBufferBps).u128(p.minLiquidationAbs)
+    .end('RiskParams', 144);
+
+  // Bitmap: every fixture index, including ones past the buffer's capacity
+  const bitmap = new Array<bigint>(MAX_ACCOUNTS / 64).fill(0n);
+  for (const { idx } of f.accounts) bitmap[idx >> 6] |= 1n << BigInt(idx & 63);
+
+  // Rest of RiskEngine
+  const w = new LayoutWriter(buf, afterParams)
+    .u64(e.currentSlot).i128(e.fundingIndexQpbE6).u64(e.lastFundingSlot).i64(e.fundingRateBpsPerSlotLast)
+    .u64(e.lastCrankSlot).u64(e.maxCrankStalenessSlots)
+    .u128(e.totalOpenInterest).u128(e.cTot).u128(e.pnlPosTot)
+    .u16(e.liqCursor).u16(e.gcCursor).u64(e.lastSweepStartSlot).u64(e.lastSweepCompleteSlot)
+    .u16(e.crankCursor).u16(e.sweepStartIdx).u64(e.lifetimeLiquidations).u64(e.lifetimeForceCloses)
+    .i128(e.netLpPos).u128(e.lpSumAbs).u128(e.lpMaxAbs).u128(e.lpMaxAbsSweep);
+  for (const word of bitmap) w.u64(word);
+  w.u16(e.numUsedAccounts).u64(e.nextAccountId).u16(0 /* free_head */);
+  for (let i = 0; i < MAX_ACCOUNTS; i++) w.u16(0 /* next_free */);
+  const accountsOff = w.end('RiskEngine header', 9136 - 192);
+
+  // Accounts
+  const capacity = accountCapacity(f.size);
+  for (const { idx, account: a } of f.accounts) {
+    if (idx >= capacity) continue;
+    new LayoutWriter(buf, accountsOff + idx * ACCOUNT_LEN)
+      .u64(a.accountId).u128(a.capital).u8(a.kind).i128(a.pnl).u64(a.reservedPnl)
+      .u64(a.warmupStartedAtSlot).u128(a.warmupSlopePerStep).i128(a.positionSize)
+      .u64(a.entryPrice).i128(a.fundingIndex)
+      .pubkey(a.matcherProgram).pubkey(a.matcherContext).pubkey(a.owner)
+      .i128(a.feeCredits).u64(a.lastFeeSlot)
+      .end('Account', ACCOUNT_LEN);
+  }
+
+  return buf;
+}
+
+// ── Corpus ──────────────────────────────────────────────────────────────
+
+const key = (n: number) => new PublicKey(Buffer.alloc(32, n));
+
+/** Deterministic PRNG (mulberry32) so the random entry is reproducible */
+function prng(seed: number): () => number {
+  let s = seed >>> 0;
+  return () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomBits(rand: () => number, bits: number): bigint {
+  let v = 0n;
+  for (let i = 0; i < bits; i += 32) v = (v << 32n) | BigInt(Math.floor(rand() * 2 ** 32));
+  return v & ((1n << BigInt(bits)) - 1n);
+}
+
+function header(overrides: Partial<SlabHeader> = {}): SlabHeader {
+  const h: SlabHeader = {
+    magic: MAGIC,
+    version: 1,
+    bump: 254,
+    flags: 0,
+    resolved: false,
+    admin: key(3),
+    nonce: 42n,
+    lastThrUpdateSlot: 1_000n,
+    ...overrides,
+  };
+  return { ...h, resolved: (h.flags & 1) !== 0 };
+}
+
+function config(overrides: Partial<MarketConfig> = {}): MarketConfig {
+  return {
+    collateralMint: key(4),
+    vaultPubkey: key(21),
+    indexFeedId: key(5),
+    maxStalenessSlots: 150n,
+    confFilterBps: 50,
+    vaultAuthorityBump: 255,
+    invert: 1,
+    unitScale: 1000,
+    fundingHorizonSlots: 500n,
+    fundingKBps: 100n,
+    fundingInvScaleNotionalE6: 1_000_000_000_000n,
+    fundingMaxPremiumBps: 500n,
+    fundingMaxBpsPerSlot: 5n,
+    threshFloor: 0n,
+    threshRiskBps: 50n,
+    threshUpdateIntervalSlots: 10n,
+    threshStepBps: 500n,
+    threshAlphaBps: 1000n,
+    threshMin: 0n,
+    threshMax: 10n ** 18n,
+    threshMinStep: 1n,
+    oracleAuthority: key(6),
+    authorityPriceE6: 142_350_000n,
+    authorityTimestamp: 1_700_000_000n,
+    oraclePriceCapE2bps: 10_000n,
+    lastEffectivePriceE6: 142_000_000n,
+    ...overrides,
+  };
+}
+
+function params(overrides: Partial<RiskParams> = {}): RiskParams {
+  return {
+    warmupPeriodSlots: 100n,
+    maintenanceMarginBps: 500n,
+    initialMarginBps: 1000n,
+    tradingFeeBps: 10n,
+    maxAccounts: 4096n,
+    newAccountFee: 1_000_000n,
+    riskReductionThreshold: 0n,
+    maintenanceFeePerSlot: 0n,
+    maxCrankStalenessSlots: 200n,
+    liquidationFeeBps: 50n,
+    liquidationFeeCap: 10n ** 12n,
+    liquidationBufferBps: 25n,
+    minLiquidationAbs: 1n,
+    ...overrides,
+  };
+}
+
+function engine(overrides: Partial<EngineState> = {}): EngineState {
+  return {
+    vault: 5_000_000_000n,
+    insuranceFund: { balance: 100_000_000n, feeRevenue: 2_500_000n },
+    currentSlot: 350_000_000n,
+    fundingIndexQpbE6: 0n,
+    lastFundingSlot: 349_999_990n,
+    fundingRateBpsPerSlotLast: 0n,
+    lastCrankSlot: 349_999_995n,
+    maxCrankStalenessSlots: 200n,
+    totalOpenInterest: 0n,
+    cTot: 0n,
+    pnlPosTot: 0n,
+    liqCursor: 0,
+    gcCursor: 0,
+    lastSweepStartSlot: 0n,
+    lastSweepCompleteSlot: 0n,
+    crankCursor: 0,
+    sweepStartIdx: 0,
+    lifetimeLiquidations: 0n,
+    lifetimeForceCloses: 0n,
+    netLpPos: 0n,
+    lpSumAbs: 0n,
+    lpMaxAbs: 0n,
+    lpMaxAbsSweep: 0n,
+    numUsedAccounts: 0,
+    nextAccountId: 0n,
+    ...overrides,
+  };
+}
+
+function account(idx: number, overrides: Partial<Account> = {}): { idx: number; account: Account } {
+  return {
+    idx,
+    account: {
+      kind: AccountKind.User,
+      accountId: BigInt(idx),
+      capital: 1_000_000_000n,
+      pnl: 0n,
+      reservedPnl: 0n,
+      warmupStartedAtSlot: 0n,
+      warmupSlopePerStep: 0n,
+      positionSize: 0n,
+      entryPrice: 0n,
+      fundingIndex: 0n,
+      matcherProgram: PublicKey.default,
+      matcherContext: PublicKey.default,
+      owner: key(100 + (idx % 100)),
+      feeCredits: 0n,
+      lastFeeSlot: 0n,
+      ...overrides,
+    },
+  };
+}
+
+function randomAccount(rand: () => number, idx: number): { idx: number; account: Account } {
+  const signed = (bits: number) => randomBits(rand, bits) - (1n << BigInt(bits - 1));
+  return account(idx, {
+    kind: rand() < 0.1 ? AccountKind.LP : AccountKind.User,
+    accountId: randomBits(rand, 64),
+    capital: randomBits(rand, 128),
+    pnl: signed(128),
+    reservedPnl: randomBits(rand, 64),
+    warmupStartedAtSlot: randomBits(rand, 64),
+    warmupSlopePerStep: randomBits(rand, 128),
+    positionSize: signed(128),
+    entryPrice: randomBits(rand, 64),
+    fundingIndex: signed(128),
+    matcherProgram: key(Math.floor(rand() * 256)),
+    matcherContext: key(Math.floor(rand() * 256)),
+    owner: key(Math.floor(rand() * 256)),
+    feeCredits: signed(128),
+    lastFeeSlot: randomBits(rand, 64),
+  });
+}
+
+/** i128 values that stress two's complement across the 64-bit halves */
+const I128_EDGES = [0n, 1n, -1n, I128_MIN, I128_MAX, -(1n << 64n), (1n << 64n) - 1n, 1n << 64n, I64_MIN, -(1n << 64n) - 1n];
+
+const CORPUS: SlabFixture[] = (() => {
+  const rand = prng(0x5eed);
+  const smallCap = accountCapacity(62_808);
+  const mediumCap = accountCapacity(249_480);
+  const largeCap = accountCapacity(992_560);
+
+  return [
+    {
+      name: 'small, empty market',
+      size: 62_808,
+      header: header(),
+      config: config(),
+      params: params({ maxAccounts: 256n }),
+      engine: engine(),
+      accounts: [],
+    },
+    {
+      name: 'small, bitmap word boundaries + index past capacity',
+      size: 62_808,
+      header: header({ flags: 1 }),
+      config: config({ invert: 0 }),
+      params: params({ maxAccounts: 256n }),
+      engine: engine({ numUsedAccounts: 7, nextAccountId: 300n }),
+      accounts: [0, 63, 64, 127, 128, smallCap - 1, smallCap].map((i) => account(i)),
+    },
+    {
+      name: 'medium, i128 sign edges',
+      size: 249_480,
+      header: header({ version: 0, bump: 0, flags: 0xff, nonce: U64_MAX, lastThrUpdateSlot: U64_MAX }),
+      config: config({
+        fundingInvScaleNotionalE6: I128_MIN,
+        threshFloor: U128_MAX,
+        threshMax: U128_MAX,
+        authorityTimestamp: I64_MIN,
+        authorityPriceE6: U64_MAX,
+        unitScale: 0xffff_ffff,
+        confFilterBps: 0xffff,
+      }),
+      params: params({ newAccountFee: U128_MAX, riskReductionThreshold: 1n << 127n, maintenanceFeePerSlot: 1n << 64n }),
+      engine: engine({
+        fundingIndexQpbE6: I128_MAX,
+        fundingRateBpsPerSlotLast: I64_MIN,
+        netLpPos: I128_MIN,
+        totalOpenInterest: U128_MAX,
+        liqCursor: 0xffff,
+        crankCursor: mediumCap - 1,
+        numUsedAccounts: I128_EDGES.length + 1,
+      }),
+      accounts: [
+        ...I128_EDGES.map((v, i) =>
+          account(i, { pnl: v, positionSize: v === I128_MIN ? I128_MAX : -v, fundingIndex: v, feeCredits: v === 0n ? -1n : v, kind: i % 2 ? AccountKind.LP : AccountKind.User }),
+        ),
+        account(mediumCap - 1, { pnl: I128_MIN, positionSize: I128_MAX, capital: U128_MAX }),
+      ],
+    },
+    {
+      name: 'large, last bitmap word + random accounts',
+      size: 992_560,
+      header: header(),
+      config: config(),
+      params: params(),
+      engine: engine({ numUsedAccounts: 300, nextAccountId: 10_000n, netLpPos: -123_456_789n }),
+      accounts: [
+        ...Array.from({ length: 256 }, (_, i) => randomAccount(rand, i * 15)),
+        ...[4032, 4033, 4094].map((i) => randomAccount(rand, i)),
+        // Slot 4095 is set in the bitmap but its account doesn't fit in 992,560 bytes
+        account(largeCap),
+      ],
+    },
+  ];
+})();
+
+// ── Checks ──────────────────────────────────────────────────────────────
+
+const canonical = (v: unknown) =>
+  JSON.stringify(v, (_key, value) => (typeof value === 'bigint' ? `${value}n` : value), 2);
+
+function checkFixture(f: SlabFixture): string[] {
+  const problems: string[] = [];
+  const buf = synthesizeSlab(f);
+  const capacity = accountCapacity(f.size);
+  const expectedAccounts = f.accounts.filter((a) => a.idx < capacity).sort((a, b) => a.idx - b.idx);
+
+  const compare = (name: string, actual: () => unknown, expected: unknown) => {
+    try {
+      const a = canonical(actual()).split('\n');
+      const e = canonical(expected).split('\n');
+      // Report the first differing line with its index, not the whole dump
+      const i = e.findIndex((line, j) => line !== a[j]);
+      if (i >= 0 || a.length !== e.length) {
+        const at = i >= 0 ? i : Math.min(a.length, e.length);
+        problems.push(`${name} (line ${at + 1})\n      expected ${e[at]?.trim()}\n      actual   ${a[at]?.trim()}`);
+      }
+    } catch (err) {
+      problems.push(`${name} threw: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  compare('parseHeader', () => parseHeader(buf), f.header);
+  compare('parseConfig', () => parseConfig(buf), f.config);
+  compare('parseParams', () => parseParams(buf), f.params);
+  compare('parseEngine', () => parseEngine(buf), f.engine);
+  compare('parseUsedIndices', () => parseUsedIndices(buf), [...new Set(f.accounts.map((a) => a.idx))].sort((a, b) => a - b));
+  compare('parseAllAccounts', () => parseAllAccounts(buf), expectedAccounts);
+  compare(
+    'parseCrankState',
+    () => parseCrankState(buf.subarray(0, 392 + 240)),
+    { lastCrankSlot: f.engine.lastCrankSlot, maxCrankStalenessSlots: f.params.maxCrankStalenessSlots },
+  );
+
+  // serializeSlab writes the same bytes; bits past capacity have no account to write
+  try {
+    const serialized = serializeSlab({ ...f, accounts: expectedAccounts }, f.size);
+    for (const { idx } of f.accounts) if (idx >= capacity) setAccountUsed(serialized, idx, true);
+    if (!serialized.equals(buf)) {
+      let at = 0;
+      while (serialized[at] === buf[at]) at++;
+      problems.push(`serializeSlab differs from synthesized slab at byte ${at}`);
+    }
+    compare('parseSlab(serializeSlab)', () => parseSlab(serialized), {
+      header: f.header,
+      config: f.config,
+      params: f.params,
+      engine: f.engine,
+      accounts: expectedAccounts,
+    });
+  } catch (err) {
+    problems.push(`serializeSlab threw: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  // Corruption must be rejected, not misparsed
+  const badMagic = Buffer.from(buf);
+  badMagic.writeUInt8(0, 0);
+  const rejects = (name: string, fn: () => unknown) => {
+    try {
+      fn();
+      problems.push(`${name} accepted invalid input`);
+    } catch {
+      // expected
+    }
+  };
+  rejects('parseHeader (bad magic)', () => parseHeader(badMagic));
+
+  const badVersion = Buffer.from(buf);
+  badVersion.writeUInt32LE(0xffff_ffff, 8);
+  rejects('parseSlab (unknown layout version)', () => parseSlab(badVersion));
+  rejects('parseEngine (truncated)', () => parseEngine(buf.subarray(0, 392 + 9135)));
+
+  return problems;
+}
+
+function main(): number {
+  let failed = 0;
+  for (const f of CORPUS) {
+    const problems = checkFixture(f);
+    const label = `${f.name} (${f.size.toLocaleString()} bytes, ${f.accounts.length} accounts)`;
+    if (problems.length === 0) {
+      console.log(`  ok    ${label}`);
+    } else {
+      failed++;
+      console.log(`  FAIL  ${label}\n    ${problems.join('\n    ')}`);
+    }
+  }
+  console.log(`\n${CORPUS.length - failed}/${CORPUS.length} slab fixtures round-tripped`);
+  return failed;
+}
+
+process.exit(main() > 0 ? 1 : 0);
@@ -0,0 +1,215 @@
+/**
+ * Fixture harness for the instruction codec and transaction decoder.
+ *
+ *   npm run tx-fixtures                          # round-trip every builder, then decode every fixture
+ *   npm run tx-fixtures -- record <sig> [network] # capture a live transaction as a new fixture
+ *
+ * Fixtures live in fixtures/transactions/*.json:
+ *   { description, slab?, transaction: RecordedTransaction, expected: DecodedTxEventJson[] }
+ *
+ * A recorded fixture's `expected` is the decoder's current output. Review it
+ * by hand before committing.
+ */
+import { readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { PublicKey, type TransactionInstruction } from '@solana/web3.js';
+import {
+  buildCloseAccountInstruction,
+  buildDepositCollateralInstruction,
+  buildInitSlabInstruction,
+  buildInitUserInstruction,
+  buildKeeperCrankInstruction,
+  buildPushOraclePriceInstruction,
+  buildSetLpParamsInstruction,
+  buildSetOracleAuthorityInstruction,
+  buildTradeCpiInstruction,
+  buildTradeNoCpiInstruction,
+  buildWithdrawCollateralInstruction,
+  decodeInstructionData,
+  SLAB_ACCOUNT_INDEX,
+  type DecodedInstruction,
+} from '../src/lib/instructions';
+import {
+  decodeTransaction,
+  serializeTxEvent,
+  toRecordedTransaction,
+  type DecodedTxEventJson,
+  type RecordedTransaction,
+} from '../src/lib/tx-decoder';
+import { getNetworkConnection } from '../src/lib/connections';
+import type { NetworkId } from '../src/lib/registry';
+
+const FIXTURE_DIR = join(__dirname, '..', 'fixtures', 'transactions');
+
+interface TxFixture {
+  description: string;
+  slab?: string;
+  transaction: RecordedTransaction;
+  expected: DecodedTxEventJson[];
+}
+
+function decodeFixture(fixture: TxFixture): DecodedTxEventJson[] {
+  return decodeTransaction(fixture.transaction, { slab: fixture.slab }).map(serializeTxEvent);
+}
+
+// ── Round trip ──────────────────────────────────────────────────────────
+
+const key = (n: number) => new PublicKey(Buffer.alloc(32, n));
+const SLAB = key(11);
+const USER = key(1);
+
+/** One case per builder: the instruction plus the args it must decode back to */
+const ROUND_TRIP_CASES: { name: string; ix: TransactionInstruction; expected: DecodedInstruction }[] = (() => {
+  const initSlab = {
+    admin: key(3),
+    collateralMint: key(4),
+    indexFeedId: key(5),
+    maxStalenessSlots: 150n,
+    confFilterBps: 50,
+    invert: 1,
+    unitScale: 1000,
+    params: {
+      warmupPeriodSlots: 100n,
+      maintenanceMarginBps: 500n,
+      initialMarginBps: 1000n,
+      tradingFeeBps: 10n,
+      maxAccounts: 4096n,
+      newAccountFee: 1_000_000n,
+      riskReductionThreshold: (1n << 100n) + 7n,
+      maintenanceFeePerSlot: 3n,
+      maxCrankStalenessSlots: 200n,
+      liquidationFeeBps: 50n,
+      liquidationFeeCap: 10n ** 30n,
+      liquidationBufferBps: 25n,
+      minLiquidationAbs: 1n,
+    },
+  };
+  const accts = { user: USER, slab: SLAB, userAta: key(22), vault: key(21) };
+  const trade = { lpIdx: 4, userIdx: 65534, size: -(1n << 90n) - 12345n };
+
+  return [
+    { name: 'InitSlab', ix: buildInitSlabInstruction({ slab: SLAB, vault: key(21) }, initSlab), expected: { kind: 'init-slab', ...initSlab } },
+    { name: 'InitUser', ix: buildInitUserInstruction(accts, 1_000_000n), expected: { kind: 'init-user', feePayment: 1_000_000n } },
+    {
+      name: 'SetLpParams',
+      ix: buildSetLpParamsInstruction({ lpOwner: USER, slab: SLAB }, { lpIdx: 4, matcherProgram: key(30), matcherContext: key(31) }),
+      expected: { kind: 'set-lp-params', lpIdx: 4, matcherProgram: key(30), matcherContext: key(31) },
+    },
+    { name: 'DepositCollateral', ix: buildDepositCollateralInstruction(accts, 3, 2n ** 64n - 1n), expected: { kind: 'deposit', userIdx: 3, amount: 2n ** 64n - 1n } },
+    { name: 'WithdrawCollateral', ix: buildWithdrawCollateralInstruction(accts, 3, 250_000_000n), expected: { kind: 'withdraw', userIdx: 3, amount: 250_000_000n } },
+    { name: 'KeeperCrank', ix: buildKeeperCrankInstruction(USER, SLAB), expected: { kind: 'crank', callerIdx: 65535, allowPanic: false } },
+    { name: 'TradeNoCpi', ix: buildTradeNoCpiInstruction({ user: USER, lpOwner: key(2), slab: SLAB }, trade), expected: { kind: 'trade', cpi: false, ...trade } },
+    {
+      name: 'TradeCpi',
+      ix: buildTradeCpiInstruction({ user: USER, lpOwner: key(2), slab: SLAB, matcherContext: key(31) }, { ...trade, size: 1n }),
+      expected: { kind: 'trade', cpi: true, ...trade, size: 1n },
+    },
+    { name: 'CloseAccount', ix: buildCloseAccountInstruction(accts, 3), expected: { kind: 'close', userIdx: 3 } },
+    {
+      name: 'SetOracleAuthority',
+      ix: buildSetOracleAuthorityInstruction({ admin: key(3), slab: SLAB }, key(6)),
+      expected: { kind: 'set-oracle-authority', newAuthority: key(6) },
+    },
+    {
+      name: 'PushOraclePrice',
+      ix: buildPushOraclePriceInstruction({ authority: key(3), slab: SLAB }, 142_350_000n, -1n),
+      expected: { kind: 'oracle', priceE6: 142_350_000n, publishTime: -1n },
+    },
+  ];
+})();
+
+const canonical = (v: unknown) =>
+  JSON.stringify(v, (_key, value) => (typeof value === 'bigint' ? `${value}n` : value));
+
+function checkRoundTrip(): number {
+  let failed = 0;
+
+  for (const { name, ix, expected } of ROUND_TRIP_CASES) {
+    const decoded = decodeInstructionData(ix.data);
+    const problems: string[] = [];
+
+    if (canonical(decoded) !== canonical(expected)) {
+      problems.push(`decoded ${canonical(decoded)}\n    expected ${canonical(expected)}`);
+    }
+    if (decoded && !ix.keys[SLAB_ACCOUNT_INDEX[decoded.kind]]?.pubkey.equals(SLAB)) {
+      problems.push(`slab is not account #${SLAB_ACCOUNT_INDEX[decoded.kind]}`);
+    }
+    if (!ix.keys[0]?.isSigner) {
+      problems.push('account #0 is not a signer');
+    }
+    if (decodeInstructionData(ix.data.subarray(0, ix.data.length - 1)) !== null) {
+      problems.push('truncated data still decodes');
+    }
+
+    if (problems.length === 0) {
+      console.log(`  ok    ${name}`);
+    } else {
+      failed++;
+      console.log(`  FAIL  ${name}\n    ${problems.join('\n    ')}`);
+    }
+  }
+
+  console.log(`\n${ROUND_TRIP_CASES.length - failed}/${ROUND_TRIP_CASES.length} builders round-tripped\n`);
+  return failed;
+}
+
+// ── Fixtures ────────────────────────────────────────────────────────────
+
+function checkFixtures(): number {
+  const files = readdirSync(FIXTURE_DIR).filter((f) => f.endsWith('.json')).sort();
+  let failed = 0;
+
+  for (const file of files) {
+    const fixture = JSON.parse(readFileSync(join(FIXTURE_DIR, file), 'utf8')) as TxFixture;
+    const actual = JSON.stringify(decodeFixture(fixture), null, 2);
+    const expected = JSON.stringify(fixture.expected, null, 2);
+
+    if (actual === expected) {
+      console.log(`  ok    ${file}`);
+    } else {
+      failed++;
+      console.log(`  FAIL  ${file} — ${fixture.description}`);
+      console.log(`    expected: ${expected}`);
+      console.log(`    actual:   ${actual}`);
+    }
+  }
+
+  console.log(`\n${files.length - failed}/${files.length} fixtures passed`);
+  return failed;
+}
+
+async function record(signature: string, network: NetworkId): Promise<number> {
+  const connection = getNetworkConnection(network);
+  const tx = await connection.getTransaction(signature, { maxSupportedTransactionVersion: 0 });
+  if (!tx) {
+    console.error(`Transaction not found on ${network}: ${signature}`);
+    return 1;
+  }
+
+  const fixture: TxFixture = {
+    description: `Recorded from ${network}`,
+    transaction: toRecordedTransaction(signature, tx),
+    expected: [],
+  };
+  fixture.expected = decodeFixture(fixture);
+
+  const path = join(FIXTURE_DIR, `${signature.slice(0, 16)}.json`);
+  writeFileSync(path, JSON.stringify(fixture, null, 2) + '\n');
+  console.log(`Wrote ${path} (${fixture.expected.length} events)`);
+  return 0;
+}
+
+async function main(): Promise<number> {
+  const [command, ...args] = process.argv.slice(2);
+  if (command === 'record') {
+    if (!args[0]) {
+      console.error('Usage: tx-fixtures record <signature> [devnet|mainnet]');
+      return 1;
+    }
+    return record(args[0], (args[1] as NetworkId) ?? 'devnet');
+  }
+  const failed = checkRoundTrip() + checkFixtures();
+  return failed > 0 ? 1 : 0;
+}
+
+main().then((code) => process.exit(code));
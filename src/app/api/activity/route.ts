@@ -1,16 +1,17 @@
 import { NextResponse } from 'next/server';
-import { PublicKey } from '@solana/web3.js';
 import { CACHE_DURATIONS } from '@/lib/constants';
 import { getConnection, getCached, setCache } from '@/lib/connection';
 import { getAllMarketData } from '@/lib/fetcher';
 import { getEvents, recordSnapshot } from '@/lib/activity';
+import { isIndexerLive } from '@/lib/indexer';
+import { fetchSlabTxEvents, toActivityEvent } from '@/lib/tx-decoder';
 import type { ActivityResponse, ActivityEvent } from '@/lib/types';
 
 const CACHE_KEY = 'activity_response';
 const TX_HISTORY_CACHE_KEY = 'tx_history';
 
 /**
- * Fetch recent transaction signatures for slabs as fallback activity.
+ * Decode recent slab transactions as fallback activity.
  */
 async function fetchRecentTransactions(
   slabPubkeys: { pubkey: string; label: string }[],
@@ -19,7 +20,6 @@ async function fetchRecentTransactions(
   const cached = getCached<ActivityEvent[]>(TX_HISTORY_CACHE_KEY, 30_000);
   if (cached) return cached;
 
-  const connection = getConnection();
   const events: ActivityEvent[] = [];
 
   // Query at most 3 slabs to avoid too many RPC calls
@@ -27,38 +27,8 @@ async function fetchRecentTransactions(
 
   for (const { pubkey, label } of slabsToQuery) {
     try {
-      const signatures = await connection.getSignaturesForAddress(
-        new PublicKey(pubkey),
-        { limit },
-      );
-
-      for (const sig of signatures) {
-        const ts = sig.blockTime
-          ? new Date(sig.blockTime * 1000).toISOString()
-          : new Date().toISOString();
-
-        let type: ActivityEvent['type'] = 'info';
-        let details = `[${label}] tx ${sig.signature.slice(0, 8)}...`;
-        let severity: ActivityEvent['severity'] = 'normal';
-
-        if (sig.err) {
-          type = 'info';
-          details = `[${label}] Failed tx: ${sig.signature.slice(0, 8)}...`;
-          severity = 'warning';
-        } else {
-          type = 'info';
-          details = `[${label}] Slab transaction`;
-        }
-
-        events.push({
-          timestamp: ts,
-          type,
-          details,
-          severity,
-          signature: sig.signature,
-          slabLabel: label,
-        });
-      }
+      const decoded = await fetchSlabTxEvents(pubkey, { connection: getConnection(), limit });
+      events.push(...decoded.map((e) => toActivityEvent(e, label)));
     } catch (err) {
       console.warn(`Failed to fetch tx history for ${label}: ${err}`);
     }
@@ -82,12 +52,14 @@ export async function GET() {
 
     const all = await getAllMarketData();
 
-    // Record snapshots for all slabs
-    for (const md of all.slabs) {
-      try {
-        recordSnapshot(md.slabLabel, md.engine, md.allAccounts);
-      } catch {
-        // Non-critical
+    // Record snapshots for all slabs unless the indexer already is
+    if (!isIndexerLive()) {
+      for (const md of all.slabs) {
+        try {
+          recordSnapshot(md.slabLabel, md.engine, md.allAccounts);
+        } catch {
+          // Non-critical
+        }
       }
     }
 
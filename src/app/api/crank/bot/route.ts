@@ -1,7 +1,13 @@
 /**
  * POST /api/crank/bot — Start or stop the crank bot.
  *
- * Body: { action: "start" | "stop", intervalMs?: number }
+ * Body: {
+ *   action: "start" | "stop",
+ *   intervalMs?: number,       // min interval per slab (>= 2000)
+ *   slabs?: string[],          // explicit slab set, or
+ *   programs?: string[],       // registry ids / program ids to crank every active slab of
+ *   maxTxPerSecond?: number,   // global send budget
+ * }
  * Response: current bot status
  */
 import { NextRequest, NextResponse } from 'next/server';
@@ -10,10 +16,16 @@ import { startCrankBot, stopCrankBot, getCrankBotStatus } from '@/lib/crank';
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { action, intervalMs } = body as { action: string; intervalMs?: number };
+    const { action, intervalMs, slabs, programs, maxTxPerSecond } = body as {
+      action: string;
+      intervalMs?: number;
+      slabs?: string[];
+      programs?: string[];
+      maxTxPerSecond?: number;
+    };
 
     if (action === 'start') {
-      startCrankBot(intervalMs);
+      startCrankBot(intervalMs, { slabs, programs }, maxTxPerSecond);
     } else if (action === 'stop') {
       stopCrankBot();
     } else {
@@ -0,0 +1,43 @@
+/**
+ * GET /api/crank/history?limit=50&before=<id>&slab=<address>
+ *
+ * Crank log, newest first, with success rate / latency / compute / fee
+ * aggregates over the returned page. Page backwards with `before=nextBefore`.
+ */
+import { NextResponse } from 'next/server';
+import { getCrankHistory } from '@/lib/crank';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const limitParam = parseInt(searchParams.get('limit') ?? String(DEFAULT_LIMIT), 10);
+    const limit = Math.min(Math.max(limitParam || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    const beforeParam = searchParams.get('before');
+    const before = beforeParam ? parseInt(beforeParam, 10) : undefined;
+    if (before !== undefined && !Number.isFinite(before)) {
+      return NextResponse.json(
+        { error: 'Invalid before cursor' },
+        { status: 400 },
+      );
+    }
+
+    const slab = searchParams.get('slab') ?? undefined;
+    const page = getCrankHistory({ limit, before, slab });
+
+    return NextResponse.json(page, {
+      headers: { 'Cache-Control': 'no-cache, no-store, must-revalidate' },
+    });
+  } catch (error: unknown) {
+    console.error('GET /api/crank/history error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to get crank history', details: message },
+      { status: 500 },
+    );
+  }
+}
@@ -1,13 +1,17 @@
 /**
  * POST /api/crank — Execute a single keeper crank.
  *
- * Body (optional): { slab?: string }
- * Response: { success: true, signature: string, slot: number }
+ * Body (optional): { slab?: string, programId?: string, network?: 'devnet' | 'mainnet' }
+ * Response: { success: true, signature, slot, programId, network }
+ *
+ * Any slab on a registered program can be cranked; programId + network are
+ * optional hints that skip owner resolution.
  *
  * Rate-limited: max 1 crank per 2 seconds.
  */
 import { NextRequest, NextResponse } from 'next/server';
 import { executeCrank } from '@/lib/crank';
+import type { SlabHints } from '@/lib/fetcher';
 
 let lastCrankTime = 0;
 const MIN_INTERVAL_MS = 2000;
@@ -25,20 +29,24 @@ export async function POST(request: NextRequest) {
 
     // Parse optional body
     let slabPubkey: string | undefined;
+    let hints: SlabHints | undefined;
     try {
       const body = await request.json();
       slabPubkey = body?.slab;
+      hints = { programId: body?.programId, network: body?.network };
     } catch {
       // No body or invalid JSON — use default slab
     }
 
     lastCrankTime = Date.now();
-    const result = await executeCrank(slabPubkey);
+    const result = await executeCrank(slabPubkey, hints);
 
     return NextResponse.json({
       success: true,
       signature: result.signature,
       slot: result.slot,
+      programId: result.programId,
+      network: result.network,
     });
   } catch (error: unknown) {
     console.error('POST /api/crank error:', error);
@@ -20,6 +20,8 @@ import { parseConfig, parseAllAccounts } from '@/lib/percolator';
 import { resolveMintSymbolsBatch } from '@/lib/known-mints';
 import { getNetworkConnection } from '@/lib/connections';
 import { getEffectiveOraclePrice } from '@/lib/oracle';
+import { getRegistryEntry } from '@/lib/registry';
+import { slabLayoutOf } from '@/lib/slab-layout';
 import { AccountKind } from '@/lib/types';
 
 const CACHE_KEY = 'ecosystem_response';
@@ -34,6 +36,8 @@ interface SlabParseJob {
   network: 'devnet' | 'mainnet';
   vaultPubkey: string;
   collateralMint: string;
+  /** Registry layout pin for the program (slab-layout.ts) */
+  layout?: string;
 }
 
 export async function GET() {
@@ -88,6 +92,7 @@ export async function GET() {
             network: program.network,
             vaultPubkey: slab.vaultPubkey,
             collateralMint: slab.collateralMint,
+            layout: getRegistryEntry(program.id)?.layout,
           });
         }
       } else {
@@ -162,8 +167,9 @@ export async function GET() {
         if (!data) continue;
 
         try {
-          const config = parseConfig(data);
-          const allAccounts = parseAllAccounts(data);
+          const layout = slabLayoutOf(data, jobs[i]);
+          const config = parseConfig(data, layout);
+          const allAccounts = parseAllAccounts(data, layout);
 
           parsedAccountCount += allAccounts.length;
 
@@ -8,6 +8,9 @@
  * Performance: batch getMultipleAccountsInfo per network instead of
  * per-slab getSlabMarketData() calls. All slab parsing is CPU-only.
  *
+ * Prices come from each slab's live oracle (lib/oracle.ts), falling back
+ * to the slab's last effective price when the feed can't be read.
+ *
  * Cache: 15s — safety-critical, needs to be responsive.
  */
 import { PublicKey } from '@solana/web3.js';
@@ -15,9 +18,11 @@ import { NextResponse } from 'next/server';
 import { getCached, setCache } from '@/lib/connection';
 import { scanEcosystem } from '@/lib/radar';
 import { batchFetchAccounts } from '@/lib/fetcher';
-import { parseConfig, parseParams, parseAllAccounts, computeMarginMetrics, estimateLiquidationPrice } from '@/lib/percolator';
-import { getEffectiveOraclePrice } from '@/lib/oracle';
+import { parseConfig, parseParams, parseEngine, parseAllAccounts, computeMarginMetrics, estimateLiquidationPrice } from '@/lib/percolator';
+import { readOraclesForSlabs, slabOraclePrice, type OracleReading } from '@/lib/oracle';
 import { getNetworkConnection } from '@/lib/connections';
+import { getRegistryEntry } from '@/lib/registry';
+import { slabLayoutOf } from '@/lib/slab-layout';
 import { AccountKind } from '@/lib/types';
 
 const CACHE_KEY = 'liquidations_response';
@@ -31,6 +36,10 @@ interface SlabParseJob {
   programId: string;
   programLabel: string;
   network: 'devnet' | 'mainnet';
+  /** Registry oracle override for the program */
+  oracleAddress?: string;
+  /** Registry layout pin for the program (slab-layout.ts) */
+  layout?: string;
 }
 
 interface LiquidationEntry {
@@ -61,23 +70,20 @@ interface LiquidationEntry {
 function extractLiquidationsFromBuffer(
   slabData: Buffer,
   job: SlabParseJob,
+  oracle: OracleReading | null,
 ): { entries: LiquidationEntry[]; positionCount: number } {
-  const config = parseConfig(slabData);
-  const params = parseParams(slabData);
-  const allAccounts = parseAllAccounts(slabData);
-
-  // Oracle price from slab's last effective price
-  const oraclePriceE6 = config.lastEffectivePriceE6 > 0n
-    ? config.lastEffectivePriceE6
-    : 0n;
-  const solUsdPrice = oraclePriceE6 > 0n
-    ? getEffectiveOraclePrice(oraclePriceE6, config.invert)
-    : 0;
+  const layout = slabLayoutOf(slabData, job);
+  const config = parseConfig(slabData, layout);
+  const params = parseParams(slabData, layout);
+  const engine = parseEngine(slabData, layout);
+  const allAccounts = parseAllAccounts(slabData, layout);
+
+  const { oraclePriceE6, solUsdPrice } = slabOraclePrice(config, oracle);
 
   const entries: LiquidationEntry[] = [];
 
   for (const { idx, account } of allAccounts) {
-    const metrics = computeMarginMetrics(account, oraclePriceE6, params);
+    const metrics = computeMarginMetrics(account, oraclePriceE6, params, engine.fundingIndexQpbE6, engine.currentSlot);
 
     // Only include positions with health < 100
     if (metrics.health >= 100) continue;
@@ -96,7 +102,7 @@ function extractLiquidationsFromBuffer(
       ? 1_000_000 / Number(account.entryPrice)
       : 0;
 
-    const liqPriceE6 = estimateLiquidationPrice(account, params);
+    const liqPriceE6 = estimateLiquidationPrice(account, params, engine.fundingIndexQpbE6, engine.currentSlot);
     const liquidationPrice = liqPriceE6 > 0 ? 1_000_000 / liqPriceE6 : 0;
 
     let distancePercent = 0;
@@ -152,6 +158,8 @@ export async function GET() {
               programId: program.programId,
               programLabel: program.label,
               network: program.network,
+              oracleAddress: getRegistryEntry(program.id)?.oracleAddress,
+              layout: getRegistryEntry(program.id)?.layout,
             });
           }
         }
@@ -167,6 +175,8 @@ export async function GET() {
             programId: program.programId,
             programLabel: program.label,
             network: program.network,
+            oracleAddress: getRegistryEntry(program.id)?.oracleAddress,
+            layout: getRegistryEntry(program.id)?.layout,
           });
         }
       }
@@ -194,19 +204,30 @@ export async function GET() {
         : Promise.resolve([] as (Buffer | null)[]),
     ]);
 
+    const [devnetOracles, mainnetOracles] = await Promise.all([
+      readOraclesForSlabs(
+        getNetworkConnection('devnet'),
+        devnetJobs.map((j, i) => ({ data: devnetSlabData[i], feed: j.oracleAddress, entry: j })),
+      ),
+      readOraclesForSlabs(
+        getNetworkConnection('mainnet'),
+        mainnetJobs.map((j, i) => ({ data: mainnetSlabData[i], feed: j.oracleAddress, entry: j })),
+      ),
+    ]);
+
     // ── PARSE: all CPU, no RPC ──────────────────────────────────────────
 
     const allEntries: LiquidationEntry[] = [];
     let totalScanned = 0;
     let slabsParsed = 0;
 
-    function processBatch(jobs: SlabParseJob[], dataArr: (Buffer | null)[]) {
+    function processBatch(jobs: SlabParseJob[], dataArr: (Buffer | null)[], oracles: (OracleReading | null)[]) {
       for (let i = 0; i < jobs.length; i++) {
         const data = dataArr[i];
         if (!data) continue;
 
         try {
-          const { entries, positionCount } = extractLiquidationsFromBuffer(data, jobs[i]);
+          const { entries, positionCount } = extractLiquidationsFromBuffer(data, jobs[i], oracles[i]);
           totalScanned += positionCount;
           slabsParsed++;
           allEntries.push(...entries);
@@ -216,8 +237,8 @@ export async function GET() {
       }
     }
 
-    processBatch(devnetJobs, devnetSlabData);
-    processBatch(mainnetJobs, mainnetSlabData);
+    processBatch(devnetJobs, devnetSlabData, devnetOracles);
+    processBatch(mainnetJobs, mainnetSlabData, mainnetOracles);
 
     // Split into critical and warning
     const critical = allEntries
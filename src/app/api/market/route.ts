@@ -1,9 +1,11 @@
 import { NextResponse } from 'next/server';
 import { CACHE_DURATIONS, CONFIG } from '@/lib/constants';
-import { getCached, setCache } from '@/lib/connection';
+import { getCached, getConnection, setCache } from '@/lib/connection';
 import { calculateFundingRate } from '@/lib/percolator';
 import { getAllMarketData } from '@/lib/fetcher';
+import { getSlotTiming } from '@/lib/slot-time';
 import { recordSnapshot } from '@/lib/activity';
+import { isIndexerLive } from '@/lib/indexer';
 import type { MarketResponse } from '@/lib/types';
 
 const CACHE_KEY = 'market_response';
@@ -18,7 +20,7 @@ export async function GET() {
       });
     }
 
-    const all = await getAllMarketData();
+    const [all, { msPerSlot }] = await Promise.all([getAllMarketData(), getSlotTiming(getConnection())]);
     const { slabs, solUsdPrice, oraclePriceE6, slot } = all;
 
     if (slabs.length === 0) {
@@ -46,11 +48,12 @@ export async function GET() {
     let minTradingFeeBps = Infinity;
     let minLiquidationFeeBps = Infinity;
 
+    const indexerLive = isIndexerLive();
     for (const md of slabs) {
       const { config, params, engine, allAccounts } = md;
 
       // Funding rate per slab
-      const funding = calculateFundingRate(engine, config, oraclePriceE6);
+      const funding = calculateFundingRate(engine, config, oraclePriceE6, msPerSlot);
 
       // Open interest in SOL
       const oi = Number(engine.totalOpenInterest * oraclePriceE6 / 1_000_000n) / 1e9;
@@ -83,11 +86,13 @@ export async function GET() {
       if (tradeFee < minTradingFeeBps) minTradingFeeBps = tradeFee;
       if (liqFee < minLiquidationFeeBps) minLiquidationFeeBps = liqFee;
 
-      // Record snapshot for activity feed
-      try {
-        recordSnapshot(md.slabLabel, engine, allAccounts);
-      } catch {
-        // Non-critical
+      // Record snapshot for activity feed (the indexer does this when running)
+      if (!indexerLive) {
+        try {
+          recordSnapshot(md.slabLabel, engine, allAccounts);
+        } catch {
+          // Non-critical
+        }
       }
     }
 
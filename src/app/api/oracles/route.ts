@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getOracleHealth } from '@/lib/oracle-health';
+
+/**
+ * GET /api/oracles
+ *
+ * Oracle health for every active slab: source, update age against
+ * `maxStalenessSlots`, confidence against `confFilterBps`, and the move from
+ * `lastEffectivePriceE6` against the price cap. Markets whose crank would be
+ * rejected by their oracle are flagged `crankBlocked`. Worst first.
+ *
+ * Cache: 15s
+ */
+export async function GET() {
+  try {
+    const report = await getOracleHealth();
+    return NextResponse.json(report, {
+      headers: { 'Cache-Control': 'public, s-maxage=15, stale-while-revalidate=30' },
+    });
+  } catch (error: unknown) {
+    console.error('GET /api/oracles error:', error);
+    return NextResponse.json(
+      { error: 'Oracle health scan failed', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import { getOwnerPortfolio } from '@/lib/portfolio';
+
+/**
+ * GET /api/owner/[pubkey]
+ *
+ * Wallet portfolio: every slab account whose owner is `pubkey`, across all
+ * registered programs and networks, grouped per market with aggregated
+ * exposure, margin health and PnL. Backed by a per-network owner index
+ * rebuilt at most every 30s.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ pubkey: string }> },
+) {
+  try {
+    const { pubkey } = await params;
+
+    let owner: string;
+    try {
+      owner = new PublicKey(pubkey).toBase58();
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid owner pubkey' },
+        { status: 400 },
+      );
+    }
+
+    const portfolio = await getOwnerPortfolio(owner);
+
+    return NextResponse.json(portfolio, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=10, stale-while-revalidate=30',
+      },
+    });
+  } catch (error: unknown) {
+    console.error('GET /api/owner/[pubkey] error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch owner portfolio', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    );
+  }
+}
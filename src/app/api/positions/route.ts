@@ -2,7 +2,7 @@ import { NextResponse } from 'next/server';
 import { CACHE_DURATIONS } from '@/lib/constants';
 import { getCached, setCache } from '@/lib/connection';
 import { computeMarginMetrics, estimateLiquidationPrice } from '@/lib/percolator';
-import { getAllMarketData } from '@/lib/fetcher';
+import { accountDetailFields, getAllMarketData, pnlAttributionFields } from '@/lib/fetcher';
 import { AccountKind } from '@/lib/types';
 import type { PositionsResponse, PositionEntry } from '@/lib/types';
 
@@ -23,11 +23,12 @@ export async function GET() {
 
     // Flatten positions across all slabs
     for (const md of all.slabs) {
-      const { params, allAccounts, oraclePriceE6, solUsdPrice, slabPubkey, slabLabel } = md;
+      const { params, engine, allAccounts, oraclePriceE6, solUsdPrice, slabPubkey, slabLabel } = md;
+      const slot = md.slot > 0 ? BigInt(md.slot) : engine.currentSlot;
 
       for (const { idx, account } of allAccounts) {
-        const metrics = computeMarginMetrics(account, oraclePriceE6, params);
-        const liqPriceE6 = estimateLiquidationPrice(account, params);
+        const metrics = computeMarginMetrics(account, oraclePriceE6, params, engine.fundingIndexQpbE6, slot);
+        const liqPriceE6 = estimateLiquidationPrice(account, params, engine.fundingIndexQpbE6, slot);
 
         const liquidationPrice = liqPriceE6 > 0 ? 1_000_000 / liqPriceE6 : 0;
         const entryPrice = Number(account.entryPrice) > 0
@@ -74,6 +75,8 @@ export async function GET() {
           liquidationPrice,
           isLP: account.kind === AccountKind.LP,
           status: metrics.status,
+          pnlAttribution: pnlAttributionFields(metrics.attribution),
+          ...accountDetailFields(account, params, slot),
         });
       }
     }
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import { getProviderHealth, getTokenPriceQuotes } from '@/lib/price-providers';
+
+const MAX_MINTS = 100;
+
+/**
+ * GET /api/prices?mints=a,b
+ *
+ * USD price per mint from the provider chain (PRICE_PROVIDERS), with the
+ * provider that answered, plus health stats for every configured price and
+ * metadata provider. Without `mints` only the health stats are returned.
+ *
+ * Cache: 30s
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const mints = (searchParams.get('mints') ?? '').split(',').map((s) => s.trim()).filter(Boolean);
+
+    if (mints.length > MAX_MINTS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_MINTS} mints per request` },
+        { status: 400 },
+      );
+    }
+    for (const mint of mints) {
+      try {
+        new PublicKey(mint);
+      } catch {
+        return NextResponse.json(
+          { error: `Invalid mint ${mint}` },
+          { status: 400 },
+        );
+      }
+    }
+
+    const quotes = mints.length > 0 ? await getTokenPriceQuotes(mints) : new Map();
+
+    return NextResponse.json({
+      prices: Object.fromEntries(quotes),
+      providers: getProviderHealth(),
+      generatedAt: new Date().toISOString(),
+    }, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=30, stale-while-revalidate=60',
+      },
+    });
+  } catch (error: unknown) {
+    console.error('GET /api/prices error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch prices', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 },
+    );
+  }
+}
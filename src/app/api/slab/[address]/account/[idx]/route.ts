@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import { getAccountDetail, toAccountPoint } from '@/lib/fetcher';
+import { getAccountHistory, recordAccountPoints } from '@/lib/price-history';
+import { eventTouchesAccount, fetchSlabTxEvents, serializeTxEvent } from '@/lib/tx-decoder';
+import { isIndexerLive } from '@/lib/indexer';
+import type { NetworkId } from '@/lib/registry';
+
+const DEFAULT_TX_SCAN = 100;
+const MAX_TX_SCAN = 100;
+const MAX_HISTORY = 2000;
+
+/**
+ * GET /api/slab/[address]/account/[idx]?programId=...&network=...&scan=100&limit=500
+ *
+ * One account of a slab for the account view: every parsed Account field,
+ * margin metrics, its samples from the history store (capital / PnL /
+ * position over time) and its decoded transactions.
+ *
+ * - programId / network: optional hints, as for /api/slab/[address]
+ * - scan: recent slab transactions to search for this account (max 100)
+ * - limit: most recent history samples (default 500)
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ address: string; idx: string }> },
+) {
+  try {
+    const { address, idx: idxParam } = await params;
+
+    if (!address || address.length < 32) {
+      return NextResponse.json(
+        { error: 'Invalid slab address' },
+        { status: 400 },
+      );
+    }
+
+    const idx = Number(idxParam);
+    if (!Number.isInteger(idx) || idx < 0) {
+      return NextResponse.json(
+        { error: 'Invalid account index' },
+        { status: 400 },
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const programId = searchParams.get('programId') ?? undefined;
+    const network = searchParams.get('network') as NetworkId | undefined;
+    const scanParam = parseInt(searchParams.get('scan') ?? String(DEFAULT_TX_SCAN), 10);
+    const scan = Math.min(Math.max(scanParam || DEFAULT_TX_SCAN, 1), MAX_TX_SCAN);
+    const limit = searchParams.get('limit');
+
+    const detail = await getAccountDetail(address, idx, { programId, network });
+
+    // Sample this account while it is being watched (the indexer does this when running)
+    if (!isIndexerLive()) {
+      recordAccountPoints(address, [{ idx, point: toAccountPoint(detail.timestamp, detail.position) }]);
+    }
+
+    const history = getAccountHistory(address, idx, {
+      accountId: detail.account.accountId,
+      limit: limit ? Math.min(Math.max(parseInt(limit, 10) || 1, 1), MAX_HISTORY) : undefined,
+    });
+
+    // Transaction history is best-effort; the account itself is still useful without it
+    let events: ReturnType<typeof serializeTxEvent>[] = [];
+    try {
+      const slabEvents = await fetchSlabTxEvents(address, { network: detail.network, limit: scan });
+      events = slabEvents
+        .filter((e) => eventTouchesAccount(e, idx))
+        .map(serializeTxEvent);
+    } catch (err) {
+      console.warn(`[account] Transactions unavailable for ${address}#${idx}:`, err);
+    }
+
+    return NextResponse.json(
+      { ...detail, history, events },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=5, stale-while-revalidate=10',
+        },
+      },
+    );
+  } catch (error: unknown) {
+    console.error('GET /api/slab/[address]/account/[idx] error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const status = message.includes('not found') ? 404 : 500;
+    return NextResponse.json(
+      { error: 'Failed to fetch account', details: message },
+      { status },
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { getCandles, isCandleInterval } from '@/lib/candles';
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+/**
+ * GET /api/slab/[address]/candles?interval=1m|5m|1h|1d&limit=200
+ *
+ * OHLC bars of recorded mark prices with average OI and funding per bar.
+ * Built from the price history rollups, so coverage depends on how long
+ * the slab has been sampled (detail polling or the indexer).
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ address: string }> },
+) {
+  const { address } = await params;
+
+  if (!address || address.length < 32) {
+    return NextResponse.json(
+      { error: 'Invalid slab address' },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const interval = searchParams.get('interval') ?? '1m';
+  if (!isCandleInterval(interval)) {
+    return NextResponse.json(
+      { error: 'Invalid interval. Use 1m, 5m, 1h or 1d.' },
+      { status: 400 },
+    );
+  }
+
+  const limitParam = parseInt(searchParams.get('limit') ?? String(DEFAULT_LIMIT), 10);
+  const limit = Math.min(Math.max(limitParam || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  const candles = getCandles(address, interval, limit);
+
+  return NextResponse.json(
+    { address, interval, candles, count: candles.length },
+    {
+      headers: {
+        'Cache-Control': 'public, s-maxage=5, stale-while-revalidate=10',
+      },
+    },
+  );
+}
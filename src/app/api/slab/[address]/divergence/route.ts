@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { getSlabMarketData } from '@/lib/fetcher';
+import { getDivergenceReport, recordDivergencePoint, sampleSlabDivergence } from '@/lib/divergence';
+import { isIndexerLive } from '@/lib/indexer';
+import type { NetworkId } from '@/lib/registry';
+
+const MAX_LIMIT = 2000;
+
+/**
+ * GET /api/slab/[address]/divergence?programId=&network=&from=&to=&limit=
+ *
+ * Mark vs index vs DEX price for a slab: the current sample, recorded
+ * samples with the basis of each pair in bps, and alerts against the
+ * warning / critical thresholds.
+ *
+ * - programId / network: same hints as /api/slab/[address]
+ * - from / to: epoch ms bounds, inclusive
+ * - limit: most recent N samples (defaults to 360, ~1 hour)
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ address: string }> },
+) {
+  try {
+    const { address } = await params;
+
+    if (!address || address.length < 32) {
+      return NextResponse.json(
+        { error: 'Invalid slab address' },
+        { status: 400 },
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const programId = searchParams.get('programId') ?? undefined;
+    const network = searchParams.get('network') as NetworkId | undefined;
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+    const limit = searchParams.get('limit');
+
+    const from = fromParam ? Number(fromParam) : undefined;
+    const to = toParam ? Number(toParam) : undefined;
+    if ((from !== undefined && !Number.isFinite(from)) || (to !== undefined && !Number.isFinite(to))) {
+      return NextResponse.json(
+        { error: 'Invalid from/to. Use epoch milliseconds.' },
+        { status: 400 },
+      );
+    }
+
+    const detail = await getSlabMarketData(address, { programId, network });
+    const current = await sampleSlabDivergence(detail);
+
+    // The indexer records its own samples when running
+    if (!isIndexerLive()) recordDivergencePoint(address, current);
+
+    const report = getDivergenceReport(detail, current, {
+      from,
+      to,
+      limit: limit ? Math.min(Math.max(parseInt(limit, 10) || 1, 1), MAX_LIMIT) : undefined,
+    });
+
+    return NextResponse.json(report, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=5, stale-while-revalidate=10',
+      },
+    });
+  } catch (error: unknown) {
+    console.error('GET /api/slab/[address]/divergence error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const status = message.includes('not found') ? 404 : 500;
+    return NextResponse.json(
+      { error: 'Failed to fetch price divergence', details: message },
+      { status },
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { getSlabMarketData } from '@/lib/fetcher';
+import { getFundingReport, recordFundingPoint, sampleSlabFunding } from '@/lib/funding';
+import { getNetworkConnection } from '@/lib/connections';
+import { getSlotTiming } from '@/lib/slot-time';
+import { isIndexerLive } from '@/lib/indexer';
+import type { NetworkId } from '@/lib/registry';
+
+const MAX_LIMIT = 2000;
+
+/**
+ * GET /api/slab/[address]/funding?programId=&network=&from=&to=&limit=
+ *
+ * Funding for a slab: the engine's current rate as bps/slot, bps/hour and
+ * APR at the measured slot time, plus realized funding between recorded
+ * samples — per interval, per hour and cumulative, with what longs and
+ * shorts paid.
+ *
+ * - programId / network: same hints as /api/slab/[address]
+ * - from / to: epoch ms bounds, inclusive (defaults to the last 24 hours)
+ * - limit: most recent N samples
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ address: string }> },
+) {
+  try {
+    const { address } = await params;
+
+    if (!address || address.length < 32) {
+      return NextResponse.json(
+        { error: 'Invalid slab address' },
+        { status: 400 },
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const programId = searchParams.get('programId') ?? undefined;
+    const network = searchParams.get('network') as NetworkId | undefined;
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+    const limit = searchParams.get('limit');
+
+    const from = fromParam ? Number(fromParam) : undefined;
+    const to = toParam ? Number(toParam) : undefined;
+    if ((from !== undefined && !Number.isFinite(from)) || (to !== undefined && !Number.isFinite(to))) {
+      return NextResponse.json(
+        { error: 'Invalid from/to. Use epoch milliseconds.' },
+        { status: 400 },
+      );
+    }
+
+    const detail = await getSlabMarketData(address, { programId, network });
+    const slotTiming = await getSlotTiming(getNetworkConnection(detail.network));
+    const current = sampleSlabFunding(detail);
+
+    // The indexer records its own samples when running
+    if (!isIndexerLive()) recordFundingPoint(address, current);
+
+    const report = getFundingReport(detail, current, slotTiming, {
+      from,
+      to,
+      limit: limit ? Math.min(Math.max(parseInt(limit, 10) || 1, 1), MAX_LIMIT) : undefined,
+    });
+
+    return NextResponse.json(report, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=10, stale-while-revalidate=20',
+      },
+    });
+  } catch (error: unknown) {
+    console.error('GET /api/slab/[address]/funding error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const status = message.includes('not found') ? 404 : 500;
+    return NextResponse.json(
+      { error: 'Failed to fetch funding history', details: message },
+      { status },
+    );
+  }
+}
@@ -1,15 +1,21 @@
 import { NextResponse } from 'next/server';
 import { getPriceHistory } from '@/lib/price-history';
+import { isHistoryResolution } from '@/lib/history-store';
+
+const MAX_LIMIT = 2000;
 
 /**
- * GET /api/slab/[address]/history
+ * GET /api/slab/[address]/history?resolution=raw|1m|1h|1d&from=&to=&limit=
  *
  * Returns accumulated price history for a slab.
- * Data is in-memory only — builds up as the slab detail endpoint is polled.
- * Returns up to 360 data points (~1 hour at 10s intervals).
+ * Builds up as the slab detail endpoint (or the indexer) records snapshots.
+ *
+ * - resolution: raw 10s points (default) or 1m / 1h / 1d rollups
+ * - from / to: epoch ms bounds, inclusive
+ * - limit: most recent N buckets (raw defaults to 360, ~1 hour)
  */
 export async function GET(
-  _request: Request,
+  request: Request,
   { params }: { params: Promise<{ address: string }> },
 ) {
   const { address } = await params;
@@ -21,10 +27,37 @@ export async function GET(
     );
   }
 
-  const points = getPriceHistory(address);
+  const { searchParams } = new URL(request.url);
+  const resolutionParam = searchParams.get('resolution') ?? 'raw';
+  if (!isHistoryResolution(resolutionParam)) {
+    return NextResponse.json(
+      { error: 'Invalid resolution. Use raw, 1m, 1h or 1d.' },
+      { status: 400 },
+    );
+  }
+
+  const fromParam = searchParams.get('from');
+  const toParam = searchParams.get('to');
+  const limit = searchParams.get('limit');
+
+  const from = fromParam ? Number(fromParam) : undefined;
+  const to = toParam ? Number(toParam) : undefined;
+  if ((from !== undefined && !Number.isFinite(from)) || (to !== undefined && !Number.isFinite(to))) {
+    return NextResponse.json(
+      { error: 'Invalid from/to. Use epoch milliseconds.' },
+      { status: 400 },
+    );
+  }
+
+  const points = getPriceHistory(address, {
+    resolution: resolutionParam,
+    from,
+    to,
+    limit: limit ? Math.min(Math.max(parseInt(limit, 10) || 1, 1), MAX_LIMIT) : undefined,
+  });
 
   return NextResponse.json(
-    { address, points, count: points.length },
+    { address, resolution: resolutionParam, points, count: points.length },
     {
       headers: {
         'Cache-Control': 'public, s-maxage=5, stale-while-revalidate=10',
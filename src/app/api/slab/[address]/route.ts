@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
-import { getSlabMarketData } from '@/lib/fetcher';
-import { recordPricePoint } from '@/lib/price-history';
+import { getSlabMarketData, toAccountPoint } from '@/lib/fetcher';
+import { recordAccountPoints, recordPricePoint } from '@/lib/price-history';
+import { isIndexerLive } from '@/lib/indexer';
 import type { NetworkId } from '@/lib/registry';
 
 /**
@@ -38,8 +39,8 @@ export async function GET(
       network,
     });
 
-    // Record price snapshot for chart history
-    if (detail.solUsdPrice > 0) {
+    // Record price + account snapshots for chart history (the indexer does this when running)
+    if (detail.solUsdPrice > 0 && !isIndexerLive()) {
       recordPricePoint(address, {
         t: detail.timestamp,
         p: detail.solUsdPrice,
@@ -47,6 +48,10 @@ export async function GET(
         oi: detail.openInterestSol,
         fr: detail.fundingRate.rateBpsPerHour,
       });
+      recordAccountPoints(
+        address,
+        detail.positions.map((pos) => ({ idx: pos.accountIndex, point: toAccountPoint(detail.timestamp, pos) })),
+      );
     }
 
     return NextResponse.json(detail, {
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { fetchSlabTxEvents, serializeTxEvent } from '@/lib/tx-decoder';
+import { getAllNetworks, type NetworkId } from '@/lib/registry';
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+/**
+ * GET /api/slab/[address]/transactions?network=devnet|mainnet&limit=25
+ *
+ * Recent slab transactions decoded into typed Percolator events
+ * (trade, deposit, withdraw, crank, close, oracle), newest first.
+ * Amounts are raw integer strings.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ address: string }> },
+) {
+  try {
+    const { address } = await params;
+
+    if (!address || address.length < 32) {
+      return NextResponse.json(
+        { error: 'Invalid slab address' },
+        { status: 400 },
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const network = (searchParams.get('network') ?? 'devnet') as NetworkId;
+    if (!getAllNetworks().includes(network)) {
+      return NextResponse.json(
+        { error: `Invalid network. Use ${getAllNetworks().join(' or ')}.` },
+        { status: 400 },
+      );
+    }
+
+    const limitParam = parseInt(searchParams.get('limit') ?? String(DEFAULT_LIMIT), 10);
+    const limit = Math.min(Math.max(limitParam || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    const events = await fetchSlabTxEvents(address, { network, limit });
+
+    return NextResponse.json(
+      { address, network, events: events.map(serializeTxEvent), count: events.length },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=15, stale-while-revalidate=30',
+        },
+      },
+    );
+  } catch (error: unknown) {
+    console.error('GET /api/slab/[address]/transactions error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Failed to fetch slab transactions', details: message },
+      { status: 500 },
+    );
+  }
+}
@@ -8,12 +8,14 @@
  * Performance: uses getMultipleAccountsInfo() + batch vault balance
  * fetches instead of per-slab getAccountInfo() calls. Reuses radar
  * slots instead of fetching getSlot() per slab.
- * Runs mint resolution + DexScreener in parallel with slab fetches.
+ * Runs mint resolution + USD prices in parallel with slab fetches.
  *
  * Enrichment:
- *   - Mint symbols via Jupiter + Metaplex
- *   - USD prices via DexScreener
- *   - Oracle mode detection (admin / pyth / dex)
+ *   - Mint symbols and USD prices via the provider chains (price-providers.ts):
+ *     Jupiter + Metaplex for symbols, DexScreener then Jupiter for prices
+ *   - Live oracle price and source per slab (admin / pyth / chainlink / dex)
+ *   - Funding APR at the network's measured slot time, and realized funding
+ *     over the last 24h from recorded samples (funding.ts)
  *   - Insurance fund + lifetime liquidation stats
  *
  * Cache: 60s
@@ -24,33 +26,20 @@ import { getCached, setCache } from '@/lib/connection';
 import { scanEcosystem } from '@/lib/radar';
 import { batchFetchAccounts, batchFetchVaultBalances } from '@/lib/fetcher';
 import { parseConfig, parseParams, parseEngine, parseAllAccounts, calculateFundingRate, computeMarginMetrics } from '@/lib/percolator';
-import { getEffectiveOraclePrice } from '@/lib/oracle';
+import { readOraclesForSlabs, slabOraclePrice, type OracleReading, type OracleSource } from '@/lib/oracle';
 import { resolveMintSymbol, resolveMintSymbolsBatch } from '@/lib/known-mints';
 import { getNetworkConnection } from '@/lib/connections';
-import { fetchTokenPricesBatch } from '@/lib/dexscreener';
-import type { NetworkId } from '@/lib/registry';
+import { getTokenPrices } from '@/lib/price-providers';
+import { getRealizedFunding, type FundingTotals } from '@/lib/funding';
+import { getSlotTiming } from '@/lib/slot-time';
+import { slabLayoutOf } from '@/lib/slab-layout';
+import { getRegistryEntry, type NetworkId } from '@/lib/registry';
 import { AccountKind } from '@/lib/types';
 
 const CACHE_KEY = 'top_markets_response';
 const CACHE_MS = 60_000;
 const DEFAULT_LIMIT = 15;
 
-type OracleMode = 'admin' | 'pyth' | 'dex-pumpswap' | 'dex-raydium' | 'dex-meteora' | 'unknown';
-
-/**
- * Detect oracle mode from the slab's indexFeedId.
- */
-function detectOracleMode(indexFeedId: string): OracleMode {
-  if (
-    indexFeedId === '11111111111111111111111111111111' ||
-    indexFeedId === 'So11111111111111111111111111111111111111111' ||
-    /^1+$/.test(indexFeedId)
-  ) {
-    return 'admin';
-  }
-  return 'pyth';
-}
-
 interface MarketEntry {
   slabAddress: string;
   program: string;
@@ -73,10 +62,13 @@ interface MarketEntry {
   };
   worstHealth: number;
   fundingRate: number;
+  fundingAprPct: number;
+  /** Realized over the last 24h; null until two samples are recorded */
+  realizedFunding24h: FundingTotals | null;
   fundingDirection: string;
   lastCrankAge: number;
   status: string;
-  oracleMode: OracleMode;
+  oracleMode: OracleSource;
   insurance: {
     balance: number;
     feeRevenue: number;
@@ -108,6 +100,10 @@ interface TopSlabInfo {
   vaultPubkey: string;
   collateralMint: string;
   slabSize: number;
+  /** Registry oracle override for the program */
+  oracleAddress?: string;
+  /** Registry layout pin for the program (slab-layout.ts) */
+  layout?: string;
 }
 
 /**
@@ -118,26 +114,21 @@ function parseSlabToMarket(
   slabData: Buffer,
   info: TopSlabInfo,
   vaultBalance: number,
+  oracle: OracleReading | null,
+  msPerSlot: number,
 ): MarketEntry | null {
   try {
-    const config = parseConfig(slabData);
-    const params = parseParams(slabData);
-    const engine = parseEngine(slabData);
-    const allAccounts = parseAllAccounts(slabData);
-
-    // Oracle price from slab's last effective price
-    let oraclePriceE6: bigint;
-    let solUsdPrice: number;
-    if (config.lastEffectivePriceE6 > 0n) {
-      oraclePriceE6 = config.lastEffectivePriceE6;
-      solUsdPrice = getEffectiveOraclePrice(config.lastEffectivePriceE6, config.invert);
-    } else {
-      oraclePriceE6 = 0n;
-      solUsdPrice = 0;
-    }
+    const layout = slabLayoutOf(slabData, info);
+    const config = parseConfig(slabData, layout);
+    const params = parseParams(slabData, layout);
+    const engine = parseEngine(slabData, layout);
+    const allAccounts = parseAllAccounts(slabData, layout);
+
+    // Live oracle price, else the slab's last effective price
+    const { oraclePriceE6, solUsdPrice } = slabOraclePrice(config, oracle);
 
     // Funding rate
-    const fundingRate = calculateFundingRate(engine, config, oraclePriceE6);
+    const fundingRate = calculateFundingRate(engine, config, oraclePriceE6, msPerSlot);
 
     // Open interest
     const oi = oraclePriceE6 > 0n
@@ -168,7 +159,7 @@ function parseSlabToMarket(
       }
 
       // Compute margin health
-      const metrics = computeMarginMetrics(account, oraclePriceE6, params);
+      const metrics = computeMarginMetrics(account, oraclePriceE6, params, engine.fundingIndexQpbE6, engine.currentSlot);
       if (metrics.health < worstHealth) {
         worstHealth = metrics.health;
       }
@@ -183,9 +174,6 @@ function parseSlabToMarket(
     const insuranceHealth: 'healthy' | 'caution' | 'warning' =
       insuranceRatio < 0.02 ? 'warning' : insuranceRatio < 0.05 ? 'caution' : 'healthy';
 
-    // Oracle mode
-    const oracleMode = detectOracleMode(config.indexFeedId.toBase58());
-
     return {
       slabAddress: info.pubkey,
       program: info.programLabel,
@@ -208,10 +196,12 @@ function parseSlabToMarket(
       },
       worstHealth,
       fundingRate: fundingRate.rateBpsPerHour,
+      fundingAprPct: fundingRate.aprPct,
+      realizedFunding24h: getRealizedFunding(info.pubkey, Date.now() - 86_400_000, msPerSlot),
       fundingDirection: fundingRate.direction,
       lastCrankAge: info.crankAge,
       status: info.crankAge < 3600 ? 'active' : info.crankAge < 86400 ? 'stale' : 'idle',
-      oracleMode,
+      oracleMode: oracle?.source ?? 'unknown',
       insurance: {
         balance: insuranceBalance,
         feeRevenue: insuranceFeeRevenue,
@@ -269,6 +259,8 @@ export async function GET(request: Request) {
             vaultPubkey: slab.vaultPubkey,
             collateralMint: slab.collateralMint,
             slabSize: slab.slabSize,
+            oracleAddress: getRegistryEntry(program.id)?.oracleAddress,
+            layout: getRegistryEntry(program.id)?.layout,
           });
         }
       }
@@ -310,7 +302,8 @@ export async function GET(request: Request) {
     // 1. Batch fetch slab account data (getMultipleAccountsInfo — 1-2 RPC calls)
     // 2. Batch fetch vault balances (parallel getTokenAccountBalance — grouped)
     // 3. Resolve mint symbols (Jupiter + Metaplex)
-    // 4. Fetch DexScreener USD prices
+    // 4. Fetch USD prices (DexScreener, Jupiter, ... see price-providers.ts)
+    // 5. Measure slot times (funding APR)
     const [
       devnetSlabData,
       mainnetSlabData,
@@ -319,6 +312,8 @@ export async function GET(request: Request) {
       devnetSymbols,
       mainnetSymbols,
       tokenPrices,
+      devnetTiming,
+      mainnetTiming,
     ] = await Promise.all([
       // Slab account data
       devnetSlabs.length > 0
@@ -341,8 +336,17 @@ export async function GET(request: Request) {
       mainnetMints.length > 0
         ? resolveMintSymbolsBatch(mainnetMints, mainnetConn)
         : Promise.resolve(new Map<string, string>()),
-      // DexScreener USD prices
-      fetchTokenPricesBatch(allMints),
+      // USD prices (provider chain)
+      getTokenPrices(allMints),
+      // Slot times
+      getSlotTiming(devnetConn),
+      getSlotTiming(mainnetConn),
+    ]);
+
+    // Oracle feeds are named in the slab data, so they're read second
+    const [devnetOracles, mainnetOracles] = await Promise.all([
+      readOraclesForSlabs(devnetConn, devnetSlabs.map((s, i) => ({ data: devnetSlabData[i], feed: s.oracleAddress, entry: s }))),
+      readOraclesForSlabs(mainnetConn, mainnetSlabs.map((s, i) => ({ data: mainnetSlabData[i], feed: s.oracleAddress, entry: s }))),
     ]);
 
     // ── PARSE: all CPU, no RPC ──────────────────────────────────────────
@@ -354,7 +358,7 @@ export async function GET(request: Request) {
       const slabData = devnetSlabData[i];
       if (!slabData) continue;
       const vaultBalance = devnetVaults[i] ?? 0;
-      const entry = parseSlabToMarket(slabData, devnetSlabs[i], vaultBalance);
+      const entry = parseSlabToMarket(slabData, devnetSlabs[i], vaultBalance, devnetOracles[i], devnetTiming.msPerSlot);
       if (entry) markets.push(entry);
     }
 
@@ -363,7 +367,7 @@ export async function GET(request: Request) {
       const slabData = mainnetSlabData[i];
       if (!slabData) continue;
       const vaultBalance = mainnetVaults[i] ?? 0;
-      const entry = parseSlabToMarket(slabData, mainnetSlabs[i], vaultBalance);
+      const entry = parseSlabToMarket(slabData, mainnetSlabs[i], vaultBalance, mainnetOracles[i], mainnetTiming.msPerSlot);
       if (entry) markets.push(entry);
     }
 
@@ -0,0 +1,10 @@
+import type { Metadata } from "next"
+import { DocsView } from "@/components/terminal/views/docs-view"
+
+export const metadata: Metadata = {
+  title: "DOCS — SLAB SCOPE",
+}
+
+export default function DocsPage() {
+  return <DocsView />
+}
@@ -1,5 +1,9 @@
+import { Suspense } from "react"
 import type { Metadata, Viewport } from "next"
 import { JetBrains_Mono } from "next/font/google"
+import { NavigationProvider } from "@/hooks/use-navigation"
+import { Header } from "@/components/terminal/header"
+import { Footer } from "@/components/terminal/footer"
 
 import "./globals.css"
 
@@ -25,7 +29,22 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="en" className={jetbrainsMono.variable}>
-      <body className="font-mono antialiased">{children}</body>
+      <body className="font-mono antialiased">
+        {/* Navigation reads the URL's search params, which needs a Suspense boundary */}
+        <Suspense>
+          <NavigationProvider>
+            <div className="scanlines crt-scanline flex min-h-screen flex-col bg-[var(--terminal-bg)]">
+              <Header />
+
+              <main className="flex flex-1 flex-col gap-px p-1 lg:p-1.5">
+                {children}
+              </main>
+
+              <Footer />
+            </div>
+          </NavigationProvider>
+        </Suspense>
+      </body>
     </html>
   )
 }
@@ -0,0 +1,10 @@
+import type { Metadata } from "next"
+import { PortfolioView } from "@/components/terminal/views/portfolio-view"
+
+export const metadata: Metadata = {
+  title: "PORTFOLIO — SLAB SCOPE",
+}
+
+export default function PortfolioPage() {
+  return <PortfolioView />
+}
@@ -0,0 +1,10 @@
+import type { Metadata } from "next"
+import { RadarView } from "@/components/terminal/views/radar-view"
+
+export const metadata: Metadata = {
+  title: "RADAR — SLAB SCOPE",
+}
+
+export default function RadarPage() {
+  return <RadarView />
+}
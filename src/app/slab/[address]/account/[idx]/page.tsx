@@ -0,0 +1,13 @@
+import type { Metadata } from "next"
+import { AccountView } from "@/components/terminal/views/account-view"
+
+export async function generateMetadata(
+  { params }: { params: Promise<{ address: string; idx: string }> },
+): Promise<Metadata> {
+  const { address, idx } = await params
+  return { title: `ACCOUNT #${idx} OF ${address.slice(0, 4)}...${address.slice(-4)} — SLAB SCOPE` }
+}
+
+export default function AccountPage() {
+  return <AccountView />
+}
@@ -0,0 +1,13 @@
+import type { Metadata } from "next"
+import { SlabDetailView } from "@/components/terminal/views/slab-detail-view"
+
+export async function generateMetadata(
+  { params }: { params: Promise<{ address: string }> },
+): Promise<Metadata> {
+  const { address } = await params
+  return { title: `SLAB ${address.slice(0, 4)}...${address.slice(-4)} — SLAB SCOPE` }
+}
+
+export default function SlabPage() {
+  return <SlabDetailView />
+}
@@ -0,0 +1,575 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState, type KeyboardEvent } from "react"
+import { useRadarData } from "@/hooks/use-radar-data"
+import { useNavigation, type ViewId } from "@/hooks/use-navigation"
+import type { TopMarket, TopMarketsData } from "@/hooks/use-top-markets"
+import type { LiquidationsData } from "@/hooks/use-liquidations"
+import { PROGRAM_REGISTRY } from "@/lib/registry"
+import {
+  COMMAND_SPECS,
+  findCommandSpec,
+  fuzzyScore,
+  isPubkey,
+  parseCommand,
+  resolveSlab,
+  searchSlabs,
+  type SearchableSlab,
+  type TopMetric,
+} from "@/lib/commands"
+import { truncateAddress } from "./explorer-link"
+
+// ── Constants ────────────────────────────────────────────────────────────
+
+const HISTORY_KEY = "slabscope:command-history"
+const MAX_HISTORY = 50
+const MAX_SUGGESTIONS = 8
+const MAX_OUTPUT_ROWS = 12
+
+/** Single-key view switches, active when no input has focus */
+const VIEW_HOTKEYS: Record<string, ViewId> = {
+  h: "home",
+  r: "radar",
+  p: "portfolio",
+  d: "docs",
+}
+
+const TOP_METRICS: Record<TopMetric, { label: string; value: (m: TopMarket) => number; format: (m: TopMarket) => string; ascending?: boolean }> = {
+  oi: { label: "OPEN INTEREST", value: (m) => m.openInterestUsd, format: (m) => formatUsd(m.openInterestUsd) },
+  tvl: { label: "TVL", value: (m) => m.tvlUsd, format: (m) => formatUsd(m.tvlUsd) },
+  health: { label: "WORST HEALTH", value: (m) => m.worstHealth, format: (m) => `${m.worstHealth.toFixed(0)}%`, ascending: true },
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function formatUsd(n: number): string {
+  if (n >= 1_000_000) return `$${(n / 1_000_000).toFixed(2)}M`
+  if (n >= 1_000) return `$${(n / 1_000).toFixed(1)}K`
+  return `$${n.toFixed(2)}`
+}
+
+function loadHistory(): string[] {
+  if (typeof window === "undefined") return []
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(HISTORY_KEY) ?? "[]")
+    return Array.isArray(parsed) ? parsed.filter((e): e is string => typeof e === "string") : []
+  } catch {
+    return []
+  }
+}
+
+function saveHistory(history: string[]) {
+  try {
+    window.localStorage.setItem(HISTORY_KEY, JSON.stringify(history))
+  } catch {
+    // Private mode / quota — history just won't persist
+  }
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init)
+  const json = await res.json()
+  if (!res.ok) throw new Error(json?.details ?? json?.error ?? `HTTP ${res.status}`)
+  return json as T
+}
+
+// ── Types ────────────────────────────────────────────────────────────────
+
+interface Suggestion {
+  key: string
+  /** Text put into the command line when picked */
+  input: string
+  label: string
+  detail: string
+  /** Execute immediately instead of just completing */
+  run: boolean
+}
+
+interface OutputRow {
+  key: string
+  cells: string[]
+  color?: string
+  onSelect?: () => void
+}
+
+interface Output {
+  title: string
+  message?: string
+  error?: boolean
+  rows?: OutputRow[]
+}
+
+// ── Command Line ─────────────────────────────────────────────────────────
+
+export function CommandLine() {
+  const nav = useNavigation()
+  const { setActiveView, goBack } = nav
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const [input, setInput] = useState("")
+  const [open, setOpen] = useState(false)
+  const [activated, setActivated] = useState(false)
+  const [selected, setSelected] = useState(-1)
+  const [output, setOutput] = useState<Output | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [history, setHistory] = useState<string[]>(loadHistory)
+
+  // Slab search data is only fetched once the command line has been used
+  const { data: radar } = useRadarData(activated)
+  const slabs = useMemo<SearchableSlab[]>(() => {
+    if (!radar) return []
+    return radar.programs.flatMap((p) =>
+      p.slabs.map((s) => ({
+        pubkey: s.pubkey,
+        label: s.label,
+        programKey: p.id,
+        programLabel: p.label,
+        programId: p.programId,
+        network: p.network,
+        collateralSymbol: s.collateralSymbol,
+      })),
+    )
+  }, [radar])
+
+  const focus = useCallback(() => {
+    setActivated(true)
+    setOpen(true)
+    inputRef.current?.focus()
+  }, [])
+
+  const close = useCallback(() => {
+    setOpen(false)
+    setInput("")
+    setSelected(-1)
+    setOutput(null)
+    inputRef.current?.blur()
+  }, [])
+
+  // ── Global hotkeys ─────────────────────────────────────────────────────
+
+  useEffect(() => {
+    const onKey = (e: globalThis.KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      const typing = !!target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)
+
+      if ((e.key === "k" && (e.metaKey || e.ctrlKey)) || (e.key === "/" && !typing)) {
+        e.preventDefault()
+        focus()
+        return
+      }
+      if (typing || e.metaKey || e.ctrlKey || e.altKey) return
+
+      const view = VIEW_HOTKEYS[e.key.toLowerCase()]
+      if (view) {
+        e.preventDefault()
+        setActiveView(view)
+      } else if (e.key.toLowerCase() === "b") {
+        e.preventDefault()
+        goBack()
+      }
+    }
+    window.addEventListener("keydown", onKey)
+    return () => window.removeEventListener("keydown", onKey)
+  }, [focus, setActiveView, goBack])
+
+  // ── Suggestions ────────────────────────────────────────────────────────
+
+  const suggestions = useMemo<Suggestion[]>(() => {
+    const trimmed = input.trimStart()
+    if (!trimmed) {
+      return history.slice(0, MAX_SUGGESTIONS).map((h, i) => ({
+        key: `history-${i}`,
+        input: h,
+        label: h,
+        detail: "HISTORY",
+        run: true,
+      }))
+    }
+
+    const [verb, ...args] = trimmed.split(/\s+/)
+    const spec = findCommandSpec(verb)
+    const typingArgs = /\s/.test(trimmed)
+
+    if (spec && typingArgs) {
+      const rest = args.join(" ")
+      switch (spec.verb) {
+        case "SLAB":
+        case "CRANK":
+          return searchSlabs(rest, slabs, MAX_SUGGESTIONS).map((s) => ({
+            key: `${spec.verb}-${s.pubkey}`,
+            input: `${spec.verb} ${s.pubkey}`,
+            label: `${s.programLabel} ${s.collateralSymbol ?? ""}`.trim(),
+            detail: `${truncateAddress(s.pubkey, 6)} ${s.network.toUpperCase()}`,
+            run: true,
+          }))
+        case "ACCT": {
+          const query = /^\d+$/.test(args[args.length - 1] ?? "") ? args.slice(0, -1).join(" ") : rest
+          return searchSlabs(query, slabs, MAX_SUGGESTIONS).map((s) => ({
+            key: `ACCT-${s.pubkey}`,
+            input: `ACCT ${s.pubkey} `,
+            label: `${s.programLabel} ${s.collateralSymbol ?? ""}`.trim(),
+            detail: `${truncateAddress(s.pubkey, 6)} — THEN TYPE AN INDEX`,
+            run: false,
+          }))
+        }
+        case "RADAR":
+        case "LIQ": {
+          const networks = spec.verb === "RADAR" && args.length === 1 ? ["ALL", "DEVNET", "MAINNET"] : []
+          const last = args[args.length - 1] ?? ""
+          const prefix = [spec.verb, ...args.slice(0, -1)].join(" ")
+          const networkHits = networks
+            .filter((n) => !last || n.startsWith(last.toUpperCase()))
+            .map((n) => ({ key: `net-${n}`, input: `${prefix} ${n}`, label: n, detail: "NETWORK", run: true }))
+          const programHits = PROGRAM_REGISTRY
+            .filter((e) => !last || fuzzyScore(last, e.id) > 0 || fuzzyScore(last, e.label) > 0)
+            .map((e) => ({ key: `prog-${e.id}`, input: `${prefix} ${e.id}`, label: e.label, detail: `${e.id} ${e.network.toUpperCase()}`, run: true }))
+          return [...networkHits, ...programHits].slice(0, MAX_SUGGESTIONS)
+        }
+        case "TOP":
+          return (Object.keys(TOP_METRICS) as TopMetric[]).map((m) => ({
+            key: `top-${m}`,
+            input: `TOP ${m.toUpperCase()}`,
+            label: `TOP ${m.toUpperCase()}`,
+            detail: TOP_METRICS[m].label,
+            run: true,
+          }))
+        default:
+          return []
+      }
+    }
+
+    // First word: matching commands, then slabs, then past commands
+    const commands = COMMAND_SPECS
+      .filter((s) => fuzzyScore(verb, s.verb) > 0)
+      .sort((a, b) => fuzzyScore(verb, b.verb) - fuzzyScore(verb, a.verb))
+      .map((s) => ({
+        key: `cmd-${s.verb}`,
+        input: s.usage === s.verb ? s.verb : `${s.verb} `,
+        label: s.usage,
+        detail: s.description,
+        run: s.usage === s.verb,
+      }))
+    const slabHits = searchSlabs(trimmed, slabs, MAX_SUGGESTIONS).map((s) => ({
+      key: `slab-${s.pubkey}`,
+      input: `SLAB ${s.pubkey}`,
+      label: `${s.programLabel} ${s.collateralSymbol ?? ""}`.trim(),
+      detail: `${truncateAddress(s.pubkey, 6)} ${s.network.toUpperCase()}`,
+      run: true,
+    }))
+    const historyHits = history
+      .filter((h) => fuzzyScore(trimmed, h) > 0)
+      .map((h, i) => ({ key: `history-${i}`, input: h, label: h, detail: "HISTORY", run: true }))
+    return [...commands, ...slabHits, ...historyHits].slice(0, MAX_SUGGESTIONS)
+  }, [input, history, slabs])
+
+  // ── Execution ──────────────────────────────────────────────────────────
+
+  const findSlab = useCallback((query: string): SearchableSlab | { pubkey: string } | undefined => {
+    return resolveSlab(query, slabs) ?? (isPubkey(query) ? { pubkey: query } : undefined)
+  }, [slabs])
+
+  const execute = useCallback(async (raw: string) => {
+    const line = raw.trim()
+    if (!line) return
+
+    const nextHistory = [line, ...history.filter((h) => h !== line)].slice(0, MAX_HISTORY)
+    setHistory(nextHistory)
+    saveHistory(nextHistory)
+    setInput("")
+    setSelected(-1)
+
+    const parsed = parseCommand(line)
+    if ("error" in parsed) {
+      setOutput({ title: line, message: parsed.error, error: true })
+      return
+    }
+
+    const cmd = parsed.command
+    const title = line.toUpperCase()
+    const notFound = (query: string) =>
+      setOutput({ title, message: radar ? `No slab matches "${query}"` : "Radar still loading — try again, or use a full address", error: true })
+
+    const crank = async (slab: SearchableSlab | { pubkey: string }) => {
+      setBusy(true)
+      setOutput({ title, message: `Cranking ${truncateAddress(slab.pubkey, 6)}...` })
+      try {
+        const result = await fetchJson<{ signature: string; slot: number; network: string }>("/api/crank", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            slab: slab.pubkey,
+            programId: "programId" in slab ? slab.programId : undefined,
+            network: "network" in slab ? slab.network : undefined,
+          }),
+        })
+        setOutput({
+          title,
+          message: `CRANK OK — ${result.network.toUpperCase()} slot ${result.slot.toLocaleString()} sig ${truncateAddress(result.signature, 8)}`,
+        })
+      } catch (err) {
+        setOutput({ title, message: `CRANK FAILED — ${err instanceof Error ? err.message : String(err)}`, error: true })
+      } finally {
+        setBusy(false)
+      }
+    }
+
+    switch (cmd.kind) {
+      case "view":
+        setActiveView(cmd.view)
+        close()
+        return
+      case "back":
+        goBack()
+        close()
+        return
+      case "radar":
+        nav.navigateToRadar(cmd.network, cmd.program?.id ?? null)
+        close()
+        return
+      case "owner":
+        nav.navigateToOwner(cmd.pubkey)
+        close()
+        return
+      case "clear":
+        setHistory([])
+        saveHistory([])
+        setOutput({ title, message: "Command history cleared" })
+        return
+      case "help":
+        setOutput({
+          title: "COMMANDS",
+          rows: [
+            ...COMMAND_SPECS.map((s) => ({ key: s.verb, cells: [s.usage, s.description] })),
+            { key: "hotkeys", cells: ["/  CTRL+K", "Focus the command line"], color: "var(--terminal-dim)" },
+            { key: "views", cells: ["H R P D  B", "Home, radar, portfolio, docs, back"], color: "var(--terminal-dim)" },
+          ],
+        })
+        return
+
+      case "slab": {
+        const slab = findSlab(cmd.query)
+        if (!slab) return notFound(cmd.query)
+        if ("programId" in slab) nav.navigateToSlab(slab.pubkey, slab.programLabel, slab.network, slab.programId)
+        else nav.navigateToSlab(slab.pubkey)
+        close()
+        return
+      }
+
+      case "account": {
+        const slab = findSlab(cmd.query)
+        if (!slab) return notFound(cmd.query)
+        if ("programId" in slab) nav.navigateToAccount(slab.pubkey, cmd.idx, slab.programLabel, slab.network, slab.programId)
+        else nav.navigateToAccount(slab.pubkey, cmd.idx)
+        close()
+        return
+      }
+
+      case "crank": {
+        // Cranking sends a transaction, so a fuzzy query must match one slab;
+        // otherwise list the matches and crank only the one picked
+        const exact = slabs.find((s) => s.pubkey === cmd.query) ?? (isPubkey(cmd.query) ? { pubkey: cmd.query } : undefined)
+        if (exact) return crank(exact)
+        const matches = searchSlabs(cmd.query, slabs, MAX_OUTPUT_ROWS)
+        if (matches.length === 0) return notFound(cmd.query)
+        if (matches.length === 1) return crank(matches[0])
+        setOutput({
+          title,
+          message: `${matches.length === MAX_OUTPUT_ROWS ? `${MAX_OUTPUT_ROWS}+` : matches.length} slabs match "${cmd.query}" — select one to crank it`,
+          rows: matches.map((s) => ({
+            key: s.pubkey,
+            cells: [`${s.programLabel} ${s.label}`, s.collateralSymbol ?? "—", s.network.toUpperCase(), truncateAddress(s.pubkey, 4)],
+            onSelect: () => void crank(s),
+          })),
+        })
+        return
+      }
+
+      case "top": {
+        const metric = TOP_METRICS[cmd.metric]
+        setBusy(true)
+        try {
+          const data = await fetchJson<TopMarketsData>("/api/top-markets")
+          const sorted = [...data.markets].sort((a, b) =>
+            metric.ascending ? metric.value(a) - metric.value(b) : metric.value(b) - metric.value(a),
+          )
+          setOutput({
+            title: `TOP ${cmd.metric.toUpperCase()} — ${metric.label}`,
+            rows: sorted.slice(0, MAX_OUTPUT_ROWS).map((m, i) => ({
+              key: m.slabAddress,
+              cells: [`${i + 1}. ${m.program}`, m.collateralSymbol, m.network.toUpperCase(), metric.format(m)],
+              onSelect: () => {
+                nav.navigateToSlab(m.slabAddress, m.program, m.network, m.programId)
+                close()
+              },
+            })),
+          })
+        } catch (err) {
+          setOutput({ title, message: err instanceof Error ? err.message : String(err), error: true })
+        } finally {
+          setBusy(false)
+        }
+        return
+      }
+
+      case "liq": {
+        setBusy(true)
+        try {
+          const data = await fetchJson<LiquidationsData>("/api/liquidations")
+          const entries = [...data.critical, ...data.warning]
+            .filter((e) => !cmd.program || e.program === cmd.program.programId)
+            .sort((a, b) => a.health - b.health)
+          setOutput({
+            title: `LIQUIDATION WATCH — ${cmd.program?.label.toUpperCase() ?? "ALL PROGRAMS"}`,
+            message: entries.length === 0 ? "No accounts near liquidation" : undefined,
+            rows: entries.slice(0, MAX_OUTPUT_ROWS).map((e) => ({
+              key: `${e.slabAddress}-${e.accountIndex}`,
+              cells: [`${e.programLabel} #${e.accountIndex}`, e.side.toUpperCase(), `${e.health.toFixed(0)}%`, `liq $${e.liquidationPrice.toFixed(2)}`],
+              color: e.status === "liquidatable" || e.health < 20 ? "var(--terminal-red)" : "var(--terminal-amber)",
+              onSelect: () => {
+                nav.navigateToAccount(e.slabAddress, e.accountIndex, e.programLabel, e.network, e.program)
+                close()
+              },
+            })),
+          })
+        } catch (err) {
+          setOutput({ title, message: err instanceof Error ? err.message : String(err), error: true })
+        } finally {
+          setBusy(false)
+        }
+        return
+      }
+    }
+  }, [history, radar, slabs, nav, setActiveView, goBack, close, findSlab])
+
+  const pick = useCallback((s: Suggestion) => {
+    if (s.run) {
+      void execute(s.input)
+    } else {
+      setInput(s.input)
+      setSelected(-1)
+      inputRef.current?.focus()
+    }
+  }, [execute])
+
+  const onKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "Enter":
+        e.preventDefault()
+        if (busy) return
+        if (selected >= 0 && suggestions[selected]) pick(suggestions[selected])
+        else void execute(input)
+        return
+      case "ArrowDown":
+      case "ArrowUp": {
+        e.preventDefault()
+        if (suggestions.length === 0) return
+        // -1 is the typed line itself
+        const step = e.key === "ArrowDown" ? 1 : -1
+        setSelected((i) => {
+          const next = i + step
+          if (next < -1) return suggestions.length - 1
+          return next >= suggestions.length ? -1 : next
+        })
+        return
+      }
+      case "Tab": {
+        const s = suggestions[selected >= 0 ? selected : 0]
+        if (!s) return
+        e.preventDefault()
+        setInput(s.input)
+        setSelected(-1)
+        return
+      }
+      case "Escape":
+        e.preventDefault()
+        if (output) setOutput(null)
+        else close()
+        return
+    }
+  }
+
+  // ── Render ─────────────────────────────────────────────────────────────
+
+  const spec = findCommandSpec(input.trim().split(/\s+/)[0] ?? "")
+
+  return (
+    <div className="relative flex-1 max-w-xl mx-3">
+      <div
+        className={`flex items-center gap-1.5 border px-2 py-0.5 transition-colors ${
+          open ? "border-[var(--terminal-green)]" : "border-[var(--terminal-border)]"
+        }`}
+      >
+        <span className="text-[10px] font-bold text-[var(--terminal-amber)]">{busy ? "…" : ">"}</span>
+        <input
+          ref={inputRef}
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value)
+            setSelected(-1)
+          }}
+          onFocus={() => {
+            setActivated(true)
+            setOpen(true)
+          }}
+          onBlur={() => setOpen(false)}
+          onKeyDown={onKeyDown}
+          placeholder="COMMAND OR SEARCH — HELP, SLAB, RADAR MAINNET, TOP OI ( / )"
+          spellCheck={false}
+          autoComplete="off"
+          className="flex-1 bg-transparent text-[10px] font-mono text-[var(--terminal-green)] placeholder:text-[var(--terminal-dim)] outline-none"
+        />
+      </div>
+
+      {open && (spec || suggestions.length > 0 || output) && (
+        <div
+          className="absolute left-0 right-0 top-full z-50 mt-px border border-[var(--terminal-green)] bg-[var(--terminal-panel)] text-[10px] shadow-lg"
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {spec && (
+            <div className="flex justify-between gap-2 border-b border-[var(--terminal-border)] px-2 py-0.5 text-[9px]">
+              <span className="text-[var(--terminal-cyan)]">{spec.usage}</span>
+              <span className="text-[var(--terminal-dim)]">{spec.description}</span>
+            </div>
+          )}
+
+          {suggestions.map((s, i) => (
+            <div
+              key={s.key}
+              onClick={() => pick(s)}
+              onMouseEnter={() => setSelected(i)}
+              className={`flex cursor-pointer items-center justify-between gap-2 px-2 py-0.5 ${
+                i === selected ? "bg-[var(--terminal-hover)] text-[var(--terminal-green)]" : "text-[var(--terminal-cyan)]"
+              }`}
+            >
+              <span className="truncate font-bold">{s.label}</span>
+              <span className="shrink-0 text-[9px] text-[var(--terminal-dim)]">{s.detail}</span>
+            </div>
+          ))}
+
+          {output && (
+            <div className="border-t border-[var(--terminal-border)] px-2 py-1">
+              <div className="mb-0.5 text-[9px] uppercase tracking-wider text-[var(--terminal-dim)]">{output.title}</div>
+              {output.message && (
+                <div style={{ color: output.error ? "var(--terminal-red)" : "var(--terminal-green)" }}>{output.message}</div>
+              )}
+              {output.rows?.map((row) => (
+                <div
+                  key={row.key}
+                  onClick={row.onSelect}
+                  className={`grid grid-cols-[2fr_repeat(3,1fr)] gap-2 py-px ${row.onSelect ? "cursor-pointer hover:bg-[var(--terminal-hover)]" : ""}`}
+                  style={{ color: row.color ?? "var(--terminal-cyan)" }}
+                >
+                  {row.cells.map((cell, i) => (
+                    <span key={i} className={`truncate ${i > 0 && row.cells.length > 2 ? "text-right" : ""} ${row.cells.length === 2 && i === 1 ? "col-span-3" : ""}`}>
+                      {cell}
+                    </span>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
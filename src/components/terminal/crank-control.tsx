@@ -1,7 +1,12 @@
 "use client"
 
 import { useState, useCallback } from "react"
-import { useCrankStatus } from "@/hooks/use-market-data"
+import {
+  useCrankHistory,
+  useCrankStatus,
+  type CrankLogEntry,
+  type SlabCrankStatus,
+} from "@/hooks/use-market-data"
 import { ExplorerLink, truncateAddress } from "./explorer-link"
 
 function StatusDot({ on }: { on: boolean }) {
@@ -16,8 +21,64 @@ function StatusDot({ on }: { on: boolean }) {
   )
 }
 
+function stalenessColor(staleness: number): string {
+  if (staleness >= 1) return "text-[var(--terminal-red)]"
+  if (staleness >= 0.5) return "text-[var(--terminal-amber)]"
+  return "text-[var(--terminal-green)]"
+}
+
+function SlabCrankRow({ status }: { status: SlabCrankStatus }) {
+  return (
+    <div className="flex items-center gap-3 text-[10px]">
+      <span className="w-40 truncate text-[var(--terminal-dim)]" title={status.slab}>
+        {status.label}
+      </span>
+      <span className={`w-12 text-right font-bold ${stalenessColor(status.staleness)}`}>
+        {(status.staleness * 100).toFixed(0)}%
+      </span>
+      <span className="w-16 text-[var(--terminal-dim)]">
+        /{status.maxCrankStalenessSlots} slots
+      </span>
+      <span className="text-[var(--terminal-cyan)]">{status.crankCount}</span>
+      {status.errorCount > 0 && (
+        <span className="text-[var(--terminal-red)]" title={status.lastError ?? undefined}>
+          {status.errorCount} err
+        </span>
+      )}
+      {status.lastSignature && (
+        <ExplorerLink
+          type="tx"
+          address={status.lastSignature}
+          label={`${status.lastSignature.slice(0, 8)}...`}
+          network={status.network === "mainnet" ? "mainnet" : "devnet"}
+        />
+      )}
+    </div>
+  )
+}
+
+/** One bar per crank, oldest on the left; height = latency, red = failed */
+function LatencyBars({ entries }: { entries: CrankLogEntry[] }) {
+  const ordered = [...entries].reverse()
+  const max = Math.max(...ordered.map((e) => e.latencyMs), 1)
+
+  return (
+    <div className="flex h-4 items-end gap-px">
+      {ordered.map((e) => (
+        <span
+          key={e.id}
+          className={`w-1 ${e.error ? "bg-[var(--terminal-red)]" : "bg-[var(--terminal-green)]"}`}
+          style={{ height: `${Math.max((e.latencyMs / max) * 100, 10)}%` }}
+          title={`${new Date(e.timestamp).toLocaleTimeString()} ${e.latencyMs}ms${e.error ? ` — ${e.error}` : ""}`}
+        />
+      ))}
+    </div>
+  )
+}
+
 export function CrankControl() {
   const { data, mutate } = useCrankStatus()
+  const { data: history } = useCrankHistory()
   const [cranking, setCranking] = useState(false)
   const [toggling, setToggling] = useState(false)
 
@@ -57,7 +118,10 @@ export function CrankControl() {
   const errorCount = data?.errorCount ?? 0
   const lastSig = data?.lastCrankSignature
   const lastError = data?.lastError
+  const slabs = data?.slabs ?? []
+  const runnerLive = data?.runnerLive ?? false
   const lowBalance = walletBalance > 0 && walletBalance < 0.1
+  const summary = history?.summary
 
   return (
     <div className="border border-[var(--terminal-border)] bg-[var(--terminal-panel)]">
@@ -128,6 +192,14 @@ export function CrankControl() {
           )}
         </div>
 
+        {/* Driver: standalone runner or browser polling */}
+        <div className="flex items-center gap-1.5 text-[10px]">
+          <span className="text-[var(--terminal-dim)]">DRIVER</span>
+          <span className={runnerLive ? "text-[var(--terminal-green)]" : "text-[var(--terminal-amber)]"}>
+            {runnerLive ? "RUNNER" : "POLL"}
+          </span>
+        </div>
+
         {/* Crank count */}
         <div className="flex items-center gap-1.5 text-[10px]">
           <span className="text-[var(--terminal-dim)]">CRANKS</span>
@@ -159,6 +231,47 @@ export function CrankControl() {
           </div>
         )}
       </div>
+
+      {/* Recent crank log: success rate, latency and compute */}
+      {summary && summary.count > 0 && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-0.5 border-t border-[var(--terminal-border)] px-3 py-1.5 text-[10px]">
+          <div className="flex items-center gap-1.5">
+            <span className="text-[var(--terminal-dim)]">SUCCESS</span>
+            <span
+              className={`font-bold ${
+                summary.successRate >= 0.9
+                  ? "text-[var(--terminal-green)]"
+                  : summary.successRate >= 0.5
+                    ? "text-[var(--terminal-amber)]"
+                    : "text-[var(--terminal-red)]"
+              }`}
+            >
+              {(summary.successRate * 100).toFixed(0)}%
+            </span>
+            <span className="text-[var(--terminal-dim)]">of {summary.count}</span>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <span className="text-[var(--terminal-dim)]">LATENCY</span>
+            <span className="text-[var(--terminal-cyan)] font-bold">{summary.avgLatencyMs}ms</span>
+          </div>
+          {summary.avgComputeUnits !== null && (
+            <div className="flex items-center gap-1.5">
+              <span className="text-[var(--terminal-dim)]">CU</span>
+              <span className="text-[var(--terminal-cyan)]">{summary.avgComputeUnits.toLocaleString()}</span>
+            </div>
+          )}
+          <LatencyBars entries={history?.entries ?? []} />
+        </div>
+      )}
+
+      {/* Per-slab scheduler status, stalest first */}
+      {slabs.length > 0 && (
+        <div className="space-y-0.5 border-t border-[var(--terminal-border)] px-3 py-1.5">
+          {slabs.map((s) => (
+            <SlabCrankRow key={s.slab} status={s} />
+          ))}
+        </div>
+      )}
     </div>
   )
 }
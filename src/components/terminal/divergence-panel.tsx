@@ -0,0 +1,222 @@
+"use client"
+
+import { useDivergence, type DivergenceLevel, type DivergencePair, type DivergenceReport, type DivergenceSample } from "@/hooks/use-divergence"
+import { TerminalPanel } from "./terminal-panel"
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+const SOURCE_LABELS: Record<string, string> = {
+  admin: "ADMIN",
+  pyth: "PYTH",
+  chainlink: "LINK",
+  "dex-pumpswap": "PUMP",
+  "dex-raydium": "RAY",
+  "dex-meteora": "MET",
+}
+
+const PAIRS: { pair: DivergencePair; label: string; title: string; color: string }[] = [
+  { pair: "markIndex", label: "MARK–INDEX", title: "Last effective price vs live oracle", color: "var(--terminal-green)" },
+  { pair: "dexIndex", label: "DEX–INDEX", title: "Collateral market price vs live oracle", color: "var(--terminal-cyan)" },
+  { pair: "markDex", label: "MARK–DEX", title: "Last effective price vs collateral market price", color: "var(--terminal-amber)" },
+]
+
+const CHART_WIDTH = 600
+const CHART_HEIGHT = 80
+
+function levelColor(level: DivergenceLevel): string {
+  switch (level) {
+    case "ok":
+      return "var(--terminal-green)"
+    case "warning":
+      return "var(--terminal-amber)"
+    case "critical":
+      return "var(--terminal-red)"
+  }
+}
+
+function levelOf(bps: number | null, report: DivergenceReport): DivergenceLevel {
+  if (bps === null) return "ok"
+  const abs = Math.abs(bps)
+  if (abs >= report.thresholds.criticalBps) return "critical"
+  if (abs >= report.thresholds.warnBps) return "warning"
+  return "ok"
+}
+
+function pairBps(sample: DivergenceSample, pair: DivergencePair): number | null {
+  switch (pair) {
+    case "markIndex":
+      return sample.markIndexBps
+    case "dexIndex":
+      return sample.dexIndexBps
+    case "markDex":
+      return sample.markDexBps
+  }
+}
+
+function formatPrice(price: number | null): string {
+  if (price === null) return "—"
+  if (price >= 1000) return `$${price.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+  if (price >= 1) return `$${price.toFixed(4)}`
+  return `$${price.toPrecision(4)}`
+}
+
+function formatSignedBps(bps: number | null): string {
+  if (bps === null) return "—"
+  return `${bps >= 0 ? "+" : ""}${bps.toFixed(Math.abs(bps) >= 100 ? 0 : 1)}bps`
+}
+
+// ── Chart ───────────────────────────────────────────────────────────────
+
+/** Basis of each pair over the window, with the warning / critical bands */
+function BasisChart({ report }: { report: DivergenceReport }) {
+  const { samples, thresholds } = report
+  const values = samples.flatMap((s) => PAIRS.map(({ pair }) => pairBps(s, pair))).filter((v): v is number => v !== null)
+  if (samples.length < 2 || values.length === 0) {
+    return (
+      <div className="py-4 text-center text-[10px] text-[var(--terminal-dim)]">
+        COLLECTING SAMPLES ({samples.length})...
+      </div>
+    )
+  }
+
+  // Symmetric around zero; always tall enough to show the warning band
+  const range = Math.max(...values.map(Math.abs), thresholds.warnBps * 1.5)
+  const y = (bps: number) => CHART_HEIGHT / 2 - (bps / range) * (CHART_HEIGHT / 2 - 2)
+  const x = (i: number) => (i / (samples.length - 1)) * CHART_WIDTH
+
+  const bands = [
+    { bps: thresholds.warnBps, color: "var(--terminal-amber)" },
+    { bps: thresholds.criticalBps, color: "var(--terminal-red)" },
+  ].filter((b) => b.bps <= range)
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="h-20 w-full">
+      <line x1={0} x2={CHART_WIDTH} y1={y(0)} y2={y(0)} stroke="var(--terminal-border)" strokeWidth={1} />
+      {bands.flatMap(({ bps, color }) => [bps, -bps].map((b) => (
+        <line
+          key={b}
+          x1={0}
+          x2={CHART_WIDTH}
+          y1={y(b)}
+          y2={y(b)}
+          stroke={color}
+          strokeWidth={1}
+          strokeDasharray="4 4"
+          vectorEffect="non-scaling-stroke"
+        />
+      )))}
+      {PAIRS.map(({ pair, color }) => {
+        // Gaps where a price was missing split the line
+        let d = ""
+        let pen = false
+        samples.forEach((s, i) => {
+          const bps = pairBps(s, pair)
+          if (bps === null) {
+            pen = false
+            return
+          }
+          d += `${pen ? "L" : "M"}${x(i).toFixed(1)},${y(bps).toFixed(1)}`
+          pen = true
+        })
+        return d ? (
+          <path key={pair} d={d} fill="none" stroke={color} strokeWidth={1.25} vectorEffect="non-scaling-stroke" />
+        ) : null
+      })}
+    </svg>
+  )
+}
+
+// ── Panel ───────────────────────────────────────────────────────────────
+
+/**
+ * Mark vs index vs DEX price for one slab. A DEX-priced market drifting away
+ * from the wider market shows up here before liquidations do.
+ */
+export function DivergencePanel({
+  address,
+  programId,
+  network,
+}: {
+  address: string
+  programId?: string | null
+  network?: "devnet" | "mainnet" | null
+}) {
+  const { data, error, isLoading } = useDivergence(address, { programId, network })
+
+  if (isLoading || !data) {
+    return (
+      <TerminalPanel title="Price Divergence">
+        <div className="py-4 text-center text-[10px] text-[var(--terminal-dim)]">
+          {error ? "DIVERGENCE UNAVAILABLE" : "COMPARING PRICES..."}
+        </div>
+      </TerminalPanel>
+    )
+  }
+
+  const { current, stats, thresholds, alerts } = data
+  const source = data.oracleSource ? SOURCE_LABELS[data.oracleSource] ?? "?" : "?"
+
+  return (
+    <TerminalPanel title="Price Divergence" stale={!!error}>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 pb-1 text-[10px] border-b border-[var(--terminal-border)]">
+        <span className="text-[var(--terminal-dim)]" title="Last effective price the engine accepted">
+          MARK: <span className="font-bold text-[var(--terminal-green)]">{formatPrice(current.mark)}</span>
+        </span>
+        <span className="text-[var(--terminal-dim)]" title="Live oracle feed">
+          INDEX ({source}): <span className="font-bold text-[var(--terminal-cyan)]">{formatPrice(current.index)}</span>
+        </span>
+        <span className="text-[var(--terminal-dim)]" title={`Price-provider market price, in ${data.dexUnit}`}>
+          DEX ({data.dexUnit}): <span className="font-bold text-[var(--terminal-amber)]">{formatPrice(current.dex)}</span>
+        </span>
+        <span className="ml-auto font-bold" style={{ color: levelColor(data.level) }}>
+          {data.level === "critical" ? "DIVERGED" : data.level === "warning" ? "WARN" : "IN LINE"}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 py-1.5">
+        {PAIRS.map(({ pair, label, title, color }) => {
+          const bps = pairBps(current, pair)
+          const s = stats[pair]
+          return (
+            <div key={pair} className="flex flex-col gap-0.5" title={title}>
+              <span className="flex items-center gap-1 text-[9px] uppercase text-[var(--terminal-dim)]">
+                <span className="inline-block h-0.5 w-2" style={{ backgroundColor: color }} />
+                {label}
+              </span>
+              <span className="text-xs font-bold" style={{ color: bps === null ? "var(--terminal-dim)" : levelColor(levelOf(bps, data)) }}>
+                {formatSignedBps(bps)}
+              </span>
+              <span className="text-[9px] text-[var(--terminal-dim)]">
+                {s.maxAbsBps !== null
+                  ? `max ${s.maxAbsBps.toFixed(0)} · avg ${s.avgAbsBps!.toFixed(1)} · ${s.breaches} over`
+                  : "no samples"}
+              </span>
+            </div>
+          )
+        })}
+      </div>
+
+      <BasisChart report={data} />
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 pt-1 text-[9px] text-[var(--terminal-dim)] border-t border-[var(--terminal-border)]">
+        <span>
+          <span className="text-[var(--terminal-amber)]">- - </span>WARN ±{thresholds.warnBps}bps
+        </span>
+        <span>
+          <span className="text-[var(--terminal-red)]">- - </span>CRITICAL ±{thresholds.criticalBps}bps
+        </span>
+        <span className="ml-auto">{data.samples.length} SAMPLES</span>
+      </div>
+
+      {alerts.length > 0 && (
+        <div className="flex flex-col gap-0.5 pt-1">
+          {alerts.map((alert) => (
+            <div key={alert.pair} className="text-[10px] font-bold" style={{ color: levelColor(alert.level) }}>
+              {alert.level === "critical" ? "▲▲" : "▲"} {alert.message.toUpperCase()}
+            </div>
+          ))}
+        </div>
+      )}
+    </TerminalPanel>
+  )
+}
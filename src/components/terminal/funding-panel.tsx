@@ -0,0 +1,194 @@
+"use client"
+
+import { useFunding, type FundingDirection, type FundingInterval, type FundingPeriod } from "@/hooks/use-funding"
+import { TerminalPanel } from "./terminal-panel"
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+const CHART_WIDTH = 600
+const CHART_HEIGHT = 80
+
+function directionLabel(direction: FundingDirection): { label: string; color: string } {
+  switch (direction) {
+    case "longs_pay":
+      return { label: "LONGS PAY", color: "var(--terminal-red)" }
+    case "shorts_pay":
+      return { label: "SHORTS PAY", color: "var(--terminal-green)" }
+    case "neutral":
+      return { label: "NEUTRAL", color: "var(--terminal-dim)" }
+  }
+}
+
+function formatSignedBps(bps: number): string {
+  return `${bps >= 0 ? "+" : ""}${bps.toFixed(Math.abs(bps) >= 100 ? 0 : Math.abs(bps) >= 1 ? 2 : 4)}bps`
+}
+
+function formatApr(pct: number | null): string {
+  if (pct === null) return "—"
+  return `${pct >= 0 ? "+" : ""}${pct.toFixed(Math.abs(pct) >= 100 ? 0 : 2)}%`
+}
+
+function formatSol(n: number): string {
+  if (Math.abs(n) < 0.000001) return "0"
+  return `${n >= 0 ? "+" : ""}${n.toFixed(Math.abs(n) >= 1 ? 3 : 6)}`
+}
+
+/** Paying is red, receiving green */
+function paidColor(n: number): string {
+  if (Math.abs(n) < 0.000001) return "var(--terminal-dim)"
+  return n > 0 ? "var(--terminal-red)" : "var(--terminal-green)"
+}
+
+function formatHour(iso: string): string {
+  const d = new Date(iso)
+  return `${d.toLocaleDateString(undefined, { month: "2-digit", day: "2-digit" })} ${d.getHours().toString().padStart(2, "0")}:00`
+}
+
+// ── Chart ───────────────────────────────────────────────────────────────
+
+/** Cumulative realized funding over the window, in bps of notional */
+function CumulativeChart({ intervals }: { intervals: FundingInterval[] }) {
+  if (intervals.length < 2) {
+    return (
+      <div className="py-4 text-center text-[10px] text-[var(--terminal-dim)]">
+        COLLECTING SAMPLES ({intervals.length} INTERVALS)...
+      </div>
+    )
+  }
+
+  const values = [0, ...intervals.map((i) => i.cumulativeBps)]
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const span = max - min || 1
+  const y = (bps: number) => CHART_HEIGHT - 2 - ((bps - min) / span) * (CHART_HEIGHT - 4)
+  const x = (i: number) => (i / (values.length - 1)) * CHART_WIDTH
+  const d = values.map((v, i) => `${i === 0 ? "M" : "L"}${x(i).toFixed(1)},${y(v).toFixed(1)}`).join("")
+  const last = values[values.length - 1]
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="h-20 w-full">
+      <line x1={0} x2={CHART_WIDTH} y1={y(0)} y2={y(0)} stroke="var(--terminal-border)" strokeWidth={1} strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+      <path
+        d={d}
+        fill="none"
+        stroke={last >= 0 ? "var(--terminal-red)" : "var(--terminal-green)"}
+        strokeWidth={1.25}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  )
+}
+
+// ── Table ───────────────────────────────────────────────────────────────
+
+function PeriodRow({ period }: { period: FundingPeriod }) {
+  return (
+    <tr className="border-b border-dotted border-[var(--terminal-border)]">
+      <td className="py-0.5 pr-2 text-[var(--terminal-dim)]">{formatHour(period.start)}</td>
+      <td className="py-0.5 pr-2 text-right text-[var(--terminal-dim)]">{period.slots.toLocaleString()}</td>
+      <td className="py-0.5 pr-2 text-right" style={{ color: paidColor(period.realizedBps) }}>{formatSignedBps(period.realizedBps)}</td>
+      <td className="py-0.5 pr-2 text-right">{formatApr(period.aprPct)}</td>
+      <td className="py-0.5 pr-2 text-right" style={{ color: paidColor(period.longsPaid) }}>{formatSol(period.longsPaid)}</td>
+      <td className="py-0.5 text-right" style={{ color: paidColor(period.shortsPaid) }}>{formatSol(period.shortsPaid)}</td>
+    </tr>
+  )
+}
+
+// ── Panel ───────────────────────────────────────────────────────────────
+
+/**
+ * Funding for one slab: the engine's current rate and APR at the measured
+ * slot time, cumulative realized funding over the window, and an hourly
+ * breakdown of what longs and shorts paid.
+ */
+export function FundingPanel({
+  address,
+  programId,
+  network,
+}: {
+  address: string
+  programId?: string | null
+  network?: "devnet" | "mainnet" | null
+}) {
+  const { data, error, isLoading } = useFunding(address, { programId, network })
+
+  if (isLoading || !data) {
+    return (
+      <TerminalPanel title="Funding">
+        <div className="py-4 text-center text-[10px] text-[var(--terminal-dim)]">
+          {error ? "FUNDING UNAVAILABLE" : "READING FUNDING INDEX..."}
+        </div>
+      </TerminalPanel>
+    )
+  }
+
+  const { current, cumulative, slotTiming } = data
+  const direction = directionLabel(current.direction)
+
+  return (
+    <TerminalPanel title="Funding" stale={!!error}>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 pb-1 text-[10px] border-b border-[var(--terminal-border)]">
+        <span className="text-[var(--terminal-dim)]" title="Engine's last applied rate (fundingRateBpsPerSlotLast)">
+          RATE: <span className="font-bold text-[var(--terminal-text)]">{formatSignedBps(current.rateBpsPerSlot)}/slot</span>
+        </span>
+        <span className="text-[var(--terminal-dim)]">
+          1H: <span className="font-bold text-[var(--terminal-text)]">{formatSignedBps(current.rateBpsPerHour)}</span>
+        </span>
+        <span className="text-[var(--terminal-dim)]">
+          APR: <span className="font-bold" style={{ color: direction.color }}>{formatApr(current.aprPct)}</span>
+        </span>
+        <span
+          className="text-[var(--terminal-dim)]"
+          title={slotTiming.source === "rpc" ? `Measured over ${slotTiming.sampleSlots.toLocaleString()} slots` : "RPC performance samples unavailable; 400ms target"}
+        >
+          SLOT: <span className="font-bold text-[var(--terminal-cyan)]">{slotTiming.msPerSlot.toFixed(0)}ms</span>
+          {slotTiming.source === "default" && " (EST)"}
+        </span>
+        <span className="ml-auto font-bold" style={{ color: direction.color }}>{direction.label}</span>
+      </div>
+
+      <div className="grid grid-cols-4 gap-3 py-1.5 text-[10px]">
+        {[
+          { label: "REALIZED", value: formatSignedBps(cumulative.realizedBps), color: paidColor(cumulative.realizedBps), title: "Funding per unit of notional over the window; positive when longs paid" },
+          { label: "REALIZED APR", value: formatApr(cumulative.aprPct), color: "var(--terminal-text)", title: "Realized funding annualized over the window's slots" },
+          { label: "LONGS PAID", value: `${formatSol(cumulative.longsPaid)} SOL`, color: paidColor(cumulative.longsPaid), title: "Negative when longs received" },
+          { label: "SHORTS PAID", value: `${formatSol(cumulative.shortsPaid)} SOL`, color: paidColor(cumulative.shortsPaid), title: "Negative when shorts received" },
+        ].map(({ label, value, color, title }) => (
+          <div key={label} className="flex flex-col gap-0.5" title={title}>
+            <span className="text-[9px] uppercase text-[var(--terminal-dim)]">{label}</span>
+            <span className="text-xs font-bold" style={{ color }}>{value}</span>
+          </div>
+        ))}
+      </div>
+
+      <CumulativeChart intervals={data.intervals} />
+
+      {data.periods.length > 0 && (
+        <div className="max-h-[200px] overflow-y-auto border-t border-[var(--terminal-border)] pt-1">
+          <table className="w-full text-[10px]">
+            <thead>
+              <tr className="text-[9px] uppercase tracking-wider text-[var(--terminal-dim)] border-b border-[var(--terminal-border)]">
+                <th className="py-0.5 pr-2 text-left font-normal">Hour</th>
+                <th className="py-0.5 pr-2 text-right font-normal">Slots</th>
+                <th className="py-0.5 pr-2 text-right font-normal">Realized</th>
+                <th className="py-0.5 pr-2 text-right font-normal">APR</th>
+                <th className="py-0.5 pr-2 text-right font-normal">Longs Paid</th>
+                <th className="py-0.5 text-right font-normal">Shorts Paid</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.periods.map((period) => (
+                <PeriodRow key={period.start} period={period} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-center gap-x-4 pt-1 text-[9px] text-[var(--terminal-dim)] border-t border-[var(--terminal-border)]">
+        <span>LONG = POSITIVE ENGINE POSITION</span>
+        <span className="ml-auto">{data.window.samples} SAMPLES</span>
+      </div>
+    </TerminalPanel>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useEcosystem } from "@/hooks/use-ecosystem"
 import { useNavigation, type ViewId } from "@/hooks/use-navigation"
+import { CommandLine } from "./command-line"
 
 const ASCII_LOGO = ` \u2584\u2584\u2584\u2584\u2584\u2584\u2584 \u2584\u2584\u2584        \u2584\u2584\u2584\u2584   \u2584\u2584\u2584\u2584\u2584\u2584\u2584
 \u2588\u2588\u2588\u2588\u2588\u2580\u2580\u2580 \u2588\u2588\u2588      \u2584\u2588\u2588\u2580\u2580\u2588\u2588\u2584 \u2588\u2588\u2588\u2580\u2580\u2588\u2588\u2588\u2584
@@ -12,6 +13,7 @@ const ASCII_LOGO = ` \u2584\u2584\u2584\u2584\u2584\u2584\u2584 \u2584\u2584\u25
 const TABS: { id: ViewId; label: string }[] = [
   { id: "home", label: "HOME" },
   { id: "radar", label: "RADAR" },
+  { id: "portfolio", label: "PORTFOLIO" },
   { id: "docs", label: "DOCS" },
 ]
 
@@ -120,7 +122,13 @@ export function Header() {
             SLAB DETAIL
           </span>
         )}
+        {activeView === "account" && (
+          <span className="px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider text-[var(--terminal-cyan)] border-b-2 border-[var(--terminal-cyan)]">
+            ACCOUNT
+          </span>
+        )}
         <span className="flex-1" />
+        <CommandLine />
         <span className="text-[9px] text-[var(--terminal-dim)] py-1.5">
           SLAB SCOPE v1.0
         </span>
@@ -41,6 +41,7 @@ function oracleTag(mode: OracleMode): { label: string; color: string } {
   switch (mode) {
     case "admin": return { label: "ADM", color: "var(--terminal-amber)" }
     case "pyth": return { label: "PYT", color: "var(--terminal-green)" }
+    case "chainlink": return { label: "LNK", color: "#375BD2" }
     case "dex-pumpswap": return { label: "PMP", color: "var(--terminal-cyan)" }
     case "dex-raydium": return { label: "RAY", color: "#7C3AED" }
     case "dex-meteora": return { label: "MET", color: "#06B6D4" }
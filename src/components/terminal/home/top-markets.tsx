@@ -5,7 +5,7 @@ import { useTopMarkets, type TopMarket, type OracleMode } from "@/hooks/use-top-
 import { useNavigation } from "@/hooks/use-navigation"
 import { TerminalPanel } from "../terminal-panel"
 
-type SortKey = "tvl" | "positions" | "health" | "oi" | "insurance"
+type SortKey = "tvl" | "positions" | "health" | "oi" | "funding" | "insurance"
 
 function formatCompact(n: number): string {
   if (n === 0) return "0"
@@ -31,6 +31,12 @@ function formatPrice(price: number): string {
   return `$${price.toExponential(1)}`
 }
 
+function formatApr(pct: number): string {
+  if (pct === 0) return "-"
+  const abs = Math.abs(pct)
+  return `${pct > 0 ? "+" : ""}${pct.toFixed(abs >= 100 ? 0 : abs >= 1 ? 1 : 2)}%`
+}
+
 function healthBar(health: number): { color: string; label: string } {
   if (health >= 80) return { color: "var(--terminal-green)", label: `${health}%` }
   if (health >= 40) return { color: "var(--terminal-amber)", label: `${health}%` }
@@ -47,6 +53,7 @@ function oracleBadge(mode: OracleMode): { label: string; color: string } {
   switch (mode) {
     case "admin": return { label: "ADMIN", color: "var(--terminal-amber)" }
     case "pyth": return { label: "PYTH", color: "var(--terminal-green)" }
+    case "chainlink": return { label: "LINK", color: "#375BD2" }
     case "dex-pumpswap": return { label: "PUMP", color: "var(--terminal-cyan)" }
     case "dex-raydium": return { label: "RAY", color: "#7C3AED" }
     case "dex-meteora": return { label: "MET", color: "#06B6D4" }
@@ -77,6 +84,7 @@ function sortMarkets(markets: TopMarket[], key: SortKey): TopMarket[] {
       const bVal = b.openInterestUsd > 0 ? b.openInterestUsd : b.openInterest
       return bVal - aVal
     })
+    case "funding": return sorted.sort((a, b) => Math.abs(b.fundingAprPct) - Math.abs(a.fundingAprPct))
     case "insurance": return sorted.sort((a, b) => a.insurance.ratio - b.insurance.ratio)
   }
 }
@@ -94,6 +102,13 @@ function MarketRow({ market, rank }: { market: TopMarket; rank: number }) {
   const tvlDisplay = market.tvlUsd > 0
     ? formatUsd(market.tvlUsd)
     : `${formatCompact(market.tvl)} ${market.collateralSymbol}`
+  const realized = market.realizedFunding24h
+  const fundingTitle = [
+    `${market.fundingRate >= 0 ? "+" : ""}${market.fundingRate.toFixed(4)} bps/h (${market.fundingDirection.replace("_", " ")})`,
+    realized
+      ? `24h realized: ${realized.realizedBps.toFixed(2)} bps, longs paid ${realized.longsPaid.toFixed(4)} / shorts ${realized.shortsPaid.toFixed(4)}`
+      : "24h realized: no samples yet",
+  ].join("\n")
   const oiDisplay = market.openInterestUsd > 0
     ? formatUsd(market.openInterestUsd)
     : market.openInterest > 0
@@ -135,6 +150,15 @@ function MarketRow({ market, rank }: { market: TopMarket; rank: number }) {
       <td className="py-0.5 pr-1.5 text-right font-mono text-[var(--terminal-dim)]">
         {oiDisplay}
       </td>
+      <td className="py-0.5 pr-1.5 text-right font-mono" title={fundingTitle}>
+        <span
+          style={{
+            color: market.fundingAprPct > 0 ? "var(--terminal-red)" : market.fundingAprPct < 0 ? "var(--terminal-green)" : "var(--terminal-dim)",
+          }}
+        >
+          {formatApr(market.fundingAprPct)}
+        </span>
+      </td>
       <td className="py-0.5 pr-1.5 text-right">
         <span className={market.positions.active > 0 ? "" : "text-[var(--terminal-dim)]"}>
           {posStr}
@@ -185,7 +209,7 @@ export function TopMarkets() {
       {/* Sort bar */}
       <div className="flex items-center gap-1.5 pb-1 border-b border-[var(--terminal-border)] text-[8px]">
         <span className="text-[var(--terminal-dim)]">SORT:</span>
-        {(["tvl", "positions", "health", "oi", "insurance"] as SortKey[]).map((key) => (
+        {(["tvl", "positions", "health", "oi", "funding", "insurance"] as SortKey[]).map((key) => (
           <button
             key={key}
             onClick={() => setSortKey(key)}
@@ -195,7 +219,7 @@ export function TopMarkets() {
                 : "border-[var(--terminal-border)] text-[var(--terminal-dim)] hover:text-[var(--terminal-green)]"
             }`}
           >
-            {key === "oi" ? "OI" : key === "positions" ? "POS" : key === "insurance" ? "INS" : key.toUpperCase()}
+            {key === "oi" ? "OI" : key === "positions" ? "POS" : key === "insurance" ? "INS" : key === "funding" ? "FUND" : key.toUpperCase()}
           </button>
         ))}
       </div>
@@ -211,6 +235,7 @@ export function TopMarkets() {
               <th className="pb-0.5 pr-1.5 text-right">PRICE</th>
               <th className="pb-0.5 pr-1.5 text-right">TVL</th>
               <th className="pb-0.5 pr-1.5 text-right">OI</th>
+              <th className="pb-0.5 pr-1.5 text-right" title="Funding APR at the measured slot time; positive when longs pay">FUND</th>
               <th className="pb-0.5 pr-1.5 text-right">POS</th>
               <th className="pb-0.5 pr-1.5 text-right">INS</th>
               <th className="pb-0.5 text-right">HEALTH</th>
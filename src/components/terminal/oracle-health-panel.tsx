@@ -0,0 +1,161 @@
+"use client"
+
+import { useState } from "react"
+import { useOracleHealth, type OracleHealthEntry, type OracleHealthStatus } from "@/hooks/use-oracle-health"
+import { useNavigation } from "@/hooks/use-navigation"
+import { TerminalPanel } from "./terminal-panel"
+import { truncateAddress } from "./explorer-link"
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+const SOURCE_LABELS: Record<string, string> = {
+  admin: "ADMIN",
+  pyth: "PYTH",
+  chainlink: "LINK",
+  "dex-pumpswap": "PUMP",
+  "dex-raydium": "RAY",
+  "dex-meteora": "MET",
+}
+
+function statusColor(status: OracleHealthStatus): string {
+  switch (status) {
+    case "ok":
+      return "var(--terminal-green)"
+    case "warning":
+      return "var(--terminal-amber)"
+    case "critical":
+      return "var(--terminal-red)"
+  }
+}
+
+function formatAge(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`
+  return `${Math.floor(seconds / 86400)}d`
+}
+
+function formatBps(bps: number): string {
+  return bps >= 100 ? bps.toFixed(0) : bps.toFixed(1)
+}
+
+// ── Row ─────────────────────────────────────────────────────────────────
+
+function OracleRow({ entry }: { entry: OracleHealthEntry }) {
+  const { navigateToSlab } = useNavigation()
+  const color = statusColor(entry.status)
+
+  return (
+    <tr
+      className="border-b border-dotted border-[var(--terminal-border)] hover:bg-[var(--terminal-hover)] cursor-pointer"
+      onClick={() => navigateToSlab(entry.slabAddress, entry.program, entry.network, entry.programId)}
+      title={entry.issues.length > 0 ? entry.issues.join("\n") : `Drill into ${entry.slabAddress}`}
+    >
+      <td className="py-0.5 pr-2">
+        <span className="flex items-center gap-1.5">
+          <span className="inline-block h-1.5 w-1.5 rounded-full shrink-0" style={{ backgroundColor: color }} />
+          <span className="font-bold text-[var(--terminal-text)]">{entry.collateralSymbol}</span>
+          <span className="text-[var(--terminal-cyan)] font-mono">{truncateAddress(entry.slabAddress, 4)}</span>
+        </span>
+      </td>
+      <td className="py-0.5 pr-2 text-[var(--terminal-dim)]">{entry.program}</td>
+      <td className="py-0.5 pr-2 font-bold text-[var(--terminal-cyan)]">{SOURCE_LABELS[entry.source] ?? "?"}</td>
+      <td className="py-0.5 pr-2 text-right" style={{ color: entry.stale ? "var(--terminal-red)" : "var(--terminal-text)" }}>
+        {entry.ageSeconds !== null ? formatAge(entry.ageSeconds) : "—"}
+        <span className="text-[var(--terminal-dim)]"> / {entry.maxStalenessSlots > 0 ? formatAge(entry.maxStalenessSeconds) : "∞"}</span>
+      </td>
+      <td className="py-0.5 pr-2 text-right" style={{ color: entry.wideConfidence ? "var(--terminal-red)" : "var(--terminal-text)" }}>
+        {entry.confidenceBps > 0 ? formatBps(entry.confidenceBps) : "—"}
+        <span className="text-[var(--terminal-dim)]"> / {entry.confFilterBps > 0 ? entry.confFilterBps : "∞"}</span>
+      </td>
+      <td className="py-0.5 pr-2 text-right" style={{ color: entry.capExceeded ? "var(--terminal-red)" : "var(--terminal-text)" }}>
+        {entry.deviationBps !== null ? formatBps(entry.deviationBps) : "—"}
+        <span className="text-[var(--terminal-dim)]"> / {entry.priceCapBps !== null ? formatBps(entry.priceCapBps) : "∞"}</span>
+      </td>
+      <td className="py-0.5 text-right font-bold" style={{ color }}>
+        {entry.crankBlocked ? "CRANK BLOCKED" : entry.status === "warning" ? "WARN" : "OK"}
+      </td>
+    </tr>
+  )
+}
+
+// ── Panel ───────────────────────────────────────────────────────────────
+
+/**
+ * Per-slab oracle health under the radar, following its network/program
+ * filters. Flagged markets are listed by default; SHOW ALL adds healthy ones.
+ */
+export function OracleHealthPanel() {
+  const { data, error, isLoading } = useOracleHealth()
+  const { radarNetwork, radarProgram } = useNavigation()
+  const [showAll, setShowAll] = useState(false)
+
+  if (isLoading || !data) {
+    return (
+      <TerminalPanel title="Oracle Health">
+        <div className="py-4 text-center text-[10px] text-[var(--terminal-dim)]">
+          {error ? "ORACLE SCAN FAILED" : "READING ORACLES..."}
+        </div>
+      </TerminalPanel>
+    )
+  }
+
+  const inScope = data.slabs.filter(
+    (s) => (radarNetwork === "all" || s.network === radarNetwork) && (!radarProgram || s.programKey === radarProgram),
+  )
+  const flagged = inScope.filter((s) => s.status !== "ok")
+  const rows = showAll ? inScope : flagged
+  const blocked = inScope.filter((s) => s.crankBlocked).length
+
+  return (
+    <TerminalPanel title="Oracle Health" stale={!!error}>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 px-1 py-1 text-[10px] border-b border-[var(--terminal-border)]">
+        <span className="text-[var(--terminal-dim)]">
+          FEEDS: <span className="font-bold text-[var(--terminal-green)]">{inScope.length}</span>
+        </span>
+        <span className="text-[var(--terminal-dim)]">
+          OK: <span className="font-bold text-[var(--terminal-green)]">{inScope.length - flagged.length}</span>
+        </span>
+        <span className="text-[var(--terminal-dim)]">
+          WARN: <span className="font-bold text-[var(--terminal-amber)]">{flagged.length - blocked}</span>
+        </span>
+        <span className="text-[var(--terminal-dim)]">
+          CRANK BLOCKED: <span className="font-bold" style={{ color: blocked > 0 ? "var(--terminal-red)" : "var(--terminal-dim)" }}>{blocked}</span>
+        </span>
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="ml-auto text-[9px] font-bold uppercase tracking-wider text-[var(--terminal-dim)] hover:text-[var(--terminal-amber)] select-none"
+        >
+          {showAll ? "FLAGGED ONLY" : `SHOW ALL (${inScope.length})`}
+        </button>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="py-3 text-center text-[10px] text-[var(--terminal-green)]">
+          ALL {inScope.length} ORACLES WITHIN LIMITS
+        </div>
+      ) : (
+        <div className="max-h-[320px] overflow-y-auto">
+          <table className="w-full text-[10px]">
+            <thead>
+              <tr className="text-[9px] uppercase tracking-wider text-[var(--terminal-dim)] border-b border-[var(--terminal-border)]">
+                <th className="py-0.5 pr-2 text-left font-normal">Market</th>
+                <th className="py-0.5 pr-2 text-left font-normal">Program</th>
+                <th className="py-0.5 pr-2 text-left font-normal">Src</th>
+                <th className="py-0.5 pr-2 text-right font-normal" title="Last update age / max staleness">Age / Max</th>
+                <th className="py-0.5 pr-2 text-right font-normal" title="Confidence bps / conf filter bps">Conf / Filter</th>
+                <th className="py-0.5 pr-2 text-right font-normal" title="Live vs last effective price bps / price cap bps">Dev / Cap</th>
+                <th className="py-0.5 text-right font-normal">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((entry) => (
+                <OracleRow key={entry.slabAddress} entry={entry} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </TerminalPanel>
+  )
+}
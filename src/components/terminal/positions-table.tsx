@@ -1,7 +1,8 @@
 "use client"
 
 import { useState } from "react"
-import { usePositions, type Position } from "@/hooks/use-market-data"
+import { usePositions, type PnlAttribution, type Position } from "@/hooks/use-market-data"
+import { useNavigation } from "@/hooks/use-navigation"
 import { TerminalPanel } from "./terminal-panel"
 import { ExplorerLink } from "./explorer-link"
 
@@ -34,9 +35,48 @@ function HealthIndicator({ health }: { health: number }) {
   )
 }
 
-const HEADERS = ["IDX", "SLAB", "SIDE", "SIZE", "ENTRY", "MARK", "PNL", "MARGIN", "HEALTH", ""] as const
+const ATTRIBUTION_PARTS: { key: Exclude<keyof PnlAttribution, "total">; label: string; color: string }[] = [
+  { key: "price", label: "PRICE", color: "var(--terminal-cyan)" },
+  { key: "funding", label: "FUNDING", color: "var(--terminal-amber)" },
+  { key: "fees", label: "FEES", color: "var(--terminal-red)" },
+]
+
+function formatSignedSol(n: number): string {
+  return `${n >= 0 ? "+" : ""}${n.toFixed(Math.abs(n) >= 1 ? 4 : 6)}`
+}
+
+/** Price, funding and fee PnL stacked out from a zero line: losses left, gains right */
+function AttributionBar({ attribution }: { attribution: PnlAttribution }) {
+  const parts = ATTRIBUTION_PARTS.map((p) => ({ ...p, value: attribution[p.key] }))
+  const gains = parts.filter((p) => p.value > 0)
+  const losses = parts.filter((p) => p.value < 0)
+  const scale = Math.max(
+    gains.reduce((sum, p) => sum + p.value, 0),
+    -losses.reduce((sum, p) => sum + p.value, 0),
+  )
+  const title = parts.map((p) => `${p.label} ${formatSignedSol(p.value)}`).join(" · ") + ` = ${formatSignedSol(attribution.total)} SOL`
+  const segment = (p: (typeof parts)[number]) => (
+    <div key={p.key} className="h-full" style={{ width: `${(Math.abs(p.value) / scale) * 100}%`, backgroundColor: p.color }} />
+  )
+
+  return (
+    <div className="flex justify-end" title={title}>
+      <div className="flex h-[3px] w-12 bg-[var(--terminal-border)]">
+        {scale > 0 && (
+          <>
+            <div className="flex flex-row-reverse w-1/2 border-r border-[var(--terminal-dim)]">{losses.map(segment)}</div>
+            <div className="flex w-1/2">{gains.map(segment)}</div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const HEADERS = ["IDX", "SLAB", "SIDE", "SIZE", "ENTRY", "MARK", "PNL", "MIX", "MARGIN", "HEALTH", ""] as const
 
 function PositionRow({ position, isOdd, dimmed }: { position: Position; isOdd: boolean; dimmed?: boolean }) {
+  const { navigateToAccount } = useNavigation()
   const isLong = position.side === "long"
   const isFlat = position.side === "flat"
   const pnlPositive = position.unrealizedPnlPercent >= 0
@@ -54,7 +94,10 @@ function PositionRow({ position, isOdd, dimmed }: { position: Position; isOdd: b
   const explorerAddress = position.owner || position.slabPubkey
 
   return (
-    <tr className={`border-b border-[var(--terminal-border)] transition-colors hover:bg-[var(--terminal-hover)] ${rowBg} ${opacity}`}>
+    <tr
+      onClick={() => navigateToAccount(position.slabPubkey, position.accountIndex, position.slabLabel, "devnet")}
+      className={`cursor-pointer border-b border-[var(--terminal-border)] transition-colors hover:bg-[var(--terminal-hover)] ${rowBg} ${opacity}`}
+    >
       <td className="px-2 py-1 text-left text-xs text-[var(--terminal-green)]">
         {String(position.accountIndex).padStart(3, "0")}
       </td>
@@ -82,6 +125,9 @@ function PositionRow({ position, isOdd, dimmed }: { position: Position; isOdd: b
           {isFlat ? "\u2014" : `${pnlPositive ? "+" : ""}${position.unrealizedPnlPercent.toFixed(2)}%`}
         </span>
       </td>
+      <td className="px-2 py-1 text-right">
+        <AttributionBar attribution={position.pnlAttribution} />
+      </td>
       <td className="px-2 py-1 text-right text-xs text-[var(--terminal-green)]">
         {position.collateral.toFixed(2)}
       </td>
@@ -1,7 +1,8 @@
 "use client"
 
-import { useState, useCallback, useRef, useMemo } from "react"
+import { useState, useCallback, useRef, useMemo, type ReactNode } from "react"
 import type { PricePoint } from "@/hooks/use-price-history"
+import { useCandles, type CandleInterval, type OhlcCandle } from "@/hooks/use-candles"
 
 // ── Constants ──────────────────────────────────────────────────────────────
 
@@ -18,10 +19,12 @@ const COLOR_BORDER = "#1e293b"
 const COLOR_CROSSHAIR = "rgba(255, 170, 0, 0.5)"
 const COLOR_AMBER = "#ffaa00"
 const COLOR_CYAN = "#00d4ff"
+const COLOR_RED = "#ff0040"
 
 // ── Types ──────────────────────────────────────────────────────────────────
 
 type MetricKey = "p" | "tvl" | "oi"
+type ChartMode = "line" | "candle"
 
 interface MetricConfig {
   key: MetricKey
@@ -37,6 +40,8 @@ const METRICS: MetricConfig[] = [
   { key: "oi", label: "OI", unit: "SOL", format: (v) => `${v.toFixed(2)}`, color: COLOR_AMBER },
 ]
 
+const INTERVALS: CandleInterval[] = ["1m", "5m", "1h", "1d"]
+
 // ── Helpers ────────────────────────────────────────────────────────────────
 
 function formatTime(iso: string): string {
@@ -66,14 +71,85 @@ function niceAxisValues(min: number, max: number, steps: number): number[] {
   return values
 }
 
+function formatBarTime(iso: string, interval: CandleInterval): string {
+  const d = new Date(iso)
+  if (interval === "1d") {
+    return d.toLocaleDateString(undefined, { month: "short", day: "2-digit" })
+  }
+  return d.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit", hour12: false })
+}
+
+function ToggleButton({
+  active,
+  color,
+  onClick,
+  children,
+}: {
+  active: boolean
+  color: string
+  onClick: () => void
+  children: ReactNode
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className="text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 border transition-all select-none"
+      style={{
+        color: active ? color : COLOR_DIM,
+        borderColor: active ? color : "transparent",
+        backgroundColor: active ? `${color}11` : "transparent",
+      }}
+    >
+      {children}
+    </button>
+  )
+}
+
 // ── Chart Component ────────────────────────────────────────────────────────
 
+/**
+ * Slab price chart. Line mode plots raw PricePoints for the selected metric;
+ * candle mode (available when `slabAddress` is set) plots OHLC bars from
+ * /api/slab/[address]/candles.
+ */
 export function PriceChart({
   points,
   loading = false,
+  slabAddress = null,
 }: {
   points: PricePoint[]
   loading?: boolean
+  slabAddress?: string | null
+}) {
+  const [mode, setMode] = useState<ChartMode>("line")
+
+  const modeToggle = slabAddress ? (
+    <div className="flex items-center gap-1 pr-2 mr-1 border-r border-[var(--terminal-border)]">
+      <ToggleButton active={mode === "line"} color={COLOR_GREEN} onClick={() => setMode("line")}>
+        LINE
+      </ToggleButton>
+      <ToggleButton active={mode === "candle"} color={COLOR_GREEN} onClick={() => setMode("candle")}>
+        OHLC
+      </ToggleButton>
+    </div>
+  ) : null
+
+  if (mode === "candle" && slabAddress) {
+    return <CandleChart slabAddress={slabAddress} toolbar={modeToggle} />
+  }
+  return <LineChart points={points} loading={loading} toolbar={modeToggle} />
+}
+
+// ── Line Chart ─────────────────────────────────────────────────────────────
+
+function LineChart({
+  points,
+  loading,
+  toolbar,
+}: {
+  points: PricePoint[]
+  loading: boolean
+  toolbar: ReactNode
 }) {
   const [activeMetric, setActiveMetric] = useState<MetricKey>("p")
   const [hover, setHover] = useState<{ x: number; idx: number } | null>(null)
@@ -185,19 +261,16 @@ export function PriceChart({
       {/* Metric selector + stats bar */}
       <div className="flex items-center justify-between px-1 mb-1">
         <div className="flex items-center gap-2">
+          {toolbar}
           {METRICS.map((m) => (
-            <button
+            <ToggleButton
               key={m.key}
+              active={activeMetric === m.key}
+              color={m.color}
               onClick={() => setActiveMetric(m.key)}
-              className="text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 border transition-all select-none"
-              style={{
-                color: activeMetric === m.key ? m.color : COLOR_DIM,
-                borderColor: activeMetric === m.key ? m.color : "transparent",
-                backgroundColor: activeMetric === m.key ? `${m.color}11` : "transparent",
-              }}
             >
               {m.label}
-            </button>
+            </ToggleButton>
           ))}
         </div>
         <div className="flex items-center gap-3 text-[9px]">
@@ -400,3 +473,219 @@ export function PriceChart({
     </div>
   )
 }
+
+// ── Candle Chart ───────────────────────────────────────────────────────────
+
+function CandleChart({
+  slabAddress,
+  toolbar,
+}: {
+  slabAddress: string
+  toolbar: ReactNode
+}) {
+  const [interval, setBarInterval] = useState<CandleInterval>("1m")
+  const [hover, setHover] = useState<{ idx: number; y: number } | null>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+  const { data, isLoading } = useCandles(slabAddress, interval)
+
+  const candles: OhlcCandle[] = useMemo(() => data?.candles ?? [], [data])
+
+  const chartWidth = 600
+  const innerW = chartWidth - PADDING.left - PADDING.right
+  const innerH = CHART_HEIGHT - PADDING.top - PADDING.bottom
+  const slotW = candles.length > 0 ? innerW / candles.length : innerW
+  const bodyW = Math.max(1, Math.min(slotW * 0.6, 12))
+
+  const { yMin, yMax, yTicks } = useMemo(() => {
+    if (candles.length === 0) return { yMin: 0, yMax: 100, yTicks: [0, 50, 100] }
+    let min = Math.min(...candles.map((c) => c.l))
+    let max = Math.max(...candles.map((c) => c.h))
+    if (min === max) {
+      min -= Math.abs(min * 0.01) || 1
+      max += Math.abs(max * 0.01) || 1
+    }
+    const pad = (max - min) * 0.05
+    min -= pad
+    max += pad
+    const ticks = niceAxisValues(min, max, 4)
+    return { yMin: Math.min(min, ticks[0]), yMax: Math.max(max, ticks[ticks.length - 1]), yTicks: ticks }
+  }, [candles])
+
+  const xCenter = useCallback((i: number) => PADDING.left + (i + 0.5) * slotW, [slotW])
+  const yScale = useCallback(
+    (v: number) => PADDING.top + (1 - (v - yMin) / (yMax - yMin)) * innerH,
+    [yMin, yMax, innerH],
+  )
+
+  const handleMouseMove = useCallback(
+    (e: React.MouseEvent<SVGSVGElement>) => {
+      if (candles.length === 0 || !svgRef.current) return
+      const rect = svgRef.current.getBoundingClientRect()
+      const svgX = ((e.clientX - rect.left) / rect.width) * chartWidth
+      const svgY = ((e.clientY - rect.top) / rect.height) * CHART_HEIGHT
+      const idx = Math.floor((svgX - PADDING.left) / slotW)
+      if (idx >= 0 && idx < candles.length) {
+        setHover({ idx, y: Math.min(Math.max(svgY, PADDING.top), PADDING.top + innerH) })
+      }
+    },
+    [candles.length, slotW, innerH],
+  )
+
+  const handleMouseLeave = useCallback(() => setHover(null), [])
+
+  // Readout follows the crosshair, else the latest bar
+  const readout = hover ? candles[hover.idx] : candles[candles.length - 1]
+  const hoverPrice = hover ? yMax - ((hover.y - PADDING.top) / innerH) * (yMax - yMin) : 0
+  const hasData = candles.length > 0
+
+  return (
+    <div className="flex flex-col gap-0">
+      {/* Interval selector + OHLC readout */}
+      <div className="flex items-center justify-between px-1 mb-1">
+        <div className="flex items-center gap-2">
+          {toolbar}
+          {INTERVALS.map((iv) => (
+            <ToggleButton key={iv} active={interval === iv} color={COLOR_CYAN} onClick={() => setBarInterval(iv)}>
+              {iv}
+            </ToggleButton>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 text-[9px] font-mono">
+          {readout ? (
+            <>
+              <span className="text-[var(--terminal-dim)]">{formatBarTime(readout.t, interval)}</span>
+              <span className="text-[var(--terminal-dim)]">O <span style={{ color: COLOR_GREEN }}>{readout.o.toFixed(2)}</span></span>
+              <span className="text-[var(--terminal-dim)]">H <span style={{ color: COLOR_GREEN }}>{readout.h.toFixed(2)}</span></span>
+              <span className="text-[var(--terminal-dim)]">L <span style={{ color: COLOR_GREEN }}>{readout.l.toFixed(2)}</span></span>
+              <span className="text-[var(--terminal-dim)]">C <span style={{ color: readout.c >= readout.o ? COLOR_GREEN : COLOR_RED }}>{readout.c.toFixed(2)}</span></span>
+              <span className="text-[var(--terminal-dim)]">OI <span style={{ color: COLOR_AMBER }}>{readout.oi.toFixed(2)}</span></span>
+              <span className="text-[var(--terminal-dim)]">FR <span style={{ color: COLOR_CYAN }}>{readout.fr.toFixed(4)}</span></span>
+            </>
+          ) : null}
+          <span className="text-[var(--terminal-dim)]">{candles.length} bars</span>
+        </div>
+      </div>
+
+      {/* Chart area */}
+      <div className="relative w-full border border-[var(--terminal-border)] bg-[var(--terminal-bg)]" style={{ height: CHART_HEIGHT }}>
+        {!hasData ? (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className={`text-[10px] text-[var(--terminal-dim)] ${isLoading ? "animate-pulse" : ""}`}>
+              {isLoading ? "LOADING CANDLES..." : `NO ${interval.toUpperCase()} BARS RECORDED YET`}
+            </span>
+          </div>
+        ) : (
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${chartWidth} ${CHART_HEIGHT}`}
+            preserveAspectRatio="none"
+            className="w-full h-full"
+            onMouseMove={handleMouseMove}
+            onMouseLeave={handleMouseLeave}
+            style={{ cursor: "crosshair" }}
+          >
+            {/* Grid lines */}
+            {yTicks.map((tick) => {
+              const y = yScale(tick)
+              return (
+                <g key={tick}>
+                  <line
+                    x1={PADDING.left}
+                    x2={PADDING.left + innerW}
+                    y1={y}
+                    y2={y}
+                    stroke={COLOR_GRID}
+                    strokeDasharray="2 3"
+                    strokeWidth={0.5}
+                  />
+                  <text x={PADDING.left + innerW + 4} y={y + 3} fill={COLOR_DIM} fontSize={8} fontFamily="monospace">
+                    ${tick.toFixed(2)}
+                  </text>
+                </g>
+              )
+            })}
+
+            {/* Time labels on X axis */}
+            {[0, Math.floor(candles.length / 2), candles.length - 1]
+              .filter((idx, i, arr) => arr.indexOf(idx) === i)
+              .map((idx) => (
+                <text
+                  key={idx}
+                  x={xCenter(idx)}
+                  y={CHART_HEIGHT - 2}
+                  fill={COLOR_DIM}
+                  fontSize={7}
+                  fontFamily="monospace"
+                  textAnchor={idx === 0 ? "start" : idx === candles.length - 1 ? "end" : "middle"}
+                >
+                  {formatBarTime(candles[idx].t, interval)}
+                </text>
+              ))}
+
+            {/* Candles: wick = high/low, body = open/close */}
+            {candles.map((c, i) => {
+              const color = c.c >= c.o ? COLOR_GREEN : COLOR_RED
+              const x = xCenter(i)
+              const bodyTop = yScale(Math.max(c.o, c.c))
+              const bodyH = Math.max(0.75, yScale(Math.min(c.o, c.c)) - bodyTop)
+              return (
+                <g key={c.t} opacity={hover && hover.idx !== i ? 0.7 : 1}>
+                  <line x1={x} x2={x} y1={yScale(c.h)} y2={yScale(c.l)} stroke={color} strokeWidth={0.75} />
+                  <rect x={x - bodyW / 2} y={bodyTop} width={bodyW} height={bodyH} fill={color} />
+                </g>
+              )
+            })}
+
+            {/* Crosshair on hover */}
+            {hover && (
+              <>
+                <line
+                  x1={xCenter(hover.idx)}
+                  x2={xCenter(hover.idx)}
+                  y1={PADDING.top}
+                  y2={PADDING.top + innerH}
+                  stroke={COLOR_CROSSHAIR}
+                  strokeWidth={0.5}
+                  strokeDasharray="2 2"
+                />
+                <line
+                  x1={PADDING.left}
+                  x2={PADDING.left + innerW}
+                  y1={hover.y}
+                  y2={hover.y}
+                  stroke={COLOR_CROSSHAIR}
+                  strokeWidth={0.5}
+                  strokeDasharray="2 2"
+                />
+                {/* Price label on Y axis */}
+                <rect
+                  x={PADDING.left + innerW + 1}
+                  y={hover.y - 6}
+                  width={PADDING.right - 2}
+                  height={12}
+                  fill="#0d1117"
+                  stroke={COLOR_BORDER}
+                  strokeWidth={0.5}
+                />
+                <text x={PADDING.left + innerW + 4} y={hover.y + 3} fill={COLOR_AMBER} fontSize={8} fontFamily="monospace">
+                  ${hoverPrice.toFixed(2)}
+                </text>
+                {/* Time label on X axis */}
+                <text
+                  x={xCenter(hover.idx)}
+                  y={CHART_HEIGHT - 2}
+                  fill={COLOR_AMBER}
+                  fontSize={7}
+                  fontFamily="monospace"
+                  textAnchor="middle"
+                >
+                  {formatBarTime(candles[hover.idx].t, interval)}
+                </text>
+              </>
+            )}
+          </svg>
+        )}
+      </div>
+    </div>
+  )
+}
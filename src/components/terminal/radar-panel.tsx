@@ -2,7 +2,7 @@
 
 import { useState } from "react"
 import { useRadarData, type ProgramRadar, type SlabRadar, type HealthStatus } from "@/hooks/use-radar-data"
-import { useNavigation } from "@/hooks/use-navigation"
+import { useNavigation, type RadarNetworkFilter } from "@/hooks/use-navigation"
 import { TerminalPanel } from "./terminal-panel"
 import { ExplorerLink, truncateAddress } from "./explorer-link"
 
@@ -96,9 +96,15 @@ function SlabRow({ slab, network, programLabel, programId }: { slab: SlabRadar;
       <div className="flex items-center gap-3">
         <span className="text-[var(--terminal-dim)]">{slab.numUsedAccounts} accts</span>
         <span className="text-[9px] text-[var(--terminal-dim)]">{formatSlabSize(slab.slabSize)}</span>
-        <span className="text-[10px] font-bold" style={{ color }}>
-          {healthLabel(slab.health)}
-        </span>
+        {slab.error ? (
+          <span className="text-[10px] font-bold text-[var(--terminal-red)]" title={slab.error}>
+            UNSUPPORTED LAYOUT
+          </span>
+        ) : (
+          <span className="text-[10px] font-bold" style={{ color }}>
+            {healthLabel(slab.health)}
+          </span>
+        )}
       </div>
     </div>
   )
@@ -107,6 +113,7 @@ function SlabRow({ slab, network, programLabel, programId }: { slab: SlabRadar;
 // ── Program Card ────────────────────────────────────────────────────────
 
 function ProgramCard({ program }: { program: ProgramRadar }) {
+  const { radarProgram, setRadarFilter } = useNavigation()
   const [expanded, setExpanded] = useState(false)
   const accentColor = healthColor(program.health)
   const hasSlabs = program.slabs.length > 0
@@ -120,9 +127,13 @@ function ProgramCard({ program }: { program: ProgramRadar }) {
       >
         <div className="flex items-center gap-2">
           <HealthBadge health={program.health} />
-          <span className="text-xs font-bold text-[var(--terminal-green)]">
+          <button
+            onClick={() => setRadarFilter({ program: radarProgram === program.id ? null : program.id })}
+            title={radarProgram === program.id ? "Show all programs" : "Show only this program"}
+            className="text-xs font-bold text-[var(--terminal-green)] hover:underline select-none"
+          >
             {program.label.toUpperCase()}
-          </span>
+          </button>
           <NetworkBadge network={program.network} />
         </div>
         <ExplorerLink type="address" address={program.programId} network={program.network} />
@@ -257,18 +268,20 @@ function TotalsBar({ data }: { data: NonNullable<ReturnType<typeof useRadarData>
 
 // ── Network Filter ──────────────────────────────────────────────────────
 
-type NetworkFilter = "all" | "devnet" | "mainnet"
-
 function NetworkFilterBar({
   filter,
   setFilter,
+  program,
+  clearProgram,
   networks,
 }: {
-  filter: NetworkFilter
-  setFilter: (f: NetworkFilter) => void
+  filter: RadarNetworkFilter
+  setFilter: (f: RadarNetworkFilter) => void
+  program: ProgramRadar | null
+  clearProgram: () => void
   networks: NonNullable<ReturnType<typeof useRadarData>["data"]>["networks"]
 }) {
-  const tabs: { id: NetworkFilter; label: string }[] = [
+  const tabs: { id: RadarNetworkFilter; label: string }[] = [
     { id: "all", label: "ALL" },
     { id: "devnet", label: `DEVNET (${networks.devnet.programs})` },
     { id: "mainnet", label: `MAINNET (${networks.mainnet.programs})` },
@@ -289,6 +302,15 @@ function NetworkFilterBar({
           {tab.label}
         </button>
       ))}
+      {program && (
+        <button
+          onClick={clearProgram}
+          title="Show all programs"
+          className="ml-auto px-2 py-0.5 text-[10px] font-bold uppercase tracking-wider border border-[var(--terminal-cyan)] text-[var(--terminal-cyan)] hover:text-[var(--terminal-green)] hover:border-[var(--terminal-green)] transition-all select-none"
+        >
+          PROGRAM: {program.label} {"✕"}
+        </button>
+      )}
     </div>
   )
 }
@@ -297,7 +319,7 @@ function NetworkFilterBar({
 
 export function RadarPanel() {
   const { data, isLoading, error } = useRadarData()
-  const [filter, setFilter] = useState<NetworkFilter>("all")
+  const { radarNetwork: filter, radarProgram, setRadarFilter } = useNavigation()
 
   if (isLoading || !data) {
     return (
@@ -310,10 +332,10 @@ export function RadarPanel() {
     )
   }
 
-  const filteredPrograms =
-    filter === "all"
-      ? data.programs
-      : data.programs.filter((p) => p.network === filter)
+  const programFilter = radarProgram ? data.programs.find((p) => p.id === radarProgram) ?? null : null
+  const filteredPrograms = data.programs.filter(
+    (p) => (filter === "all" || p.network === filter) && (!radarProgram || p.id === radarProgram),
+  )
 
   // Sort: active first, then stale, idle, dead
   const healthOrder: Record<string, number> = { active: 0, stale: 1, idle: 2, dead: 3 }
@@ -324,7 +346,13 @@ export function RadarPanel() {
   return (
     <TerminalPanel title="Ecosystem Radar" className="h-full" stale={!!error}>
       <TotalsBar data={data} />
-      <NetworkFilterBar filter={filter} setFilter={setFilter} networks={data.networks} />
+      <NetworkFilterBar
+        filter={filter}
+        setFilter={(network) => setRadarFilter({ network })}
+        program={programFilter}
+        clearProgram={() => setRadarFilter({ program: null })}
+        networks={data.networks}
+      />
 
       <div className="flex flex-col gap-2 mt-2 max-h-[calc(100vh-280px)] overflow-y-auto">
         {sorted.map((program) => (
@@ -333,7 +361,7 @@ export function RadarPanel() {
         {sorted.length === 0 && (
           <div className="flex items-center justify-center py-4">
             <span className="text-[10px] text-[var(--terminal-dim)]">
-              NO PROGRAMS FOUND FOR {filter.toUpperCase()}
+              NO PROGRAMS FOUND FOR {(programFilter?.label ?? radarProgram ?? filter).toUpperCase()}
             </span>
           </div>
         )}
@@ -0,0 +1,411 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { useNavigation } from "@/hooks/use-navigation"
+import {
+  useAccountDetail,
+  type AccountDetailResponse,
+  type AccountPoint,
+  type DecodedTxEventJson,
+} from "@/hooks/use-account-detail"
+import { TerminalPanel } from "../terminal-panel"
+import { ExplorerLink, truncateAddress } from "../explorer-link"
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function formatSol(n: number, decimals = 4): string {
+  if (Math.abs(n) < 0.0001) return "0"
+  return n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: decimals })
+}
+
+function formatLamports(raw: string): string {
+  return formatSol(Number(raw) / 1e9)
+}
+
+function formatBps(bps: number): string {
+  return `${(bps / 100).toFixed(2)}%`
+}
+
+function statusColor(status: string): string {
+  switch (status) {
+    case "safe": return "var(--terminal-green)"
+    case "at_risk": return "var(--terminal-amber)"
+    case "liquidatable": return "var(--terminal-red)"
+    default: return "var(--terminal-dim)"
+  }
+}
+
+function pnlColor(n: number): string {
+  return n >= 0 ? "var(--terminal-green)" : "var(--terminal-red)"
+}
+
+function formatEventTime(event: DecodedTxEventJson): string {
+  if (!event.blockTime) return `slot ${event.slot.toLocaleString()}`
+  return new Date(event.blockTime * 1000).toLocaleString(undefined, { hour12: false })
+}
+
+/** One-line summary of what an event did to this account */
+function describeEvent(event: DecodedTxEventJson, idx: number): string {
+  switch (event.kind) {
+    case "deposit":
+      return `+${formatLamports(event.amount)} collateral`
+    case "withdraw":
+      return `-${formatLamports(event.amount)} collateral`
+    case "trade": {
+      const asLp = event.lpIdx === idx
+      const counterparty = asLp ? `user #${event.userIdx}` : `LP #${event.lpIdx}`
+      return `${asLp ? "matched" : "traded"} ${Number(event.size).toExponential(2)} units vs ${counterparty}`
+    }
+    case "crank":
+      return `keeper crank${event.allowPanic ? " (panic allowed)" : ""}`
+    case "close":
+      return "account closed"
+    case "init-user":
+      return `account opened (fee ${formatLamports(event.feePayment)})`
+    case "set-lp-params":
+      return "matcher binding set"
+    default:
+      return event.kind
+  }
+}
+
+// ── Back Button ──────────────────────────────────────────────────────────
+
+function BackButton() {
+  const { goBack, previousView } = useNavigation()
+  const label =
+    previousView === "slab" ? "SLAB" :
+    previousView === "radar" ? "RADAR" :
+    previousView === "portfolio" ? "PORTFOLIO" :
+    previousView === "account" ? "ACCOUNT" :
+    "DASHBOARD"
+  return (
+    <button
+      onClick={goBack}
+      className="flex items-center gap-1.5 px-2 py-1 text-[10px] font-bold text-[var(--terminal-amber)] hover:text-[var(--terminal-green)] border border-[var(--terminal-border)] hover:border-[var(--terminal-green)] transition-all select-none"
+    >
+      <span>{"◀"}</span>
+      <span>BACK TO {label}</span>
+    </button>
+  )
+}
+
+// ── Stat Cell / Field Row ────────────────────────────────────────────────
+
+function Stat({ label, value, color }: { label: string; value: string; color?: string }) {
+  return (
+    <div className="flex flex-col gap-0.5">
+      <span className="text-[9px] uppercase text-[var(--terminal-dim)]">{label}</span>
+      <span className="text-xs font-bold" style={{ color: color ?? "var(--terminal-green)" }}>
+        {value}
+      </span>
+    </div>
+  )
+}
+
+function FieldRow({
+  label,
+  value,
+  address,
+  network,
+}: {
+  label: string
+  value: string
+  address?: boolean
+  network?: "devnet" | "mainnet"
+}) {
+  return (
+    <div className="flex items-center justify-between py-0.5 border-b border-dotted border-[var(--terminal-border)]">
+      <span className="text-[var(--terminal-dim)]">{label}</span>
+      <div className="flex items-center gap-1.5">
+        <span className="text-[var(--terminal-cyan)]">
+          {address ? truncateAddress(value, 6) : value}
+        </span>
+        {address && network && (
+          <ExplorerLink type="address" address={value} network={network} />
+        )}
+      </div>
+    </div>
+  )
+}
+
+// ── Margin Panel ─────────────────────────────────────────────────────────
+
+function MarginPanel({ data }: { data: AccountDetailResponse }) {
+  const { metrics, position } = data
+  return (
+    <TerminalPanel title="Margin">
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+        <Stat label="Status" value={metrics.status.replace("_", " ").toUpperCase()} color={statusColor(metrics.status)} />
+        <Stat label="Health" value={`${metrics.health}`} color={statusColor(metrics.status)} />
+        <Stat label="Margin Ratio" value={metrics.notional > 0 ? formatBps(metrics.marginRatioBps) : "N/A"} />
+        <Stat label="Notional" value={`${formatSol(metrics.notional)} SOL`} />
+        <Stat label="Effective Capital" value={`${formatSol(metrics.effectiveCapital)} SOL`} />
+        <Stat label="Unrealized PnL" value={`${metrics.unrealizedPnl >= 0 ? "+" : ""}${formatSol(metrics.unrealizedPnl)} SOL`} color={pnlColor(metrics.unrealizedPnl)} />
+        <Stat label="Maint. Req" value={`${formatSol(metrics.maintenanceReq)} SOL`} color="var(--terminal-amber)" />
+        <Stat label="Initial Req" value={`${formatSol(metrics.initialReq)} SOL`} color="var(--terminal-amber)" />
+        <Stat label="Buffer" value={`${formatSol(metrics.buffer)} SOL`} color={pnlColor(metrics.buffer)} />
+        <Stat label="Liq. Price" value={position.liquidationPrice > 0 ? `$${position.liquidationPrice.toFixed(2)}` : "-"} color="var(--terminal-red)" />
+        <Stat label="Entry" value={position.entryPrice > 0 ? `$${position.entryPrice.toFixed(2)}` : "-"} />
+        <Stat label="Mark" value={data.solUsdPrice > 0 ? `$${data.solUsdPrice.toFixed(2)}` : "N/A"} color="var(--terminal-cyan)" />
+      </div>
+    </TerminalPanel>
+  )
+}
+
+// ── Account Fields Panel ─────────────────────────────────────────────────
+
+function AccountFieldsPanel({ data }: { data: AccountDetailResponse }) {
+  const a = data.account
+  return (
+    <TerminalPanel title="Account">
+      <div className="grid grid-cols-1 gap-1 text-[10px] font-mono">
+        <FieldRow label="Kind" value={a.kind.toUpperCase()} />
+        <FieldRow label="Account ID" value={a.accountId} />
+        <FieldRow label="Owner" value={a.owner} address network={data.network} />
+        <FieldRow label="Capital" value={`${formatLamports(a.capital)} SOL`} />
+        <FieldRow label="PnL" value={`${formatLamports(a.pnl)} SOL`} />
+        <FieldRow label="Reserved PnL" value={`${formatLamports(a.reservedPnl)} SOL`} />
+        <FieldRow label="Position Size" value={a.positionSize} />
+        <FieldRow label="Entry Price E6" value={a.entryPrice} />
+        <FieldRow label="Funding Index" value={a.fundingIndex} />
+        <FieldRow label="Warmup Started @" value={a.warmupStartedAtSlot} />
+        <FieldRow label="Warmup Slope / Slot" value={a.warmupSlopePerStep} />
+        <FieldRow label="Fee Credits" value={`${formatLamports(a.feeCredits)} SOL`} />
+        <FieldRow label="Last Fee Slot" value={a.lastFeeSlot} />
+        <FieldRow label="Matcher Program" value={a.matcherProgram} address network={data.network} />
+        <FieldRow label="Matcher Context" value={a.matcherContext} address network={data.network} />
+      </div>
+    </TerminalPanel>
+  )
+}
+
+// ── History Chart ────────────────────────────────────────────────────────
+
+const CHART_HEIGHT = 140
+const CHART_WIDTH = 600
+const PAD = { top: 8, right: 56, bottom: 8, left: 4 }
+
+type SeriesKey = "capital" | "pnl" | "position"
+
+const SERIES: { key: SeriesKey; label: string; color: string; value: (p: AccountPoint) => number; format: (v: number) => string }[] = [
+  { key: "capital", label: "CAPITAL", color: "var(--terminal-green)", value: (p) => p.capital, format: (v) => `${formatSol(v)} SOL` },
+  { key: "pnl", label: "PNL", color: "var(--terminal-amber)", value: (p) => p.pnl + p.upnl, format: (v) => `${formatSol(v)} SOL` },
+  { key: "position", label: "POSITION", color: "var(--terminal-cyan)", value: (p) => p.position, format: (v) => v.toExponential(2) },
+]
+
+function HistoryPanel({ history }: { history: AccountPoint[] }) {
+  const [active, setActive] = useState<SeriesKey>("capital")
+  const series = SERIES.find((s) => s.key === active)!
+
+  const chart = useMemo(() => {
+    const values = history.map(series.value)
+    if (values.length < 2) return null
+    let min = Math.min(...values)
+    let max = Math.max(...values)
+    if (min === max) {
+      min -= Math.abs(min * 0.01) || 1
+      max += Math.abs(max * 0.01) || 1
+    }
+    const innerW = CHART_WIDTH - PAD.left - PAD.right
+    const innerH = CHART_HEIGHT - PAD.top - PAD.bottom
+    const y = (v: number) => PAD.top + (1 - (v - min) / (max - min)) * innerH
+    // Step line: account values change at discrete events
+    const path = values
+      .map((v, i) => {
+        const x = PAD.left + (i / (values.length - 1)) * innerW
+        return i === 0 ? `M ${x.toFixed(1)} ${y(v).toFixed(1)}` : `H ${x.toFixed(1)} V ${y(v).toFixed(1)}`
+      })
+      .join(" ")
+    return { path, min, max, last: values[values.length - 1], yMin: y(min), yMax: y(max) }
+  }, [history, series])
+
+  return (
+    <TerminalPanel title="History">
+      <div className="flex items-center justify-between px-1 mb-1">
+        <div className="flex items-center gap-2">
+          {SERIES.map((s) => (
+            <button
+              key={s.key}
+              onClick={() => setActive(s.key)}
+              className="text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 border transition-all select-none"
+              style={{
+                color: active === s.key ? s.color : "var(--terminal-dim)",
+                borderColor: active === s.key ? s.color : "transparent",
+              }}
+            >
+              {s.label}
+            </button>
+          ))}
+        </div>
+        <span className="text-[9px] text-[var(--terminal-dim)]">{history.length} pts</span>
+      </div>
+
+      <div className="relative w-full border border-[var(--terminal-border)] bg-[var(--terminal-bg)]" style={{ height: CHART_HEIGHT }}>
+        {!chart ? (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className="text-[10px] text-[var(--terminal-dim)]">
+              ACCUMULATING DATA — SAMPLES ARE RECORDED WHILE THE SLAB IS VIEWED OR INDEXED
+            </span>
+          </div>
+        ) : (
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full h-full">
+            <path d={chart.path} fill="none" stroke={series.color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+            <text x={CHART_WIDTH - PAD.right + 4} y={chart.yMax + 3} fill="var(--terminal-dim)" fontSize={9} fontFamily="monospace">
+              {series.format(chart.max)}
+            </text>
+            <text x={CHART_WIDTH - PAD.right + 4} y={chart.yMin} fill="var(--terminal-dim)" fontSize={9} fontFamily="monospace">
+              {series.format(chart.min)}
+            </text>
+          </svg>
+        )}
+      </div>
+      {history.length > 0 && (
+        <div className="flex justify-between pt-1 text-[9px] text-[var(--terminal-dim)]">
+          <span>{new Date(history[0].t).toLocaleString(undefined, { hour12: false })}</span>
+          {chart && <span style={{ color: series.color }}>{series.format(chart.last)}</span>}
+          <span>{new Date(history[history.length - 1].t).toLocaleString(undefined, { hour12: false })}</span>
+        </div>
+      )}
+    </TerminalPanel>
+  )
+}
+
+// ── Transactions Panel ───────────────────────────────────────────────────
+
+function TransactionsPanel({ data }: { data: AccountDetailResponse }) {
+  return (
+    <TerminalPanel title={`Transactions (${data.events.length})`}>
+      {data.events.length === 0 ? (
+        <div className="py-4 text-center text-[10px] text-[var(--terminal-dim)]">
+          NO RECENT TRANSACTIONS FOR THIS ACCOUNT
+        </div>
+      ) : (
+        <div className="max-h-[300px] overflow-y-auto">
+          <table className="w-full text-[10px]">
+            <thead>
+              <tr className="text-[var(--terminal-dim)] text-left uppercase">
+                <th className="pb-1 pr-2">TIME</th>
+                <th className="pb-1 pr-2">KIND</th>
+                <th className="pb-1 pr-2">DETAILS</th>
+                <th className="pb-1 text-right">TX</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.events.map((e) => (
+                <tr
+                  key={`${e.signature}-${e.ixIndex}`}
+                  className="border-b border-dotted border-[var(--terminal-border)] hover:bg-[var(--terminal-hover)] transition-colors"
+                >
+                  <td className="py-0.5 pr-2 text-[var(--terminal-dim)] font-mono">{formatEventTime(e)}</td>
+                  <td className="py-0.5 pr-2 font-bold uppercase" style={{ color: e.failed ? "var(--terminal-red)" : "var(--terminal-green)" }}>
+                    {e.kind}{e.failed ? " ✗" : ""}
+                  </td>
+                  <td className="py-0.5 pr-2 text-[var(--terminal-cyan)]">{describeEvent(e, data.accountIndex)}</td>
+                  <td className="py-0.5 text-right">
+                    <ExplorerLink type="tx" address={e.signature} network={data.network} label={truncateAddress(e.signature, 4)} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </TerminalPanel>
+  )
+}
+
+// ── Main View ────────────────────────────────────────────────────────────
+
+export function AccountView() {
+  const { selectedSlab, selectedSlabProgram, selectedSlabProgramId, selectedSlabNetwork, selectedAccount, navigateToOwner } = useNavigation()
+  const { data, isLoading, error } = useAccountDetail(selectedSlab, selectedAccount, {
+    programId: selectedSlabProgramId,
+    network: selectedSlabNetwork,
+  })
+
+  if (!selectedSlab || selectedAccount === null) {
+    return (
+      <TerminalPanel title="Account">
+        <div className="py-8 text-center text-[10px] text-[var(--terminal-dim)]">
+          NO ACCOUNT SELECTED — OPEN A SLAB AND CLICK A POSITION
+        </div>
+      </TerminalPanel>
+    )
+  }
+
+  if (error && !data) {
+    return (
+      <div className="flex flex-col gap-px">
+        <div className="flex items-center px-1 py-1">
+          <BackButton />
+        </div>
+        <div className="px-3 py-2 text-[10px] text-[var(--terminal-red)] border border-[var(--terminal-red)]">
+          ERROR: {error.message}
+        </div>
+      </div>
+    )
+  }
+
+  if (isLoading || !data) {
+    return (
+      <TerminalPanel title="Account" className="h-full">
+        <div className="flex items-center justify-center py-8">
+          <span className="text-xs text-[var(--terminal-green)] animate-blink-cursor">{"\u2588"}</span>
+          <span className="ml-2 text-[10px] text-[var(--terminal-dim)]">
+            LOADING ACCOUNT #{selectedAccount} OF {truncateAddress(selectedSlab, 6)}...
+          </span>
+        </div>
+      </TerminalPanel>
+    )
+  }
+
+  return (
+    <div className="flex flex-col gap-px">
+      {/* Header bar with back button */}
+      <div className="flex items-center justify-between gap-2 px-1 py-1">
+        <BackButton />
+        <div className="flex items-center gap-2 text-[10px]">
+          <span className="font-bold text-[var(--terminal-green)]">
+            {(selectedSlabProgram ?? data.programLabel).toUpperCase()}
+          </span>
+          <span
+            className="px-1.5 py-0 text-[9px] font-bold uppercase tracking-wider border"
+            style={{
+              color: data.network === "mainnet" ? "var(--terminal-green)" : "var(--terminal-amber)",
+              borderColor: data.network === "mainnet" ? "var(--terminal-green)" : "var(--terminal-amber)",
+            }}
+          >
+            {data.network}
+          </span>
+          <span className="text-[var(--terminal-cyan)] font-mono">
+            {truncateAddress(selectedSlab, 6)}
+          </span>
+          <span className="font-bold text-[var(--terminal-amber)]">
+            #{data.accountIndex} {data.account.kind === "lp" ? "LP" : "USER"}
+          </span>
+          <button
+            onClick={() => navigateToOwner(data.account.owner)}
+            className="px-1.5 py-0 text-[9px] font-bold uppercase tracking-wider text-[var(--terminal-dim)] hover:text-[var(--terminal-green)] border border-[var(--terminal-border)] hover:border-[var(--terminal-green)] transition-all select-none"
+          >
+            OWNER PORTFOLIO {"▶"}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="px-3 py-2 text-[10px] text-[var(--terminal-red)] border border-[var(--terminal-red)]">
+          ERROR: {error.message}
+        </div>
+      )}
+
+      <MarginPanel data={data} />
+      <HistoryPanel history={data.history} />
+
+      <div className="grid grid-cols-1 gap-px lg:grid-cols-2">
+        <AccountFieldsPanel data={data} />
+        <TransactionsPanel data={data} />
+      </div>
+    </div>
+  )
+}
@@ -83,7 +83,8 @@ export function DocsView() {
             </P>
             <P>
               The system discovers markets automatically by scanning program accounts, resolves
-              token metadata via Jupiter and Metaplex, fetches USD prices from DexScreener, and
+              token metadata via Jupiter and Metaplex, fetches USD prices from DexScreener, Jupiter or
+              DEX pools, and
               provides drill-down views into individual slab markets with position maps, depth
               analysis, and margin health monitoring.
             </P>
@@ -108,8 +109,9 @@ export function DocsView() {
                 with entry price, size, collateral, margin health, and PnL data.
               </Bullet>
               <Bullet label="Oracle">
-                Price feeds that drive mark-to-market calculations. Supports Chainlink OCR2 (Pyth),
-                admin-set prices, and DEX-based oracles (PumpSwap, Raydium, Meteora).
+                Price feeds that drive mark-to-market calculations, named by each slab&apos;s
+                indexFeedId. Supports Pyth, Chainlink OCR2, admin-set prices, and DEX-based oracles
+                (PumpSwap, Raydium, Meteora).
               </Bullet>
               <Bullet label="Crank">
                 Periodic on-chain transactions that update oracle prices, process funding payments,
@@ -158,9 +160,12 @@ export function DocsView() {
                 260-byte entries).
               </Bullet>
               <Bullet label="Enrichment">
-                Token symbols are resolved via Jupiter token list + Metaplex on-chain metadata.
-                USD prices come from DexScreener&apos;s highest-liquidity pairs. Both are cached
-                in-memory (60s for prices, permanent for symbols).
+                Token symbols and USD prices come from provider chains asked in order: Jupiter then
+                Metaplex on-chain metadata for symbols; DexScreener&apos;s highest-liquidity pairs,
+                Jupiter, then configured DEX pool reserves for prices. A static JSON file
+                (PRICE_FILE) can stand in for all of them offline. Both are cached in-memory (60s
+                for prices, permanent for symbols); GET /api/prices reports each provider&apos;s
+                health.
               </Bullet>
               <Bullet label="Caching">
                 All API responses are cached server-side (30s for ecosystem, 5s for slab detail)
@@ -201,8 +206,8 @@ export function DocsView() {
           <Section title="Dashboard Views">
             <SubSection title="HOME">
               <P>
-                Main dashboard with ecosystem overview, program health status, top markets by TVL,
-                ecosystem vitals (positions, wallets), slab utilization heatmap, risk monitor,
+                Main dashboard with ecosystem overview, program health status, top markets by TVL
+                (with funding APR), ecosystem vitals (positions, wallets), slab utilization heatmap, risk monitor,
                 network breakdown (devnet vs mainnet), recent on-chain activity feed, and a market
                 landscape treemap sized by TVL.
               </P>
@@ -214,6 +219,12 @@ export function DocsView() {
                 Displays collateral token, oracle type, TVL, account utilization, crank age, and health
                 status. Click any slab to drill down. Supports filtering by program and network.
               </P>
+              <P>
+                Oracle Health lists markets whose live oracle breaks the slab&apos;s own limits: update
+                age over maxStalenessSlots, confidence over confFilterBps, or a move from the last
+                effective price beyond the price cap. Markets whose crank would be rejected are
+                flagged CRANK BLOCKED.
+              </P>
             </SubSection>
 
             <SubSection title="SLAB DETAIL">
@@ -222,7 +233,21 @@ export function DocsView() {
                 (entry price vs size, color-coded long/short) and depth panel (long/short balance,
                 TVL/OI/insurance bars, utilization gauge). Below: market overview (oracle price,
                 funding rate, vault balance), config details, full position table with margin health
-                and PnL, and LP performance metrics.
+                and PnL, and LP performance metrics. Unrealized PnL includes unsettled funding and
+                accrued maintenance fees; each position&apos;s PNL MIX bar splits it into price move,
+                funding and fees, losses left of center and gains right.
+              </P>
+              <P>
+                PRICE DIVERGENCE tracks mark (last effective price), index (live oracle) and the
+                collateral&apos;s market USD price over time, charting the basis of each pair in bps.
+                100bps warns and 500bps is critical, which catches a DEX-priced Launch market whose
+                pool has been pushed away from the wider market.
+              </P>
+              <P>
+                FUNDING shows the engine&apos;s last applied rate per slot, per hour and as an APR at
+                the network&apos;s measured slot time, and realized funding from recorded funding
+                index samples: cumulative bps over the last 24h, what longs and shorts paid, and an
+                hourly table.
               </P>
             </SubSection>
           </Section>
@@ -293,7 +318,7 @@ export function DocsView() {
             <Bullet label="Frontend">Next.js 14, React 18, Tailwind CSS, SWR</Bullet>
             <Bullet label="Backend">Next.js API Routes (serverless), Node.js</Bullet>
             <Bullet label="Blockchain">@solana/web3.js for all RPC communication</Bullet>
-            <Bullet label="Prices">DexScreener API, Chainlink OCR2 oracle</Bullet>
+            <Bullet label="Prices">DexScreener + Jupiter APIs, DEX pool reserves, on-chain oracles (Pyth, Chainlink OCR2, DEX pools)</Bullet>
             <Bullet label="Metadata">Jupiter Token List API, Metaplex on-chain metadata</Bullet>
             <Bullet label="Styling">Custom terminal aesthetic with CSS variables, monospace fonts, scanline CRT effects</Bullet>
             <Bullet label="Deployment">Vercel (auto-deploy on push to main)</Bullet>
@@ -305,24 +330,37 @@ export function DocsView() {
             <Code>{`
   src/
   ├── app/
-  │   ├── page.tsx                    # Main dashboard + view router
+  │   ├── layout.tsx                  # Terminal shell + URL navigation
+  │   ├── page.tsx                    # HOME (radar/, slab/, portfolio/, docs/ pages)
   │   └── api/
   │       ├── ecosystem/route.ts      # Aggregated ecosystem stats
   │       ├── top-markets/route.ts    # Top 15 markets by TVL
   │       ├── radar/route.ts          # Full slab discovery
   │       ├── slab/[address]/
   │       │   ├── route.ts            # Single slab detail
-  │       │   └── history/route.ts    # Price history accumulator
+  │       │   ├── history/route.ts    # Price history accumulator
+  │       │   ├── divergence/route.ts # Mark vs index vs DEX basis
+  │       │   └── funding/route.ts    # Funding rate, realized funding, APR
   │       ├── positions/route.ts      # Position table data
   │       ├── liquidations/route.ts   # Liquidation risk scanner
+  │       ├── prices/route.ts         # USD prices + provider health
   │       └── lps/route.ts            # LP performance data
   ├── lib/
   │   ├── percolator.ts               # Binary slab parser
   │   ├── fetcher.ts                  # RPC fetch + batch helpers
   │   ├── radar.ts                    # Ecosystem scanner
   │   ├── registry.ts                 # Program registry
-  │   ├── oracle.ts                   # Chainlink price reader
-  │   ├── dexscreener.ts              # USD price resolver
+  │   ├── oracle.ts                   # Per-slab oracle readers
+  │   ├── oracle-health.ts            # Oracle staleness / confidence / cap checks
+  │   ├── divergence.ts               # Mark / index / DEX basis + alerts
+  │   ├── funding.ts                  # Realized funding, longs/shorts paid, APR
+  │   ├── slot-time.ts                # Measured slot time per RPC
+  │   ├── price-providers.ts          # Price + metadata provider chains
+  │   ├── dexscreener.ts              # DexScreener price provider
+  │   ├── jupiter.ts                  # Jupiter price + metadata providers
+  │   ├── metaplex.ts                 # Metaplex metadata provider
+  │   ├── pool-prices.ts              # DEX pool reserve price provider
+  │   ├── static-prices.ts            # JSON file provider (PRICE_FILE)
   │   ├── known-mints.ts              # Token symbol resolver
   │   └── connections.ts              # Multi-network RPC pool
   ├── hooks/
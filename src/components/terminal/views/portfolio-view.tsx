@@ -0,0 +1,269 @@
+"use client"
+
+import { useState, type FormEvent } from "react"
+import { useNavigation } from "@/hooks/use-navigation"
+import {
+  usePortfolio,
+  type OwnerPortfolio,
+  type PortfolioMarket,
+  type PortfolioRisk,
+} from "@/hooks/use-portfolio"
+import { TerminalPanel } from "../terminal-panel"
+import { ExplorerLink, truncateAddress } from "../explorer-link"
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+const BASE58_PUBKEY = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/
+
+function formatSol(n: number, decimals = 4): string {
+  if (Math.abs(n) < 0.0001) return "0"
+  return n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: decimals })
+}
+
+function formatSigned(n: number): string {
+  return `${n >= 0 ? "+" : ""}${formatSol(n)}`
+}
+
+function pnlColor(n: number): string {
+  return n >= 0 ? "var(--terminal-green)" : "var(--terminal-red)"
+}
+
+function healthColor(health: number): string {
+  if (health > 70) return "var(--terminal-green)"
+  if (health > 40) return "var(--terminal-amber)"
+  return "var(--terminal-red)"
+}
+
+function statusColor(status: string): string {
+  switch (status) {
+    case "safe": return "var(--terminal-green)"
+    case "at_risk": return "var(--terminal-amber)"
+    case "liquidatable": return "var(--terminal-red)"
+    default: return "var(--terminal-dim)"
+  }
+}
+
+// ── Stat Cell ────────────────────────────────────────────────────────────
+
+function Stat({ label, value, color }: { label: string; value: string; color?: string }) {
+  return (
+    <div className="flex flex-col gap-0.5">
+      <span className="text-[9px] uppercase text-[var(--terminal-dim)]">{label}</span>
+      <span className="text-xs font-bold" style={{ color: color ?? "var(--terminal-green)" }}>
+        {value}
+      </span>
+    </div>
+  )
+}
+
+// ── Owner Input ──────────────────────────────────────────────────────────
+
+function OwnerInput({ owner }: { owner: string | null }) {
+  const { navigateToOwner } = useNavigation()
+  const [value, setValue] = useState(owner ?? "")
+  const trimmed = value.trim()
+  const valid = BASE58_PUBKEY.test(trimmed)
+
+  const onSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    if (valid) navigateToOwner(trimmed)
+  }
+
+  return (
+    <form onSubmit={onSubmit} className="flex items-center gap-2 px-1 py-1">
+      <span className="text-[10px] font-bold text-[var(--terminal-dim)]">WALLET&gt;</span>
+      <input
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder="owner pubkey (base58)"
+        spellCheck={false}
+        className="flex-1 bg-[var(--terminal-bg)] border border-[var(--terminal-border)] focus:border-[var(--terminal-green)] px-2 py-1 text-[10px] font-mono text-[var(--terminal-cyan)] placeholder:text-[var(--terminal-dim)] outline-none"
+      />
+      <button
+        type="submit"
+        disabled={!valid}
+        className="px-2 py-1 text-[10px] font-bold text-[var(--terminal-amber)] hover:text-[var(--terminal-green)] border border-[var(--terminal-border)] hover:border-[var(--terminal-green)] disabled:opacity-40 disabled:hover:text-[var(--terminal-amber)] disabled:hover:border-[var(--terminal-border)] transition-all select-none"
+      >
+        LOOKUP
+      </button>
+    </form>
+  )
+}
+
+// ── Totals Panel ─────────────────────────────────────────────────────────
+
+// Amounts stay per market: each is in its own collateral, so the wallet-wide
+// panel only carries counts and the worst health.
+function TotalsPanel({ totals, collaterals }: { totals: PortfolioRisk & { markets: number }; collaterals: string[] }) {
+  const hasOpen = totals.openPositions > 0
+  return (
+    <TerminalPanel title="Portfolio">
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-6">
+        <Stat label="Markets" value={`${totals.markets}`} color="var(--terminal-cyan)" />
+        <Stat label="Accounts" value={`${totals.accounts}`} color="var(--terminal-cyan)" />
+        <Stat label="Open Positions" value={`${totals.openPositions}`} color="var(--terminal-cyan)" />
+        <Stat label="Collateral" value={collaterals.length > 0 ? collaterals.join(" · ") : "N/A"} color="var(--terminal-amber)" />
+        <Stat label="Min Health" value={hasOpen ? `${totals.minHealth}%` : "N/A"} color={hasOpen ? healthColor(totals.minHealth) : "var(--terminal-dim)"} />
+        <Stat
+          label="At Risk / Liq."
+          value={`${totals.atRisk} / ${totals.liquidatable}`}
+          color={totals.liquidatable > 0 ? "var(--terminal-red)" : totals.atRisk > 0 ? "var(--terminal-amber)" : "var(--terminal-green)"}
+        />
+      </div>
+    </TerminalPanel>
+  )
+}
+
+// ── Market Block ─────────────────────────────────────────────────────────
+
+function MarketRows({ market }: { market: PortfolioMarket }) {
+  const { navigateToSlab, navigateToAccount } = useNavigation()
+  const hasOpen = market.openPositions > 0
+
+  return (
+    <>
+      <tr
+        onClick={() => navigateToSlab(market.slabPubkey, market.programLabel, market.network, market.programId)}
+        className="cursor-pointer border-b border-[var(--terminal-border)] bg-[var(--terminal-bg)] hover:bg-[var(--terminal-hover)] transition-colors"
+      >
+        <td className="py-1 pr-2" colSpan={2}>
+          <span className="font-bold text-[var(--terminal-green)]">{market.programLabel.toUpperCase()}</span>
+          <span
+            className="ml-1.5 px-1 text-[8px] font-bold uppercase border"
+            style={{
+              color: market.network === "mainnet" ? "var(--terminal-green)" : "var(--terminal-amber)",
+              borderColor: market.network === "mainnet" ? "var(--terminal-green)" : "var(--terminal-amber)",
+            }}
+          >
+            {market.network}
+          </span>
+          <span className="ml-1.5 font-mono text-[var(--terminal-cyan)]">{truncateAddress(market.slabPubkey, 4)}</span>
+        </td>
+        <td className="py-1 pr-2 text-right text-[var(--terminal-amber)]">{formatSigned(market.netExposure)}</td>
+        <td className="py-1 pr-2 text-right">
+          {formatSol(market.collateral)} <span className="text-[var(--terminal-dim)]">{market.collateralSymbol}</span>
+        </td>
+        <td className="py-1 pr-2 text-right" style={{ color: pnlColor(market.realizedPnl) }}>{formatSigned(market.realizedPnl)}</td>
+        <td className="py-1 pr-2 text-right" style={{ color: pnlColor(market.unrealizedPnl) }}>{formatSigned(market.unrealizedPnl)}</td>
+        <td className="py-1 text-right font-bold" style={{ color: hasOpen ? healthColor(market.minHealth) : "var(--terminal-dim)" }}>
+          {hasOpen ? `${market.minHealth}%` : "-"}
+        </td>
+      </tr>
+      {market.positions.map((p) => (
+        <tr
+          key={`${market.slabPubkey}-${p.accountIndex}`}
+          onClick={() => navigateToAccount(market.slabPubkey, p.accountIndex, market.programLabel, market.network, market.programId)}
+          className="cursor-pointer border-b border-dotted border-[var(--terminal-border)] hover:bg-[var(--terminal-hover)] transition-colors"
+        >
+          <td className="py-0.5 pr-2 pl-3 text-[var(--terminal-dim)]">
+            {"└"} #{p.accountIndex} {p.isLP ? "LP" : "USER"}
+          </td>
+          <td
+            className="py-0.5 pr-2 font-bold uppercase"
+            style={{ color: p.side === "long" ? "var(--terminal-green)" : p.side === "short" ? "var(--terminal-red)" : "var(--terminal-dim)" }}
+          >
+            {p.side}
+          </td>
+          <td className="py-0.5 pr-2 text-right">
+            {p.side === "flat" ? "-" : formatSigned(p.side === "long" ? p.size : -p.size)}
+          </td>
+          <td className="py-0.5 pr-2 text-right">{formatSol(p.collateral)}</td>
+          <td className="py-0.5 pr-2 text-right" style={{ color: pnlColor(p.realizedPnl) }}>{formatSigned(p.realizedPnl)}</td>
+          <td className="py-0.5 pr-2 text-right" style={{ color: pnlColor(p.unrealizedPnl) }}>{formatSigned(p.unrealizedPnl)}</td>
+          <td className="py-0.5 text-right" style={{ color: statusColor(p.status) }}>
+            {p.side === "flat" ? "-" : `${p.marginHealth}%`}
+          </td>
+        </tr>
+      ))}
+    </>
+  )
+}
+
+function MarketsPanel({ data }: { data: OwnerPortfolio }) {
+  return (
+    <TerminalPanel title={`Markets (${data.markets.length})`}>
+      {data.markets.length === 0 ? (
+        <div className="py-6 text-center text-[10px] text-[var(--terminal-dim)]">
+          NO ACCOUNTS OWNED BY THIS WALLET ON ANY KNOWN SLAB
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-[10px]">
+            <thead>
+              <tr className="text-[var(--terminal-dim)] text-left uppercase">
+                <th className="pb-1 pr-2">MARKET / ACCOUNT</th>
+                <th className="pb-1 pr-2">SIDE</th>
+                <th className="pb-1 pr-2 text-right">EXPOSURE</th>
+                <th className="pb-1 pr-2 text-right">COLLATERAL</th>
+                <th className="pb-1 pr-2 text-right">REALIZED</th>
+                <th className="pb-1 pr-2 text-right">UNREALIZED</th>
+                <th className="pb-1 text-right">HEALTH</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.markets.map((m) => (
+                <MarketRows key={m.slabPubkey} market={m} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </TerminalPanel>
+  )
+}
+
+// ── Main View ────────────────────────────────────────────────────────────
+
+export function PortfolioView() {
+  const { selectedOwner } = useNavigation()
+  const { data, isLoading, error } = usePortfolio(selectedOwner)
+
+  return (
+    <div className="flex flex-col gap-px">
+      <OwnerInput key={selectedOwner ?? ""} owner={selectedOwner} />
+
+      {!selectedOwner ? (
+        <TerminalPanel title="Portfolio">
+          <div className="py-8 text-center text-[10px] text-[var(--terminal-dim)]">
+            ENTER A WALLET TO FIND ITS ACCOUNTS ACROSS EVERY PROGRAM AND NETWORK
+          </div>
+        </TerminalPanel>
+      ) : error && !data ? (
+        <div className="px-3 py-2 text-[10px] text-[var(--terminal-red)] border border-[var(--terminal-red)]">
+          ERROR: {error.message}
+        </div>
+      ) : isLoading || !data ? (
+        <TerminalPanel title="Portfolio">
+          <div className="flex items-center justify-center py-8">
+            <span className="text-xs text-[var(--terminal-green)] animate-blink-cursor">{"█"}</span>
+            <span className="ml-2 text-[10px] text-[var(--terminal-dim)]">
+              INDEXING SLABS FOR {truncateAddress(selectedOwner, 6)}...
+            </span>
+          </div>
+        </TerminalPanel>
+      ) : (
+        <>
+          <div className="flex items-center justify-between gap-2 px-1 text-[10px]">
+            <div className="flex items-center gap-1.5">
+              <span className="text-[var(--terminal-dim)]">OWNER</span>
+              <span className="font-mono text-[var(--terminal-cyan)]">{truncateAddress(data.owner, 8)}</span>
+              <ExplorerLink type="address" address={data.owner} network={data.markets[0]?.network ?? "devnet"} />
+            </div>
+            <span className="text-[9px] text-[var(--terminal-dim)]">
+              {data.scanned.map((s) => `${s.network.toUpperCase()} ${s.slabs} SLABS`).join(" · ")}
+            </span>
+          </div>
+
+          {data.errors.map((e) => (
+            <div key={e.network} className="px-3 py-1 text-[10px] text-[var(--terminal-amber)] border border-[var(--terminal-amber)]">
+              {e.network.toUpperCase()} UNAVAILABLE: {e.error}
+            </div>
+          ))}
+
+          <TotalsPanel totals={data.totals} collaterals={[...new Set(data.markets.map((m) => m.collateralSymbol))]} />
+          <MarketsPanel data={data} />
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,13 @@
 "use client"
 
 import { RadarPanel } from "@/components/terminal/radar-panel"
+import { OracleHealthPanel } from "@/components/terminal/oracle-health-panel"
 
 export function RadarView() {
-  return <RadarPanel />
+  return (
+    <div className="flex flex-col gap-2">
+      <RadarPanel />
+      <OracleHealthPanel />
+    </div>
+  )
 }
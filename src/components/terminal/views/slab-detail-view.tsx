@@ -2,9 +2,13 @@
 
 import { useState } from "react"
 import { useNavigation } from "@/hooks/use-navigation"
-import { useSlabDetail, type SlabDetail, type SlabPosition, type SlabLP } from "@/hooks/use-slab-detail"
+import { useSlabDetail, type SlabDetail, type SlabPosition, type SlabLP, type PnlAttribution } from "@/hooks/use-slab-detail"
+import { usePriceHistory } from "@/hooks/use-price-history"
 import { TerminalPanel } from "../terminal-panel"
 import { MarketVisual } from "../market-visual"
+import { PriceChart } from "../price-chart"
+import { DivergencePanel } from "../divergence-panel"
+import { FundingPanel } from "../funding-panel"
 import { ExplorerLink, truncateAddress } from "../explorer-link"
 
 // ── Helpers ──────────────────────────────────────────────────────────────
@@ -52,7 +56,12 @@ function sideColor(side: string): string {
 
 function BackButton() {
   const { goBack, previousView } = useNavigation()
-  const label = previousView === "radar" ? "RADAR" : "DASHBOARD"
+  const label =
+    previousView === "radar" ? "RADAR" :
+    previousView === "portfolio" ? "PORTFOLIO" :
+    previousView === "account" ? "ACCOUNT" :
+    previousView === "slab" ? "SLAB" :
+    "DASHBOARD"
   return (
     <button
       onClick={goBack}
@@ -77,6 +86,22 @@ function Stat({ label, value, color }: { label: string; value: string; color?: s
   )
 }
 
+const ORACLE_LABELS: Record<string, string> = {
+  admin: "ADMIN",
+  pyth: "PYTH",
+  chainlink: "CHAINLINK",
+  "dex-pumpswap": "PUMPSWAP",
+  "dex-raydium": "RAYDIUM",
+  "dex-meteora": "METEORA",
+}
+
+function formatAge(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`
+  return `${Math.floor(seconds / 86400)}d`
+}
+
 // ── Market Overview Panel ────────────────────────────────────────────────
 
 function MarketOverviewPanel({ data }: { data: SlabDetail }) {
@@ -114,11 +139,52 @@ function MarketOverviewPanel({ data }: { data: SlabDetail }) {
           color={crankColor}
         />
         <Stat label="Slot" value={data.slot.toLocaleString()} color="var(--terminal-cyan)" />
+        <OracleStats data={data} />
       </div>
     </TerminalPanel>
   )
 }
 
+/** Live oracle source, confidence and age; falls back to the stored price when unreadable */
+function OracleStats({ data }: { data: SlabDetail }) {
+  const oracle = data.oracle
+  if (!oracle || oracle.error) {
+    return (
+      <Stat
+        label="Oracle"
+        value={oracle?.error ? `${ORACLE_LABELS[oracle.source] ?? "UNKNOWN"} · STORED PRICE` : "STORED PRICE"}
+        color="var(--terminal-amber)"
+      />
+    )
+  }
+
+  return (
+    <>
+      <Stat
+        label="Oracle"
+        value={`${ORACLE_LABELS[oracle.source] ?? "UNKNOWN"}${oracle.confidence > 0 ? ` ±${oracle.confidenceBps.toFixed(1)}bps` : ""}`}
+        color="var(--terminal-cyan)"
+      />
+      <Stat
+        label="Oracle Age"
+        value={oracle.ageSeconds !== null ? `${formatAge(oracle.ageSeconds)}${oracle.stale ? " STALE" : ""}` : "N/A"}
+        color={oracle.stale ? "var(--terminal-red)" : "var(--terminal-green)"}
+      />
+    </>
+  )
+}
+
+// ── Price History Panel ──────────────────────────────────────────────────
+
+function PriceHistoryPanel({ address, data }: { address: string; data: SlabDetail }) {
+  const { points, loading } = usePriceHistory(address, data)
+  return (
+    <TerminalPanel title="Price History">
+      <PriceChart points={points} loading={loading} slabAddress={address} />
+    </TerminalPanel>
+  )
+}
+
 // ── Config Panel ─────────────────────────────────────────────────────────
 
 function ConfigPanel({ data }: { data: SlabDetail }) {
@@ -200,9 +266,11 @@ function ConfigRow({
 
 function PositionsPanel({ data }: { data: SlabDetail }) {
   const [showLPs, setShowLPs] = useState(true)
+  const [selectedIdx, setSelectedIdx] = useState<number | null>(null)
   const positions = showLPs
     ? data.positions
     : data.positions.filter((p) => !p.isLP)
+  const selected = positions.find((p) => p.accountIndex === selectedIdx) ?? null
 
   return (
     <TerminalPanel title={`Positions (${data.summary.totalPositions})`}>
@@ -251,28 +319,63 @@ function PositionsPanel({ data }: { data: SlabDetail }) {
                 <th className="pb-1 pr-2 text-right">SIZE (SOL)</th>
                 <th className="pb-1 pr-2 text-right">ENTRY</th>
                 <th className="pb-1 pr-2 text-right">PNL</th>
+                <th className="pb-1 pr-2 text-right" title="Unrealized PnL by source: price, unsettled funding, accrued fees">PNL MIX</th>
                 <th className="pb-1 pr-2 text-right">HEALTH</th>
                 <th className="pb-1 text-right">STATUS</th>
               </tr>
             </thead>
             <tbody>
               {positions.map((pos) => (
-                <PositionRow key={`${pos.accountIndex}`} pos={pos} network={data.network} />
+                <PositionRow
+                  key={`${pos.accountIndex}`}
+                  pos={pos}
+                  network={data.network}
+                  selected={pos.accountIndex === selectedIdx}
+                  onSelect={() => setSelectedIdx(pos.accountIndex === selectedIdx ? null : pos.accountIndex)}
+                />
               ))}
             </tbody>
           </table>
         </div>
       )}
+
+      {positions.length > 0 && (
+        <div className="flex items-center gap-x-3 pt-1 text-[9px] text-[var(--terminal-dim)] border-t border-[var(--terminal-border)]">
+          <span>PNL MIX:</span>
+          {ATTRIBUTION_PARTS.map(({ key, label, color }) => (
+            <span key={key} className="flex items-center gap-1">
+              <span className="inline-block h-1.5 w-2" style={{ backgroundColor: color }} />
+              {label}
+            </span>
+          ))}
+          <span className="ml-auto">LOSSES LEFT OF CENTER, GAINS RIGHT</span>
+        </div>
+      )}
+
+      {selected && <AccountDrillDown pos={selected} data={data} onClose={() => setSelectedIdx(null)} />}
     </TerminalPanel>
   )
 }
 
-function PositionRow({ pos, network }: { pos: SlabPosition; network: "devnet" | "mainnet" }) {
+function PositionRow({
+  pos,
+  network,
+  selected,
+  onSelect,
+}: {
+  pos: SlabPosition
+  network: "devnet" | "mainnet"
+  selected: boolean
+  onSelect: () => void
+}) {
   const sideStr = pos.isLP ? "LP" : pos.side.toUpperCase()
   const sColor = pos.isLP ? "var(--terminal-cyan)" : sideColor(pos.side)
 
   return (
-    <tr className="border-b border-dotted border-[var(--terminal-border)] hover:bg-[var(--terminal-hover)] transition-colors">
+    <tr
+      onClick={onSelect}
+      className={`border-b border-dotted border-[var(--terminal-border)] hover:bg-[var(--terminal-hover)] transition-colors cursor-pointer ${selected ? "bg-[var(--terminal-hover)]" : ""}`}
+    >
       <td className="py-0.5 pr-2 text-[var(--terminal-dim)]">{pos.accountIndex}</td>
       <td className="py-0.5 pr-2 font-bold" style={{ color: sColor }}>{sideStr}</td>
       <td className="py-0.5 pr-2">
@@ -288,6 +391,9 @@ function PositionRow({ pos, network }: { pos: SlabPosition; network: "devnet" |
       <td className="py-0.5 pr-2 text-right font-mono" style={{ color: pos.unrealizedPnl >= 0 ? "var(--terminal-green)" : "var(--terminal-red)" }}>
         {pos.unrealizedPnl >= 0 ? "+" : ""}{formatSol(pos.unrealizedPnl, 4)}
       </td>
+      <td className="py-0.5 pr-2 text-right">
+        <AttributionBar attribution={pos.pnlAttribution} />
+      </td>
       <td className="py-0.5 pr-2 text-right">
         <HealthBar health={pos.marginHealth} />
       </td>
@@ -319,6 +425,161 @@ function HealthBar({ health }: { health: number }) {
   )
 }
 
+const ATTRIBUTION_PARTS: { key: Exclude<keyof PnlAttribution, "total">; label: string; color: string }[] = [
+  { key: "price", label: "PRICE", color: "var(--terminal-cyan)" },
+  { key: "funding", label: "FUNDING", color: "var(--terminal-amber)" },
+  { key: "fees", label: "FEES", color: "var(--terminal-red)" },
+]
+
+function formatSignedSol(n: number, decimals = 6): string {
+  return `${n >= 0 ? "+" : ""}${formatSol(n, decimals)}`
+}
+
+/**
+ * Price, funding and fee PnL stacked outward from a zero line: losses to the
+ * left, gains to the right, scaled to the larger side.
+ */
+function AttributionBar({ attribution }: { attribution: PnlAttribution }) {
+  const parts = ATTRIBUTION_PARTS.map((p) => ({ ...p, value: attribution[p.key] }))
+  const gains = parts.filter((p) => p.value > 0)
+  const losses = parts.filter((p) => p.value < 0)
+  const scale = Math.max(
+    gains.reduce((sum, p) => sum + p.value, 0),
+    -losses.reduce((sum, p) => sum + p.value, 0),
+  )
+  const title = parts.map((p) => `${p.label} ${formatSignedSol(p.value)}`).join(" · ") + ` = ${formatSignedSol(attribution.total)} SOL`
+  const segment = (p: (typeof parts)[number]) => (
+    <div key={p.key} className="h-full" style={{ width: `${(Math.abs(p.value) / scale) * 100}%`, backgroundColor: p.color }} />
+  )
+
+  return (
+    <div className="flex justify-end" title={title}>
+      <div className="flex w-16 h-1.5 bg-[var(--terminal-bg)] border border-[var(--terminal-border)]">
+        {scale > 0 && (
+          <>
+            <div className="flex flex-row-reverse w-1/2 border-r border-[var(--terminal-dim)]">{losses.map(segment)}</div>
+            <div className="flex w-1/2">{gains.map(segment)}</div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// ── Account Drill-Down ───────────────────────────────────────────────────
+
+// All-zero pubkey: no matcher bound
+const ZERO_PUBKEY = "11111111111111111111111111111111"
+
+function AccountDrillDown({ pos, data, onClose }: { pos: SlabPosition; data: SlabDetail; onClose: () => void }) {
+  const { navigateToAccount } = useNavigation()
+  const warmupPeriod = Number(data.params.warmupPeriodSlots)
+  const warmupPct = Math.round(pos.warmupProgress * 100)
+  const warmupColor = pos.warmupProgress >= 1 ? "var(--terminal-green)" : "var(--terminal-amber)"
+  const hasMatcher = pos.matcherProgram !== ZERO_PUBKEY
+
+  return (
+    <div className="mt-2 pt-2 border-t border-[var(--terminal-border)]">
+      <div className="flex items-center gap-2 pb-2 text-[10px]">
+        <span className="font-bold text-[var(--terminal-amber)]">ACCOUNT #{pos.accountIndex}</span>
+        <span className="text-[var(--terminal-dim)]">ID {pos.accountId}</span>
+        <span className="font-bold" style={{ color: pos.isLP ? "var(--terminal-cyan)" : sideColor(pos.side) }}>
+          {pos.isLP ? "LP" : "USER"}
+        </span>
+        <button
+          onClick={() => navigateToAccount(data.slabPubkey, pos.accountIndex, data.programLabel, data.network, data.programId)}
+          className="ml-auto text-[9px] font-bold text-[var(--terminal-amber)] hover:text-[var(--terminal-green)] transition-colors select-none"
+        >
+          HISTORY {"▶"}
+        </button>
+        <button
+          onClick={onClose}
+          className="text-[9px] text-[var(--terminal-dim)] hover:text-[var(--terminal-amber)] transition-colors select-none"
+        >
+          CLOSE
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+        <Stat label="Capital" value={`${formatSol(pos.collateral)} SOL`} />
+        <Stat
+          label="Realized PnL"
+          value={`${pos.realizedPnl >= 0 ? "+" : ""}${formatSol(pos.realizedPnl)} SOL`}
+          color={pos.realizedPnl >= 0 ? "var(--terminal-green)" : "var(--terminal-red)"}
+        />
+        <Stat label="Reserved PnL" value={`${formatSol(pos.reservedPnl)} SOL`} color="var(--terminal-cyan)" />
+        <Stat label="Effective Capital" value={`${formatSol(pos.effectiveCapital)} SOL`} />
+      </div>
+
+      {/* Unrealized PnL by source */}
+      <div className="mt-3 grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+        {ATTRIBUTION_PARTS.map(({ key, label, color }) => (
+          <Stat key={key} label={`${label} PnL`} value={`${formatSignedSol(pos.pnlAttribution[key])} SOL`} color={color} />
+        ))}
+        <Stat
+          label="Unrealized PnL"
+          value={`${formatSignedSol(pos.pnlAttribution.total)} SOL`}
+          color={pos.pnlAttribution.total >= 0 ? "var(--terminal-green)" : "var(--terminal-red)"}
+        />
+      </div>
+
+      {/* Warmup progress against params.warmupPeriodSlots */}
+      <div className="mt-3 flex flex-col gap-1">
+        <div className="flex items-center justify-between text-[9px] uppercase text-[var(--terminal-dim)]">
+          <span>PnL Warmup</span>
+          <span>
+            {Number(pos.warmupElapsedSlots).toLocaleString()} / {warmupPeriod.toLocaleString()} slots
+            {" · "}
+            <span className="font-bold" style={{ color: warmupColor }}>{warmupPct}%</span>
+          </span>
+        </div>
+        <div className="h-1.5 w-full bg-[var(--terminal-bg)] border border-[var(--terminal-border)]">
+          <div className="h-full transition-all duration-300" style={{ width: `${warmupPct}%`, backgroundColor: warmupColor }} />
+        </div>
+        <div className="grid grid-cols-2 gap-3 pt-1 sm:grid-cols-3 lg:grid-cols-4">
+          <Stat label="Warmed PnL" value={`${formatSol(pos.warmedPnl)} SOL`} />
+          <Stat label="Locked PnL" value={`${formatSol(pos.lockedPnl)} SOL`} color="var(--terminal-amber)" />
+          <Stat label="Started @ Slot" value={Number(pos.warmupStartedAtSlot).toLocaleString()} color="var(--terminal-cyan)" />
+          <Stat label="Slope / Slot" value={pos.warmupSlopePerStep} color="var(--terminal-cyan)" />
+        </div>
+      </div>
+
+      {/* Maintenance fees since lastFeeSlot */}
+      <div className="mt-3 grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+        <Stat label="Fee Credits" value={`${formatSol(pos.feeCredits, 6)} SOL`} />
+        <Stat
+          label="Accrued Maint. Fee"
+          value={`${formatSol(pos.accruedMaintenanceFee, 6)} SOL`}
+          color={pos.accruedMaintenanceFee > 0 ? "var(--terminal-amber)" : "var(--terminal-dim)"}
+        />
+        <Stat
+          label="Net Fee Credits"
+          value={`${formatSol(pos.netFeeCredits, 6)} SOL`}
+          color={pos.netFeeCredits < 0 ? "var(--terminal-red)" : "var(--terminal-green)"}
+        />
+        <Stat
+          label="Last Fee Slot"
+          value={`${Number(pos.lastFeeSlot).toLocaleString()} (${Number(pos.slotsSinceFee).toLocaleString()} ago)`}
+          color="var(--terminal-cyan)"
+        />
+      </div>
+
+      {/* Matcher binding */}
+      <div className="mt-3 grid grid-cols-1 gap-1 text-[10px] font-mono">
+        <ConfigRow label="Owner" value={pos.owner} address network={data.network} />
+        {hasMatcher ? (
+          <>
+            <ConfigRow label="Matcher Program" value={pos.matcherProgram} address network={data.network} />
+            <ConfigRow label="Matcher Context" value={pos.matcherContext} address network={data.network} />
+          </>
+        ) : (
+          <ConfigRow label="Matcher" value="NONE" />
+        )}
+      </div>
+    </div>
+  )
+}
+
 // ── LPs Panel ────────────────────────────────────────────────────────────
 
 function LPsPanel({ data }: { data: SlabDetail }) {
@@ -350,7 +611,7 @@ function LPsPanel({ data }: { data: SlabDetail }) {
 }
 
 function LPRow({ lp, network }: { lp: SlabLP; network: "devnet" | "mainnet" }) {
-  const isZeroMatcher = lp.matcherContext === "11111111111111111111111111111111"
+  const isZeroMatcher = lp.matcherContext === ZERO_PUBKEY
   return (
     <tr className="border-b border-dotted border-[var(--terminal-border)] hover:bg-[var(--terminal-hover)] transition-colors">
       <td className="py-0.5 pr-2 text-[var(--terminal-cyan)]">{lp.accountIndex}</td>
@@ -460,6 +721,15 @@ export function SlabDetailView() {
       {/* Market visualization — 2-column: positions + depth */}
       <MarketVisual data={data} />
 
+      {/* Price history — line or OHLC candles */}
+      <PriceHistoryPanel address={selectedSlab} data={data} />
+
+      {/* Mark vs index vs DEX basis with alert thresholds */}
+      <DivergencePanel address={selectedSlab} programId={selectedSlabProgramId} network={selectedSlabNetwork} />
+
+      {/* Funding rate, realized funding and APR */}
+      <FundingPanel address={selectedSlab} programId={selectedSlabProgramId} network={selectedSlabNetwork} />
+
       {/* Market overview + config */}
       <div className="grid grid-cols-1 gap-px lg:grid-cols-2">
         <MarketOverviewPanel data={data} />
@@ -0,0 +1,41 @@
+import useSWR from "swr"
+import type { AccountDetail } from "@/lib/fetcher"
+import type { AccountPoint } from "@/lib/history-store"
+import type { DecodedTxEventJson } from "@/lib/tx-decoder"
+
+const fetcher = (url: string) => fetch(url).then((r) => {
+  if (!r.ok) throw new Error(`Failed to fetch: ${r.status}`)
+  return r.json()
+})
+
+export type { AccountDetail, AccountPoint, DecodedTxEventJson }
+
+export interface AccountDetailResponse extends AccountDetail {
+  history: AccountPoint[]
+  events: DecodedTxEventJson[]
+}
+
+interface AccountDetailOpts {
+  programId?: string | null
+  network?: "devnet" | "mainnet" | null
+}
+
+export function useAccountDetail(address: string | null, idx: number | null, opts?: AccountDetailOpts) {
+  let url: string | null = null
+  if (address && idx !== null) {
+    const params = new URLSearchParams()
+    if (opts?.programId) params.set("programId", opts.programId)
+    if (opts?.network) params.set("network", opts.network)
+    const qs = params.toString()
+    url = `/api/slab/${address}/account/${idx}${qs ? `?${qs}` : ""}`
+  }
+
+  return useSWR<AccountDetailResponse>(
+    url,
+    fetcher,
+    {
+      refreshInterval: 10000,
+      revalidateOnFocus: false,
+    },
+  )
+}
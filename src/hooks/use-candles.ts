@@ -0,0 +1,38 @@
+import useSWR from "swr"
+import type { CandleInterval, OhlcCandle } from "@/lib/candles"
+
+// Re-export types for components
+export type { CandleInterval, OhlcCandle }
+
+interface CandlesResponse {
+  address: string
+  interval: CandleInterval
+  candles: OhlcCandle[]
+  count: number
+}
+
+const fetcher = (url: string) => fetch(url).then((r) => {
+  if (!r.ok) throw new Error(`Failed to fetch: ${r.status}`)
+  return r.json()
+})
+
+const REFRESH_MS: Record<CandleInterval, number> = {
+  "1m": 10_000,
+  "5m": 30_000,
+  "1h": 60_000,
+  "1d": 300_000,
+}
+
+/**
+ * OHLC candles for a slab. Pass a null address to disable fetching.
+ */
+export function useCandles(address: string | null, interval: CandleInterval) {
+  return useSWR<CandlesResponse>(
+    address ? `/api/slab/${address}/candles?interval=${interval}` : null,
+    fetcher,
+    {
+      refreshInterval: REFRESH_MS[interval],
+      revalidateOnFocus: false,
+    },
+  )
+}
@@ -0,0 +1,30 @@
+import useSWR from "swr"
+import type { DivergenceAlert, DivergenceLevel, DivergencePair, DivergenceReport, DivergenceSample } from "@/lib/divergence"
+
+const fetcher = (url: string) => fetch(url).then((r) => {
+  if (!r.ok) throw new Error(`Failed to fetch: ${r.status}`)
+  return r.json()
+})
+
+export type { DivergenceAlert, DivergenceLevel, DivergencePair, DivergenceReport, DivergenceSample }
+
+interface DivergenceOpts {
+  programId?: string | null
+  network?: "devnet" | "mainnet" | null
+}
+
+export function useDivergence(address: string | null, opts?: DivergenceOpts) {
+  let url: string | null = null
+  if (address) {
+    const params = new URLSearchParams()
+    if (opts?.programId) params.set("programId", opts.programId)
+    if (opts?.network) params.set("network", opts.network)
+    const qs = params.toString()
+    url = `/api/slab/${address}/divergence${qs ? `?${qs}` : ""}`
+  }
+
+  return useSWR<DivergenceReport>(url, fetcher, {
+    refreshInterval: 10000,
+    revalidateOnFocus: false,
+  })
+}
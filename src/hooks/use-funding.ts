@@ -0,0 +1,30 @@
+import useSWR from "swr"
+import type { FundingDirection, FundingInterval, FundingPeriod, FundingReport, FundingTotals } from "@/lib/funding"
+
+const fetcher = (url: string) => fetch(url).then((r) => {
+  if (!r.ok) throw new Error(`Failed to fetch: ${r.status}`)
+  return r.json()
+})
+
+export type { FundingDirection, FundingInterval, FundingPeriod, FundingReport, FundingTotals }
+
+interface FundingOpts {
+  programId?: string | null
+  network?: "devnet" | "mainnet" | null
+}
+
+export function useFunding(address: string | null, opts?: FundingOpts) {
+  let url: string | null = null
+  if (address) {
+    const params = new URLSearchParams()
+    if (opts?.programId) params.set("programId", opts.programId)
+    if (opts?.network) params.set("network", opts.network)
+    const qs = params.toString()
+    url = `/api/slab/${address}/funding${qs ? `?${qs}` : ""}`
+  }
+
+  return useSWR<FundingReport>(url, fetcher, {
+    refreshInterval: 30000,
+    revalidateOnFocus: false,
+  })
+}
@@ -1,7 +1,10 @@
 import useSWR from "swr"
+import type { PnlAttribution } from "@/lib/types"
 
 const fetcher = (url: string) => fetch(url).then((r) => r.json())
 
+export type { PnlAttribution }
+
 export interface MarketData {
   oraclePrice: number
   priceChange24h?: number
@@ -40,6 +43,8 @@ export interface Position {
   liquidationPrice: number
   isLP?: boolean
   status?: string
+  /** unrealizedPnl split into price, unsettled funding and uncovered fees */
+  pnlAttribution: PnlAttribution
 }
 
 export interface LP {
@@ -99,6 +104,22 @@ export function useActivity() {
 
 // ── Crank bot status ────────────────────────────────────────────────────
 
+export interface SlabCrankStatus {
+  slab: string
+  label: string
+  programId: string
+  network: string
+  lastCrankSlot: number
+  maxCrankStalenessSlots: number
+  staleness: number
+  lastAttemptAt: number
+  lastSuccessAt: number
+  lastSignature: string | null
+  crankCount: number
+  errorCount: number
+  lastError: string | null
+}
+
 export interface CrankStatus {
   running: boolean
   walletPubkey: string
@@ -110,7 +131,12 @@ export interface CrankStatus {
   errorCount: number
   lastError: string | null
   intervalMs: number
+  maxTxPerSecond: number
+  scope: { slabs?: string[]; programs?: string[] }
   slabPubkey: string
+  slabs: SlabCrankStatus[]
+  runnerLive: boolean
+  runnerHeartbeat: number | null
 }
 
 export function useCrankStatus() {
@@ -118,3 +144,37 @@ export function useCrankStatus() {
     refreshInterval: 3000,
   })
 }
+
+// ── Crank history ───────────────────────────────────────────────────────
+
+export interface CrankLogEntry {
+  id: number
+  timestamp: number
+  slab: string
+  programId: string
+  network: string
+  signature: string | null
+  slot: number
+  latencyMs: number
+  computeUnits: number | null
+  feeLamports: number | null
+  error: string | null
+}
+
+export interface CrankHistory {
+  entries: CrankLogEntry[]
+  nextBefore: number | null
+  summary: {
+    count: number
+    successRate: number
+    avgLatencyMs: number
+    avgComputeUnits: number | null
+    totalFeeLamports: number
+  }
+}
+
+export function useCrankHistory(limit = 60) {
+  return useSWR<CrankHistory>(`/api/crank/history?limit=${limit}`, fetcher, {
+    refreshInterval: 10000,
+  })
+}
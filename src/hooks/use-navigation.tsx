@@ -1,8 +1,26 @@
 "use client"
 
 import { createContext, useContext, useState, useCallback, type ReactNode } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { PROGRAM_REGISTRY, getRegistryEntry, type ProgramEntry } from "@/lib/registry"
 
-export type ViewId = "home" | "radar" | "slab" | "docs"
+export type ViewId = "home" | "radar" | "slab" | "account" | "portfolio" | "docs"
+
+export type RadarNetworkFilter = "all" | "devnet" | "mainnet"
+
+/**
+ * Navigation lives in the URL so every view can be bookmarked and shared:
+ *
+ *   /                                   home
+ *   /radar?network=mainnet&program=id   radar, optionally filtered
+ *   /slab/[address]?program=id&network= slab detail
+ *   /slab/[address]/account/[idx]?...   one account of a slab
+ *   /portfolio?owner=pubkey             wallet portfolio
+ *   /docs                               documentation
+ *
+ * `program` is a registry id (e.g. "toly-original"); together with `network`
+ * it becomes the programId/network hint the slab APIs use to skip resolution.
+ */
 
 interface NavigationContextType {
   activeView: ViewId
@@ -15,8 +33,24 @@ interface NavigationContextType {
   selectedSlabProgramId: string | null
   /** Network for the selected slab */
   selectedSlabNetwork: "devnet" | "mainnet" | null
+  /** Account index within the selected slab for the account view */
+  selectedAccount: number | null
+  /** Wallet shown in the portfolio view */
+  selectedOwner: string | null
+  /** Radar network filter (?network=) */
+  radarNetwork: RadarNetworkFilter
+  /** Radar program filter, a registry id (?program=) */
+  radarProgram: string | null
+  /** Update radar filters in place; null clears the program filter */
+  setRadarFilter: (filter: { network?: RadarNetworkFilter; program?: string | null }) => void
+  /** Navigate to the radar with filters */
+  navigateToRadar: (network?: RadarNetworkFilter, program?: string | null) => void
   /** Navigate to slab detail view */
   navigateToSlab: (address: string, programLabel?: string, network?: "devnet" | "mainnet", programId?: string) => void
+  /** Navigate to one account of a slab */
+  navigateToAccount: (address: string, idx: number, programLabel?: string, network?: "devnet" | "mainnet", programId?: string) => void
+  /** Navigate to the portfolio of an owner wallet */
+  navigateToOwner: (owner: string) => void
   /** Go back to previous view */
   goBack: () => void
   /** Label for back navigation */
@@ -30,45 +64,168 @@ const NavigationContext = createContext<NavigationContextType>({
   selectedSlabProgram: null,
   selectedSlabProgramId: null,
   selectedSlabNetwork: null,
+  selectedAccount: null,
+  selectedOwner: null,
+  radarNetwork: "all",
+  radarProgram: null,
+  setRadarFilter: () => {},
+  navigateToRadar: () => {},
   navigateToSlab: () => {},
+  navigateToAccount: () => {},
+  navigateToOwner: () => {},
   goBack: () => {},
   previousView: "home",
 })
 
+// ── URL helpers ──────────────────────────────────────────────────────────
+
+/** Locations remembered for BACK; older entries fall back to the parent view */
+const MAX_TRAIL = 50
+
+function parseNetwork(value: string | null): "devnet" | "mainnet" | null {
+  return value === "devnet" || value === "mainnet" ? value : null
+}
+
+/** View and path segments of a pathname; unknown paths read as home */
+function parsePath(pathname: string): { view: ViewId; slab: string | null; account: number | null } {
+  const [root, address, sub, idx] = pathname.split("/").filter(Boolean).map(decodeURIComponent)
+  switch (root) {
+    case "radar":
+    case "portfolio":
+    case "docs":
+      return { view: root, slab: null, account: null }
+    case "slab": {
+      if (!address) return { view: "radar", slab: null, account: null }
+      const accountIdx = sub === "account" ? Number(idx) : NaN
+      return Number.isInteger(accountIdx) && accountIdx >= 0
+        ? { view: "account", slab: address, account: accountIdx }
+        : { view: "slab", slab: address, account: null }
+    }
+    default:
+      return { view: "home", slab: null, account: null }
+  }
+}
+
+/** Registry entry for a slab link: by program ID, else by label on the network */
+function findProgram(programId?: string, programLabel?: string, network?: string | null): ProgramEntry | undefined {
+  if (programId) return PROGRAM_REGISTRY.find((e) => e.programId === programId)
+  if (!programLabel) return undefined
+  return PROGRAM_REGISTRY.find((e) => e.label === programLabel && (!network || e.network === network))
+}
+
+function withQuery(path: string, query: Record<string, string | null | undefined>): string {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value) params.set(key, value)
+  }
+  const qs = params.toString()
+  return qs ? `${path}?${qs}` : path
+}
+
+export function slabHref(address: string, program?: string | null, network?: string | null): string {
+  return withQuery(`/slab/${encodeURIComponent(address)}`, { program, network })
+}
+
+export function accountHref(address: string, idx: number, program?: string | null, network?: string | null): string {
+  return withQuery(`/slab/${encodeURIComponent(address)}/account/${idx}`, { program, network })
+}
+
+export function ownerHref(owner: string): string {
+  return withQuery("/portfolio", { owner })
+}
+
+// ── Provider ─────────────────────────────────────────────────────────────
+
 export function NavigationProvider({ children }: { children: ReactNode }) {
-  const [activeView, setActiveView] = useState<ViewId>("home")
-  const [previousView, setPreviousView] = useState<ViewId>("home")
-  const [selectedSlab, setSelectedSlab] = useState<string | null>(null)
-  const [selectedSlabProgram, setSelectedSlabProgram] = useState<string | null>(null)
-  const [selectedSlabProgramId, setSelectedSlabProgramId] = useState<string | null>(null)
-  const [selectedSlabNetwork, setSelectedSlabNetwork] = useState<"devnet" | "mainnet" | null>(null)
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const { view: activeView, slab: selectedSlab, account: selectedAccount } = parsePath(pathname)
+  const programParam = searchParams.get("program")
+  const networkParam = parseNetwork(searchParams.get("network"))
+  const slabProgram = selectedSlab && programParam ? getRegistryEntry(programParam) : undefined
+  const selectedOwner = activeView === "portfolio" ? searchParams.get("owner") : null
+  const radarNetwork: RadarNetworkFilter = activeView === "radar" ? networkParam ?? "all" : "all"
+  const radarProgram = activeView === "radar" ? programParam : null
+
+  // Recent locations, so BACK can name where it returns to. Browser back is
+  // recognised by landing on the entry before the current one.
+  const search = searchParams.toString()
+  const location = search ? `${pathname}?${search}` : pathname
+  const [trail, setTrail] = useState<string[]>([location])
+  const current = trail[trail.length - 1]
+  if (current !== location) {
+    if (trail.length > 1 && trail[trail.length - 2] === location) {
+      setTrail(trail.slice(0, -1))
+    } else if (current.split("?")[0] === pathname) {
+      // Same view with new query (filters, another wallet): replaced in place
+      setTrail([...trail.slice(0, -1), location])
+    } else {
+      setTrail([...trail, location].slice(-MAX_TRAIL))
+    }
+  }
+
+  // Kept across views so the PORTFOLIO tab reopens the last wallet
+  const [lastOwner, setLastOwner] = useState<string | null>(selectedOwner)
+  if (selectedOwner && selectedOwner !== lastOwner) setLastOwner(selectedOwner)
+
+  const currentSlabHref = selectedSlab ? slabHref(selectedSlab, slabProgram?.id, networkParam) : "/radar"
 
   const handleSetView = useCallback((view: ViewId) => {
-    if (view !== "slab") {
-      setSelectedSlab(null)
-      setSelectedSlabProgram(null)
-      setSelectedSlabProgramId(null)
-      setSelectedSlabNetwork(null)
+    switch (view) {
+      case "slab":
+      case "account":
+        router.push(currentSlabHref)
+        return
+      case "portfolio":
+        router.push(lastOwner ? ownerHref(lastOwner) : "/portfolio")
+        return
+      case "home":
+        router.push("/")
+        return
+      default:
+        router.push(`/${view}`)
     }
-    setActiveView(view)
-  }, [])
+  }, [router, currentSlabHref, lastOwner])
+
+  const setRadarFilter = useCallback((filter: { network?: RadarNetworkFilter; program?: string | null }) => {
+    const network = filter.network ?? radarNetwork
+    const program = filter.program === undefined ? radarProgram : filter.program
+    router.replace(withQuery("/radar", { network: network === "all" ? null : network, program }), { scroll: false })
+  }, [router, radarNetwork, radarProgram])
+
+  const navigateToRadar = useCallback((network: RadarNetworkFilter = "all", program: string | null = null) => {
+    router.push(withQuery("/radar", { network: network === "all" ? null : network, program }))
+  }, [router])
 
   const navigateToSlab = useCallback((address: string, programLabel?: string, network?: "devnet" | "mainnet", programId?: string) => {
-    setPreviousView(activeView === "slab" ? previousView : activeView)
-    setSelectedSlab(address)
-    setSelectedSlabProgram(programLabel ?? null)
-    setSelectedSlabProgramId(programId ?? null)
-    setSelectedSlabNetwork(network ?? null)
-    setActiveView("slab")
-  }, [activeView, previousView])
+    const entry = findProgram(programId, programLabel, network)
+    router.push(slabHref(address, entry?.id, network ?? entry?.network))
+  }, [router])
+
+  const navigateToAccount = useCallback((address: string, idx: number, programLabel?: string, network?: "devnet" | "mainnet", programId?: string) => {
+    // Without hints, stay on the current slab's program/network
+    const entry = programId || programLabel ? findProgram(programId, programLabel, network) : slabProgram
+    router.push(accountHref(address, idx, entry?.id, network ?? networkParam ?? entry?.network))
+  }, [router, slabProgram, networkParam])
+
+  const navigateToOwner = useCallback((owner: string) => {
+    if (activeView === "portfolio") router.replace(ownerHref(owner))
+    else router.push(ownerHref(owner))
+  }, [router, activeView])
+
+  // Opened from a shared link there is nothing to go back to: go up instead
+  const parentHref =
+    activeView === "account" && selectedSlab ? currentSlabHref : "/"
+  const previousView: ViewId = trail.length > 1
+    ? parsePath(trail[trail.length - 2].split("?")[0]).view
+    : activeView === "account" ? "slab" : "home"
 
   const goBack = useCallback(() => {
-    setSelectedSlab(null)
-    setSelectedSlabProgram(null)
-    setSelectedSlabProgramId(null)
-    setSelectedSlabNetwork(null)
-    setActiveView(previousView)
-  }, [previousView])
+    if (trail.length > 1) router.back()
+    else router.push(parentHref)
+  }, [router, trail.length, parentHref])
 
   return (
     <NavigationContext.Provider
@@ -76,10 +233,18 @@ export function NavigationProvider({ children }: { children: ReactNode }) {
         activeView,
         setActiveView: handleSetView,
         selectedSlab,
-        selectedSlabProgram,
-        selectedSlabProgramId,
-        selectedSlabNetwork,
+        selectedSlabProgram: slabProgram?.label ?? null,
+        selectedSlabProgramId: slabProgram?.programId ?? null,
+        selectedSlabNetwork: selectedSlab ? networkParam ?? slabProgram?.network ?? null : null,
+        selectedAccount,
+        selectedOwner,
+        radarNetwork,
+        radarProgram,
+        setRadarFilter,
+        navigateToRadar,
         navigateToSlab,
+        navigateToAccount,
+        navigateToOwner,
         goBack,
         previousView,
       }}
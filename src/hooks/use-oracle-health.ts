@@ -0,0 +1,16 @@
+import useSWR from "swr"
+import type { OracleHealthEntry, OracleHealthReport, OracleHealthStatus } from "@/lib/oracle-health"
+
+const fetcher = (url: string) => fetch(url).then((r) => {
+  if (!r.ok) throw new Error(`Failed to fetch: ${r.status}`)
+  return r.json()
+})
+
+export type { OracleHealthEntry, OracleHealthReport, OracleHealthStatus }
+
+export function useOracleHealth() {
+  return useSWR<OracleHealthReport>("/api/oracles", fetcher, {
+    refreshInterval: 15000,
+    revalidateOnFocus: false,
+  })
+}
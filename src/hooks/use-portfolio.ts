@@ -0,0 +1,21 @@
+import useSWR from "swr"
+import type { OwnerPortfolio, PortfolioMarket, PortfolioRisk, PortfolioTotals } from "@/lib/portfolio"
+import type { SlabPosition } from "@/lib/fetcher"
+
+const fetcher = (url: string) => fetch(url).then((r) => {
+  if (!r.ok) throw new Error(`Failed to fetch: ${r.status}`)
+  return r.json()
+})
+
+export type { OwnerPortfolio, PortfolioMarket, PortfolioRisk, PortfolioTotals, SlabPosition }
+
+export function usePortfolio(owner: string | null) {
+  return useSWR<OwnerPortfolio>(
+    owner ? `/api/owner/${owner}` : null,
+    fetcher,
+    {
+      refreshInterval: 15000,
+      revalidateOnFocus: false,
+    },
+  )
+}
@@ -15,6 +15,8 @@ export interface SlabRadar {
   collateralMint?: string
   collateralSymbol?: string
   health: HealthStatus
+  layout: string | null
+  error?: string
 }
 
 export interface ProgramRadar {
@@ -53,8 +55,9 @@ export interface RadarData {
   scanDurationMs: number
 }
 
-export function useRadarData() {
-  return useSWR<RadarData>("/api/radar", fetcher, {
+/** Pass `enabled = false` to defer the scan until the data is needed */
+export function useRadarData(enabled = true) {
+  return useSWR<RadarData>(enabled ? "/api/radar" : null, fetcher, {
     refreshInterval: 30000,
   })
 }
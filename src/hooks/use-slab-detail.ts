@@ -1,5 +1,6 @@
 import useSWR from "swr"
 import type { SlabDetail, SlabPosition, SlabLP } from "@/lib/fetcher"
+import type { PnlAttribution } from "@/lib/types"
 
 const fetcher = (url: string) => fetch(url).then((r) => {
   if (!r.ok) throw new Error(`Failed to fetch: ${r.status}`)
@@ -7,7 +8,7 @@ const fetcher = (url: string) => fetch(url).then((r) => {
 })
 
 // Re-export types for components
-export type { SlabDetail, SlabPosition, SlabLP }
+export type { SlabDetail, SlabPosition, SlabLP, PnlAttribution }
 
 interface SlabDetailOpts {
   programId?: string | null
@@ -2,7 +2,7 @@ import useSWR from "swr"
 
 const fetcher = (url: string) => fetch(url).then((r) => r.json())
 
-export type OracleMode = "admin" | "pyth" | "dex-pumpswap" | "dex-raydium" | "dex-meteora" | "unknown"
+export type OracleMode = "admin" | "pyth" | "chainlink" | "dex-pumpswap" | "dex-raydium" | "dex-meteora" | "unknown"
 
 export interface TopMarket {
   slabAddress: string
@@ -26,6 +26,15 @@ export interface TopMarket {
   }
   worstHealth: number
   fundingRate: number
+  fundingAprPct: number
+  /** Realized over the last 24h; null until two samples are recorded */
+  realizedFunding24h: {
+    slots: number
+    realizedBps: number
+    aprPct: number | null
+    longsPaid: number
+    shortsPaid: number
+  } | null
   fundingDirection: string
   lastCrankAge: number
   status: string
@@ -1,8 +1,12 @@
 /**
  * Activity feed — synthetic event detection via slab state diffing.
  * Tracks state per-slab and merges events chronologically.
+ *
+ * Snapshots stay in the recording process; detected events go to the shared
+ * history store, so events recorded by the indexer are visible to API routes.
  */
 import { EngineState, Account, AccountKind, ActivityEvent } from './types';
+import { getHistoryStore } from './price-history';
 
 interface Snapshot {
   timestamp: string;
@@ -19,8 +23,6 @@ const MAX_SNAPSHOTS = 5;
 
 // Per-slab snapshot history
 const snapshotsPerSlab = new Map<string, Snapshot[]>();
-// Unified event feed
-let events: ActivityEvent[] = [];
 
 export function recordSnapshot(
   slabLabel: string,
@@ -52,7 +54,7 @@ export function recordSnapshot(
   if (slabSnapshots.length > 0) {
     const prev = slabSnapshots[slabSnapshots.length - 1];
     const newEvents = diffSnapshots(slabLabel, prev, snapshot);
-    events = [...newEvents, ...events].slice(0, MAX_EVENTS);
+    getHistoryStore().appendEvents(newEvents);
   }
 
   slabSnapshots.push(snapshot);
@@ -167,5 +169,5 @@ function diffSnapshots(slabLabel: string, prev: Snapshot, curr: Snapshot): Activ
 }
 
 export function getEvents(): ActivityEvent[] {
-  return events;
+  return getHistoryStore().recentEvents(MAX_EVENTS);
 }
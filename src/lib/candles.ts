@@ -0,0 +1,113 @@
+/**
+ * OHLC candle aggregation over recorded mark prices.
+ *
+ * Built on the history store rollups: 1m / 1h / 1d come straight from the
+ * store, 5m is merged from 1m buckets. OI and funding are sample-weighted
+ * averages over each bar.
+ */
+import { getPriceHistory } from './price-history';
+import { RESOLUTION_MS, type HistoryResolution, type PriceCandle } from './history-store';
+
+export type CandleInterval = '1m' | '5m' | '1h' | '1d';
+
+export const CANDLE_INTERVALS: CandleInterval[] = ['1m', '5m', '1h', '1d'];
+
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': 60_000,
+  '5m': 300_000,
+  '1h': 3_600_000,
+  '1d': 86_400_000,
+};
+
+/** Store resolution each interval is built from */
+const SOURCE_RESOLUTION: Record<CandleInterval, Exclude<HistoryResolution, 'raw'>> = {
+  '1m': '1m',
+  '5m': '1m',
+  '1h': '1h',
+  '1d': '1d',
+};
+
+export interface OhlcCandle {
+  /** Bar open time (ISO) */
+  t: string;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  /** Average open interest in SOL */
+  oi: number;
+  /** Average funding rate, bps/hour */
+  fr: number;
+  /** TVL in SOL at bar close */
+  tvl: number;
+  /** Raw samples in the bar */
+  n: number;
+}
+
+export function isCandleInterval(value: string | null | undefined): value is CandleInterval {
+  return !!value && (CANDLE_INTERVALS as string[]).includes(value);
+}
+
+/**
+ * Merge store buckets into bars of `intervalMs`.
+ * Input must be ascending; output is ascending.
+ */
+export function aggregateCandles(buckets: PriceCandle[], intervalMs: number): OhlcCandle[] {
+  const bars: OhlcCandle[] = [];
+  let current: OhlcCandle | null = null;
+  let currentStart = -1;
+
+  for (const b of buckets) {
+    const tMs = new Date(b.t).getTime();
+    const start = Math.floor(tMs / intervalMs) * intervalMs;
+
+    if (!current || start !== currentStart) {
+      current = {
+        t: new Date(start).toISOString(),
+        o: b.o,
+        h: b.h,
+        l: b.l,
+        c: b.p,
+        oi: b.oi,
+        fr: b.fr,
+        tvl: b.tvl,
+        n: b.n,
+      };
+      currentStart = start;
+      bars.push(current);
+      continue;
+    }
+
+    const n = current.n + b.n;
+    current.oi = n > 0 ? (current.oi * current.n + b.oi * b.n) / n : 0;
+    current.fr = n > 0 ? (current.fr * current.n + b.fr * b.n) / n : 0;
+    current.n = n;
+    if (b.h > current.h) current.h = b.h;
+    if (b.l < current.l) current.l = b.l;
+    current.c = b.p;
+    current.tvl = b.tvl;
+  }
+
+  return bars;
+}
+
+/**
+ * Get the most recent `limit` OHLC bars for a slab.
+ */
+export function getCandles(
+  slabAddress: string,
+  interval: CandleInterval,
+  limit = 200,
+): OhlcCandle[] {
+  const intervalMs = CANDLE_INTERVAL_MS[interval];
+  const source = SOURCE_RESOLUTION[interval];
+  const ratio = intervalMs / RESOLUTION_MS[source];
+
+  // Over-fetch source buckets so the oldest bar is complete after merging
+  const buckets = getPriceHistory(slabAddress, {
+    resolution: source,
+    limit: (limit + 1) * ratio,
+  });
+
+  return aggregateCandles(buckets, intervalMs).slice(-limit);
+}
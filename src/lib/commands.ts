@@ -0,0 +1,228 @@
+/**
+ * Command line grammar for the header palette.
+ *
+ * Commands are a verb plus arguments, case-insensitive for verbs and
+ * keywords (`RADAR MAINNET`, `top oi`). Slab arguments are either an address
+ * or a search over discovered slabs — pubkey, program and collateral symbol —
+ * resolved by the caller with `searchSlabs`. Pure functions only; safe to
+ * import from client components.
+ */
+import { PROGRAM_REGISTRY, type NetworkId, type ProgramEntry } from './registry';
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export type RadarNetwork = 'all' | NetworkId;
+export type TopMetric = 'oi' | 'tvl' | 'health';
+export type NavView = 'home' | 'radar' | 'portfolio' | 'docs';
+
+export type Command =
+  | { kind: 'view'; view: NavView }
+  | { kind: 'back' }
+  | { kind: 'help' }
+  | { kind: 'clear' }
+  | { kind: 'radar'; network: RadarNetwork; program: ProgramEntry | null }
+  | { kind: 'slab'; query: string }
+  | { kind: 'account'; query: string; idx: number }
+  | { kind: 'owner'; pubkey: string }
+  | { kind: 'crank'; query: string }
+  | { kind: 'top'; metric: TopMetric }
+  | { kind: 'liq'; program: ProgramEntry | null };
+
+export interface CommandSpec {
+  verb: string;
+  usage: string;
+  description: string;
+  aliases?: string[];
+}
+
+export type ParseResult = { command: Command } | { error: string };
+
+/** A discovered slab, as the palette searches it */
+export interface SearchableSlab {
+  pubkey: string;
+  label: string;
+  programKey: string;
+  programLabel: string;
+  programId: string;
+  network: NetworkId;
+  collateralSymbol?: string;
+}
+
+// ── Command table ───────────────────────────────────────────────────────
+
+export const COMMAND_SPECS: CommandSpec[] = [
+  { verb: 'SLAB', usage: 'SLAB <address|search>', description: 'Open a slab by address, program or collateral symbol' },
+  { verb: 'ACCT', usage: 'ACCT <slab> <idx>', description: 'Open one account of a slab', aliases: ['ACCOUNT'] },
+  { verb: 'RADAR', usage: 'RADAR [DEVNET|MAINNET|ALL] [program]', description: 'Ecosystem radar, optionally filtered' },
+  { verb: 'OWNER', usage: 'OWNER <pubkey>', description: 'Wallet portfolio across all slabs', aliases: ['WALLET'] },
+  { verb: 'CRANK', usage: 'CRANK <slab>', description: 'Run one keeper crank on a slab (address or unique match)' },
+  { verb: 'TOP', usage: 'TOP [OI|TVL|HEALTH]', description: 'Rank markets by open interest, TVL or worst health' },
+  { verb: 'LIQ', usage: 'LIQ [program]', description: 'Accounts closest to liquidation' },
+  { verb: 'HOME', usage: 'HOME', description: 'Ecosystem dashboard' },
+  { verb: 'PORTFOLIO', usage: 'PORTFOLIO', description: 'Last wallet portfolio' },
+  { verb: 'DOCS', usage: 'DOCS', description: 'Documentation' },
+  { verb: 'BACK', usage: 'BACK', description: 'Previous view' },
+  { verb: 'HELP', usage: 'HELP', description: 'List commands', aliases: ['?'] },
+  { verb: 'CLEAR', usage: 'CLEAR', description: 'Clear command history' },
+];
+
+const BASE58_PUBKEY = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+export function isPubkey(value: string): boolean {
+  return BASE58_PUBKEY.test(value);
+}
+
+/** Spec for a verb or alias, case-insensitive */
+export function findCommandSpec(verb: string): CommandSpec | undefined {
+  const upper = verb.toUpperCase();
+  return COMMAND_SPECS.find((s) => s.verb === upper || s.aliases?.includes(upper));
+}
+
+/** Registry program by id or label, case-insensitive; prefix matches allowed */
+export function findProgram(query: string): ProgramEntry | undefined {
+  const q = query.toLowerCase();
+  return (
+    PROGRAM_REGISTRY.find((e) => e.id.toLowerCase() === q || e.label.toLowerCase() === q) ??
+    PROGRAM_REGISTRY.find((e) => e.id.toLowerCase().startsWith(q) || e.label.toLowerCase().startsWith(q))
+  );
+}
+
+// ── Parser ──────────────────────────────────────────────────────────────
+
+/**
+ * Parse one command line. Input that doesn't start with a verb is a slab
+ * search, so typing a symbol or pubkey and pressing enter opens the match.
+ */
+export function parseCommand(input: string): ParseResult {
+  const tokens = input.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return { error: 'Empty command' };
+
+  const spec = findCommandSpec(tokens[0]);
+  const args = tokens.slice(1);
+  if (!spec) return { command: { kind: 'slab', query: tokens.join(' ') } };
+
+  switch (spec.verb) {
+    case 'HOME':
+    case 'PORTFOLIO':
+    case 'DOCS':
+      return { command: { kind: 'view', view: spec.verb.toLowerCase() as NavView } };
+    case 'BACK':
+      return { command: { kind: 'back' } };
+    case 'HELP':
+      return { command: { kind: 'help' } };
+    case 'CLEAR':
+      return { command: { kind: 'clear' } };
+
+    case 'RADAR': {
+      let network: RadarNetwork = 'all';
+      const rest = [...args];
+      const first = rest[0]?.toLowerCase();
+      if (first === 'devnet' || first === 'mainnet' || first === 'all') {
+        network = first;
+        rest.shift();
+      }
+      if (rest.length === 0) return { command: { kind: 'radar', network, program: null } };
+      const program = findProgram(rest.join(' '));
+      if (!program) return { error: `Unknown program: ${rest.join(' ')}` };
+      return { command: { kind: 'radar', network, program } };
+    }
+
+    case 'SLAB':
+    case 'CRANK': {
+      if (args.length === 0) return { error: `Usage: ${spec.usage}` };
+      const query = args.join(' ');
+      return { command: spec.verb === 'SLAB' ? { kind: 'slab', query } : { kind: 'crank', query } };
+    }
+
+    case 'ACCT': {
+      const idx = Number(args[args.length - 1]);
+      if (args.length < 2 || !Number.isInteger(idx) || idx < 0) return { error: `Usage: ${spec.usage}` };
+      return { command: { kind: 'account', query: args.slice(0, -1).join(' '), idx } };
+    }
+
+    case 'OWNER': {
+      if (args.length !== 1 || !isPubkey(args[0])) return { error: `Usage: ${spec.usage}` };
+      return { command: { kind: 'owner', pubkey: args[0] } };
+    }
+
+    case 'TOP': {
+      const metric = (args[0] ?? 'tvl').toLowerCase();
+      if (metric !== 'oi' && metric !== 'tvl' && metric !== 'health') return { error: `Usage: ${spec.usage}` };
+      return { command: { kind: 'top', metric } };
+    }
+
+    case 'LIQ': {
+      if (args.length === 0) return { command: { kind: 'liq', program: null } };
+      const program = findProgram(args.join(' '));
+      if (!program) return { error: `Unknown program: ${args.join(' ')}` };
+      return { command: { kind: 'liq', program } };
+    }
+  }
+
+  return { error: `Unhandled command: ${spec.verb}` };
+}
+
+// ── Fuzzy search ────────────────────────────────────────────────────────
+
+/**
+ * How well `query` matches `text`: prefix > substring > in-order subsequence
+ * (consecutive runs score higher). 0 means no match. Pass
+ * `subsequence = false` for fields like pubkeys, where scattered letters
+ * match almost anything.
+ */
+export function fuzzyScore(query: string, text: string, subsequence = true): number {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  if (!q || !t) return 0;
+
+  const at = t.indexOf(q);
+  if (at === 0) return 100 + q.length;
+  if (at > 0) return 50 + q.length;
+  if (!subsequence) return 0;
+
+  let score = 0;
+  let from = 0;
+  let run = 0;
+  for (const ch of q) {
+    const found = t.indexOf(ch, from);
+    if (found < 0) return 0;
+    run = found === from ? run + 1 : 0;
+    score += 1 + run;
+    from = found + 1;
+  }
+  return score;
+}
+
+/**
+ * Slabs matching every word of `query` in any searchable field, best first.
+ * "sov usdc" finds USDC-collateral slabs of the SOV program.
+ */
+export function searchSlabs<T extends SearchableSlab>(query: string, slabs: T[], limit = 8): T[] {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const scored: { slab: T; score: number }[] = [];
+  for (const slab of slabs) {
+    const fields = [slab.programLabel, slab.programKey, slab.label, slab.network, slab.collateralSymbol ?? ''];
+    let total = 0;
+    for (const word of words) {
+      const best = Math.max(fuzzyScore(word, slab.pubkey, false), ...fields.map((f) => fuzzyScore(word, f)));
+      if (best === 0) {
+        total = 0;
+        break;
+      }
+      total += best;
+    }
+    if (total > 0) scored.push({ slab, score: total });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((s) => s.slab);
+}
+
+/** Exact address match, else the best search hit */
+export function resolveSlab<T extends SearchableSlab>(query: string, slabs: T[]): T | undefined {
+  return slabs.find((s) => s.pubkey === query) ?? searchSlabs(query, slabs, 1)[0];
+}
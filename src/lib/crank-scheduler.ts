@@ -0,0 +1,280 @@
+/**
+ * Multi-slab crank scheduler.
+ *
+ * Each tick reads every in-scope slab's `lastCrankSlot` and RiskParams
+ * `maxCrankStalenessSlots`, ranks slabs by how much of that staleness window
+ * has elapsed, and cranks the most urgent ones. Two limits apply:
+ *   - per slab: no more than one attempt per `minIntervalMs`
+ *   - global:   a token bucket refilled at `maxTxPerSecond`, charged for
+ *               every send including rebroadcasts
+ *
+ * The scheduler doesn't send transactions itself; crank.ts passes in
+ * executeCrank so the bot state stays in one place.
+ */
+import { PublicKey } from '@solana/web3.js';
+import { scanEcosystem } from './radar';
+import { getNetworkConnection, getNetworkSlot } from './connections';
+import { CRANK_STATE_LEN, parseCrankState } from './percolator';
+import { getRegistryEntry, type NetworkId } from './registry';
+import { slabLayoutOf } from './slab-layout';
+import { CrankTxError } from './crank-tx';
+import type { SlabHints } from './fetcher';
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export interface CrankScope {
+  /** Explicit slab addresses. Takes precedence over `programs`. */
+  slabs?: string[];
+  /** Registry ids or program ids; every active slab of these programs */
+  programs?: string[];
+}
+
+export interface CrankSchedulerOptions {
+  scope: CrankScope;
+  /** Minimum time between attempts on the same slab */
+  minIntervalMs: number;
+  /** Global send budget across all slabs, rebroadcasts included */
+  maxTxPerSecond: number;
+}
+
+export interface SlabCrankStatus {
+  slab: string;
+  label: string;
+  programId: string;
+  network: NetworkId;
+  lastCrankSlot: number;
+  maxCrankStalenessSlots: number;
+  /** (currentSlot - lastCrankSlot) / maxCrankStalenessSlots; ≥ 1 means stale */
+  staleness: number;
+  lastAttemptAt: number;
+  lastSuccessAt: number;
+  lastSignature: string | null;
+  crankCount: number;
+  errorCount: number;
+  lastError: string | null;
+}
+
+/** Resolves with the send count; a CrankTxError carries it on failure */
+export type CrankExecutor = (
+  slab: string,
+  hints: SlabHints,
+) => Promise<{ signature: string; slot: number; sends: number }>;
+
+export interface CrankScheduler {
+  configure(opts: Partial<CrankSchedulerOptions>): void;
+  options(): CrankSchedulerOptions;
+  /** Run one scheduling pass. Returns the number of cranks attempted. */
+  tick(): Promise<number>;
+  status(): SlabCrankStatus[];
+}
+
+interface ScopedSlab {
+  slab: string;
+  label: string;
+  programId: string;
+  network: NetworkId;
+  /** Registry layout pin for the program (slab-layout.ts) */
+  layout?: string;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────
+
+async function resolveScope(scope: CrankScope): Promise<ScopedSlab[]> {
+  const radar = await scanEcosystem();
+  const wantedSlabs = scope.slabs?.length ? new Set(scope.slabs) : null;
+  const wantedPrograms = scope.programs?.length ? new Set(scope.programs) : null;
+
+  const out: ScopedSlab[] = [];
+  for (const program of radar.programs) {
+    if (!wantedSlabs && wantedPrograms && !wantedPrograms.has(program.id) && !wantedPrograms.has(program.programId)) {
+      continue;
+    }
+    for (const slab of program.slabs) {
+      if (wantedSlabs ? !wantedSlabs.has(slab.pubkey) : slab.numUsedAccounts === 0) continue;
+      out.push({
+        slab: slab.pubkey,
+        label: `${program.label} ${slab.label}`,
+        programId: program.programId,
+        network: program.network,
+        layout: getRegistryEntry(program.id)?.layout,
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * Fetch crank state for each slab with one sliced getMultipleAccounts per
+ * network. Slabs that fail to load are omitted.
+ */
+async function fetchCrankStates(
+  slabs: ScopedSlab[],
+): Promise<Map<string, { lastCrankSlot: number; maxCrankStalenessSlots: number; currentSlot: number }>> {
+  const byNetwork = new Map<NetworkId, ScopedSlab[]>();
+  for (const s of slabs) {
+    const list = byNetwork.get(s.network) ?? [];
+    list.push(s);
+    byNetwork.set(s.network, list);
+  }
+
+  const states = new Map<string, { lastCrankSlot: number; maxCrankStalenessSlots: number; currentSlot: number }>();
+  await Promise.all(
+    [...byNetwork].map(async ([network, list]) => {
+      try {
+        const connection = getNetworkConnection(network);
+        const [currentSlot, infos] = await Promise.all([
+          getNetworkSlot(network),
+          Promise.all(
+            chunk(list, 100).map((batch) =>
+              connection.getMultipleAccountsInfo(
+                batch.map((s) => new PublicKey(s.slab)),
+                { dataSlice: { offset: 0, length: CRANK_STATE_LEN } },
+              ),
+            ),
+          ).then((batches) => batches.flat()),
+        ]);
+
+        infos.forEach((info, i) => {
+          if (!info) return;
+          try {
+            const data = Buffer.from(info.data);
+            const state = parseCrankState(data, slabLayoutOf(data, list[i]));
+            states.set(list[i].slab, {
+              lastCrankSlot: Number(state.lastCrankSlot),
+              maxCrankStalenessSlots: Number(state.maxCrankStalenessSlots),
+              currentSlot,
+            });
+          } catch {
+            // Not a parseable slab
+          }
+        });
+      } catch (err) {
+        console.warn(`[crank] Failed to read crank state on ${network}:`, err);
+      }
+    }),
+  );
+  return states;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+// ── Scheduler ───────────────────────────────────────────────────────────
+
+export function createCrankScheduler(
+  execute: CrankExecutor,
+  initial: CrankSchedulerOptions,
+): CrankScheduler {
+  let opts: CrankSchedulerOptions = { ...initial };
+  const statuses = new Map<string, SlabCrankStatus>();
+
+  // Token bucket: holds one second of budget (at least one tx)
+  const capacity = () => Math.max(opts.maxTxPerSecond, 1);
+  let tokens = capacity();
+  let refilledAt = Date.now();
+  let ticking = false;
+
+  function refill(now: number): void {
+    tokens = Math.min(capacity(), tokens + ((now - refilledAt) / 1000) * opts.maxTxPerSecond);
+    refilledAt = now;
+  }
+
+  /** Each attempt was charged one token up front; rebroadcasts cost the rest */
+  function chargeSends(sends: number): void {
+    tokens -= Math.max(sends - 1, 0);
+  }
+
+  async function attempt(status: SlabCrankStatus): Promise<void> {
+    status.lastAttemptAt = Date.now();
+    try {
+      const { signature, slot, sends } = await execute(status.slab, {
+        programId: status.programId,
+        network: status.network,
+      });
+      chargeSends(sends);
+      status.lastSuccessAt = Date.now();
+      status.lastSignature = signature;
+      if (slot > 0) status.lastCrankSlot = slot;
+      status.crankCount++;
+      status.lastError = null;
+    } catch (err) {
+      if (err instanceof CrankTxError) chargeSends(err.sends);
+      status.errorCount++;
+      status.lastError = err instanceof Error ? err.message : String(err);
+      console.error(`[crank] ${status.label} failed:`, status.lastError);
+    }
+  }
+
+  return {
+    configure(next) {
+      opts = { ...opts, ...next };
+      tokens = Math.min(tokens, capacity());
+      if (next.scope) statuses.clear();
+    },
+
+    options() {
+      return opts;
+    },
+
+    async tick() {
+      // Poll-driven: a slow tick must not overlap the next poll's tick
+      if (ticking) return 0;
+      ticking = true;
+
+      try {
+        const now = Date.now();
+        refill(now);
+        if (tokens < 1) return 0;
+
+        const scoped = await resolveScope(opts.scope);
+        const due = scoped.filter((s) => {
+          const prev = statuses.get(s.slab);
+          return !prev || now - prev.lastAttemptAt >= opts.minIntervalMs;
+        });
+        if (due.length === 0) return 0;
+
+        const states = await fetchCrankStates(due);
+        const ranked: SlabCrankStatus[] = [];
+        for (const s of due) {
+          const state = states.get(s.slab);
+          if (!state) continue;
+
+          const status = statuses.get(s.slab) ?? {
+            ...s,
+            lastCrankSlot: 0,
+            maxCrankStalenessSlots: 0,
+            staleness: 0,
+            lastAttemptAt: 0,
+            lastSuccessAt: 0,
+            lastSignature: null,
+            crankCount: 0,
+            errorCount: 0,
+            lastError: null,
+          };
+          status.lastCrankSlot = Math.max(status.lastCrankSlot, state.lastCrankSlot);
+          status.maxCrankStalenessSlots = state.maxCrankStalenessSlots;
+          const window = Math.max(state.maxCrankStalenessSlots, 1);
+          status.staleness = Math.max(state.currentSlot - status.lastCrankSlot, 0) / window;
+          statuses.set(s.slab, status);
+          ranked.push(status);
+        }
+
+        ranked.sort((a, b) => b.staleness - a.staleness);
+        const batch = ranked.slice(0, Math.floor(tokens));
+        tokens -= batch.length;
+
+        await Promise.all(batch.map(attempt));
+        return batch.length;
+      } finally {
+        ticking = false;
+      }
+    },
+
+    status() {
+      return [...statuses.values()].sort((a, b) => b.staleness - a.staleness);
+    },
+  };
+}
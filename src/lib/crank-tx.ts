@@ -0,0 +1,372 @@
+/**
+ * Crank transaction pipeline: compute sizing, priority fee, send with
+ * rebroadcast, and error classification.
+ *
+ *   1. Preflight: simulate once to size the compute unit limit (and fail
+ *      fast, without paying a fee, if the crank would revert).
+ *   2. Priority fee: a percentile of getRecentPrioritizationFees for the
+ *      slab, capped, or a fixed value.
+ *   3. Send, then rebroadcast the same signed bytes until the signature
+ *      confirms or the blockhash passes `lastValidBlockHeight`. Transient
+ *      RPC errors while confirming are retried on the next poll.
+ *   4. Failures are classified into named codes (Percolator program errors
+ *      by custom code, runtime errors by variant) via CrankTxError.
+ *
+ * Policy comes from CRANK_* env vars; see crankTxPolicyFromEnv().
+ */
+import {
+  ComputeBudgetProgram,
+  Transaction,
+  VersionedTransaction,
+  type Connection,
+  type Keypair,
+  type PublicKey,
+  type TransactionInstruction,
+} from '@solana/web3.js';
+import { getCached, setCache } from './connection';
+
+// ── Policy ──────────────────────────────────────────────────────────────
+
+export interface CrankTxPolicy {
+  /** Simulate before sending to size compute units */
+  simulate: boolean;
+  /** Limit used when simulation is off or unavailable */
+  defaultComputeUnits: number;
+  /** Multiplier on simulated units */
+  computeUnitMargin: number;
+  /** 'auto' = recent-fee percentile, number = fixed µlamports/CU, 'off' = none */
+  priorityFee: 'auto' | 'off' | number;
+  priorityFeePercentile: number;
+  /** Cap on the auto fee, µlamports/CU */
+  maxPriorityFee: number;
+  /** Resend interval while unconfirmed */
+  rebroadcastMs: number;
+}
+
+const MAX_COMPUTE_UNITS = 1_400_000;
+const POLL_MS = 1000;
+/** Backstop for an RPC that never answers; blockhashes expire well before (~150 blocks) */
+const MAX_CONFIRM_MS = 180_000;
+const PRIORITY_FEE_CACHE_MS = 10_000;
+
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = raw ? Number(raw) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Policy from env:
+ *   CRANK_SIMULATE=0                 skip preflight simulation
+ *   CRANK_COMPUTE_UNITS=400000       limit when not simulating
+ *   CRANK_CU_MARGIN=1.2              headroom over simulated units
+ *   CRANK_PRIORITY_FEE=auto|off|<n>  µlamports per CU
+ *   CRANK_PRIORITY_FEE_PERCENTILE=75
+ *   CRANK_MAX_PRIORITY_FEE=200000
+ *   CRANK_REBROADCAST_MS=2000
+ */
+export function crankTxPolicyFromEnv(): CrankTxPolicy {
+  const fee = (process.env.CRANK_PRIORITY_FEE ?? 'auto').trim().toLowerCase();
+  return {
+    simulate: process.env.CRANK_SIMULATE !== '0' && process.env.CRANK_SIMULATE !== 'false',
+    defaultComputeUnits: envNumber('CRANK_COMPUTE_UNITS', 400_000),
+    computeUnitMargin: Math.max(envNumber('CRANK_CU_MARGIN', 1.2), 1),
+    priorityFee: fee === 'off' || fee === '0' ? 'off' : fee === 'auto' ? 'auto' : envNumber('CRANK_PRIORITY_FEE', 0),
+    priorityFeePercentile: Math.min(Math.max(envNumber('CRANK_PRIORITY_FEE_PERCENTILE', 75), 0), 100),
+    maxPriorityFee: envNumber('CRANK_MAX_PRIORITY_FEE', 200_000),
+    rebroadcastMs: Math.max(envNumber('CRANK_REBROADCAST_MS', 2000), 500),
+  };
+}
+
+// ── Error classification ────────────────────────────────────────────────
+
+/** PercolatorError variants in program enum order (custom code = index) */
+export const PERCOLATOR_ERRORS = [
+  'InvalidMagic',
+  'InvalidVersion',
+  'AlreadyInitialized',
+  'NotInitialized',
+  'InvalidSlabLen',
+  'InvalidOracleKey',
+  'OracleStale',
+  'OracleConfTooWide',
+  'InvalidVaultAta',
+  'InvalidMint',
+  'ExpectedSigner',
+  'ExpectedWritable',
+  'OracleInvalid',
+  'EngineInsufficientBalance',
+  'EngineUndercollateralized',
+  'EngineUnauthorized',
+  'EngineInvalidMatchingEngine',
+  'EnginePnlNotWarmedUp',
+  'EngineOverflow',
+  'EngineAccountNotFound',
+  'EngineNotAnLPAccount',
+  'EnginePositionSizeMismatch',
+  'EngineRiskReductionOnlyMode',
+  'EngineAccountKindMismatch',
+  'InvalidTokenAccount',
+  'InvalidTokenProgram',
+] as const;
+
+export function percolatorErrorName(code: number): string {
+  return PERCOLATOR_ERRORS[code] ?? `Custom(0x${code.toString(16)})`;
+}
+
+/**
+ * Name a transaction failure. Percolator custom errors are read from the
+ * program's `failed: custom program error` log line, or from the error
+ * object when logs are missing and the failing instruction is the
+ * Percolator one. Other runtime errors keep their variant name.
+ */
+export function classifyTxError(
+  err: unknown,
+  logs: string[] | null,
+  programId: string,
+  programIxIndex: number,
+): string {
+  const marker = `Program ${programId} failed: custom program error: 0x`;
+  const line = logs?.find((l) => l.startsWith(marker));
+  if (line) return percolatorErrorName(parseInt(line.slice(marker.length), 16));
+
+  if (logs?.some((l) => l.includes('exceeded CUs meter'))) return 'ComputeBudgetExceeded';
+
+  if (err && typeof err === 'object' && 'InstructionError' in err) {
+    const [index, inner] = (err as { InstructionError: [number, unknown] }).InstructionError;
+    if (inner && typeof inner === 'object' && 'Custom' in inner) {
+      const code = (inner as { Custom: number }).Custom;
+      return index === programIxIndex ? percolatorErrorName(code) : `Custom(0x${code.toString(16)})`;
+    }
+    if (inner === 'ComputationalBudgetExceeded') return 'ComputeBudgetExceeded';
+    if (typeof inner === 'string') return inner;
+  }
+  if (typeof err === 'string') return err;
+  if (err && typeof err === 'object') return Object.keys(err)[0] ?? 'Unknown';
+  return 'Unknown';
+}
+
+export interface TxReceipt {
+  slot: number | null;
+  computeUnits: number | null;
+  feeLamports: number | null;
+  logs: string[] | null;
+}
+
+/**
+ * A crank that failed in simulation, on chain, or by expiring. `signature`
+ * is null and `sends` 0 when nothing was sent.
+ */
+export class CrankTxError extends Error {
+  constructor(
+    readonly code: string,
+    readonly signature: string | null,
+    readonly receipt: TxReceipt | null,
+    readonly sends: number = 0,
+  ) {
+    super(`Crank failed: ${code}`);
+    this.name = 'CrankTxError';
+  }
+}
+
+// ── RPC helpers ─────────────────────────────────────────────────────────
+
+/**
+ * Slot, compute units, fee and logs of a landed transaction. Best effort:
+ * any field the RPC can't provide yet is null.
+ */
+export async function fetchTxReceipt(connection: Connection, signature: string): Promise<TxReceipt> {
+  try {
+    const txInfo = await connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    return {
+      slot: txInfo?.slot ?? null,
+      computeUnits: txInfo?.meta?.computeUnitsConsumed ?? null,
+      feeLamports: txInfo?.meta?.fee ?? null,
+      logs: txInfo?.meta?.logMessages ?? null,
+    };
+  } catch {
+    // Non-critical — tx may still be confirming
+    return { slot: null, computeUnits: null, feeLamports: null, logs: null };
+  }
+}
+
+/**
+ * Priority fee in µlamports/CU for transactions writing `account`. Cached
+ * for 10s per RPC endpoint and account.
+ */
+export async function estimatePriorityFee(
+  connection: Connection,
+  account: PublicKey,
+  policy: CrankTxPolicy,
+): Promise<number> {
+  if (policy.priorityFee === 'off') return 0;
+  if (typeof policy.priorityFee === 'number') return Math.max(Math.floor(policy.priorityFee), 0);
+
+  const cacheKey = `priority_fee_${connection.rpcEndpoint}_${account.toBase58()}_${policy.priorityFeePercentile}`;
+  const cached = getCached<number>(cacheKey, PRIORITY_FEE_CACHE_MS);
+  if (cached !== null) return cached;
+
+  let fee = 0;
+  try {
+    const recent = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: [account] });
+    const fees = recent.map((f) => f.prioritizationFee).sort((a, b) => a - b);
+    if (fees.length > 0) {
+      const idx = Math.min(Math.floor((policy.priorityFeePercentile / 100) * fees.length), fees.length - 1);
+      fee = Math.min(fees[idx], policy.maxPriorityFee);
+    }
+  } catch (err) {
+    console.warn('[crank] getRecentPrioritizationFees failed, sending without priority fee:', err);
+  }
+
+  setCache(cacheKey, fee);
+  return fee;
+}
+
+// ── Send ────────────────────────────────────────────────────────────────
+
+export interface CrankTxResult {
+  signature: string;
+  slot: number;
+  /** Send → confirm */
+  latencyMs: number;
+  computeUnitLimit: number;
+  priorityFeeMicroLamports: number;
+  /** Times the signed transaction was (re)sent */
+  sends: number;
+}
+
+/** An RPC read in the confirm loop; undefined when it failed, to retry next poll */
+async function pollRpc<T>(what: string, read: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await read();
+  } catch (err) {
+    console.warn(`[crank] ${what} failed, retrying:`, err);
+    return undefined;
+  }
+}
+
+function buildTx(
+  instructions: TransactionInstruction[],
+  payer: Keypair,
+  blockhash: string,
+  lastValidBlockHeight: number,
+  units: number,
+  priorityFee: number,
+): Transaction {
+  const tx = new Transaction();
+  tx.add(ComputeBudgetProgram.setComputeUnitLimit({ units }));
+  if (priorityFee > 0) {
+    tx.add(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFee }));
+  }
+  tx.add(...instructions);
+  tx.recentBlockhash = blockhash;
+  tx.lastValidBlockHeight = lastValidBlockHeight;
+  tx.feePayer = payer.publicKey;
+  return tx;
+}
+
+/**
+ * Size, price, send and confirm `instructions` (the last of which is the
+ * Percolator instruction). Throws CrankTxError on simulation failure,
+ * on-chain failure, or blockhash expiry.
+ */
+export async function sendCrankTransaction(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  payer: Keypair,
+  opts: { programId: string; writableAccount: PublicKey; policy?: CrankTxPolicy },
+): Promise<CrankTxResult> {
+  const policy = opts.policy ?? crankTxPolicyFromEnv();
+  const [{ blockhash, lastValidBlockHeight }, priorityFee] = await Promise.all([
+    connection.getLatestBlockhash('confirmed'),
+    estimatePriorityFee(connection, opts.writableAccount, policy),
+  ]);
+
+  // Compute budget instruction(s) come first
+  const programIxIndex = (priorityFee > 0 ? 2 : 1) + instructions.length - 1;
+
+  let units = policy.defaultComputeUnits;
+  if (policy.simulate) {
+    const probe = buildTx(instructions, payer, blockhash, lastValidBlockHeight, MAX_COMPUTE_UNITS, priorityFee);
+    try {
+      const sim = await connection.simulateTransaction(new VersionedTransaction(probe.compileMessage()), {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+        commitment: 'confirmed',
+      });
+      if (sim.value.err) {
+        const logs = sim.value.logs ?? null;
+        const code = classifyTxError(sim.value.err, logs, opts.programId, programIxIndex);
+        throw new CrankTxError(code, null, {
+          slot: null,
+          computeUnits: sim.value.unitsConsumed ?? null,
+          feeLamports: null,
+          logs,
+        });
+      }
+      if (sim.value.unitsConsumed) {
+        units = Math.min(Math.ceil(sim.value.unitsConsumed * policy.computeUnitMargin), MAX_COMPUTE_UNITS);
+      }
+    } catch (err) {
+      if (err instanceof CrankTxError) throw err;
+      console.warn('[crank] Simulation unavailable, using default compute limit:', err);
+    }
+  }
+
+  const tx = buildTx(instructions, payer, blockhash, lastValidBlockHeight, units, priorityFee);
+  tx.sign(payer);
+  const raw = tx.serialize();
+
+  const sentAt = Date.now();
+  const signature = await connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 });
+  let sends = 1;
+  let lastSendAt = sentAt;
+
+  const fail = async (err: unknown): Promise<never> => {
+    const receipt = await fetchTxReceipt(connection, signature);
+    throw new CrankTxError(classifyTxError(err, receipt.logs, opts.programId, programIxIndex), signature, receipt, sends);
+  };
+
+  for (;;) {
+    await new Promise((r) => setTimeout(r, POLL_MS));
+    if (Date.now() - sentAt > MAX_CONFIRM_MS) {
+      throw new CrankTxError('ConfirmTimeout', signature, null, sends);
+    }
+
+    const status = await pollRpc('getSignatureStatus', async () => (await connection.getSignatureStatus(signature)).value);
+    if (status?.err) return fail(status.err);
+    if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+      return {
+        signature,
+        slot: status.slot,
+        latencyMs: Date.now() - sentAt,
+        computeUnitLimit: units,
+        priorityFeeMicroLamports: priorityFee,
+        sends,
+      };
+    }
+
+    if (Date.now() - lastSendAt >= policy.rebroadcastMs) {
+      const height = await pollRpc('getBlockHeight', () => connection.getBlockHeight('confirmed'));
+      if (height === undefined) continue;
+      if (height > lastValidBlockHeight) {
+        // It may have landed between the poll above and now
+        const last = await pollRpc('getSignatureStatus', async () => (await connection.getSignatureStatus(signature)).value);
+        if (last === undefined) continue;
+        if (!last?.err && last?.confirmationStatus && last.confirmationStatus !== 'processed') continue;
+        if (last?.err) return fail(last.err);
+        throw new CrankTxError('BlockhashExpired', signature, null, sends);
+      }
+      lastSendAt = Date.now();
+      sends++;
+      try {
+        await connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 });
+      } catch {
+        // Already processed or transient RPC error; keep polling
+      }
+    }
+  }
+}
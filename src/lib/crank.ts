@@ -10,19 +10,34 @@
  *
  * In local dev (next dev), we could also use setInterval, but the
  * polling approach works universally.
+ *
+ * Each heartbeat runs one pass of the multi-slab scheduler
+ * (crank-scheduler.ts), which picks the stalest slabs in scope.
+ *
+ * Bot config and counters are persisted in the history store's meta table,
+ * and every crank attempt is appended to its crank log, so both survive a
+ * cold start when SLAB_HISTORY_DB is set.
  */
-import {
-  PublicKey,
-  Transaction,
-  ComputeBudgetProgram,
-} from '@solana/web3.js';
+import { Connection, PublicKey } from '@solana/web3.js';
 import { getConnection } from './connection';
 import { getServerWallet, ensureWalletFunded, getWalletBalance } from './wallet';
-import { buildKeeperCrankInstruction } from './instructions';
+import { buildKeeperCrankInstruction, CRANK_NO_CALLER } from './instructions';
 import { discoverAllSlabs } from './discovery';
+import { resolveSlabProgram, type SlabHints } from './fetcher';
+import { parseConfig } from './percolator';
+import { slabLayoutOf } from './slab-layout';
 import { CONFIG } from './constants';
+import { getHistoryStore } from './price-history';
+import { CrankTxError, fetchTxReceipt, sendCrankTransaction } from './crank-tx';
+import type { CrankLogEntry, CrankLogQuery } from './history-store';
+import {
+  createCrankScheduler,
+  type CrankScope,
+  type SlabCrankStatus,
+} from './crank-scheduler';
+import type { ProgramEntry } from './registry';
 
-// ── Bot state (in-memory, resets on cold start) ─────────────────────────
+// ── Bot state ───────────────────────────────────────────────────────────
 
 export interface CrankBotStatus {
   running: boolean;
@@ -34,8 +49,16 @@ export interface CrankBotStatus {
   crankCount: number;
   errorCount: number;
   lastError: string | null;
+  /** Minimum interval between cranks of the same slab */
   intervalMs: number;
+  maxTxPerSecond: number;
+  scope: CrankScope;
+  /** Most recently cranked slab */
   slabPubkey: string;
+  slabs: SlabCrankStatus[];
+  /** A standalone runner (npm run crank-bot) is driving the bot */
+  runnerLive: boolean;
+  runnerHeartbeat: number | null;
 }
 
 const state = {
@@ -48,8 +71,117 @@ const state = {
   lastError: null as string | null,
   intervalMs: 5000,
   primarySlabPubkey: null as string | null,
+  lastCrankSlab: null as string | null,
 };
 
+const DEFAULT_MAX_TX_PER_SECOND = 2;
+
+/** Default scope: every active slab of the primary program */
+const DEFAULT_SCOPE: CrankScope = { programs: [CONFIG.PROGRAM_ID.toBase58()] };
+
+// ── Persistence ─────────────────────────────────────────────────────────
+
+const CONFIG_KEY = 'crank_bot_config';
+const COUNTERS_KEY = 'crank_bot_counters';
+
+interface PersistedConfig {
+  running: boolean;
+  intervalMs: number;
+  scope: CrankScope;
+  maxTxPerSecond: number;
+}
+
+type PersistedCounters = Pick<
+  typeof state,
+  'lastCrankSignature' | 'lastCrankSlot' | 'lastCrankTimestamp' | 'crankCount' | 'errorCount' | 'lastError' | 'lastCrankSlab'
+>;
+
+let loaded = false;
+
+function readMeta<T>(key: string): Partial<T> | null {
+  const raw = getHistoryStore().getMeta(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as Partial<T>;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Apply config and counters from the store. Only changed options reach the
+ * scheduler, since a new scope resets its per-slab state.
+ */
+function loadFromStore(): void {
+  try {
+    const counters = readMeta<PersistedCounters>(COUNTERS_KEY);
+    if (counters) Object.assign(state, counters);
+
+    const config = readMeta<PersistedConfig>(CONFIG_KEY);
+    if (config) {
+      state.running = config.running ?? false;
+      state.intervalMs = config.intervalMs ?? state.intervalMs;
+
+      const opts = scheduler.options();
+      scheduler.configure({
+        minIntervalMs: state.intervalMs,
+        ...(config.scope && JSON.stringify(config.scope) !== JSON.stringify(opts.scope) ? { scope: config.scope } : {}),
+        ...(config.maxTxPerSecond ? { maxTxPerSecond: config.maxTxPerSecond } : {}),
+      });
+    }
+  } catch (err) {
+    console.warn('[crank] Failed to restore bot state:', err);
+  }
+}
+
+/**
+ * Restore state once per process, on first use, so a cold start picks up
+ * where the previous instance stopped.
+ */
+function ensureLoaded(): void {
+  if (loaded) return;
+  loaded = true;
+  loadFromStore();
+}
+
+function persistConfig(): void {
+  const opts = scheduler.options();
+  const config: PersistedConfig = {
+    running: state.running,
+    intervalMs: state.intervalMs,
+    scope: opts.scope,
+    maxTxPerSecond: opts.maxTxPerSecond,
+  };
+  try {
+    getHistoryStore().setMeta(CONFIG_KEY, JSON.stringify(config));
+  } catch (err) {
+    console.warn('[crank] Failed to persist bot config:', err);
+  }
+}
+
+function persistCounters(): void {
+  const counters: PersistedCounters = {
+    lastCrankSignature: state.lastCrankSignature,
+    lastCrankSlot: state.lastCrankSlot,
+    lastCrankTimestamp: state.lastCrankTimestamp,
+    crankCount: state.crankCount,
+    errorCount: state.errorCount,
+    lastError: state.lastError,
+    lastCrankSlab: state.lastCrankSlab,
+  };
+  try {
+    getHistoryStore().setMeta(COUNTERS_KEY, JSON.stringify(counters));
+  } catch (err) {
+    console.warn('[crank] Failed to persist bot counters:', err);
+  }
+}
+
+function recordError(err: unknown): void {
+  state.errorCount++;
+  state.lastError = err instanceof Error ? err.message : String(err);
+  persistCounters();
+}
+
 // ── Primary slab resolution ─────────────────────────────────────────────
 
 async function getPrimarySlabPubkey(): Promise<PublicKey> {
@@ -68,121 +200,271 @@ async function getPrimarySlabPubkey(): Promise<PublicKey> {
   return slabs[0].pubkey;
 }
 
-// ── Execute a single crank ──────────────────────────────────────────────
-
-export async function executeCrank(
-  slabPubkeyOverride?: string,
-): Promise<{ signature: string; slot: number }> {
-  const connection = getConnection();
-  const wallet = getServerWallet();
+// ── Crank target resolution ─────────────────────────────────────────────
 
-  // Ensure funded on first crank
-  await ensureWalletFunded();
+export interface CrankTarget {
+  slab: PublicKey;
+  entry: ProgramEntry;
+  connection: Connection;
+  oracle: PublicKey;
+}
 
-  const slabPubkey = slabPubkeyOverride
-    ? new PublicKey(slabPubkeyOverride)
-    : await getPrimarySlabPubkey();
+// Owner program and oracle don't change for a slab, so resolve once
+const targetCache = new Map<string, CrankTarget>();
 
-  // Build transaction with compute budget + keeper crank
-  const crankIx = buildKeeperCrankInstruction(
-    wallet.publicKey,
-    slabPubkey,
-    CONFIG.ORACLE,
-  );
+/**
+ * Resolve the program, network connection and oracle account for a slab.
+ * The oracle is the program's `oracleAddress` when the registry sets one,
+ * otherwise the slab's own `indexFeedId`.
+ */
+export async function resolveCrankTarget(slabAddress: string, hints?: SlabHints): Promise<CrankTarget> {
+  const cached = targetCache.get(slabAddress);
+  if (cached) return cached;
 
-  const computeBudgetIx = ComputeBudgetProgram.setComputeUnitLimit({
-    units: 400_000,
-  });
+  const resolved = await resolveSlabProgram(slabAddress, hints);
+  if (!resolved) {
+    throw new Error(`Slab not found on any known program: ${slabAddress}`);
+  }
 
-  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  const { entry, connection, accountData } = resolved;
+  const target: CrankTarget = {
+    slab: new PublicKey(slabAddress),
+    entry,
+    connection,
+    oracle: entry.oracleAddress
+      ? new PublicKey(entry.oracleAddress)
+      : parseConfig(accountData, slabLayoutOf(accountData, entry)).indexFeedId,
+  };
+  targetCache.set(slabAddress, target);
+  return target;
+}
 
-  const tx = new Transaction();
-  tx.add(computeBudgetIx);
-  tx.add(crankIx);
-  tx.recentBlockhash = blockhash;
-  tx.lastValidBlockHeight = lastValidBlockHeight;
-  tx.feePayer = wallet.publicKey;
-  tx.sign(wallet);
+// ── Execute a single crank ──────────────────────────────────────────────
 
-  const signature = await connection.sendRawTransaction(tx.serialize(), {
-    skipPreflight: true,
-    maxRetries: 2,
-  });
+export async function executeCrank(
+  slabPubkeyOverride?: string,
+  hints?: SlabHints,
+): Promise<{ signature: string; slot: number; sends: number; programId: string; network: string }> {
+  ensureLoaded();
+  const wallet = getServerWallet();
 
-  // Confirm with polling (more reliable than confirmTransaction on devnet)
-  let slot = 0;
-  const confirmStart = Date.now();
-  while (Date.now() - confirmStart < 30_000) {
-    const status = await connection.getSignatureStatus(signature);
-    if (status?.value?.confirmationStatus === 'confirmed' || status?.value?.confirmationStatus === 'finalized') {
-      slot = status.value.slot ?? 0;
-      break;
-    }
-    if (status?.value?.err) {
-      throw new Error(`Transaction failed: ${JSON.stringify(status.value.err)}`);
-    }
-    await new Promise(r => setTimeout(r, 1500));
-  }
+  const slabAddress = slabPubkeyOverride ?? (await getPrimarySlabPubkey()).toBase58();
 
-  if (slot === 0) {
-    // Try to get slot from getTransaction as fallback
+  const startedAt = Date.now();
+  // Set once resolved; a failed resolution is logged under the hinted program
+  let target: CrankTarget | null = null;
+  const log = (entry: {
+    signature: string | null;
+    slot: number;
+    latencyMs: number;
+    computeUnits: number | null;
+    feeLamports: number | null;
+    error: string | null;
+  }) => {
     try {
-      const txInfo = await connection.getTransaction(signature, {
-        commitment: 'confirmed',
-        maxSupportedTransactionVersion: 0,
+      getHistoryStore().appendCrank({
+        timestamp: startedAt,
+        slab: slabAddress,
+        programId: target?.entry.programId ?? hints?.programId ?? '',
+        network: target?.entry.network ?? hints?.network ?? 'devnet',
+        ...entry,
       });
-      slot = txInfo?.slot ?? 0;
-    } catch {
-      // Non-critical — tx may still be confirming
+    } catch (err) {
+      console.warn('[crank] Failed to append crank log:', err);
     }
-  }
+  };
+
+  try {
+    target = await resolveCrankTarget(slabAddress, hints);
+    const connection = target.connection;
+
+    // Ensure funded on first crank (airdrop only exists on devnet)
+    if (target.entry.network === 'devnet') {
+      await ensureWalletFunded();
+    }
+
+    const crankIx = buildKeeperCrankInstruction(
+      wallet.publicKey,
+      target.slab,
+      target.oracle,
+      CRANK_NO_CALLER,
+      new PublicKey(target.entry.programId),
+    );
 
-  // Update state
-  state.lastCrankSignature = signature;
-  state.lastCrankSlot = slot;
-  state.lastCrankTimestamp = Date.now();
-  state.crankCount++;
-  state.lastError = null;
+    // Simulate → size compute → price → send + rebroadcast → confirm
+    const result = await sendCrankTransaction(connection, [crankIx], wallet, {
+      programId: target.entry.programId,
+      writableAccount: target.slab,
+    });
 
-  console.log(`[crank] OK sig=${signature.slice(0, 12)}... slot=${slot} count=${state.crankCount}`);
+    const receipt = await fetchTxReceipt(connection, result.signature);
+    log({
+      signature: result.signature,
+      slot: result.slot,
+      latencyMs: result.latencyMs,
+      computeUnits: receipt.computeUnits,
+      feeLamports: receipt.feeLamports,
+      error: null,
+    });
 
-  return { signature, slot };
+    // Update state
+    state.lastCrankSignature = result.signature;
+    state.lastCrankSlot = result.slot;
+    state.lastCrankSlab = slabAddress;
+    state.lastCrankTimestamp = Date.now();
+    state.crankCount++;
+    state.lastError = null;
+    persistCounters();
+
+    console.log(
+      `[crank] OK ${target.entry.id} sig=${result.signature.slice(0, 12)}... slot=${result.slot} ` +
+        `latency=${result.latencyMs}ms cu=${result.computeUnitLimit} fee=${result.priorityFeeMicroLamports} ` +
+        `sends=${result.sends} count=${state.crankCount}`,
+    );
+
+    return {
+      signature: result.signature,
+      slot: result.slot,
+      sends: result.sends,
+      programId: target.entry.programId,
+      network: target.entry.network,
+    };
+  } catch (err) {
+    const txErr = err instanceof CrankTxError ? err : null;
+    log({
+      signature: txErr?.signature ?? null,
+      slot: txErr?.receipt?.slot ?? 0,
+      latencyMs: Date.now() - startedAt,
+      computeUnits: txErr?.receipt?.computeUnits ?? null,
+      feeLamports: txErr?.receipt?.feeLamports ?? null,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    throw err;
+  }
 }
 
 // ── Bot control ─────────────────────────────────────────────────────────
 
-export function startCrankBot(intervalMs?: number): void {
+const scheduler = createCrankScheduler(
+  async (slab, hints) => {
+    try {
+      return await executeCrank(slab, hints);
+    } catch (err) {
+      recordError(err);
+      throw err;
+    }
+  },
+  { scope: DEFAULT_SCOPE, minIntervalMs: state.intervalMs, maxTxPerSecond: DEFAULT_MAX_TX_PER_SECOND },
+);
+
+/**
+ * Start the bot. `scope` picks the slabs (explicit list or program filter);
+ * omitted options keep their previous values.
+ */
+export function startCrankBot(
+  intervalMs?: number,
+  scope?: CrankScope,
+  maxTxPerSecond?: number,
+): void {
+  ensureLoaded();
   if (intervalMs && intervalMs >= 2000) {
     state.intervalMs = intervalMs;
   }
+  scheduler.configure({
+    minIntervalMs: state.intervalMs,
+    ...(scope && (scope.slabs?.length || scope.programs?.length) ? { scope } : {}),
+    ...(maxTxPerSecond && maxTxPerSecond > 0 ? { maxTxPerSecond } : {}),
+  });
   state.running = true;
-  console.log(`[crank] Bot started (interval=${state.intervalMs}ms)`);
+  persistConfig();
+
+  const opts = scheduler.options();
+  console.log(`[crank] Bot started (interval=${state.intervalMs}ms, tps=${opts.maxTxPerSecond}, scope=${JSON.stringify(opts.scope)})`);
 }
 
 export function stopCrankBot(): void {
+  ensureLoaded();
   state.running = false;
+  persistConfig();
   console.log(`[crank] Bot stopped`);
 }
 
+// ── Standalone runner ───────────────────────────────────────────────────
+
+const RUNNER_HEARTBEAT_KEY = 'crank_runner_heartbeat';
+const RUNNER_SLABS_KEY = 'crank_runner_slabs';
+
+/**
+ * One pass of the standalone runner (scripts/crank-bot.ts). Re-reads the
+ * config the /api/crank/bot route persisted, cranks if the bot is on, and
+ * writes the runner heartbeat.
+ */
+export async function runCrankBotPass(): Promise<{ running: boolean; attempted: number; durationMs: number }> {
+  const start = Date.now();
+  loaded = true;
+  loadFromStore();
+
+  let attempted = 0;
+  if (state.running) {
+    try {
+      attempted = await scheduler.tick();
+    } catch (err) {
+      recordError(err);
+      console.error(`[crank] Scheduler pass failed:`, state.lastError);
+    }
+  }
+
+  try {
+    getHistoryStore().setMeta(RUNNER_SLABS_KEY, JSON.stringify(scheduler.status()));
+    getHistoryStore().setMeta(RUNNER_HEARTBEAT_KEY, String(Date.now()));
+  } catch (err) {
+    console.warn('[crank] Failed to write runner heartbeat:', err);
+  }
+
+  return { running: state.running, attempted, durationMs: Date.now() - start };
+}
+
+function runnerSlabs(): SlabCrankStatus[] {
+  try {
+    return JSON.parse(getHistoryStore().getMeta(RUNNER_SLABS_KEY) ?? '[]') as SlabCrankStatus[];
+  } catch {
+    return [];
+  }
+}
+
+function runnerHeartbeat(): number | null {
+  try {
+    const raw = getHistoryStore().getMeta(RUNNER_HEARTBEAT_KEY);
+    return raw === null ? null : Number(raw);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True when a standalone runner has completed a pass within `maxAgeMs`.
+ */
+export function isCrankRunnerLive(maxAgeMs = 30_000): boolean {
+  const heartbeat = runnerHeartbeat();
+  return heartbeat !== null && Date.now() - heartbeat < maxAgeMs;
+}
+
 /**
  * Called from the status endpoint on each poll.
- * If bot is "on" and enough time has passed, auto-fires a crank.
- * This is the Vercel-compatible heartbeat mechanism.
+ * If bot is "on", runs one scheduler pass, cranking whichever in-scope
+ * slabs are due. This is the Vercel-compatible heartbeat mechanism.
  */
 export async function maybeCrankOnPoll(): Promise<boolean> {
-  if (!state.running) return false;
-
-  const elapsed = Date.now() - state.lastCrankTimestamp;
-  if (elapsed < state.intervalMs) return false;
+  ensureLoaded();
+  // A standalone runner owns the schedule; polling is only the fallback
+  if (!state.running || isCrankRunnerLive()) return false;
 
   try {
-    await executeCrank();
-    return true;
+    return (await scheduler.tick()) > 0;
   } catch (err) {
-    state.errorCount++;
-    state.lastError = err instanceof Error ? err.message : String(err);
-    console.error(`[crank] Auto-crank failed:`, state.lastError);
-    // Don't throw — let the status endpoint still return
+    // Scope resolution failed (radar/RPC). Don't throw — let the status endpoint still return
+    recordError(err);
+    console.error(`[crank] Scheduler pass failed:`, state.lastError);
     return false;
   }
 }
@@ -190,6 +472,10 @@ export async function maybeCrankOnPoll(): Promise<boolean> {
 // ── Status ──────────────────────────────────────────────────────────────
 
 export async function getCrankBotStatus(): Promise<CrankBotStatus> {
+  ensureLoaded();
+  const runnerLive = isCrankRunnerLive();
+  // The runner process owns the counters; show its latest
+  if (runnerLive) loadFromStore();
   const wallet = getServerWallet();
 
   let balance = 0;
@@ -210,6 +496,47 @@ export async function getCrankBotStatus(): Promise<CrankBotStatus> {
     errorCount: state.errorCount,
     lastError: state.lastError,
     intervalMs: state.intervalMs,
-    slabPubkey: state.primarySlabPubkey ?? '',
+    maxTxPerSecond: scheduler.options().maxTxPerSecond,
+    scope: scheduler.options().scope,
+    slabPubkey: state.lastCrankSlab ?? state.primarySlabPubkey ?? '',
+    slabs: runnerLive ? runnerSlabs() : scheduler.status(),
+    runnerLive,
+    runnerHeartbeat: runnerHeartbeat(),
+  };
+}
+
+// ── History ─────────────────────────────────────────────────────────────
+
+export interface CrankHistoryPage {
+  /** Newest first */
+  entries: CrankLogEntry[];
+  /** Pass as `before` to get the next (older) page; null on the last page */
+  nextBefore: number | null;
+  /** Aggregates over `entries` */
+  summary: {
+    count: number;
+    successRate: number;
+    avgLatencyMs: number;
+    avgComputeUnits: number | null;
+    totalFeeLamports: number;
+  };
+}
+
+export function getCrankHistory(query: CrankLogQuery): CrankHistoryPage {
+  const entries = getHistoryStore().crankLog(query);
+  const ok = entries.filter((e) => e.error === null);
+  const withCu = entries.filter((e) => e.computeUnits !== null);
+  const avg = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0);
+
+  return {
+    entries,
+    nextBefore: entries.length === query.limit ? entries[entries.length - 1].id : null,
+    summary: {
+      count: entries.length,
+      successRate: entries.length ? ok.length / entries.length : 0,
+      avgLatencyMs: Math.round(avg(ok.map((e) => e.latencyMs))),
+      avgComputeUnits: withCu.length ? Math.round(avg(withCu.map((e) => e.computeUnits!))) : null,
+      totalFeeLamports: entries.reduce((sum, e) => sum + (e.feeLamports ?? 0), 0),
+    },
   };
 }
@@ -7,13 +7,19 @@
 import { Connection, PublicKey } from '@solana/web3.js';
 import { CONFIG } from './constants';
 import { getCached, setCache } from './connection';
-import type { ProgramEntry, NetworkId } from './registry';
+import { PROGRAM_REGISTRY, type ProgramEntry, type NetworkId } from './registry';
+import {
+  UnsupportedLayoutError, discoverySliceLen, maxOverLayouts, slabLayoutOf, type SlabLayout,
+} from './slab-layout';
 
 const DISCOVERY_CACHE_KEY = 'discovered_slabs';
 const DISCOVERY_CACHE_MS = 60_000; // Re-discover every 60s
 
 const PERCOLAT_MAGIC = 0x504552434f4c4154n;
 
+// Header through engine.numUsed under every registered layout
+const DISCOVERY_SLICE_LEN = maxOverLayouts(discoverySliceLen);
+
 export interface DiscoveredSlab {
   pubkey: PublicKey;
   label: string;  // e.g. "slab-0", "slab-1"
@@ -26,27 +32,64 @@ export interface DiscoveredSlab {
   programLabel?: string;
   network?: NetworkId;
   slabSize?: number;
+  /** SlabLayout id the slab was read with */
+  layout?: string;
+  /** Set when the header version has no registered layout; counters are then 0 */
+  layoutError?: string;
 }
 
 // ── Parse a slab header from minimal data slice ─────────────────────────
 
+interface SlabSummary {
+  numUsedAccounts: number;
+  lastCrankSlot: bigint;
+  vaultPubkey: PublicKey;
+  collateralMint: PublicKey;
+  layout: SlabLayout | null;
+  layoutError?: string;
+}
+
+/**
+ * Read discovery fields with the slab's layout. Returns null for non-slabs;
+ * a slab with an unknown header version comes back with `layoutError` set
+ * and zeroed fields instead of misread ones.
+ */
 function parseSlabHeader(
   pubkey: PublicKey,
   data: Buffer,
-): { numUsedAccounts: number; lastCrankSlot: bigint; vaultPubkey: PublicKey; collateralMint: PublicKey } | null {
-  if (data.length < 1314) return null;
+  entry?: ProgramEntry,
+): SlabSummary | null {
+  if (data.length < 12) return null;
 
   // Validate magic
   const magic = data.readBigUInt64LE(0);
   if (magic !== PERCOLAT_MAGIC) return null;
 
-  const numUsedAccounts = data.readUInt16LE(1312);
-  const lastCrankSlot = data.readBigUInt64LE(624);
-  // Config section: collateralMint at offset 72-104, vaultPubkey at offset 104-136
-  const collateralMint = new PublicKey(data.subarray(72, 104));
-  const vaultPubkey = new PublicKey(data.subarray(104, 136));
+  let layout: SlabLayout;
+  try {
+    layout = slabLayoutOf(data, entry);
+  } catch (err) {
+    if (!(err instanceof UnsupportedLayoutError)) throw err;
+    return {
+      numUsedAccounts: 0,
+      lastCrankSlot: 0n,
+      vaultPubkey: PublicKey.default,
+      collateralMint: PublicKey.default,
+      layout: null,
+      layoutError: err.message,
+    };
+  }
+  if (data.length < discoverySliceLen(layout)) return null;
+
+  const engine = layout.engineOffset;
+  const numUsedAccounts = data.readUInt16LE(engine + layout.engine.numUsed);
+  const lastCrankSlot = data.readBigUInt64LE(engine + layout.engine.lastCrankSlot);
+  // Config section starts with collateralMint, then vaultPubkey
+  const config = layout.config.offset;
+  const collateralMint = new PublicKey(data.subarray(config, config + 32));
+  const vaultPubkey = new PublicKey(data.subarray(config + 32, config + 64));
 
-  return { numUsedAccounts, lastCrankSlot, vaultPubkey, collateralMint };
+  return { numUsedAccounts, lastCrankSlot, vaultPubkey, collateralMint, layout };
 }
 
 // ── Original single-program discovery (unchanged behavior) ──────────────
@@ -63,6 +106,8 @@ export async function discoverAllSlabs(connection: Connection): Promise<Discover
   const cached = getCached<DiscoveredSlab[]>(DISCOVERY_CACHE_KEY, DISCOVERY_CACHE_MS);
   if (cached) return cached;
 
+  const entry = PROGRAM_REGISTRY.find((e) => e.programId === CONFIG.PROGRAM_ID.toBase58());
+
   try {
     // Fetch all 992560-byte program accounts (slab size)
     const accounts = await connection.getProgramAccounts(CONFIG.PROGRAM_ID, {
@@ -71,8 +116,8 @@ export async function discoverAllSlabs(connection: Connection): Promise<Discover
       ],
       dataSlice: {
         offset: 0,
-        // Need up to offset 1314 for numUsedAccounts
-        length: 1314,
+        // Need up to engine.numUsed for numUsedAccounts
+        length: DISCOVERY_SLICE_LEN,
       },
     });
 
@@ -85,7 +130,8 @@ export async function discoverAllSlabs(connection: Connection): Promise<Discover
     const candidates: DiscoveredSlab[] = [];
     for (const { pubkey, account } of accounts) {
       const data = Buffer.from(account.data);
-      const parsed = parseSlabHeader(pubkey, data);
+      const parsed = parseSlabHeader(pubkey, data, entry);
+      if (parsed?.layoutError) console.warn(`[discovery] ${pubkey.toBase58()}: ${parsed.layoutError}`);
       if (!parsed || parsed.numUsedAccounts === 0) continue;
 
       candidates.push({
@@ -95,6 +141,7 @@ export async function discoverAllSlabs(connection: Connection): Promise<Discover
         lastCrankSlot: parsed.lastCrankSlot,
         vaultPubkey: parsed.vaultPubkey,
         collateralMint: parsed.collateralMint,
+        layout: parsed.layout?.id,
       });
     }
 
@@ -146,7 +193,7 @@ export async function discoverSlabsForProgram(
         filters: [{ dataSize: slabSize }],
         dataSlice: {
           offset: 0,
-          length: Math.min(1314, slabSize), // Don't request more than slab size
+          length: Math.min(DISCOVERY_SLICE_LEN, slabSize), // Don't request more than slab size
         },
       });
       return { slabSize, accounts };
@@ -162,7 +209,7 @@ export async function discoverSlabsForProgram(
     const { slabSize, accounts } = result.value;
     for (const { pubkey, account } of accounts) {
       const data = Buffer.from(account.data);
-      const parsed = parseSlabHeader(pubkey, data);
+      const parsed = parseSlabHeader(pubkey, data, entry);
       if (!parsed) continue;
 
       // For radar, include all slabs (even empty ones) for count tracking
@@ -177,6 +224,8 @@ export async function discoverSlabsForProgram(
         programLabel: entry.label,
         network: entry.network,
         slabSize,
+        layout: parsed.layout?.id,
+        layoutError: parsed.layoutError,
       });
     }
   }
@@ -0,0 +1,269 @@
+/**
+ * Price divergence — mark vs index vs DEX for one market, over time.
+ *
+ * Every market carries three prices that should agree:
+ *
+ *   mark   lastEffectivePriceE6, the price the engine last accepted
+ *   index  the live oracle feed (oracle.ts)
+ *   dex    the wider market's price from price-providers.ts, in the index's
+ *          units: for a DEX pool feed (quote per base) the pool's base mint
+ *          priced in its quote mint, otherwise the collateral's USD price
+ *
+ * When the units can't be matched (a mint the providers can't price) the
+ * dex leg is left null rather than comparing SOL against USD.
+ * The basis of each pair is kept in signed bps of the second price. On Launch
+ * markets priced off a single DEX pool, a pool pushed away from the wider
+ * market shows up as index drifting from dex before the mark follows it.
+ *
+ * Samples are written to the history store by the slab divergence route, or
+ * by the indexer while it runs, and kept for 7 days.
+ */
+import { getTokenPrices } from './price-providers';
+import type { SlabDetail } from './fetcher';
+import type { DivergencePoint, SampleQuery } from './history-store';
+import { resolveMintSymbol } from './known-mints';
+import { getEffectiveOraclePrice, type OracleReading, type OracleSource } from './oracle';
+import { getHistoryStore } from './price-history';
+
+export type { DivergencePoint } from './history-store';
+
+const MIN_INTERVAL_MS = 5_000;  // Don't record faster than every 5s
+const DEFAULT_LIMIT = 360;      // ~1 hour at 10s intervals
+
+/** Basis worth a warning, in bps */
+export const DIVERGENCE_WARN_BPS = 100;
+/** Basis that suggests a broken or manipulated price, in bps */
+export const DIVERGENCE_CRITICAL_BPS = 500;
+
+// Per-process dedupe; the store itself is append-only
+const lastRecordedAt = new Map<string, number>();
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export type DivergencePair = 'markIndex' | 'dexIndex' | 'markDex';
+
+export type DivergenceLevel = 'ok' | 'warning' | 'critical';
+
+export const DIVERGENCE_PAIRS: DivergencePair[] = ['markIndex', 'dexIndex', 'markDex'];
+
+/** A stored sample with the basis of each pair; null when a price is missing */
+export interface DivergenceSample extends DivergencePoint {
+  /** (mark - index) / index */
+  markIndexBps: number | null;
+  /** (dex - index) / index */
+  dexIndexBps: number | null;
+  /** (mark - dex) / dex */
+  markDexBps: number | null;
+}
+
+export interface DivergenceAlert {
+  pair: DivergencePair;
+  level: Exclude<DivergenceLevel, 'ok'>;
+  bps: number;
+  message: string;
+}
+
+export interface DivergencePairStats {
+  /** Largest |basis| in the window */
+  maxAbsBps: number | null;
+  /** Mean |basis| in the window */
+  avgAbsBps: number | null;
+  /** Samples at or above the warning threshold */
+  breaches: number;
+}
+
+export interface DivergenceReport {
+  slabAddress: string;
+  collateralMint: string;
+  collateralSymbol: string;
+  oracleSource: OracleSource | null;
+  /** Unit of the index and dex prices: the pool's quote symbol, or USD */
+  dexUnit: string;
+  current: DivergenceSample;
+  /** Recorded samples in ascending time order */
+  samples: DivergenceSample[];
+  stats: Record<DivergencePair, DivergencePairStats>;
+  thresholds: { warnBps: number; criticalBps: number };
+  alerts: DivergenceAlert[];
+  level: DivergenceLevel;
+  generatedAt: string;
+}
+
+// ── Basis ───────────────────────────────────────────────────────────────
+
+const PAIR_PRICES: Record<DivergencePair, [keyof DivergencePoint, keyof DivergencePoint]> = {
+  markIndex: ['mark', 'index'],
+  dexIndex: ['dex', 'index'],
+  markDex: ['mark', 'dex'],
+};
+
+const PRICE_LABELS: Record<string, string> = { mark: 'Mark', index: 'Index', dex: 'DEX' };
+
+function basisBps(price: number | null, reference: number | null): number | null {
+  if (price === null || reference === null || price <= 0 || reference <= 0) return null;
+  return (price - reference) / reference * 10_000;
+}
+
+function toSample(point: DivergencePoint): DivergenceSample {
+  return {
+    ...point,
+    markIndexBps: basisBps(point.mark, point.index),
+    dexIndexBps: basisBps(point.dex, point.index),
+    markDexBps: basisBps(point.mark, point.dex),
+  };
+}
+
+function pairBps(sample: DivergenceSample, pair: DivergencePair): number | null {
+  switch (pair) {
+    case 'markIndex':
+      return sample.markIndexBps;
+    case 'dexIndex':
+      return sample.dexIndexBps;
+    case 'markDex':
+      return sample.markDexBps;
+  }
+}
+
+export function divergenceLevel(bps: number | null): DivergenceLevel {
+  if (bps === null) return 'ok';
+  const abs = Math.abs(bps);
+  if (abs >= DIVERGENCE_CRITICAL_BPS) return 'critical';
+  if (abs >= DIVERGENCE_WARN_BPS) return 'warning';
+  return 'ok';
+}
+
+function pairStats(samples: DivergenceSample[], pair: DivergencePair): DivergencePairStats {
+  const values = samples.map((s) => pairBps(s, pair)).filter((v): v is number => v !== null).map(Math.abs);
+  if (values.length === 0) return { maxAbsBps: null, avgAbsBps: null, breaches: 0 };
+  return {
+    maxAbsBps: Math.max(...values),
+    avgAbsBps: values.reduce((sum, v) => sum + v, 0) / values.length,
+    breaches: values.filter((v) => v >= DIVERGENCE_WARN_BPS).length,
+  };
+}
+
+function currentAlerts(sample: DivergenceSample): DivergenceAlert[] {
+  const alerts: DivergenceAlert[] = [];
+  for (const pair of DIVERGENCE_PAIRS) {
+    const bps = pairBps(sample, pair);
+    const level = divergenceLevel(bps);
+    if (bps === null || level === 'ok') continue;
+    const [a, b] = PAIR_PRICES[pair];
+    alerts.push({
+      pair,
+      level,
+      bps,
+      message: `${PRICE_LABELS[a]} ${bps > 0 ? 'above' : 'below'} ${PRICE_LABELS[b].toLowerCase()} by ${Math.abs(bps).toFixed(0)}bps`,
+    });
+  }
+  return alerts;
+}
+
+// ── Sampling ────────────────────────────────────────────────────────────
+
+/** Mints dexPriceFor needs USD prices for */
+export function dexPriceMints(oracle: Pick<OracleReading, 'pair'> | null, collateralMint: string): string[] {
+  return oracle?.pair ? [oracle.pair.base, oracle.pair.quote] : [collateralMint];
+}
+
+/**
+ * The dex leg in the index's units, from USD prices of dexPriceMints. A pool
+ * feed quotes base in quote tokens, so its leg is base USD / quote USD; other
+ * feeds compare against the collateral's USD price. 0 when a price is missing.
+ */
+export function dexPriceFor(
+  oracle: Pick<OracleReading, 'pair'> | null,
+  collateralMint: string,
+  usdPrices: Map<string, number>,
+): number {
+  if (!oracle?.pair) return usdPrices.get(collateralMint) ?? 0;
+  const base = usdPrices.get(oracle.pair.base) ?? 0;
+  const quote = usdPrices.get(oracle.pair.quote) ?? 0;
+  return base > 0 && quote > 0 ? base / quote : 0;
+}
+
+/**
+ * Build a sample from slab config, its oracle reading and the dex price in
+ * the index's units (0 when unlisted; see dexPriceFor). An unreadable feed
+ * leaves index null rather than falling back to the mark, which would hide
+ * the gap.
+ */
+export function toDivergencePoint(
+  t: string,
+  config: { lastEffectivePriceE6: bigint; invert: number },
+  oracle: Pick<OracleReading, 'price' | 'error'> | null,
+  dexPrice: number,
+): DivergencePoint {
+  const mark = getEffectiveOraclePrice(config.lastEffectivePriceE6, config.invert);
+  return {
+    t,
+    mark: mark > 0 ? mark : null,
+    index: oracle && !oracle.error && oracle.price > 0 ? oracle.price : null,
+    dex: dexPrice > 0 ? dexPrice : null,
+  };
+}
+
+/** Current sample for a fetched slab; adds one USD price lookup */
+export async function sampleSlabDivergence(detail: SlabDetail): Promise<DivergencePoint> {
+  const mint = detail.config.collateralMint;
+  const usdPrices = await getTokenPrices(dexPriceMints(detail.oracle, mint));
+  return toDivergencePoint(
+    detail.timestamp,
+    { lastEffectivePriceE6: BigInt(detail.config.lastEffectivePriceE6), invert: detail.config.invert },
+    detail.oracle,
+    dexPriceFor(detail.oracle, mint, usdPrices),
+  );
+}
+
+/**
+ * Record a divergence sample for a slab.
+ * Deduplicates by enforcing a minimum interval between recordings.
+ */
+export function recordDivergencePoint(slabAddress: string, point: DivergencePoint): void {
+  if (point.mark === null && point.index === null) return;
+  const now = Date.now();
+  const last = lastRecordedAt.get(slabAddress) ?? 0;
+  if (now - last < MIN_INTERVAL_MS) return;
+  lastRecordedAt.set(slabAddress, now);
+
+  try {
+    getHistoryStore().appendDivergencePoint(slabAddress, point);
+  } catch (err) {
+    console.warn(`[divergence] Failed to record point for ${slabAddress}:`, err);
+  }
+}
+
+/**
+ * Divergence report for a slab: the current sample, recorded history
+ * (defaults to the most recent hour) and alerts against the thresholds.
+ */
+export function getDivergenceReport(
+  detail: SlabDetail,
+  current: DivergencePoint,
+  query: SampleQuery = {},
+): DivergenceReport {
+  const samples = getHistoryStore()
+    .divergenceHistory(detail.slabPubkey, { ...query, limit: query.limit ?? DEFAULT_LIMIT })
+    .map(toSample);
+  const currentSample = toSample(current);
+  const alerts = currentAlerts(currentSample);
+
+  return {
+    slabAddress: detail.slabPubkey,
+    collateralMint: detail.config.collateralMint,
+    collateralSymbol: resolveMintSymbol(detail.config.collateralMint),
+    oracleSource: detail.oracle?.source ?? null,
+    dexUnit: detail.oracle?.pair ? resolveMintSymbol(detail.oracle.pair.quote) : 'USD',
+    current: currentSample,
+    samples,
+    stats: {
+      markIndex: pairStats(samples, 'markIndex'),
+      dexIndex: pairStats(samples, 'dexIndex'),
+      markDex: pairStats(samples, 'markDex'),
+    },
+    thresholds: { warnBps: DIVERGENCE_WARN_BPS, criticalBps: DIVERGENCE_CRITICAL_BPS },
+    alerts,
+    level: alerts.some((a) => a.level === 'critical') ? 'critical' : alerts.length > 0 ? 'warning' : 'ok',
+    generatedAt: new Date().toISOString(),
+  };
+}
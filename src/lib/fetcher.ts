@@ -2,16 +2,20 @@
  * Shared data fetcher — fetches and caches slab data with auto-discovery.
  * getAllMarketData() fetches ALL active slabs using batched RPC calls.
  * getSlabMarketData() fetches a single slab from any network for drill-down.
+ * getAccountDetail() fetches one account of a slab for the account view.
  */
 import { PublicKey, type Connection } from '@solana/web3.js';
-import { CACHE_DURATIONS } from './constants';
+import { CACHE_DURATIONS, CONFIG } from './constants';
 import { getConnection, getCached, setCache } from './connection';
-import { parseHeader, parseConfig, parseParams, parseEngine, parseAllAccounts, calculateFundingRate, computeMarginMetrics, estimateLiquidationPrice } from './percolator';
-import { getOraclePrice, getEffectiveOraclePrice, OraclePrice } from './oracle';
+import { parseHeader, parseConfig, parseParams, parseEngine, parseAllAccounts, parseUsedIndices, parseAccount, calculateFundingRate, computeMarginMetrics, estimateLiquidationPrice, computeWarmupState, computeMaintenanceFeeState, DEFAULT_MS_PER_SLOT, type PnlAttributionRaw } from './percolator';
+import { getOraclePrice, readSlabOracle, slabOraclePrice, OraclePrice, type OracleReading } from './oracle';
+import type { AccountPoint } from './history-store';
 import { discoverAllSlabs, DiscoveredSlab } from './discovery';
 import { getNetworkConnection } from './connections';
-import { PROGRAM_REGISTRY, type NetworkId } from './registry';
-import { MarketConfig, RiskParams, EngineState, Account, AccountKind } from './types';
+import { getSlotTiming } from './slot-time';
+import { slabLayoutOf } from './slab-layout';
+import { PROGRAM_REGISTRY, type NetworkId, type ProgramEntry } from './registry';
+import { MarketConfig, RiskParams, EngineState, Account, AccountKind, type AccountDetailFields, type PnlAttribution } from './types';
 
 export interface MarketData {
   slabData: Buffer;
@@ -42,18 +46,20 @@ const ALL_CACHE_KEY = 'allMarketData';
  * Batch-fetch multiple accounts using getMultipleAccounts.
  * Solana RPC supports up to 100 accounts per call.
  * Returns results in same order as input pubkeys (null for failures).
+ * Pass `dataSlice` to fetch only that byte range of every account.
  */
 export async function batchFetchAccounts(
   connection: Connection,
   pubkeys: PublicKey[],
   batchSize = 10,
+  dataSlice?: { offset: number; length: number },
 ): Promise<(Buffer | null)[]> {
   const results: (Buffer | null)[] = new Array(pubkeys.length).fill(null);
 
   for (let i = 0; i < pubkeys.length; i += batchSize) {
     const batch = pubkeys.slice(i, i + batchSize);
     try {
-      const infos = await connection.getMultipleAccountsInfo(batch);
+      const infos = await connection.getMultipleAccountsInfo(batch, { dataSlice });
       for (let j = 0; j < infos.length; j++) {
         if (infos[j]) {
           results[i + j] = Buffer.from(infos[j]!.data);
@@ -64,7 +70,7 @@ export async function batchFetchAccounts(
       // Fall back to individual fetches for this batch
       for (let j = 0; j < batch.length; j++) {
         try {
-          const info = await connection.getAccountInfo(batch[j]);
+          const info = await connection.getAccountInfo(batch[j], { dataSlice });
           if (info) results[i + j] = Buffer.from(info.data);
         } catch {
           // Individual fetch also failed, leave as null
@@ -109,6 +115,7 @@ export async function getAllMarketData(): Promise<AllMarketData> {
   if (cached) return cached;
 
   const connection = getConnection();
+  const entry = PROGRAM_REGISTRY.find(e => e.programId === CONFIG.PROGRAM_ID.toBase58());
 
   // Step 1: Discover all active slabs
   const discovered = await discoverAllSlabs(connection);
@@ -146,10 +153,11 @@ export async function getAllMarketData(): Promise<AllMarketData> {
     }
 
     try {
-      const config = parseConfig(slabData);
-      const params = parseParams(slabData);
-      const engine = parseEngine(slabData);
-      const allAccounts = parseAllAccounts(slabData);
+      const layout = slabLayoutOf(slabData, entry);
+      const config = parseConfig(slabData, layout);
+      const params = parseParams(slabData, layout);
+      const engine = parseEngine(slabData, layout);
+      const allAccounts = parseAllAccounts(slabData, layout);
 
       // Oracle price (same for all slabs)
       let slabOraclePriceE6: bigint;
@@ -277,6 +285,7 @@ export interface SlabDetail {
     liquidationFeeBps: number;
     maxAccounts: number;
     warmupPeriodSlots: string;
+    maintenanceFeePerSlot: string;
     maxCrankStalenessSlots: string;
   };
 
@@ -285,11 +294,15 @@ export interface SlabDetail {
   solUsdPrice: number;
   invertedMarket: boolean;
   maxAccountCapacity: number;
+  /** Live reading of the slab's oracle feed; null if the read failed */
+  oracle: OracleReadingJson | null;
 
   // Funding
   fundingRate: {
     rateBpsPerSlot: number;
+    /** At the measured slot time */
     rateBpsPerHour: number;
+    aprPct: number;
     direction: 'longs_pay' | 'shorts_pay' | 'neutral';
   };
 
@@ -319,7 +332,7 @@ export interface SlabDetail {
   timestamp: string;
 }
 
-export interface SlabPosition {
+export interface SlabPosition extends AccountDetailFields {
   accountIndex: number;
   accountId: string;
   owner: string;
@@ -339,6 +352,7 @@ export interface SlabPosition {
   liquidationPrice: number;
   isLP: boolean;
   status: 'safe' | 'at_risk' | 'liquidatable';
+  pnlAttribution: PnlAttribution;
 }
 
 export interface SlabLP {
@@ -354,18 +368,155 @@ export interface SlabLP {
   matcherContext: string;
 }
 
+/**
+ * Warmup, fee and matcher fields for one account at `slot` (the live slot,
+ * or engine.currentSlot when the RPC slot is unknown).
+ */
+export function accountDetailFields(account: Account, params: RiskParams, slot: bigint): AccountDetailFields {
+  const warmup = computeWarmupState(account, params, slot);
+  const fees = computeMaintenanceFeeState(account, params, slot);
+  return {
+    reservedPnl: Number(account.reservedPnl) / 1e9,
+    warmupStartedAtSlot: account.warmupStartedAtSlot.toString(),
+    warmupSlopePerStep: account.warmupSlopePerStep.toString(),
+    warmupElapsedSlots: warmup.elapsedSlots.toString(),
+    warmupRemainingSlots: warmup.remainingSlots.toString(),
+    warmupProgress: warmup.progress,
+    warmedPnl: Number(warmup.warmedPnl) / 1e9,
+    lockedPnl: Number(warmup.lockedPnl) / 1e9,
+    feeCredits: Number(account.feeCredits) / 1e9,
+    lastFeeSlot: account.lastFeeSlot.toString(),
+    slotsSinceFee: fees.slotsSinceFee.toString(),
+    accruedMaintenanceFee: Number(fees.accrued) / 1e9,
+    netFeeCredits: Number(fees.netCredits) / 1e9,
+    matcherProgram: account.matcherProgram.toBase58(),
+    matcherContext: account.matcherContext.toBase58(),
+  };
+}
+
+/** computeMarginMetrics' unrealized PnL by source, in SOL */
+export function pnlAttributionFields(attribution: PnlAttributionRaw): PnlAttribution {
+  return {
+    price: Number(attribution.price) / 1e9,
+    funding: Number(attribution.funding) / 1e9,
+    fees: Number(attribution.fees) / 1e9,
+    total: Number(attribution.total) / 1e9,
+  };
+}
+
+/**
+ * Position view of one account, as listed in SlabDetail.positions.
+ * Sides follow the inverted-market convention (positive size = short).
+ */
+export function toSlabPosition(
+  idx: number,
+  account: Account,
+  params: RiskParams,
+  oraclePriceE6: bigint,
+  solUsdPrice: number,
+  slot: bigint,
+  fundingIndexQpbE6: bigint,
+): SlabPosition {
+  const metrics = computeMarginMetrics(account, oraclePriceE6, params, fundingIndexQpbE6, slot);
+  const liqPriceE6 = estimateLiquidationPrice(account, params, fundingIndexQpbE6, slot);
+  const liquidationPrice = liqPriceE6 > 0 ? 1_000_000 / liqPriceE6 : 0;
+  const entryPrice = Number(account.entryPrice) > 0
+    ? 1_000_000 / Number(account.entryPrice)
+    : 0;
+  const collateral = Number(account.capital) / 1e9;
+  const unrealizedPnlSol = Number(metrics.unrealizedPnl) / 1e9;
+
+  let side: 'long' | 'short' | 'flat';
+  if (account.positionSize === 0n) side = 'flat';
+  else if (account.positionSize > 0n) side = 'short'; // inverted market
+  else side = 'long';
+
+  return {
+    accountIndex: idx,
+    accountId: account.accountId.toString(),
+    owner: account.owner.toBase58(),
+    side,
+    size: Number(metrics.notionalLamports) / 1e9,
+    rawSize: account.positionSize.toString(),
+    entryPrice,
+    entryPriceE6: account.entryPrice.toString(),
+    markPrice: solUsdPrice,
+    unrealizedPnl: unrealizedPnlSol,
+    realizedPnl: Number(account.pnl) / 1e9,
+    unrealizedPnlPercent: collateral > 0 ? (unrealizedPnlSol / collateral) * 100 : 0,
+    collateral,
+    effectiveCapital: Number(metrics.effectiveCapital) / 1e9,
+    marginHealth: metrics.health,
+    marginRatioBps: metrics.marginRatioBps,
+    liquidationPrice,
+    isLP: account.kind === AccountKind.LP,
+    status: metrics.status,
+    pnlAttribution: pnlAttributionFields(metrics.attribution),
+    ...accountDetailFields(account, params, slot),
+  };
+}
+
+/** History-store sample for a position at time `t` */
+export function toAccountPoint(t: string, position: SlabPosition): AccountPoint {
+  return {
+    t,
+    id: position.accountId,
+    capital: position.collateral,
+    pnl: position.realizedPnl,
+    upnl: position.unrealizedPnl,
+    position: Number(position.rawSize),
+  };
+}
+
+/**
+ * Oracle price for a slab: the live reading of its feed (the registry
+ * `oracleAddress` when set, else `indexFeedId`), falling back to the slab's
+ * last effective price when the feed can't be read.
+ */
+export async function resolveSlabOraclePrice(
+  entry: ProgramEntry,
+  connection: Connection,
+  config: MarketConfig,
+): Promise<{ oraclePriceE6: bigint; solUsdPrice: number; oracle: OracleReading | null }> {
+  const oracle = await readSlabOracle(connection, { config, feed: entry.oracleAddress }).catch((err) => {
+    console.warn(`[fetcher] Oracle read failed for feed ${config.indexFeedId.toBase58()}:`, err);
+    return null;
+  });
+  return { ...slabOraclePrice(config, oracle), oracle };
+}
+
+/** An oracle reading as JSON (bigint price as a string) */
+export type OracleReadingJson = Omit<OracleReading, 'priceE6'> & { priceE6: string };
+
+function toOracleJson(reading: OracleReading | null): OracleReadingJson | null {
+  return reading ? { ...reading, priceE6: reading.priceE6.toString() } : null;
+}
+
 /**
  * Detect which program owns a slab by its address.
- * Fetches the account once per network, then matches the owner against registry.
- * Returns { programEntry, network, connection } or null.
+ * With matching hints, fetches straight from that network. Otherwise fetches
+ * the account once per network and matches the owner against the registry.
+ * Returns { entry, connection, accountData } or null.
  */
-async function resolveSlabProgram(slabAddress: string): Promise<{
+export async function resolveSlabProgram(slabAddress: string, hints?: SlabHints): Promise<{
   entry: (typeof PROGRAM_REGISTRY)[number];
   connection: Connection;
   accountData: Buffer;
 } | null> {
   const pubkey = new PublicKey(slabAddress);
 
+  // Fast path: hints name a registered program, skip the network scan
+  if (hints?.programId && hints?.network) {
+    const matched = PROGRAM_REGISTRY.find(e => e.programId === hints.programId && e.network === hints.network);
+    if (matched) {
+      const connection = getNetworkConnection(hints.network);
+      const info = await connection.getAccountInfo(pubkey);
+      if (!info) return null;
+      return { entry: matched, connection, accountData: Buffer.from(info.data) };
+    }
+    // Hints didn't match registry, fall back to resolution
+  }
+
   // Group registry entries by network
   const networkEntries = new Map<NetworkId, (typeof PROGRAM_REGISTRY)[number][]>();
   for (const entry of PROGRAM_REGISTRY) {
@@ -420,82 +571,44 @@ export async function getSlabMarketData(slabAddress: string, hints?: SlabHints):
   const cached = getCached<SlabDetail>(cacheKey, CACHE_DURATIONS.SLAB);
   if (cached) return cached;
 
-  let entry: (typeof PROGRAM_REGISTRY)[number];
-  let connection: Connection;
-  let slabData: Buffer;
+  const resolved = await resolveSlabProgram(slabAddress, hints);
+  if (!resolved) throw new Error(`Slab not found on any known program: ${slabAddress}`);
+  const { entry, connection, accountData: slabData } = resolved;
 
-  // Fast path: if hints provided, skip resolution — just fetch the account directly
-  if (hints?.programId && hints?.network) {
-    const matched = PROGRAM_REGISTRY.find(e => e.programId === hints.programId && e.network === hints.network);
-    if (matched) {
-      connection = getNetworkConnection(hints.network);
-      const pubkey = new PublicKey(slabAddress);
-      const info = await connection.getAccountInfo(pubkey);
-      if (!info) throw new Error(`Slab account not found: ${slabAddress}`);
-      entry = matched;
-      slabData = Buffer.from(info.data);
-    } else {
-      // Hints didn't match registry, fall back to resolution
-      const resolved = await resolveSlabProgram(slabAddress);
-      if (!resolved) throw new Error(`Slab not found on any known program: ${slabAddress}`);
-      entry = resolved.entry;
-      connection = resolved.connection;
-      slabData = resolved.accountData;
-    }
-  } else {
-    // No hints — resolve which program/network owns this slab
-    const resolved = await resolveSlabProgram(slabAddress);
-    if (!resolved) throw new Error(`Slab not found on any known program: ${slabAddress}`);
-    entry = resolved.entry;
-    connection = resolved.connection;
-    slabData = resolved.accountData;
-  }
-
-  // Parse the full slab
-  const header = parseHeader(slabData);
-  const config = parseConfig(slabData);
-  const params = parseParams(slabData);
-  const engine = parseEngine(slabData);
-  const allAccounts = parseAllAccounts(slabData);
+  // Parse the full slab with the program's pinned layout, if any
+  const layout = slabLayoutOf(slabData, entry);
+  const header = parseHeader(slabData, layout);
+  const config = parseConfig(slabData, layout);
+  const params = parseParams(slabData, layout);
+  const engine = parseEngine(slabData, layout);
+  const allAccounts = parseAllAccounts(slabData, layout);
 
   // Get slot + vault balance in parallel
   let slot = 0;
   let vaultBalanceSol = 0;
 
-  // Oracle price: try the slab's effective price first
-  let oraclePriceE6: bigint;
-  let solUsdPrice: number;
-
-  if (config.lastEffectivePriceE6 > 0n) {
-    oraclePriceE6 = config.lastEffectivePriceE6;
-    solUsdPrice = getEffectiveOraclePrice(config.lastEffectivePriceE6, config.invert);
-  } else {
-    oraclePriceE6 = 0n;
-    solUsdPrice = 0;
-  }
+  // Oracle price: the live feed, or the slab's effective price
+  let oraclePriceE6 = 0n;
+  let solUsdPrice = 0;
+  let oracle: OracleReading | null = null;
+  let msPerSlot = DEFAULT_MS_PER_SLOT;
 
-  // Fetch slot, vault balance, and oracle in parallel
-  const fetchPromises: Promise<void>[] = [
+  // Fetch slot, slot time, vault balance, and oracle in parallel
+  await Promise.all([
     connection.getSlot('confirmed').then(s => { slot = s; }).catch(() => {}),
+    getSlotTiming(connection).then(timing => { msPerSlot = timing.msPerSlot; }),
     connection.getTokenAccountBalance(config.vaultPubkey)
       .then(bal => { vaultBalanceSol = Number(bal.value.amount) / 1e9; })
       .catch(() => {}),
-  ];
-
-  // For devnet Toly, try the real oracle too
-  if (entry.network === 'devnet' && entry.oracleAddress) {
-    fetchPromises.push(
-      getOraclePrice(connection).then(oracleData => {
-        oraclePriceE6 = oracleData.invertedPriceE6;
-        solUsdPrice = oracleData.solUsdPrice;
-      }).catch(() => {})
-    );
-  }
-
-  await Promise.all(fetchPromises);
+    resolveSlabOraclePrice(entry, connection, config).then(price => {
+      oraclePriceE6 = price.oraclePriceE6;
+      solUsdPrice = price.solUsdPrice;
+      oracle = price.oracle;
+    }),
+  ]);
 
   // Funding rate
-  const fundingRate = calculateFundingRate(engine, config, oraclePriceE6);
+  const fundingRate = calculateFundingRate(engine, config, oraclePriceE6, msPerSlot);
 
   // Open interest in SOL
   const oiRaw = oraclePriceE6 > 0n
@@ -503,15 +616,13 @@ export async function getSlabMarketData(slabAddress: string, hints?: SlabHints):
     : 0;
 
   // Max account capacity for this slab size
-  const ENGINE_OFF = 392;
-  const ENGINE_ACCOUNTS_OFF = 9136;
-  const ACCOUNT_SIZE = 240;
-  const accountsEnd = slabData.length - ENGINE_OFF - ENGINE_ACCOUNTS_OFF;
-  const maxAccountCapacity = accountsEnd > 0 ? Math.floor(accountsEnd / ACCOUNT_SIZE) : 0;
+  const accountsEnd = slabData.length - layout.engineOffset - layout.engine.accounts;
+  const maxAccountCapacity = accountsEnd > 0 ? Math.floor(accountsEnd / layout.account.size) : 0;
 
   // Parse positions and LPs
   const positions: SlabPosition[] = [];
   const lps: SlabLP[] = [];
+  const detailSlot = slot > 0 ? BigInt(slot) : engine.currentSlot;
 
   for (const { idx, account } of allAccounts) {
     if (account.kind === AccountKind.LP) {
@@ -537,41 +648,7 @@ export async function getSlabMarketData(slabAddress: string, hints?: SlabHints):
     }
 
     // All accounts get position entries (including LPs)
-    const metrics = computeMarginMetrics(account, oraclePriceE6, params);
-    const liqPriceE6 = estimateLiquidationPrice(account, params);
-    const liquidationPrice = liqPriceE6 > 0 ? 1_000_000 / liqPriceE6 : 0;
-    const entryPrice = Number(account.entryPrice) > 0
-      ? 1_000_000 / Number(account.entryPrice)
-      : 0;
-    const collateral = Number(account.capital) / 1e9;
-    const unrealizedPnlSol = Number(metrics.unrealizedPnl) / 1e9;
-
-    let side: 'long' | 'short' | 'flat';
-    if (account.positionSize === 0n) side = 'flat';
-    else if (account.positionSize > 0n) side = 'short'; // inverted market
-    else side = 'long';
-
-    positions.push({
-      accountIndex: idx,
-      accountId: account.accountId.toString(),
-      owner: account.owner.toBase58(),
-      side,
-      size: Number(metrics.notionalLamports) / 1e9,
-      rawSize: account.positionSize.toString(),
-      entryPrice,
-      entryPriceE6: account.entryPrice.toString(),
-      markPrice: solUsdPrice,
-      unrealizedPnl: unrealizedPnlSol,
-      realizedPnl: Number(account.pnl) / 1e9,
-      unrealizedPnlPercent: collateral > 0 ? (unrealizedPnlSol / collateral) * 100 : 0,
-      collateral,
-      effectiveCapital: Number(metrics.effectiveCapital) / 1e9,
-      marginHealth: metrics.health,
-      marginRatioBps: metrics.marginRatioBps,
-      liquidationPrice,
-      isLP: account.kind === AccountKind.LP,
-      status: metrics.status,
-    });
+    positions.push(toSlabPosition(idx, account, params, oraclePriceE6, solUsdPrice, detailSlot, engine.fundingIndexQpbE6));
   }
 
   const longs = positions.filter(p => p.side === 'long');
@@ -632,6 +709,7 @@ export async function getSlabMarketData(slabAddress: string, hints?: SlabHints):
       liquidationFeeBps: Number(params.liquidationFeeBps),
       maxAccounts: Number(params.maxAccounts),
       warmupPeriodSlots: params.warmupPeriodSlots.toString(),
+      maintenanceFeePerSlot: params.maintenanceFeePerSlot.toString(),
       maxCrankStalenessSlots: params.maxCrankStalenessSlots.toString(),
     },
 
@@ -639,6 +717,7 @@ export async function getSlabMarketData(slabAddress: string, hints?: SlabHints):
     solUsdPrice,
     invertedMarket: config.invert === 1,
     maxAccountCapacity,
+    oracle: toOracleJson(oracle),
 
     fundingRate,
 
@@ -668,3 +747,158 @@ export async function getSlabMarketData(slabAddress: string, hints?: SlabHints):
   setCache(cacheKey, detail);
   return detail;
 }
+
+// ============================================================================
+// Single-account fetcher — account view
+// ============================================================================
+
+export interface AccountDetail {
+  slabPubkey: string;
+  programId: string;
+  programLabel: string;
+  network: NetworkId;
+  accountIndex: number;
+
+  /** Every parsed Account field, bigints as decimal strings */
+  account: {
+    kind: 'user' | 'lp';
+    accountId: string;
+    owner: string;
+    capital: string;
+    pnl: string;
+    reservedPnl: string;
+    warmupStartedAtSlot: string;
+    warmupSlopePerStep: string;
+    positionSize: string;
+    entryPrice: string;
+    fundingIndex: string;
+    matcherProgram: string;
+    matcherContext: string;
+    feeCredits: string;
+    lastFeeSlot: string;
+  };
+
+  /** computeMarginMetrics at the current oracle price; amounts in SOL */
+  metrics: {
+    notional: number;
+    maintenanceReq: number;
+    initialReq: number;
+    unrealizedPnl: number;
+    effectiveCapital: number;
+    buffer: number;
+    marginRatioBps: number;
+    health: number;
+    isLiquidatable: boolean;
+    isAtRisk: boolean;
+    status: 'safe' | 'at_risk' | 'liquidatable';
+  };
+
+  /** Same derived view as the slab detail's position list */
+  position: SlabPosition;
+
+  params: {
+    maintenanceMarginBps: number;
+    initialMarginBps: number;
+    warmupPeriodSlots: string;
+    maintenanceFeePerSlot: string;
+  };
+
+  oraclePriceE6: string;
+  solUsdPrice: number;
+  invertedMarket: boolean;
+  slot: number;
+  timestamp: string;
+}
+
+/**
+ * Fetch one account of a slab with its margin metrics.
+ * Throws "not found" when the slot index is not in use.
+ * Caches for 5s per slab + index.
+ */
+export async function getAccountDetail(
+  slabAddress: string,
+  idx: number,
+  hints?: SlabHints,
+): Promise<AccountDetail> {
+  const cacheKey = `account_detail_${slabAddress}_${idx}`;
+  const cached = getCached<AccountDetail>(cacheKey, CACHE_DURATIONS.SLAB);
+  if (cached) return cached;
+
+  const resolved = await resolveSlabProgram(slabAddress, hints);
+  if (!resolved) throw new Error(`Slab not found on any known program: ${slabAddress}`);
+  const { entry, connection, accountData: slabData } = resolved;
+
+  const layout = slabLayoutOf(slabData, entry);
+  const config = parseConfig(slabData, layout);
+  const params = parseParams(slabData, layout);
+  const engine = parseEngine(slabData, layout);
+  if (!parseUsedIndices(slabData, layout).includes(idx)) {
+    throw new Error(`Account ${idx} not found in slab ${slabAddress}`);
+  }
+  const account = parseAccount(slabData, idx, layout);
+
+  const [slot, price] = await Promise.all([
+    connection.getSlot('confirmed').catch(() => 0),
+    resolveSlabOraclePrice(entry, connection, config),
+  ]);
+  const detailSlot = slot > 0 ? BigInt(slot) : engine.currentSlot;
+  const metrics = computeMarginMetrics(account, price.oraclePriceE6, params, engine.fundingIndexQpbE6, detailSlot);
+
+  const detail: AccountDetail = {
+    slabPubkey: slabAddress,
+    programId: entry.programId,
+    programLabel: entry.label,
+    network: entry.network,
+    accountIndex: idx,
+
+    account: {
+      kind: account.kind === AccountKind.LP ? 'lp' : 'user',
+      accountId: account.accountId.toString(),
+      owner: account.owner.toBase58(),
+      capital: account.capital.toString(),
+      pnl: account.pnl.toString(),
+      reservedPnl: account.reservedPnl.toString(),
+      warmupStartedAtSlot: account.warmupStartedAtSlot.toString(),
+      warmupSlopePerStep: account.warmupSlopePerStep.toString(),
+      positionSize: account.positionSize.toString(),
+      entryPrice: account.entryPrice.toString(),
+      fundingIndex: account.fundingIndex.toString(),
+      matcherProgram: account.matcherProgram.toBase58(),
+      matcherContext: account.matcherContext.toBase58(),
+      feeCredits: account.feeCredits.toString(),
+      lastFeeSlot: account.lastFeeSlot.toString(),
+    },
+
+    metrics: {
+      notional: Number(metrics.notionalLamports) / 1e9,
+      maintenanceReq: Number(metrics.maintenanceReq) / 1e9,
+      initialReq: Number(metrics.initialReq) / 1e9,
+      unrealizedPnl: Number(metrics.unrealizedPnl) / 1e9,
+      effectiveCapital: Number(metrics.effectiveCapital) / 1e9,
+      buffer: Number(metrics.buffer) / 1e9,
+      marginRatioBps: metrics.marginRatioBps,
+      health: metrics.health,
+      isLiquidatable: metrics.isLiquidatable,
+      isAtRisk: metrics.isAtRisk,
+      status: metrics.status,
+    },
+
+    position: toSlabPosition(idx, account, params, price.oraclePriceE6, price.solUsdPrice, detailSlot, engine.fundingIndexQpbE6),
+
+    params: {
+      maintenanceMarginBps: Number(params.maintenanceMarginBps),
+      initialMarginBps: Number(params.initialMarginBps),
+      warmupPeriodSlots: params.warmupPeriodSlots.toString(),
+      maintenanceFeePerSlot: params.maintenanceFeePerSlot.toString(),
+    },
+
+    oraclePriceE6: price.oraclePriceE6.toString(),
+    solUsdPrice: price.solUsdPrice,
+    invertedMarket: config.invert === 1,
+    slot,
+    timestamp: new Date().toISOString(),
+  };
+
+  setCache(cacheKey, detail);
+  return detail;
+}
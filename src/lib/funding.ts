@@ -0,0 +1,257 @@
+/**
+ * Funding history — realized funding, cumulative payments and APR per slab.
+ *
+ * Each crank accrues funding into the engine's fundingIndexQpbE6 (price ×
+ * rate bps × slots / 10_000, quote per base, e6), and an account settles
+ * position × Δindex / 1e6 against its PnL. Sampling the index is therefore
+ * enough to recover what was paid between two samples:
+ *
+ *   realized bps   Δindex × 10_000 / price
+ *   longs paid     long OI × Δindex / 1e6    (negative: longs received)
+ *   shorts paid    -short OI × Δindex / 1e6
+ *
+ * Long and short are the engine's sides, as in calculateFundingRate. APRs
+ * annualize per-slot funding with the measured slot time (slot-time.ts)
+ * rather than a fixed slots-per-hour.
+ *
+ * Samples are written by the slab funding route, or by the indexer while it
+ * runs, at most once a minute and only once the index has accrued further.
+ * They are kept for 30 days.
+ */
+import type { SlabDetail } from './fetcher';
+import type { FundingPoint, SampleQuery } from './history-store';
+import { resolveMintSymbol } from './known-mints';
+import { annualizeBpsPerSlot } from './percolator';
+import { getHistoryStore } from './price-history';
+import type { SlotTiming } from './slot-time';
+import type { EngineState } from './types';
+
+export type { FundingPoint } from './history-store';
+
+const MIN_INTERVAL_MS = 60_000;         // Don't record faster than once a minute
+const DEFAULT_WINDOW_MS = 86_400_000;   // Reports cover the last 24h by default
+const PERIOD_MS = 3_600_000;            // Rollup rows are hourly
+
+// Per-process dedupe; the store itself is append-only
+const lastRecorded = new Map<string, { at: number; slot: number }>();
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export type FundingDirection = 'longs_pay' | 'shorts_pay' | 'neutral';
+
+export interface FundingTotals {
+  slots: number;
+  /** Funding per unit of notional; positive when longs paid */
+  realizedBps: number;
+  /** realizedBps annualized over `slots`; null when no slots passed */
+  aprPct: number | null;
+  /** Collateral paid by longs / shorts in SOL; negative when received */
+  longsPaid: number;
+  shortsPaid: number;
+}
+
+/** Funding realized between two consecutive samples */
+export interface FundingInterval extends FundingTotals {
+  from: string;
+  to: string;
+  /** realizedBps summed from the start of the window */
+  cumulativeBps: number;
+}
+
+/** Intervals rolled up by the hour they ended in */
+export interface FundingPeriod extends FundingTotals {
+  /** Hour start, ISO */
+  start: string;
+  intervals: number;
+}
+
+export interface FundingReport {
+  slabAddress: string;
+  collateralSymbol: string;
+  /** The engine's last applied rate, at the measured slot time */
+  current: {
+    index: string;
+    fundingSlot: number;
+    rateBpsPerSlot: number;
+    rateBpsPerHour: number;
+    aprPct: number;
+    direction: FundingDirection;
+  };
+  slotTiming: SlotTiming;
+  window: { from: string | null; to: string | null; samples: number };
+  /** Totals over the window */
+  cumulative: FundingTotals;
+  /** Ascending time order */
+  intervals: FundingInterval[];
+  /** Newest first */
+  periods: FundingPeriod[];
+  generatedAt: string;
+}
+
+// ── Sampling ────────────────────────────────────────────────────────────
+
+/** Build a sample from engine state, the oracle price and every account's position size */
+export function toFundingPoint(
+  t: string,
+  engine: Pick<EngineState, 'fundingIndexQpbE6' | 'lastFundingSlot' | 'fundingRateBpsPerSlotLast'>,
+  oraclePriceE6: bigint,
+  positionSizes: bigint[],
+): FundingPoint {
+  let longOi = 0n;
+  let shortOi = 0n;
+  for (const size of positionSizes) {
+    if (size > 0n) longOi += size;
+    else shortOi -= size;
+  }
+  return {
+    t,
+    slot: Number(engine.lastFundingSlot),
+    index: engine.fundingIndexQpbE6.toString(),
+    rateBpsPerSlot: Number(engine.fundingRateBpsPerSlotLast),
+    priceE6: Number(oraclePriceE6),
+    longOi: Number(longOi),
+    shortOi: Number(shortOi),
+  };
+}
+
+/** Current sample for a fetched slab */
+export function sampleSlabFunding(detail: SlabDetail): FundingPoint {
+  return toFundingPoint(
+    detail.timestamp,
+    {
+      fundingIndexQpbE6: BigInt(detail.engine.fundingIndexQpbE6),
+      lastFundingSlot: BigInt(detail.engine.lastFundingSlot),
+      fundingRateBpsPerSlotLast: BigInt(detail.engine.fundingRateBpsPerSlotLast),
+    },
+    BigInt(detail.oraclePriceE6),
+    detail.positions.map((p) => BigInt(p.rawSize)),
+  );
+}
+
+/**
+ * Record a funding sample for a slab.
+ * Skipped until a minute has passed and the index has accrued past the last
+ * recorded slot, so idle markets don't fill the store.
+ */
+export function recordFundingPoint(slabAddress: string, point: FundingPoint): void {
+  const now = Date.now();
+  const last = lastRecorded.get(slabAddress);
+  if (last && (now - last.at < MIN_INTERVAL_MS || point.slot <= last.slot)) return;
+  lastRecorded.set(slabAddress, { at: now, slot: point.slot });
+
+  try {
+    getHistoryStore().appendFundingPoint(slabAddress, point);
+  } catch (err) {
+    console.warn(`[funding] Failed to record point for ${slabAddress}:`, err);
+  }
+}
+
+// ── Realized funding ────────────────────────────────────────────────────
+
+function totals(parts: FundingTotals[], msPerSlot: number): FundingTotals {
+  const slots = parts.reduce((sum, p) => sum + p.slots, 0);
+  const realizedBps = parts.reduce((sum, p) => sum + p.realizedBps, 0);
+  return {
+    slots,
+    realizedBps,
+    aprPct: slots > 0 ? annualizeBpsPerSlot(realizedBps / slots, msPerSlot) : null,
+    longsPaid: parts.reduce((sum, p) => sum + p.longsPaid, 0),
+    shortsPaid: parts.reduce((sum, p) => sum + p.shortsPaid, 0),
+  };
+}
+
+/**
+ * Funding between consecutive samples. Payments use the open interest at the
+ * start of each interval and the price at its end, so they are estimates
+ * when either moved between cranks.
+ */
+export function fundingIntervals(points: FundingPoint[], msPerSlot: number): FundingInterval[] {
+  const intervals: FundingInterval[] = [];
+  let cumulativeBps = 0;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const slots = b.slot - a.slot;
+    if (slots <= 0) continue;
+
+    const delta = Number(BigInt(b.index) - BigInt(a.index));
+    const price = b.priceE6 > 0 ? b.priceE6 : a.priceE6;
+    const realizedBps = price > 0 ? delta * 10_000 / price : 0;
+    cumulativeBps += realizedBps;
+    intervals.push({
+      from: a.t,
+      to: b.t,
+      slots,
+      realizedBps,
+      aprPct: annualizeBpsPerSlot(realizedBps / slots, msPerSlot),
+      longsPaid: a.longOi * delta / 1e6 / 1e9,
+      shortsPaid: -a.shortOi * delta / 1e6 / 1e9,
+      cumulativeBps,
+    });
+  }
+  return intervals;
+}
+
+function hourlyPeriods(intervals: FundingInterval[], msPerSlot: number): FundingPeriod[] {
+  const byHour = new Map<number, FundingInterval[]>();
+  for (const interval of intervals) {
+    const hour = Math.floor(new Date(interval.to).getTime() / PERIOD_MS) * PERIOD_MS;
+    byHour.set(hour, [...(byHour.get(hour) ?? []), interval]);
+  }
+  return [...byHour]
+    .sort(([a], [b]) => b - a)
+    .map(([hour, parts]) => ({
+      start: new Date(hour).toISOString(),
+      intervals: parts.length,
+      ...totals(parts, msPerSlot),
+    }));
+}
+
+/** Realized funding for a slab since `fromMs`; null with fewer than two samples */
+export function getRealizedFunding(slabAddress: string, fromMs: number, msPerSlot: number): FundingTotals | null {
+  const points = getHistoryStore().fundingHistory(slabAddress, { from: fromMs });
+  if (points.length < 2) return null;
+  return totals(fundingIntervals(points, msPerSlot), msPerSlot);
+}
+
+/**
+ * Funding report for a slab: the engine's current rate, and realized
+ * funding over the recorded samples (defaults to the last 24 hours).
+ */
+export function getFundingReport(
+  detail: SlabDetail,
+  current: FundingPoint,
+  slotTiming: SlotTiming,
+  query: SampleQuery = {},
+): FundingReport {
+  const { msPerSlot } = slotTiming;
+  const points = getHistoryStore().fundingHistory(detail.slabPubkey, {
+    ...query,
+    from: query.from ?? (query.limit === undefined ? Date.now() - DEFAULT_WINDOW_MS : undefined),
+  });
+  const intervals = fundingIntervals(points, msPerSlot);
+  const rate = current.rateBpsPerSlot;
+
+  return {
+    slabAddress: detail.slabPubkey,
+    collateralSymbol: resolveMintSymbol(detail.config.collateralMint),
+    current: {
+      index: current.index,
+      fundingSlot: current.slot,
+      rateBpsPerSlot: rate,
+      rateBpsPerHour: rate * 3_600_000 / msPerSlot,
+      aprPct: annualizeBpsPerSlot(rate, msPerSlot),
+      direction: rate > 0 ? 'longs_pay' : rate < 0 ? 'shorts_pay' : 'neutral',
+    },
+    slotTiming,
+    window: {
+      from: points[0]?.t ?? null,
+      to: points[points.length - 1]?.t ?? null,
+      samples: points.length,
+    },
+    cumulative: totals(intervals, msPerSlot),
+    intervals,
+    periods: hourlyPeriods(intervals, msPerSlot),
+    generatedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,451 @@
+/**
+ * SQLite history backend (better-sqlite3).
+ *
+ * One table holds every resolution. Each row is a bucket accumulator
+ * (see BucketRow); raw samples are simply buckets with n = 1. Writes upsert
+ * all four resolutions inside one transaction so rollups never lag the raw data.
+ *
+ * WAL mode lets the indexer write while API routes read the same file.
+ */
+import Database from 'better-sqlite3';
+import {
+  HISTORY_RESOLUTIONS,
+  DEFAULT_RETENTION,
+  MAX_STORED_EVENTS,
+  MAX_CRANK_LOG,
+  ACCOUNT_RETENTION_MS,
+  DIVERGENCE_RETENTION_MS,
+  FUNDING_RETENTION_MS,
+  bucketStart,
+  bucketToCandle,
+  newBucket,
+  type AccountPoint,
+  type BucketRow,
+  type CrankLogEntry,
+  type HistoryStore,
+  type RetentionPolicy,
+} from './history-store';
+import type { ActivityEvent } from './types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS price_buckets (
+    slab    TEXT    NOT NULL,
+    res     TEXT    NOT NULL,
+    t       INTEGER NOT NULL,
+    o       REAL    NOT NULL,
+    h       REAL    NOT NULL,
+    l       REAL    NOT NULL,
+    c       REAL    NOT NULL,
+    tvl     REAL    NOT NULL,
+    oi_sum  REAL    NOT NULL,
+    fr_sum  REAL    NOT NULL,
+    n       INTEGER NOT NULL,
+    PRIMARY KEY (slab, res, t)
+  ) WITHOUT ROWID;
+
+  CREATE TABLE IF NOT EXISTS account_points (
+    slab       TEXT    NOT NULL,
+    idx        INTEGER NOT NULL,
+    t          INTEGER NOT NULL,
+    account_id TEXT    NOT NULL,
+    capital    REAL    NOT NULL,
+    pnl        REAL    NOT NULL,
+    upnl       REAL    NOT NULL,
+    position   REAL    NOT NULL,
+    PRIMARY KEY (slab, idx, t)
+  ) WITHOUT ROWID;
+  CREATE INDEX IF NOT EXISTS account_points_t ON account_points (t);
+
+  CREATE TABLE IF NOT EXISTS divergence_points (
+    slab        TEXT    NOT NULL,
+    t           INTEGER NOT NULL,
+    mark_price  REAL,
+    index_price REAL,
+    dex_price   REAL,
+    PRIMARY KEY (slab, t)
+  ) WITHOUT ROWID;
+  CREATE INDEX IF NOT EXISTS divergence_points_t ON divergence_points (t);
+
+  CREATE TABLE IF NOT EXISTS funding_points (
+    slab          TEXT    NOT NULL,
+    t             INTEGER NOT NULL,
+    funding_slot  INTEGER NOT NULL,
+    funding_index TEXT    NOT NULL,
+    rate_bps      REAL    NOT NULL,
+    price_e6      REAL    NOT NULL,
+    long_oi       REAL    NOT NULL,
+    short_oi      REAL    NOT NULL,
+    PRIMARY KEY (slab, t)
+  ) WITHOUT ROWID;
+  CREATE INDEX IF NOT EXISTS funding_points_t ON funding_points (t);
+
+  CREATE TABLE IF NOT EXISTS activity_events (
+    id        INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp TEXT    NOT NULL,
+    event     TEXT    NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS activity_events_ts ON activity_events (timestamp);
+
+  CREATE TABLE IF NOT EXISTS crank_log (
+    id            INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp     INTEGER NOT NULL,
+    slab          TEXT    NOT NULL,
+    program_id    TEXT    NOT NULL,
+    network       TEXT    NOT NULL,
+    signature     TEXT,
+    slot          INTEGER NOT NULL,
+    latency_ms    INTEGER NOT NULL,
+    compute_units INTEGER,
+    fee_lamports  INTEGER,
+    error         TEXT
+  );
+  CREATE INDEX IF NOT EXISTS crank_log_slab ON crank_log (slab, id);
+
+  CREATE TABLE IF NOT EXISTS meta (
+    key   TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  ) WITHOUT ROWID;
+`;
+
+interface SqliteCrankRow {
+  id: number;
+  timestamp: number;
+  slab: string;
+  program_id: string;
+  network: CrankLogEntry['network'];
+  signature: string | null;
+  slot: number;
+  latency_ms: number;
+  compute_units: number | null;
+  fee_lamports: number | null;
+  error: string | null;
+}
+
+interface SqliteAccountRow {
+  t: number;
+  account_id: string;
+  capital: number;
+  pnl: number;
+  upnl: number;
+  position: number;
+}
+
+interface SqliteDivergenceRow {
+  t: number;
+  mark_price: number | null;
+  index_price: number | null;
+  dex_price: number | null;
+}
+
+interface SqliteFundingRow {
+  t: number;
+  funding_slot: number;
+  funding_index: string;
+  rate_bps: number;
+  price_e6: number;
+  long_oi: number;
+  short_oi: number;
+}
+
+interface SqliteBucketRow {
+  t: number;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  tvl: number;
+  oi_sum: number;
+  fr_sum: number;
+  n: number;
+}
+
+export interface SqliteHistoryStoreOptions {
+  retention?: RetentionPolicy;
+}
+
+export function createSqliteHistoryStore(
+  path: string,
+  opts: SqliteHistoryStoreOptions = {},
+): HistoryStore {
+  const retention = opts.retention ?? DEFAULT_RETENTION;
+
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = NORMAL');
+  db.exec(SCHEMA);
+
+  // Raw buckets are keyed by exact timestamp, so a duplicate sample is ignored.
+  // Rollup buckets merge: keep open, extend high/low, move close, add sums.
+  const upsert = db.prepare(`
+    INSERT INTO price_buckets (slab, res, t, o, h, l, c, tvl, oi_sum, fr_sum, n)
+    VALUES (@slab, @res, @t, @o, @h, @l, @c, @tvl, @oiSum, @frSum, @n)
+    ON CONFLICT (slab, res, t) DO UPDATE SET
+      h = max(h, excluded.h),
+      l = min(l, excluded.l),
+      c = excluded.c,
+      tvl = excluded.tvl,
+      oi_sum = oi_sum + excluded.oi_sum,
+      fr_sum = fr_sum + excluded.fr_sum,
+      n = n + excluded.n
+    WHERE res != 'raw'
+  `);
+
+  const selectRange = db.prepare(`
+    SELECT t, o, h, l, c, tvl, oi_sum, fr_sum, n FROM price_buckets
+    WHERE slab = @slab AND res = @res AND t >= @from AND t <= @to
+    ORDER BY t DESC
+    LIMIT @limit
+  `);
+
+  const selectSlabs = db.prepare(`SELECT DISTINCT slab FROM price_buckets`);
+  const deleteOlder = db.prepare(`DELETE FROM price_buckets WHERE res = @res AND t < @cutoff`);
+
+  const insertAccountPoint = db.prepare(`
+    INSERT OR IGNORE INTO account_points (slab, idx, t, account_id, capital, pnl, upnl, position)
+    VALUES (@slab, @idx, @t, @id, @capital, @pnl, @upnl, @position)
+  `);
+  const selectAccountRange = db.prepare(`
+    SELECT t, account_id, capital, pnl, upnl, position FROM account_points
+    WHERE slab = @slab AND idx = @idx AND t >= @from AND t <= @to
+      AND (@accountId IS NULL OR account_id = @accountId)
+    ORDER BY t DESC
+    LIMIT @limit
+  `);
+  const deleteOlderAccountPoints = db.prepare(`DELETE FROM account_points WHERE t < ?`);
+
+  const insertDivergencePoint = db.prepare(`
+    INSERT OR IGNORE INTO divergence_points (slab, t, mark_price, index_price, dex_price)
+    VALUES (@slab, @t, @mark, @index, @dex)
+  `);
+  const selectDivergenceRange = db.prepare(`
+    SELECT t, mark_price, index_price, dex_price FROM divergence_points
+    WHERE slab = @slab AND t >= @from AND t <= @to
+    ORDER BY t DESC
+    LIMIT @limit
+  `);
+  const deleteOlderDivergencePoints = db.prepare(`DELETE FROM divergence_points WHERE t < ?`);
+
+  const insertFundingPoint = db.prepare(`
+    INSERT OR IGNORE INTO funding_points (slab, t, funding_slot, funding_index, rate_bps, price_e6, long_oi, short_oi)
+    VALUES (@slab, @t, @slot, @index, @rateBpsPerSlot, @priceE6, @longOi, @shortOi)
+  `);
+  const selectFundingRange = db.prepare(`
+    SELECT t, funding_slot, funding_index, rate_bps, price_e6, long_oi, short_oi FROM funding_points
+    WHERE slab = @slab AND t >= @from AND t <= @to
+    ORDER BY t DESC
+    LIMIT @limit
+  `);
+  const deleteOlderFundingPoints = db.prepare(`DELETE FROM funding_points WHERE t < ?`);
+
+  const insertEvent = db.prepare(`INSERT INTO activity_events (timestamp, event) VALUES (?, ?)`);
+  const selectEvents = db.prepare(`SELECT event FROM activity_events ORDER BY timestamp DESC, id DESC LIMIT ?`);
+  const trimEvents = db.prepare(`
+    DELETE FROM activity_events WHERE id NOT IN (
+      SELECT id FROM activity_events ORDER BY timestamp DESC, id DESC LIMIT ?
+    )
+  `);
+  const insertCrank = db.prepare(`
+    INSERT INTO crank_log
+      (timestamp, slab, program_id, network, signature, slot, latency_ms, compute_units, fee_lamports, error)
+    VALUES
+      (@timestamp, @slab, @programId, @network, @signature, @slot, @latencyMs, @computeUnits, @feeLamports, @error)
+  `);
+  const trimCranks = db.prepare(`DELETE FROM crank_log WHERE id <= ?`);
+  const selectCranks = db.prepare(`
+    SELECT * FROM crank_log
+    WHERE id < @before AND (@slab IS NULL OR slab = @slab)
+    ORDER BY id DESC
+    LIMIT @limit
+  `);
+
+  const upsertMeta = db.prepare(`
+    INSERT INTO meta (key, value) VALUES (?, ?)
+    ON CONFLICT (key) DO UPDATE SET value = excluded.value
+  `);
+  const selectMeta = db.prepare(`SELECT value FROM meta WHERE key = ?`);
+
+  const appendEventsTx = db.transaction((events: ActivityEvent[]) => {
+    for (const e of events) insertEvent.run(e.timestamp, JSON.stringify(e));
+    trimEvents.run(MAX_STORED_EVENTS);
+  });
+
+  const appendAccountPointsTx = db.transaction((slabAddress: string, points: { idx: number; point: AccountPoint }[]) => {
+    for (const { idx, point } of points) {
+      insertAccountPoint.run({ slab: slabAddress, idx, ...point, t: new Date(point.t).getTime() });
+    }
+  });
+
+  const appendTx = db.transaction((slabAddress: string, rows: { res: string; row: BucketRow }[]) => {
+    for (const { res, row } of rows) {
+      upsert.run({ slab: slabAddress, res, ...row });
+    }
+  });
+
+  return {
+    kind: 'sqlite',
+
+    append(slabAddress, point) {
+      const tMs = new Date(point.t).getTime();
+      appendTx(
+        slabAddress,
+        HISTORY_RESOLUTIONS.map((res) => ({ res, row: newBucket(bucketStart(tMs, res), point) })),
+      );
+    },
+
+    query(slabAddress, q = {}) {
+      const rows = selectRange.all({
+        slab: slabAddress,
+        res: q.resolution ?? 'raw',
+        from: q.from ?? 0,
+        to: q.to ?? Number.MAX_SAFE_INTEGER,
+        limit: q.limit ?? -1,
+      }) as SqliteBucketRow[];
+
+      return rows.reverse().map((r) =>
+        bucketToCandle({
+          t: r.t,
+          o: r.o,
+          h: r.h,
+          l: r.l,
+          c: r.c,
+          tvl: r.tvl,
+          oiSum: r.oi_sum,
+          frSum: r.fr_sum,
+          n: r.n,
+        }),
+      );
+    },
+
+    listSlabs() {
+      return (selectSlabs.all() as { slab: string }[]).map((r) => r.slab);
+    },
+
+    appendAccountPoints(slabAddress, points) {
+      if (points.length === 0) return;
+      appendAccountPointsTx(slabAddress, points);
+    },
+
+    accountHistory(slabAddress, idx, q = {}) {
+      const rows = selectAccountRange.all({
+        slab: slabAddress,
+        idx,
+        from: q.from ?? 0,
+        to: q.to ?? Number.MAX_SAFE_INTEGER,
+        accountId: q.accountId ?? null,
+        limit: q.limit ?? -1,
+      }) as SqliteAccountRow[];
+
+      return rows.reverse().map((r) => ({
+        t: new Date(r.t).toISOString(),
+        id: r.account_id,
+        capital: r.capital,
+        pnl: r.pnl,
+        upnl: r.upnl,
+        position: r.position,
+      }));
+    },
+
+    appendDivergencePoint(slabAddress, point) {
+      insertDivergencePoint.run({ slab: slabAddress, ...point, t: new Date(point.t).getTime() });
+    },
+
+    divergenceHistory(slabAddress, q = {}) {
+      const rows = selectDivergenceRange.all({
+        slab: slabAddress,
+        from: q.from ?? 0,
+        to: q.to ?? Number.MAX_SAFE_INTEGER,
+        limit: q.limit ?? -1,
+      }) as SqliteDivergenceRow[];
+
+      return rows.reverse().map((r) => ({
+        t: new Date(r.t).toISOString(),
+        mark: r.mark_price,
+        index: r.index_price,
+        dex: r.dex_price,
+      }));
+    },
+
+    appendFundingPoint(slabAddress, point) {
+      insertFundingPoint.run({ slab: slabAddress, ...point, t: new Date(point.t).getTime() });
+    },
+
+    fundingHistory(slabAddress, q = {}) {
+      const rows = selectFundingRange.all({
+        slab: slabAddress,
+        from: q.from ?? 0,
+        to: q.to ?? Number.MAX_SAFE_INTEGER,
+        limit: q.limit ?? -1,
+      }) as SqliteFundingRow[];
+
+      return rows.reverse().map((r) => ({
+        t: new Date(r.t).toISOString(),
+        slot: r.funding_slot,
+        index: r.funding_index,
+        rateBpsPerSlot: r.rate_bps,
+        priceE6: r.price_e6,
+        longOi: r.long_oi,
+        shortOi: r.short_oi,
+      }));
+    },
+
+    prune(now = Date.now()) {
+      let removed = 0;
+      for (const res of HISTORY_RESOLUTIONS) {
+        const keepMs = retention[res];
+        if (keepMs === null) continue;
+        removed += deleteOlder.run({ res, cutoff: now - keepMs }).changes;
+      }
+      removed += deleteOlderAccountPoints.run(now - ACCOUNT_RETENTION_MS).changes;
+      removed += deleteOlderDivergencePoints.run(now - DIVERGENCE_RETENTION_MS).changes;
+      removed += deleteOlderFundingPoints.run(now - FUNDING_RETENTION_MS).changes;
+      return removed;
+    },
+
+    appendEvents(events) {
+      if (events.length === 0) return;
+      // Oldest first so ties on timestamp keep insertion order
+      appendEventsTx([...events].reverse());
+    },
+
+    recentEvents(limit) {
+      return (selectEvents.all(limit) as { event: string }[]).map((r) => JSON.parse(r.event) as ActivityEvent);
+    },
+
+    appendCrank(entry) {
+      const id = Number(insertCrank.run(entry).lastInsertRowid);
+      if (id > MAX_CRANK_LOG && id % 100 === 0) trimCranks.run(id - MAX_CRANK_LOG);
+      return id;
+    },
+
+    crankLog(q) {
+      const rows = selectCranks.all({
+        before: q.before ?? Number.MAX_SAFE_INTEGER,
+        slab: q.slab ?? null,
+        limit: q.limit,
+      }) as SqliteCrankRow[];
+
+      return rows.map((r) => ({
+        id: r.id,
+        timestamp: r.timestamp,
+        slab: r.slab,
+        programId: r.program_id,
+        network: r.network,
+        signature: r.signature,
+        slot: r.slot,
+        latencyMs: r.latency_ms,
+        computeUnits: r.compute_units,
+        feeLamports: r.fee_lamports,
+        error: r.error,
+      }));
+    },
+
+    setMeta(key, value) {
+      upsertMeta.run(key, value);
+    },
+
+    getMeta(key) {
+      const row = selectMeta.get(key) as { value: string } | undefined;
+      return row?.value ?? null;
+    },
+  };
+}
@@ -0,0 +1,517 @@
+/**
+ * Time-series storage for slab price history.
+ *
+ * A HistoryStore keeps raw samples (~10s apart) per slab and rolls them up
+ * into 1m / 1h / 1d candles as they are written. Each resolution has its own
+ * retention window so raw data stays short while daily candles live for years.
+ *
+ * Backends:
+ *   - memory: process-local, bounded by slab count (tests, Vercel)
+ *   - sqlite: file-backed via better-sqlite3 (self-hosting, shared with the indexer)
+ *
+ * Besides price buckets the store holds per-account samples, mark / index /
+ * DEX price samples, funding index samples, the activity event feed, the
+ * crank log and a small key/value meta table, so a separate indexer or crank
+ * process can share them with the API routes.
+ *
+ * The backend is chosen once per process in price-history.ts.
+ */
+import type { ActivityEvent } from './types';
+import type { NetworkId } from './registry';
+
+export interface PricePoint {
+  /** ISO timestamp */
+  t: string;
+  /** Price in USD */
+  p: number;
+  /** TVL in SOL */
+  tvl: number;
+  /** Open interest in SOL */
+  oi: number;
+  /** Funding rate bps/hour */
+  fr: number;
+}
+
+/**
+ * A rolled-up bucket. Keeps the PricePoint shape so charts can plot either:
+ * `t` is the bucket start, `p` the close, `tvl` the last sample,
+ * `oi` and `fr` the averages over the bucket.
+ */
+export interface PriceCandle extends PricePoint {
+  /** Open price */
+  o: number;
+  /** High price */
+  h: number;
+  /** Low price */
+  l: number;
+  /** Number of raw samples in the bucket */
+  n: number;
+}
+
+export type HistoryResolution = 'raw' | '1m' | '1h' | '1d';
+
+export const HISTORY_RESOLUTIONS: HistoryResolution[] = ['raw', '1m', '1h', '1d'];
+
+/** Bucket width per resolution in ms (raw = one bucket per sample) */
+export const RESOLUTION_MS: Record<HistoryResolution, number> = {
+  raw: 0,
+  '1m': 60_000,
+  '1h': 3_600_000,
+  '1d': 86_400_000,
+};
+
+/** How long each resolution is kept, in ms. `null` keeps forever. */
+export type RetentionPolicy = Record<HistoryResolution, number | null>;
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  raw: 24 * 3_600_000,        // 1 day of 10s samples
+  '1m': 7 * 86_400_000,       // 1 week
+  '1h': 90 * 86_400_000,      // ~1 quarter
+  '1d': null,                 // forever
+};
+
+export interface HistoryQuery {
+  resolution?: HistoryResolution;
+  /** Inclusive lower bound, epoch ms */
+  from?: number;
+  /** Inclusive upper bound, epoch ms */
+  to?: number;
+  /** Return at most this many of the most recent buckets */
+  limit?: number;
+}
+
+/** One keeper crank attempt */
+export interface CrankLogEntry {
+  /** Monotonic id, assigned by the store (paging cursor) */
+  id: number;
+  /** Attempt start, epoch ms */
+  timestamp: number;
+  slab: string;
+  programId: string;
+  network: NetworkId;
+  /** null if the attempt failed before sending */
+  signature: string | null;
+  slot: number;
+  /** Send → confirm, ms */
+  latencyMs: number;
+  computeUnits: number | null;
+  feeLamports: number | null;
+  error: string | null;
+}
+
+/** One account sample. Amounts in SOL; position in raw slab units. */
+export interface AccountPoint {
+  /** ISO timestamp */
+  t: string;
+  /** accountId at sample time; a reused slot index gets a new id */
+  id: string;
+  capital: number;
+  /** Realized PnL */
+  pnl: number;
+  /** Unrealized PnL at the sample's oracle price */
+  upnl: number;
+  position: number;
+}
+
+/** Time range for sample series (accounts, divergence, funding) */
+export interface SampleQuery {
+  /** Inclusive lower bound, epoch ms */
+  from?: number;
+  /** Inclusive upper bound, epoch ms */
+  to?: number;
+  /** Return at most this many of the most recent points */
+  limit?: number;
+}
+
+export interface AccountHistoryQuery extends SampleQuery {
+  /** Only samples taken while the slot held this accountId; applied before `limit` */
+  accountId?: string;
+}
+
+/** How long account samples are kept, in ms */
+export const ACCOUNT_RETENTION_MS = 7 * 86_400_000;
+
+/** Samples kept per account by the memory backend */
+export const MAX_ACCOUNT_POINTS = 2000;
+
+/**
+ * One mark / index / DEX price sample for a slab, all in the feed's
+ * orientation. A price that couldn't be read is null.
+ */
+export interface DivergencePoint {
+  /** ISO timestamp */
+  t: string;
+  /** Last effective price the engine accepted */
+  mark: number | null;
+  /** Live oracle feed price */
+  index: number | null;
+  /** Price-provider market price in the index's units (see divergence.ts) */
+  dex: number | null;
+}
+
+/** How long divergence samples are kept, in ms */
+export const DIVERGENCE_RETENTION_MS = 7 * 86_400_000;
+
+/** Samples kept per slab by the memory backend */
+export const MAX_DIVERGENCE_POINTS = 2000;
+
+/**
+ * One funding sample for a slab. Sides are the engine's: long is a positive
+ * position size, as in calculateFundingRate.
+ */
+export interface FundingPoint {
+  /** ISO timestamp */
+  t: string;
+  /** Engine lastFundingSlot — the slot the index has accrued through */
+  slot: number;
+  /** Engine fundingIndexQpbE6 as a decimal string (i128) */
+  index: string;
+  /** Engine fundingRateBpsPerSlotLast */
+  rateBpsPerSlot: number;
+  /** Oracle price the index accrues against, e6 in the engine's orientation */
+  priceE6: number;
+  /** Summed long / short position size, raw slab units */
+  longOi: number;
+  shortOi: number;
+}
+
+/** How long funding samples are kept, in ms */
+export const FUNDING_RETENTION_MS = 30 * 86_400_000;
+
+/** Samples kept per slab by the memory backend */
+export const MAX_FUNDING_POINTS = 2000;
+
+export interface CrankLogQuery {
+  /** Only entries with id < before (next page) */
+  before?: number;
+  limit: number;
+  slab?: string;
+}
+
+export interface HistoryStore {
+  readonly kind: 'memory' | 'sqlite';
+  /** Append a raw sample and update every rollup bucket it falls into */
+  append(slabAddress: string, point: PricePoint): void;
+  /** Buckets in ascending time order */
+  query(slabAddress: string, query?: HistoryQuery): PriceCandle[];
+  /** Slab addresses with any stored history */
+  listSlabs(): string[];
+  /** Drop buckets older than the retention policy. Returns rows removed. */
+  prune(now?: number): number;
+  /** Append one sample per account index (writers dedupe; see price-history.ts) */
+  appendAccountPoints(slabAddress: string, points: { idx: number; point: AccountPoint }[]): void;
+  /** Samples for one account slot in ascending time order */
+  accountHistory(slabAddress: string, idx: number, query?: AccountHistoryQuery): AccountPoint[];
+  /** Append a price divergence sample (writers dedupe; see divergence.ts) */
+  appendDivergencePoint(slabAddress: string, point: DivergencePoint): void;
+  /** Divergence samples for a slab in ascending time order */
+  divergenceHistory(slabAddress: string, query?: SampleQuery): DivergencePoint[];
+  /** Append a funding sample (writers dedupe; see funding.ts) */
+  appendFundingPoint(slabAddress: string, point: FundingPoint): void;
+  /** Funding samples for a slab in ascending time order */
+  fundingHistory(slabAddress: string, query?: SampleQuery): FundingPoint[];
+  /** Append activity events (any order; stored by timestamp) */
+  appendEvents(events: ActivityEvent[]): void;
+  /** Most recent activity events, newest first */
+  recentEvents(limit: number): ActivityEvent[];
+  /** Append a crank attempt. Returns its id. */
+  appendCrank(entry: Omit<CrankLogEntry, 'id'>): number;
+  /** Crank attempts, newest first */
+  crankLog(query: CrankLogQuery): CrankLogEntry[];
+  setMeta(key: string, value: string): void;
+  getMeta(key: string): string | null;
+}
+
+/** Activity events kept by any backend */
+export const MAX_STORED_EVENTS = 1000;
+
+/** Crank log entries kept by any backend */
+export const MAX_CRANK_LOG = 10_000;
+
+// ============================================================================
+// Bucket arithmetic (shared by all backends)
+// ============================================================================
+
+/**
+ * Accumulator for one bucket. Averages are stored as sums so a bucket can be
+ * updated incrementally without re-reading its samples.
+ */
+export interface BucketRow {
+  /** Bucket start, epoch ms */
+  t: number;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  tvl: number;
+  oiSum: number;
+  frSum: number;
+  n: number;
+}
+
+export function bucketStart(tMs: number, resolution: HistoryResolution): number {
+  const width = RESOLUTION_MS[resolution];
+  return width === 0 ? tMs : Math.floor(tMs / width) * width;
+}
+
+export function newBucket(t: number, point: PricePoint): BucketRow {
+  return {
+    t,
+    o: point.p,
+    h: point.p,
+    l: point.p,
+    c: point.p,
+    tvl: point.tvl,
+    oiSum: point.oi,
+    frSum: point.fr,
+    n: 1,
+  };
+}
+
+export function mergeIntoBucket(row: BucketRow, point: PricePoint): void {
+  if (point.p > row.h) row.h = point.p;
+  if (point.p < row.l) row.l = point.p;
+  row.c = point.p;
+  row.tvl = point.tvl;
+  row.oiSum += point.oi;
+  row.frSum += point.fr;
+  row.n += 1;
+}
+
+export function bucketToCandle(row: BucketRow): PriceCandle {
+  return {
+    t: new Date(row.t).toISOString(),
+    o: row.o,
+    h: row.h,
+    l: row.l,
+    p: row.c,
+    tvl: row.tvl,
+    oi: row.n > 0 ? row.oiSum / row.n : 0,
+    fr: row.n > 0 ? row.frSum / row.n : 0,
+    n: row.n,
+  };
+}
+
+export function isHistoryResolution(value: string | null | undefined): value is HistoryResolution {
+  return !!value && (HISTORY_RESOLUTIONS as string[]).includes(value);
+}
+
+// ============================================================================
+// In-memory backend
+// ============================================================================
+
+/** Drop samples (ISO `t`, ascending) older than `cutoffMs` in place. Returns rows removed. */
+function dropSamplesBefore(rows: { t: string }[], cutoffMs: number): number {
+  const firstKept = rows.findIndex((r) => new Date(r.t).getTime() >= cutoffMs);
+  const drop = firstKept === -1 ? rows.length : firstKept;
+  if (drop > 0) rows.splice(0, drop);
+  return drop;
+}
+
+export interface MemoryHistoryStoreOptions {
+  retention?: RetentionPolicy;
+  /** Max tracked slabs before LRU eviction */
+  maxSlabs?: number;
+}
+
+export function createMemoryHistoryStore(opts: MemoryHistoryStoreOptions = {}): HistoryStore {
+  const retention = opts.retention ?? DEFAULT_RETENTION;
+  const maxSlabs = opts.maxSlabs ?? 50;
+
+  // slab → resolution → buckets in ascending time order
+  const slabs = new Map<string, { lastWriteAt: number; series: Record<HistoryResolution, BucketRow[]> }>();
+  // slab → account index → samples in ascending time order
+  const accounts = new Map<string, Map<number, AccountPoint[]>>();
+  // slab → divergence samples in ascending time order
+  const divergence = new Map<string, DivergencePoint[]>();
+  // slab → funding samples in ascending time order
+  const funding = new Map<string, FundingPoint[]>();
+  // newest first
+  let events: ActivityEvent[] = [];
+  // oldest first
+  let cranks: CrankLogEntry[] = [];
+  let nextCrankId = 1;
+  const meta = new Map<string, string>();
+
+  function evictLru(): void {
+    let oldestKey = '';
+    let oldestTime = Infinity;
+    for (const [key, val] of slabs) {
+      if (val.lastWriteAt < oldestTime) {
+        oldestTime = val.lastWriteAt;
+        oldestKey = key;
+      }
+    }
+    if (oldestKey) {
+      slabs.delete(oldestKey);
+      accounts.delete(oldestKey);
+      divergence.delete(oldestKey);
+      funding.delete(oldestKey);
+    }
+  }
+
+  return {
+    kind: 'memory',
+
+    append(slabAddress, point) {
+      let entry = slabs.get(slabAddress);
+      if (!entry) {
+        if (slabs.size >= maxSlabs) evictLru();
+        entry = { lastWriteAt: 0, series: { raw: [], '1m': [], '1h': [], '1d': [] } };
+        slabs.set(slabAddress, entry);
+      }
+      entry.lastWriteAt = Date.now();
+
+      const tMs = new Date(point.t).getTime();
+      for (const resolution of HISTORY_RESOLUTIONS) {
+        const rows = entry.series[resolution];
+        const start = bucketStart(tMs, resolution);
+        const last = rows[rows.length - 1];
+        if (resolution !== 'raw' && last && last.t === start) {
+          mergeIntoBucket(last, point);
+        } else if (!last || start > last.t) {
+          rows.push(newBucket(start, point));
+        }
+        // Out-of-order samples are dropped; writers are append-only.
+      }
+    },
+
+    query(slabAddress, q = {}) {
+      const rows = slabs.get(slabAddress)?.series[q.resolution ?? 'raw'] ?? [];
+      let filtered = rows.filter(
+        (r) => (q.from === undefined || r.t >= q.from) && (q.to === undefined || r.t <= q.to),
+      );
+      if (q.limit !== undefined && filtered.length > q.limit) {
+        filtered = filtered.slice(-q.limit);
+      }
+      return filtered.map(bucketToCandle);
+    },
+
+    listSlabs() {
+      return [...slabs.keys()];
+    },
+
+    appendAccountPoints(slabAddress, points) {
+      let bySlab = accounts.get(slabAddress);
+      if (!bySlab) {
+        bySlab = new Map();
+        accounts.set(slabAddress, bySlab);
+      }
+      for (const { idx, point } of points) {
+        const rows = bySlab.get(idx) ?? [];
+        const last = rows[rows.length - 1];
+        if (last && point.t <= last.t) continue;
+        rows.push(point);
+        if (rows.length > MAX_ACCOUNT_POINTS) rows.splice(0, rows.length - MAX_ACCOUNT_POINTS);
+        bySlab.set(idx, rows);
+      }
+    },
+
+    accountHistory(slabAddress, idx, q = {}) {
+      const rows = accounts.get(slabAddress)?.get(idx) ?? [];
+      const filtered = rows.filter((r) => {
+        const t = new Date(r.t).getTime();
+        return (q.from === undefined || t >= q.from) && (q.to === undefined || t <= q.to)
+          && (q.accountId === undefined || r.id === q.accountId);
+      });
+      return q.limit !== undefined && filtered.length > q.limit ? filtered.slice(-q.limit) : filtered;
+    },
+
+    appendDivergencePoint(slabAddress, point) {
+      const rows = divergence.get(slabAddress) ?? [];
+      const last = rows[rows.length - 1];
+      if (last && point.t <= last.t) return;
+      rows.push(point);
+      if (rows.length > MAX_DIVERGENCE_POINTS) rows.splice(0, rows.length - MAX_DIVERGENCE_POINTS);
+      divergence.set(slabAddress, rows);
+    },
+
+    divergenceHistory(slabAddress, q = {}) {
+      const rows = divergence.get(slabAddress) ?? [];
+      const filtered = rows.filter((r) => {
+        const t = new Date(r.t).getTime();
+        return (q.from === undefined || t >= q.from) && (q.to === undefined || t <= q.to);
+      });
+      return q.limit !== undefined && filtered.length > q.limit ? filtered.slice(-q.limit) : filtered;
+    },
+
+    appendFundingPoint(slabAddress, point) {
+      const rows = funding.get(slabAddress) ?? [];
+      const last = rows[rows.length - 1];
+      if (last && point.t <= last.t) return;
+      rows.push(point);
+      if (rows.length > MAX_FUNDING_POINTS) rows.splice(0, rows.length - MAX_FUNDING_POINTS);
+      funding.set(slabAddress, rows);
+    },
+
+    fundingHistory(slabAddress, q = {}) {
+      const rows = funding.get(slabAddress) ?? [];
+      const filtered = rows.filter((r) => {
+        const t = new Date(r.t).getTime();
+        return (q.from === undefined || t >= q.from) && (q.to === undefined || t <= q.to);
+      });
+      return q.limit !== undefined && filtered.length > q.limit ? filtered.slice(-q.limit) : filtered;
+    },
+
+    prune(now = Date.now()) {
+      let removed = 0;
+      for (const entry of slabs.values()) {
+        for (const resolution of HISTORY_RESOLUTIONS) {
+          const keepMs = retention[resolution];
+          if (keepMs === null) continue;
+          const cutoff = now - keepMs;
+          const rows = entry.series[resolution];
+          const firstKept = rows.findIndex((r) => r.t >= cutoff);
+          const drop = firstKept === -1 ? rows.length : firstKept;
+          if (drop > 0) {
+            rows.splice(0, drop);
+            removed += drop;
+          }
+        }
+      }
+      for (const bySlab of accounts.values()) {
+        for (const rows of bySlab.values()) removed += dropSamplesBefore(rows, now - ACCOUNT_RETENTION_MS);
+      }
+      for (const rows of divergence.values()) removed += dropSamplesBefore(rows, now - DIVERGENCE_RETENTION_MS);
+      for (const rows of funding.values()) removed += dropSamplesBefore(rows, now - FUNDING_RETENTION_MS);
+      return removed;
+    },
+
+    appendEvents(newEvents) {
+      if (newEvents.length === 0) return;
+      events = [...newEvents, ...events]
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+        .slice(0, MAX_STORED_EVENTS);
+    },
+
+    recentEvents(limit) {
+      return events.slice(0, limit);
+    },
+
+    appendCrank(entry) {
+      const id = nextCrankId++;
+      cranks.push({ id, ...entry });
+      if (cranks.length > MAX_CRANK_LOG) cranks = cranks.slice(-MAX_CRANK_LOG);
+      return id;
+    },
+
+    crankLog(q) {
+      const out: CrankLogEntry[] = [];
+      for (let i = cranks.length - 1; i >= 0 && out.length < q.limit; i--) {
+        const c = cranks[i];
+        if (q.before !== undefined && c.id >= q.before) continue;
+        if (q.slab && c.slab !== q.slab) continue;
+        out.push(c);
+      }
+      return out;
+    },
+
+    setMeta(key, value) {
+      meta.set(key, value);
+    },
+
+    getMeta(key) {
+      return meta.get(key) ?? null;
+    },
+  };
+}
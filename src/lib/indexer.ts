@@ -0,0 +1,195 @@
+/**
+ * Background slab indexer.
+ *
+ * Samples every active slab across all registered programs on a schedule,
+ * independent of browser traffic, and writes price points, account samples,
+ * mark / index / DEX divergence samples, funding samples and activity events
+ * to the shared history store. Run it with
+ * `npm run indexer` (scripts/indexer.ts) pointed at the same SLAB_HISTORY_DB
+ * as the web app.
+ *
+ * While the indexer heartbeat is fresh, API routes skip their own
+ * opportunistic sampling (see isIndexerLive) to avoid double-recording.
+ */
+import { PublicKey } from '@solana/web3.js';
+import { scanEcosystem } from './radar';
+import { getNetworkConnection } from './connections';
+import { batchFetchAccounts, batchFetchVaultBalances, toAccountPoint, toSlabPosition } from './fetcher';
+import { parseConfig, parseParams, parseEngine, parseAllAccounts, calculateFundingRate } from './percolator';
+import { readOraclesForSlabs, slabOraclePrice } from './oracle';
+import { recordPricePoint, recordAccountPoints, getHistoryStore } from './price-history';
+import { recordSnapshot } from './activity';
+import { getTokenPrices } from './price-providers';
+import { dexPriceFor, dexPriceMints, recordDivergencePoint, toDivergencePoint } from './divergence';
+import { recordFundingPoint, toFundingPoint } from './funding';
+import { getSlotTiming } from './slot-time';
+import { slabLayoutOf } from './slab-layout';
+import { getRegistryEntry, type NetworkId } from './registry';
+import { CONFIG } from './constants';
+
+const HEARTBEAT_KEY = 'indexer_heartbeat';
+
+export interface IndexerCycleResult {
+  slabsSeen: number;
+  slabsRecorded: number;
+  failures: number;
+  durationMs: number;
+}
+
+interface IndexTarget {
+  pubkey: string;
+  /** Activity snapshot key; matches MarketData.slabLabel for the slabs the routes record */
+  label: string;
+  vaultPubkey: string;
+  collateralMint: string;
+  /** Registry oracle override, read instead of the slab's indexFeedId (as getSlabMarketData does) */
+  oracleAddress?: string;
+  programId: string;
+  /** Registry layout pin for the program (slab-layout.ts) */
+  layout?: string;
+}
+
+/**
+ * Snapshot one network's slabs: batch-fetch data + vaults, parse, record.
+ * Returns the number of slabs recorded.
+ */
+async function indexNetwork(network: NetworkId, targets: IndexTarget[]): Promise<number> {
+  const connection = getNetworkConnection(network);
+  const [buffers, vaults] = await Promise.all([
+    batchFetchAccounts(connection, targets.map((t) => new PublicKey(t.pubkey)), 10),
+    batchFetchVaultBalances(connection, targets.map((t) => new PublicKey(t.vaultPubkey)), 5),
+  ]);
+  const [oracles, { msPerSlot }] = await Promise.all([
+    readOraclesForSlabs(
+      connection,
+      targets.map((t, i) => ({ data: buffers[i], feed: t.oracleAddress, entry: t })),
+    ),
+    getSlotTiming(connection),
+  ]);
+  // Pool feeds are compared in their quote token, so their mints are priced too
+  const usdPrices = await getTokenPrices(
+    [...new Set(targets.flatMap((t, i) => dexPriceMints(oracles[i], t.collateralMint)))],
+  );
+
+  const timestamp = new Date().toISOString();
+  let recorded = 0;
+
+  for (let i = 0; i < targets.length; i++) {
+    const target = targets[i];
+    const data = buffers[i];
+    if (!data) continue;
+
+    try {
+      const layout = slabLayoutOf(data, target);
+      const config = parseConfig(data, layout);
+      const params = parseParams(data, layout);
+      const engine = parseEngine(data, layout);
+      const allAccounts = parseAllAccounts(data, layout);
+
+      const { oraclePriceE6, solUsdPrice: price } = slabOraclePrice(config, oracles[i]);
+      const funding = calculateFundingRate(engine, config, oraclePriceE6, msPerSlot);
+      const oi = oraclePriceE6 > 0n
+        ? Number(engine.totalOpenInterest * oraclePriceE6 / 1_000_000n) / 1e9
+        : 0;
+
+      if (price > 0) {
+        recordPricePoint(target.pubkey, {
+          t: timestamp,
+          p: price,
+          tvl: vaults[i] ?? 0,
+          oi,
+          fr: funding.rateBpsPerHour,
+        });
+        recordAccountPoints(
+          target.pubkey,
+          allAccounts.map(({ idx, account }) => ({
+            idx,
+            point: toAccountPoint(timestamp, toSlabPosition(idx, account, params, oraclePriceE6, price, engine.currentSlot, engine.fundingIndexQpbE6)),
+          })),
+        );
+        recordDivergencePoint(
+          target.pubkey,
+          toDivergencePoint(timestamp, config, oracles[i], dexPriceFor(oracles[i], target.collateralMint, usdPrices)),
+        );
+        recordFundingPoint(
+          target.pubkey,
+          toFundingPoint(timestamp, engine, oraclePriceE6, allAccounts.map(({ account }) => account.positionSize)),
+        );
+      }
+      recordSnapshot(target.label, engine, allAccounts);
+      recorded++;
+    } catch (err) {
+      console.warn(`[indexer] Failed to parse ${target.pubkey}:`, err);
+    }
+  }
+
+  return recorded;
+}
+
+/**
+ * Run one full indexing pass over every active slab in the radar.
+ */
+export async function runIndexerCycle(): Promise<IndexerCycleResult> {
+  const start = Date.now();
+  const radar = await scanEcosystem();
+
+  const byNetwork = new Map<NetworkId, IndexTarget[]>();
+  for (const program of radar.programs) {
+    for (const slab of program.slabs) {
+      if (slab.numUsedAccounts === 0) continue;
+      const targets = byNetwork.get(program.network) ?? [];
+      targets.push({
+        pubkey: slab.pubkey,
+        // The routes snapshot the default program's slabs as bare "slab-N"; other
+        // programs keep their prefix so their slab-N don't share a history
+        label: program.programId === CONFIG.PROGRAM_ID.toBase58() ? slab.label : `${program.label} ${slab.label}`,
+        vaultPubkey: slab.vaultPubkey,
+        collateralMint: slab.collateralMint,
+        oracleAddress: getRegistryEntry(program.id)?.oracleAddress,
+        programId: program.programId,
+        layout: getRegistryEntry(program.id)?.layout,
+      });
+      byNetwork.set(program.network, targets);
+    }
+  }
+
+  const results = await Promise.allSettled(
+    [...byNetwork].map(([network, targets]) => indexNetwork(network, targets)),
+  );
+
+  let slabsSeen = 0;
+  for (const targets of byNetwork.values()) slabsSeen += targets.length;
+
+  let slabsRecorded = 0;
+  for (const result of results) {
+    if (result.status === 'fulfilled') {
+      slabsRecorded += result.value;
+    } else {
+      console.warn('[indexer] Network pass failed:', result.reason);
+    }
+  }
+
+  // Only claim liveness after useful work, so routes keep sampling while RPC is down
+  if (slabsRecorded > 0) {
+    getHistoryStore().setMeta(HEARTBEAT_KEY, String(Date.now()));
+  }
+
+  return {
+    slabsSeen,
+    slabsRecorded,
+    failures: slabsSeen - slabsRecorded,
+    durationMs: Date.now() - start,
+  };
+}
+
+/**
+ * True when an indexer has written to the shared store within `maxAgeMs`.
+ */
+export function isIndexerLive(maxAgeMs = 60_000): boolean {
+  try {
+    const heartbeat = getHistoryStore().getMeta(HEARTBEAT_KEY);
+    return heartbeat !== null && Date.now() - Number(heartbeat) < maxAgeMs;
+  } catch {
+    return false;
+  }
+}
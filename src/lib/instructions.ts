@@ -1,14 +1,22 @@
 /**
- * Percolator instruction encoding.
+ * Percolator instruction encoding + decoding.
  * Ported from percolator-cli/src/abi/encode.ts + instructions.ts.
- * Phase 1: keeper crank only. Later phases add trade, deposit, withdraw, etc.
+ *
+ * Every IX_TAG has an encoder, a TransactionInstruction builder and a case
+ * in decodeInstructionData, so ops scripts, the crank, the tx decoder and
+ * any trading UI share one codec. `npm run tx-fixtures` round-trips each
+ * encoder through the decoder.
  */
 import {
   PublicKey,
   TransactionInstruction,
+  SystemProgram,
   SYSVAR_CLOCK_PUBKEY,
+  SYSVAR_RENT_PUBKEY,
 } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
 import { CONFIG } from './constants';
+import type { RiskParams } from './types';
 
 // ── Encoding primitives ─────────────────────────────────────────────────
 
@@ -24,6 +32,12 @@ export function encU16(v: number): Buffer {
   return buf;
 }
 
+export function encU32(v: number): Buffer {
+  const buf = Buffer.alloc(4);
+  buf.writeUInt32LE(v);
+  return buf;
+}
+
 export function encU64(v: bigint | number): Buffer {
   const buf = Buffer.alloc(8);
   buf.writeBigUInt64LE(BigInt(v));
@@ -36,10 +50,18 @@ export function encI64(v: bigint | number): Buffer {
   return buf;
 }
 
+export function encU128(v: bigint | number): Buffer {
+  const buf = Buffer.alloc(16);
+  const big = BigInt(v);
+  buf.writeBigUInt64LE(big & 0xFFFFFFFFFFFFFFFFn, 0);
+  buf.writeBigUInt64LE(big >> 64n, 8);
+  return buf;
+}
+
 export function encI128(v: bigint | number): Buffer {
   const buf = Buffer.alloc(16);
   const big = BigInt(v);
-  buf.writeBigInt64LE(big & 0xFFFFFFFFFFFFFFFFn, 0);
+  buf.writeBigUInt64LE(big & 0xFFFFFFFFFFFFFFFFn, 0);
   buf.writeBigInt64LE(big >> 64n, 8);
   return buf;
 }
@@ -48,6 +70,44 @@ export function encPubkey(pk: PublicKey): Buffer {
   return Buffer.from(pk.toBytes());
 }
 
+// ── Decoding primitives ─────────────────────────────────────────────────
+
+/** Sequential little-endian reader; throws RangeError past the end */
+class IxReader {
+  private off = 0;
+  constructor(private readonly data: Buffer) {}
+
+  u8(): number { return this.data.readUInt8(this.take(1)); }
+  u16(): number { return this.data.readUInt16LE(this.take(2)); }
+  u32(): number { return this.data.readUInt32LE(this.take(4)); }
+  u64(): bigint { return this.data.readBigUInt64LE(this.take(8)); }
+  i64(): bigint { return this.data.readBigInt64LE(this.take(8)); }
+
+  u128(): bigint {
+    const off = this.take(16);
+    return (this.data.readBigUInt64LE(off + 8) << 64n) | this.data.readBigUInt64LE(off);
+  }
+
+  i128(): bigint {
+    const off = this.take(16);
+    return (this.data.readBigInt64LE(off + 8) << 64n) | this.data.readBigUInt64LE(off);
+  }
+
+  pubkey(): PublicKey {
+    const off = this.take(32);
+    return new PublicKey(this.data.subarray(off, off + 32));
+  }
+
+  private take(n: number): number {
+    const off = this.off;
+    if (off + n > this.data.length) {
+      throw new RangeError(`Instruction data too short: need ${off + n}, have ${this.data.length}`);
+    }
+    this.off += n;
+    return off;
+  }
+}
+
 // ── Instruction tags ────────────────────────────────────────────────────
 
 export const IX_TAG = {
@@ -69,7 +129,168 @@ export const IX_TAG = {
 /** Permissionless crank — caller is not an account in the slab */
 export const CRANK_NO_CALLER = 65535;
 
-// ── Keeper Crank ────────────────────────────────────────────────────────
+// ── PDAs ────────────────────────────────────────────────────────────────
+
+/** Vault authority PDA: seeds ["vault", slab] */
+export function deriveVaultAuthority(
+  slabPubkey: PublicKey,
+  programId: PublicKey = CONFIG.PROGRAM_ID,
+): PublicKey {
+  return PublicKey.findProgramAddressSync([Buffer.from('vault'), slabPubkey.toBuffer()], programId)[0];
+}
+
+/** LP PDA passed to the matcher: seeds ["lp", slab, u16 lpIdx] */
+export function deriveLpPda(
+  slabPubkey: PublicKey,
+  lpIdx: number,
+  programId: PublicKey = CONFIG.PROGRAM_ID,
+): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('lp'), slabPubkey.toBuffer(), encU16(lpIdx)],
+    programId,
+  )[0];
+}
+
+// ── Argument types ──────────────────────────────────────────────────────
+
+export interface InitSlabArgs {
+  admin: PublicKey;
+  collateralMint: PublicKey;
+  indexFeedId: PublicKey;
+  maxStalenessSlots: bigint;
+  confFilterBps: number;
+  invert: number;
+  unitScale: number;
+  params: RiskParams;
+}
+
+export interface SetLpParamsArgs {
+  lpIdx: number;
+  matcherProgram: PublicKey;
+  matcherContext: PublicKey;
+}
+
+export interface TradeArgs {
+  lpIdx: number;
+  userIdx: number;
+  /** Signed size in native units: positive buys, negative sells */
+  size: bigint;
+}
+
+export type DecodedInstruction =
+  | ({ kind: 'init-slab' } & InitSlabArgs)
+  | { kind: 'init-user'; feePayment: bigint }
+  | ({ kind: 'set-lp-params' } & SetLpParamsArgs)
+  | { kind: 'deposit'; userIdx: number; amount: bigint }
+  | { kind: 'withdraw'; userIdx: number; amount: bigint }
+  | { kind: 'crank'; callerIdx: number; allowPanic: boolean }
+  | ({ kind: 'trade'; cpi: boolean } & TradeArgs)
+  | { kind: 'close'; userIdx: number }
+  | { kind: 'set-oracle-authority'; newAuthority: PublicKey }
+  | { kind: 'oracle'; priceE6: bigint; publishTime: bigint };
+
+export type InstructionKind = DecodedInstruction['kind'];
+
+/** Position of the slab in each instruction's account list */
+export const SLAB_ACCOUNT_INDEX: Record<InstructionKind, number> = {
+  'init-slab': 1,
+  'init-user': 1,
+  'set-lp-params': 1,
+  deposit: 1,
+  withdraw: 1,
+  crank: 1,
+  trade: 2,
+  close: 1,
+  'set-oracle-authority': 1,
+  oracle: 1,
+};
+
+// ── Encoders ────────────────────────────────────────────────────────────
+
+/**
+ * RiskParams in slab order:
+ * [u64 warmup, u64 maintMargin, u64 initMargin, u64 tradingFee, u64 maxAccounts,
+ *  u128 newAccountFee, u128 riskReduction, u128 maintFeePerSlot, u64 maxCrankStaleness,
+ *  u64 liqFeeBps, u128 liqFeeCap, u64 liqBufferBps, u128 minLiquidationAbs]
+ */
+function encRiskParams(p: RiskParams): Buffer {
+  return Buffer.concat([
+    encU64(p.warmupPeriodSlots),
+    encU64(p.maintenanceMarginBps),
+    encU64(p.initialMarginBps),
+    encU64(p.tradingFeeBps),
+    encU64(p.maxAccounts),
+    encU128(p.newAccountFee),
+    encU128(p.riskReductionThreshold),
+    encU128(p.maintenanceFeePerSlot),
+    encU64(p.maxCrankStalenessSlots),
+    encU64(p.liquidationFeeBps),
+    encU128(p.liquidationFeeCap),
+    encU64(p.liquidationBufferBps),
+    encU128(p.minLiquidationAbs),
+  ]);
+}
+
+function decRiskParams(r: IxReader): RiskParams {
+  return {
+    warmupPeriodSlots: r.u64(),
+    maintenanceMarginBps: r.u64(),
+    initialMarginBps: r.u64(),
+    tradingFeeBps: r.u64(),
+    maxAccounts: r.u64(),
+    newAccountFee: r.u128(),
+    riskReductionThreshold: r.u128(),
+    maintenanceFeePerSlot: r.u128(),
+    maxCrankStalenessSlots: r.u64(),
+    liquidationFeeBps: r.u64(),
+    liquidationFeeCap: r.u128(),
+    liquidationBufferBps: r.u64(),
+    minLiquidationAbs: r.u128(),
+  };
+}
+
+/**
+ * Layout: [u8 tag, pubkey admin, pubkey collateralMint, pubkey indexFeedId,
+ *          u64 maxStalenessSlots, u16 confFilterBps, u8 invert, u32 unitScale, RiskParams]
+ */
+export function encodeInitSlab(args: InitSlabArgs): Buffer {
+  return Buffer.concat([
+    encU8(IX_TAG.InitSlab),
+    encPubkey(args.admin),
+    encPubkey(args.collateralMint),
+    encPubkey(args.indexFeedId),
+    encU64(args.maxStalenessSlots),
+    encU16(args.confFilterBps),
+    encU8(args.invert),
+    encU32(args.unitScale),
+    encRiskParams(args.params),
+  ]);
+}
+
+/** Layout: [u8 tag, u64 feePayment] */
+export function encodeInitUser(feePayment: bigint | number): Buffer {
+  return Buffer.concat([encU8(IX_TAG.InitUser), encU64(feePayment)]);
+}
+
+/** Layout: [u8 tag, u16 lpIdx, pubkey matcherProgram, pubkey matcherContext] */
+export function encodeSetLpParams(args: SetLpParamsArgs): Buffer {
+  return Buffer.concat([
+    encU8(IX_TAG.SetLpParams),
+    encU16(args.lpIdx),
+    encPubkey(args.matcherProgram),
+    encPubkey(args.matcherContext),
+  ]);
+}
+
+/** Layout: [u8 tag, u16 userIdx, u64 amount] */
+export function encodeDepositCollateral(userIdx: number, amount: bigint | number): Buffer {
+  return Buffer.concat([encU8(IX_TAG.DepositCollateral), encU16(userIdx), encU64(amount)]);
+}
+
+/** Layout: [u8 tag, u16 userIdx, u64 amount] */
+export function encodeWithdrawCollateral(userIdx: number, amount: bigint | number): Buffer {
+  return Buffer.concat([encU8(IX_TAG.WithdrawCollateral), encU16(userIdx), encU64(amount)]);
+}
 
 /**
  * Encode keeper-crank instruction data.
@@ -86,6 +307,234 @@ export function encodeKeeperCrank(
   ]);
 }
 
+/** Layout: [u8 tag, u16 lpIdx, u16 userIdx, i128 size] */
+export function encodeTradeNoCpi(args: TradeArgs): Buffer {
+  return Buffer.concat([encU8(IX_TAG.TradeNoCpi), encU16(args.lpIdx), encU16(args.userIdx), encI128(args.size)]);
+}
+
+/** Layout: [u8 tag, u16 lpIdx, u16 userIdx, i128 size] */
+export function encodeTradeCpi(args: TradeArgs): Buffer {
+  return Buffer.concat([encU8(IX_TAG.TradeCpi), encU16(args.lpIdx), encU16(args.userIdx), encI128(args.size)]);
+}
+
+/** Layout: [u8 tag, u16 userIdx] */
+export function encodeCloseAccount(userIdx: number): Buffer {
+  return Buffer.concat([encU8(IX_TAG.CloseAccount), encU16(userIdx)]);
+}
+
+/** Layout: [u8 tag, pubkey newAuthority] */
+export function encodeSetOracleAuthority(newAuthority: PublicKey): Buffer {
+  return Buffer.concat([encU8(IX_TAG.SetOracleAuthority), encPubkey(newAuthority)]);
+}
+
+/** Layout: [u8 tag, u64 priceE6, i64 publishTime] */
+export function encodePushOraclePrice(priceE6: bigint | number, publishTime: bigint | number): Buffer {
+  return Buffer.concat([encU8(IX_TAG.PushOraclePrice), encU64(priceE6), encI64(publishTime)]);
+}
+
+// ── Decoder ─────────────────────────────────────────────────────────────
+
+/**
+ * Decode Percolator instruction data (inverse of the encoders above).
+ * Returns null for unknown tags or data too short for its tag.
+ */
+export function decodeInstructionData(data: Buffer): DecodedInstruction | null {
+  if (data.length === 0) return null;
+  const r = new IxReader(data);
+
+  try {
+    switch (r.u8()) {
+      case IX_TAG.InitSlab:
+        return {
+          kind: 'init-slab',
+          admin: r.pubkey(),
+          collateralMint: r.pubkey(),
+          indexFeedId: r.pubkey(),
+          maxStalenessSlots: r.u64(),
+          confFilterBps: r.u16(),
+          invert: r.u8(),
+          unitScale: r.u32(),
+          params: decRiskParams(r),
+        };
+      case IX_TAG.InitUser:
+        return { kind: 'init-user', feePayment: r.u64() };
+      case IX_TAG.SetLpParams:
+        return { kind: 'set-lp-params', lpIdx: r.u16(), matcherProgram: r.pubkey(), matcherContext: r.pubkey() };
+      case IX_TAG.DepositCollateral:
+        return { kind: 'deposit', userIdx: r.u16(), amount: r.u64() };
+      case IX_TAG.WithdrawCollateral:
+        return { kind: 'withdraw', userIdx: r.u16(), amount: r.u64() };
+      case IX_TAG.KeeperCrank:
+        return { kind: 'crank', callerIdx: r.u16(), allowPanic: r.u8() !== 0 };
+      case IX_TAG.TradeNoCpi:
+      case IX_TAG.TradeCpi:
+        return {
+          kind: 'trade',
+          cpi: data[0] === IX_TAG.TradeCpi,
+          lpIdx: r.u16(),
+          userIdx: r.u16(),
+          size: r.i128(),
+        };
+      case IX_TAG.CloseAccount:
+        return { kind: 'close', userIdx: r.u16() };
+      case IX_TAG.SetOracleAuthority:
+        return { kind: 'set-oracle-authority', newAuthority: r.pubkey() };
+      case IX_TAG.PushOraclePrice:
+        return { kind: 'oracle', priceE6: r.u64(), publishTime: r.i64() };
+      default:
+        return null;
+    }
+  } catch (err) {
+    if (err instanceof RangeError) return null;
+    throw err;
+  }
+}
+
+// ── Builders ────────────────────────────────────────────────────────────
+
+const ro = (pubkey: PublicKey) => ({ pubkey, isSigner: false, isWritable: false });
+const rw = (pubkey: PublicKey) => ({ pubkey, isSigner: false, isWritable: true });
+const signer = (pubkey: PublicKey, isWritable = true) => ({ pubkey, isSigner: true, isWritable });
+
+/**
+ * Accounts:
+ *   0. admin          — signer, writable (pays rent)
+ *   1. slab           — writable
+ *   2. collateralMint
+ *   3. vault          — writable, token account owned by the vault PDA
+ *   4. token program
+ *   5. clock
+ *   6. rent
+ *   7. system program
+ */
+export function buildInitSlabInstruction(
+  accounts: { slab: PublicKey; vault: PublicKey },
+  args: InitSlabArgs,
+  programId: PublicKey = CONFIG.PROGRAM_ID,
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      signer(args.admin),
+      rw(accounts.slab),
+      ro(args.collateralMint),
+      rw(accounts.vault),
+      ro(TOKEN_PROGRAM_ID),
+      ro(SYSVAR_CLOCK_PUBKEY),
+      ro(SYSVAR_RENT_PUBKEY),
+      ro(SystemProgram.programId),
+    ],
+    data: encodeInitSlab(args),
+  });
+}
+
+/**
+ * Accounts:
+ *   0. user      — signer, writable
+ *   1. slab      — writable
+ *   2. userAta   — writable (fee source)
+ *   3. vault     — writable
+ *   4. token program
+ *   5. clock
+ */
+export function buildInitUserInstruction(
+  accounts: { user: PublicKey; slab: PublicKey; userAta: PublicKey; vault: PublicKey },
+  feePayment: bigint | number,
+  programId: PublicKey = CONFIG.PROGRAM_ID,
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      signer(accounts.user),
+      rw(accounts.slab),
+      rw(accounts.userAta),
+      rw(accounts.vault),
+      ro(TOKEN_PROGRAM_ID),
+      ro(SYSVAR_CLOCK_PUBKEY),
+    ],
+    data: encodeInitUser(feePayment),
+  });
+}
+
+/**
+ * Accounts:
+ *   0. lpOwner — signer
+ *   1. slab    — writable
+ */
+export function buildSetLpParamsInstruction(
+  accounts: { lpOwner: PublicKey; slab: PublicKey },
+  args: SetLpParamsArgs,
+  programId: PublicKey = CONFIG.PROGRAM_ID,
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [signer(accounts.lpOwner, false), rw(accounts.slab)],
+    data: encodeSetLpParams(args),
+  });
+}
+
+/**
+ * Accounts:
+ *   0. user      — signer, writable
+ *   1. slab      — writable
+ *   2. userAta   — writable (source)
+ *   3. vault     — writable
+ *   4. token program
+ *   5. clock
+ */
+export function buildDepositCollateralInstruction(
+  accounts: { user: PublicKey; slab: PublicKey; userAta: PublicKey; vault: PublicKey },
+  userIdx: number,
+  amount: bigint | number,
+  programId: PublicKey = CONFIG.PROGRAM_ID,
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      signer(accounts.user),
+      rw(accounts.slab),
+      rw(accounts.userAta),
+      rw(accounts.vault),
+      ro(TOKEN_PROGRAM_ID),
+      ro(SYSVAR_CLOCK_PUBKEY),
+    ],
+    data: encodeDepositCollateral(userIdx, amount),
+  });
+}
+
+/**
+ * Accounts:
+ *   0. user      — signer, writable
+ *   1. slab      — writable
+ *   2. vault     — writable (source)
+ *   3. userAta   — writable (destination)
+ *   4. vault PDA — vault authority
+ *   5. token program
+ *   6. clock
+ *   7. oracle
+ */
+export function buildWithdrawCollateralInstruction(
+  accounts: { user: PublicKey; slab: PublicKey; vault: PublicKey; userAta: PublicKey; oracle?: PublicKey },
+  userIdx: number,
+  amount: bigint | number,
+  programId: PublicKey = CONFIG.PROGRAM_ID,
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      signer(accounts.user),
+      rw(accounts.slab),
+      rw(accounts.vault),
+      rw(accounts.userAta),
+      ro(deriveVaultAuthority(accounts.slab, programId)),
+      ro(TOKEN_PROGRAM_ID),
+      ro(SYSVAR_CLOCK_PUBKEY),
+      ro(accounts.oracle ?? CONFIG.ORACLE),
+    ],
+    data: encodeWithdrawCollateral(userIdx, amount),
+  });
+}
+
 /**
  * Build a keeper-crank TransactionInstruction.
  *
@@ -100,9 +549,10 @@ export function buildKeeperCrankInstruction(
   slabPubkey: PublicKey,
   oraclePubkey: PublicKey = CONFIG.ORACLE,
   callerIdx: number = CRANK_NO_CALLER,
+  programId: PublicKey = CONFIG.PROGRAM_ID,
 ): TransactionInstruction {
   return new TransactionInstruction({
-    programId: CONFIG.PROGRAM_ID,
+    programId,
     keys: [
       { pubkey: callerPubkey, isSigner: true, isWritable: false },
       { pubkey: slabPubkey, isSigner: false, isWritable: true },
@@ -112,3 +562,139 @@ export function buildKeeperCrankInstruction(
     data: encodeKeeperCrank(callerIdx),
   });
 }
+
+/**
+ * Direct trade against an LP whose owner co-signs (no matcher).
+ *
+ * Accounts:
+ *   0. user    — signer, writable
+ *   1. lpOwner — signer, writable
+ *   2. slab    — writable
+ *   3. clock
+ *   4. oracle
+ */
+export function buildTradeNoCpiInstruction(
+  accounts: { user: PublicKey; lpOwner: PublicKey; slab: PublicKey; oracle?: PublicKey },
+  args: TradeArgs,
+  programId: PublicKey = CONFIG.PROGRAM_ID,
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      signer(accounts.user),
+      signer(accounts.lpOwner),
+      rw(accounts.slab),
+      ro(SYSVAR_CLOCK_PUBKEY),
+      ro(accounts.oracle ?? CONFIG.ORACLE),
+    ],
+    data: encodeTradeNoCpi(args),
+  });
+}
+
+/**
+ * Trade routed through the LP's matcher program via CPI.
+ *
+ * Accounts:
+ *   0. user           — signer, writable
+ *   1. lpOwner
+ *   2. slab           — writable
+ *   3. clock
+ *   4. oracle
+ *   5. matcherProgram
+ *   6. matcherContext — writable
+ *   7. lp PDA         — ["lp", slab, lpIdx]
+ */
+export function buildTradeCpiInstruction(
+  accounts: {
+    user: PublicKey;
+    lpOwner: PublicKey;
+    slab: PublicKey;
+    matcherContext: PublicKey;
+    matcherProgram?: PublicKey;
+    oracle?: PublicKey;
+  },
+  args: TradeArgs,
+  programId: PublicKey = CONFIG.PROGRAM_ID,
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      signer(accounts.user),
+      ro(accounts.lpOwner),
+      rw(accounts.slab),
+      ro(SYSVAR_CLOCK_PUBKEY),
+      ro(accounts.oracle ?? CONFIG.ORACLE),
+      ro(accounts.matcherProgram ?? CONFIG.MATCHER_PROGRAM),
+      rw(accounts.matcherContext),
+      ro(deriveLpPda(accounts.slab, args.lpIdx, programId)),
+    ],
+    data: encodeTradeCpi(args),
+  });
+}
+
+/**
+ * Accounts:
+ *   0. user      — signer, writable
+ *   1. slab      — writable
+ *   2. vault     — writable (source)
+ *   3. userAta   — writable (destination)
+ *   4. vault PDA — vault authority
+ *   5. token program
+ *   6. clock
+ *   7. oracle
+ */
+export function buildCloseAccountInstruction(
+  accounts: { user: PublicKey; slab: PublicKey; vault: PublicKey; userAta: PublicKey; oracle?: PublicKey },
+  userIdx: number,
+  programId: PublicKey = CONFIG.PROGRAM_ID,
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      signer(accounts.user),
+      rw(accounts.slab),
+      rw(accounts.vault),
+      rw(accounts.userAta),
+      ro(deriveVaultAuthority(accounts.slab, programId)),
+      ro(TOKEN_PROGRAM_ID),
+      ro(SYSVAR_CLOCK_PUBKEY),
+      ro(accounts.oracle ?? CONFIG.ORACLE),
+    ],
+    data: encodeCloseAccount(userIdx),
+  });
+}
+
+/**
+ * Accounts:
+ *   0. admin — signer, writable
+ *   1. slab  — writable
+ */
+export function buildSetOracleAuthorityInstruction(
+  accounts: { admin: PublicKey; slab: PublicKey },
+  newAuthority: PublicKey,
+  programId: PublicKey = CONFIG.PROGRAM_ID,
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [signer(accounts.admin), rw(accounts.slab)],
+    data: encodeSetOracleAuthority(newAuthority),
+  });
+}
+
+/**
+ * Accounts:
+ *   0. authority — signer, writable (the slab's oracle authority)
+ *   1. slab      — writable
+ */
+export function buildPushOraclePriceInstruction(
+  accounts: { authority: PublicKey; slab: PublicKey },
+  priceE6: bigint | number,
+  publishTime: bigint | number,
+  programId: PublicKey = CONFIG.PROGRAM_ID,
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId,
+    keys: [signer(accounts.authority), rw(accounts.slab)],
+    data: encodePushOraclePrice(priceE6, publishTime),
+  });
+}
@@ -0,0 +1,62 @@
+/**
+ * Jupiter providers — USD prices and token metadata.
+ *
+ *   Price API v3   https://lite-api.jup.ag/price/v3?ids=<MINT,...>     (≤50 ids)
+ *   Tokens API v2  https://lite-api.jup.ag/tokens/v2/search?query=...  (≤100 mints)
+ *
+ * The same token data percolator-sov's frontend uses for symbols. Caching
+ * and fallback live in price-providers.ts.
+ */
+import type { MetadataProvider, PriceProvider, TokenMetadata } from './price-providers';
+
+const PRICE_BATCH_SIZE = 50;
+const TOKEN_BATCH_SIZE = 100;
+
+type JupiterPriceResponse = Record<string, { usdPrice?: number } | null>;
+
+interface JupiterToken {
+  id: string;
+  symbol?: string;
+  name?: string;
+  decimals?: number;
+}
+
+async function getJson<T>(url: string, label: string): Promise<T> {
+  const res = await fetch(url, { signal: AbortSignal.timeout(3000) });
+  if (!res.ok) throw new Error(`Jupiter ${label} HTTP ${res.status}`);
+  return (await res.json()) as T;
+}
+
+export const jupiterPriceProvider: PriceProvider = {
+  name: 'jupiter',
+
+  async fetchPrices(mints) {
+    const results = new Map<string, number>();
+    for (let i = 0; i < mints.length; i += PRICE_BATCH_SIZE) {
+      const ids = mints.slice(i, i + PRICE_BATCH_SIZE).join(',');
+      const data = await getJson<JupiterPriceResponse>(`https://lite-api.jup.ag/price/v3?ids=${ids}`, 'price');
+      for (const [mint, entry] of Object.entries(data ?? {})) {
+        if (entry?.usdPrice && entry.usdPrice > 0) results.set(mint, entry.usdPrice);
+      }
+    }
+    return results;
+  },
+};
+
+export const jupiterMetadataProvider: MetadataProvider = {
+  name: 'jupiter',
+
+  async fetchMetadata(mints) {
+    const results = new Map<string, TokenMetadata>();
+    for (let i = 0; i < mints.length; i += TOKEN_BATCH_SIZE) {
+      const query = mints.slice(i, i + TOKEN_BATCH_SIZE).join(',');
+      const tokens = await getJson<JupiterToken[]>(`https://lite-api.jup.ag/tokens/v2/search?query=${query}`, 'tokens');
+      for (const token of tokens ?? []) {
+        const symbol = token.symbol?.trim();
+        if (!symbol || !mints.includes(token.id)) continue;
+        results.set(token.id, { symbol, name: token.name, decimals: token.decimals });
+      }
+    }
+    return results;
+  },
+};
@@ -4,12 +4,12 @@
  * Resolution order:
  *   1. Hardcoded map (SOL, PERC, USDC, USDT)
  *   2. In-memory cache (survives across requests in same process)
- *   3. Jupiter Token API — https://tokens.jup.ag/token/<MINT>
- *      (same approach used by percolator-sov frontend)
- *   4. Metaplex Token Metadata PDA on-chain
- *   5. Truncated address fallback
+ *   3. Metadata providers (price-providers.ts): by default the Jupiter
+ *      Tokens API, then the Metaplex Token Metadata PDA on-chain
+ *   4. Truncated address fallback
  */
-import { PublicKey, type Connection } from '@solana/web3.js';
+import type { Connection } from '@solana/web3.js';
+import { getTokenMetadata } from './price-providers';
 
 // ── Hardcoded well-known mints ──────────────────────────────────────
 
@@ -24,123 +24,29 @@ export const KNOWN_MINTS: Record<string, string> = {
 
 const resolvedCache = new Map<string, string>();
 
-// Metaplex Token Metadata Program
-const TOKEN_METADATA_PROGRAM = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
-
 /**
  * Synchronous — uses hardcoded map + runtime cache only.
  */
 export function resolveMintSymbol(mintAddress: string): string {
   if (KNOWN_MINTS[mintAddress]) return KNOWN_MINTS[mintAddress];
   if (resolvedCache.has(mintAddress)) return resolvedCache.get(mintAddress)!;
-  return `${mintAddress.slice(0, 4)}...${mintAddress.slice(-4)}`;
-}
-
-// ── Jupiter Token API ───────────────────────────────────────────────
-
-interface JupiterTokenResponse {
-  symbol?: string;
-  name?: string;
-  decimals?: number;
+  return truncateMint(mintAddress);
 }
 
-/**
- * Fetch token symbol from Jupiter Token API.
- * Returns null if the token isn't indexed or the request fails.
- */
-async function fetchJupiterSymbol(mintAddress: string): Promise<string | null> {
-  try {
-    const res = await fetch(`https://tokens.jup.ag/token/${mintAddress}`, {
-      signal: AbortSignal.timeout(3000),
-    });
-    if (!res.ok) return null;
-    const data = (await res.json()) as JupiterTokenResponse;
-    const symbol = data.symbol?.trim();
-    return symbol && symbol.length > 0 ? symbol : null;
-  } catch {
-    return null;
-  }
-}
-
-/**
- * Batch-fetch symbols from Jupiter for multiple mints.
- * Jupiter doesn't have a batch endpoint, so we fire parallel requests
- * but cap concurrency to avoid hammering them.
- */
-async function fetchJupiterSymbolsBatch(
-  mints: string[],
-): Promise<Map<string, string>> {
-  const results = new Map<string, string>();
-  // Cap at 10 concurrent requests
-  for (let i = 0; i < mints.length; i += 10) {
-    const batch = mints.slice(i, i + 10);
-    const settled = await Promise.allSettled(
-      batch.map(async (mint) => {
-        const symbol = await fetchJupiterSymbol(mint);
-        return { mint, symbol };
-      }),
-    );
-    for (const result of settled) {
-      if (result.status === 'fulfilled' && result.value.symbol) {
-        results.set(result.value.mint, result.value.symbol);
-      }
-    }
-  }
-  return results;
-}
-
-// ── Metaplex metadata parser ────────────────────────────────────────
-
-/**
- * Parse the symbol field from raw Metaplex Token Metadata account data.
- *
- * Borsh layout:
- *   offset 0:  key (1 byte)
- *   offset 1:  update_authority (32 bytes)
- *   offset 33: mint (32 bytes)
- *   offset 65: name (borsh string: 4-byte LE length + UTF-8 data)
- *   after name: symbol (borsh string: 4-byte LE length + UTF-8 data)
- */
-function parseMetaplexSymbol(data: Buffer | Uint8Array): string | null {
-  try {
-    const buf = Buffer.from(data);
-    if (buf.length < 70) return null;
-
-    let offset = 65; // skip key + update_authority + mint
-
-    // Read name (borsh string)
-    if (offset + 4 > buf.length) return null;
-    const nameLen = buf.readUInt32LE(offset);
-    offset += 4;
-    if (nameLen > 200 || offset + nameLen > buf.length) return null;
-    offset += nameLen;
-
-    // Read symbol (borsh string)
-    if (offset + 4 > buf.length) return null;
-    const symbolLen = buf.readUInt32LE(offset);
-    offset += 4;
-    if (symbolLen > 50 || offset + symbolLen > buf.length) return null;
+// ── Batch resolver (main entry point) ───────────────────────────────
 
-    const raw = buf.slice(offset, offset + symbolLen).toString('utf-8');
-    // Metaplex pads with null bytes — strip them
-    const symbol = raw.replace(/\0/g, '').trim();
-    return symbol.length > 0 ? symbol : null;
-  } catch {
-    return null;
-  }
+function truncateMint(mintAddress: string): string {
+  return `${mintAddress.slice(0, 4)}...${mintAddress.slice(-4)}`;
 }
 
-// ── Batch resolver (main entry point) ───────────────────────────────
-
 /**
  * Batch-resolve multiple mint addresses to symbols.
  *
  * Resolution chain per mint:
  *   1. Hardcoded KNOWN_MINTS
  *   2. In-memory resolvedCache
- *   3. Jupiter Token API (parallel, capped at 10 concurrent)
- *   4. Metaplex Token Metadata PDA (single getMultipleAccountsInfo)
- *   5. Truncated address fallback
+ *   3. Metadata provider chain, with `connection` for on-chain providers
+ *   4. Truncated address fallback
  *
  * All resolved symbols are cached in memory for the process lifetime.
  */
@@ -164,70 +70,14 @@ export async function resolveMintSymbolsBatch(
 
   if (toFetch.length === 0) return results;
 
-  // Phase 2: try Jupiter Token API first (fast, covers most tokens)
-  const jupiterResults = await fetchJupiterSymbolsBatch(toFetch);
-  const stillUnresolved: string[] = [];
+  // Phase 2: metadata providers, in their configured order
+  const metadata = await getTokenMetadata(toFetch, { connection });
 
+  // Phase 3: fallback — truncated address
   for (const addr of toFetch) {
-    const jupSymbol = jupiterResults.get(addr);
-    if (jupSymbol) {
-      resolvedCache.set(addr, jupSymbol);
-      results.set(addr, jupSymbol);
-    } else {
-      stillUnresolved.push(addr);
-    }
-  }
-
-  if (stillUnresolved.length === 0) return results;
-
-  // Phase 3: try Metaplex metadata on-chain for remaining
-  try {
-    const pdaEntries = stillUnresolved.map(addr => {
-      const mintPubkey = new PublicKey(addr);
-      const [pda] = PublicKey.findProgramAddressSync(
-        [
-          Buffer.from('metadata'),
-          TOKEN_METADATA_PROGRAM.toBuffer(),
-          mintPubkey.toBuffer(),
-        ],
-        TOKEN_METADATA_PROGRAM,
-      );
-      return { mint: addr, pda };
-    });
-
-    // Batch in groups of 100 (RPC limit)
-    for (let i = 0; i < pdaEntries.length; i += 100) {
-      const batchEntries = pdaEntries.slice(i, i + 100);
-      const batchKeys = batchEntries.map(e => e.pda);
-      const infos = await connection.getMultipleAccountsInfo(batchKeys);
-
-      for (let j = 0; j < infos.length; j++) {
-        const info = infos[j];
-        const mint = batchEntries[j].mint;
-
-        if (info && info.data.length > 0) {
-          const symbol = parseMetaplexSymbol(info.data);
-          if (symbol) {
-            resolvedCache.set(mint, symbol);
-            results.set(mint, symbol);
-            continue;
-          }
-        }
-        // Phase 4: fallback — truncated address
-        const truncated = `${mint.slice(0, 4)}...${mint.slice(-4)}`;
-        resolvedCache.set(mint, truncated);
-        results.set(mint, truncated);
-      }
-    }
-  } catch {
-    // Metaplex batch failed — fall back to truncated for all
-    for (const addr of stillUnresolved) {
-      if (!results.has(addr)) {
-        const truncated = `${addr.slice(0, 4)}...${addr.slice(-4)}`;
-        resolvedCache.set(addr, truncated);
-        results.set(addr, truncated);
-      }
-    }
+    const symbol = metadata.get(addr)?.symbol ?? truncateMint(addr);
+    resolvedCache.set(addr, symbol);
+    results.set(addr, symbol);
   }
 
   return results;
@@ -0,0 +1,79 @@
+/**
+ * Metaplex metadata provider — token name and symbol from the on-chain
+ * Token Metadata account (PDA of ['metadata', program, mint]).
+ *
+ * Needs `ctx.connection` for the mint's network; without one it knows nothing.
+ */
+import { PublicKey } from '@solana/web3.js';
+import type { MetadataProvider, TokenMetadata } from './price-providers';
+
+// Metaplex Token Metadata Program
+const TOKEN_METADATA_PROGRAM = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
+/** getMultipleAccountsInfo limit */
+const BATCH_SIZE = 100;
+
+/**
+ * Parse name and symbol from raw Metaplex Token Metadata account data.
+ *
+ * Borsh layout:
+ *   offset 0:  key (1 byte)
+ *   offset 1:  update_authority (32 bytes)
+ *   offset 33: mint (32 bytes)
+ *   offset 65: name (borsh string: 4-byte LE length + UTF-8 data)
+ *   after name: symbol (borsh string: 4-byte LE length + UTF-8 data)
+ */
+export function parseMetaplexMetadata(data: Buffer | Uint8Array): TokenMetadata | null {
+  try {
+    const buf = Buffer.from(data);
+    if (buf.length < 70) return null;
+
+    let offset = 65; // skip key + update_authority + mint
+
+    // Read name (borsh string)
+    if (offset + 4 > buf.length) return null;
+    const nameLen = buf.readUInt32LE(offset);
+    offset += 4;
+    if (nameLen > 200 || offset + nameLen > buf.length) return null;
+    const name = buf.subarray(offset, offset + nameLen).toString('utf-8').replace(/\0/g, '').trim();
+    offset += nameLen;
+
+    // Read symbol (borsh string)
+    if (offset + 4 > buf.length) return null;
+    const symbolLen = buf.readUInt32LE(offset);
+    offset += 4;
+    if (symbolLen > 50 || offset + symbolLen > buf.length) return null;
+
+    // Metaplex pads with null bytes — strip them
+    const symbol = buf.subarray(offset, offset + symbolLen).toString('utf-8').replace(/\0/g, '').trim();
+    return symbol.length > 0 ? { symbol, name: name || undefined } : null;
+  } catch {
+    return null;
+  }
+}
+
+function metadataPda(mint: string): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), TOKEN_METADATA_PROGRAM.toBuffer(), new PublicKey(mint).toBuffer()],
+    TOKEN_METADATA_PROGRAM,
+  )[0];
+}
+
+export const metaplexMetadataProvider: MetadataProvider = {
+  name: 'metaplex',
+
+  async fetchMetadata(mints, ctx) {
+    const results = new Map<string, TokenMetadata>();
+    if (!ctx.connection) return results;
+
+    for (let i = 0; i < mints.length; i += BATCH_SIZE) {
+      const batch = mints.slice(i, i + BATCH_SIZE);
+      const infos = await ctx.connection.getMultipleAccountsInfo(batch.map(metadataPda));
+      infos.forEach((info, j) => {
+        const meta = info && info.data.length > 0 ? parseMetaplexMetadata(info.data) : null;
+        if (meta) results.set(batch[j], meta);
+      });
+    }
+    return results;
+  },
+};
@@ -0,0 +1,265 @@
+/**
+ * Oracle health — is each market's price feed one its crank would accept?
+ *
+ * For every active slab the live oracle (oracle.ts) is checked against the
+ * slab's own limits:
+ *
+ *   staleness   publish age vs `maxStalenessSlots`; a stale feed fails the crank
+ *   confidence  Pyth confidence vs `confFilterBps`; too wide also fails it
+ *   price cap   move from `lastEffectivePriceE6` vs `oraclePriceCapE2bps`
+ *               (1_000_000 = 100%); beyond it the engine clamps the price
+ *   deviation   the same move, flagged above DEVIATION_WARN_BPS when uncapped
+ *
+ * Only the slab prefix (header, config, params) is fetched, so the scan costs
+ * a few KB per slab plus the feed accounts.
+ */
+import { PublicKey } from '@solana/web3.js';
+import { getCached, setCache } from './connection';
+import { getNetworkConnection } from './connections';
+import { batchFetchAccounts } from './fetcher';
+import { resolveMintSymbol } from './known-mints';
+import { getEffectiveOraclePrice, readOraclesForSlabs, type OracleReading, type OracleSource } from './oracle';
+import { parseConfig } from './percolator';
+import { scanEcosystem } from './radar';
+import { getAllNetworks, getRegistryEntry, type NetworkId } from './registry';
+import { maxOverLayouts, slabLayoutOf } from './slab-layout';
+import { getSlotTiming } from './slot-time';
+
+const ORACLE_HEALTH_CACHE_KEY = 'oracle_health';
+const ORACLE_HEALTH_CACHE_MS = 15_000;
+
+/** Live vs last effective price gap worth a warning on uncapped markets */
+const DEVIATION_WARN_BPS = 100;
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export type OracleHealthStatus = 'ok' | 'warning' | 'critical';
+
+export interface OracleHealthEntry {
+  slabAddress: string;
+  slabLabel: string;
+  collateralSymbol: string;
+  programKey: string;
+  program: string;
+  programId: string;
+  network: NetworkId;
+  source: OracleSource;
+  feed: string;
+  /** Live feed price, feed orientation */
+  price: number;
+  /** lastEffectivePriceE6 in the same orientation */
+  storedPrice: number;
+  ageSlots: number | null;
+  /** At the network's measured slot time when the feed records no publish time */
+  ageSeconds: number | null;
+  maxStalenessSlots: number;
+  /** maxStalenessSlots at the network's measured slot time */
+  maxStalenessSeconds: number;
+  stale: boolean;
+  confidenceBps: number;
+  confFilterBps: number;
+  wideConfidence: boolean;
+  /** |live - last effective| in bps of last effective; null without both */
+  deviationBps: number | null;
+  /** Price cap in bps; null when the market is uncapped */
+  priceCapBps: number | null;
+  capExceeded: boolean;
+  /** A keeper crank would be rejected on this oracle */
+  crankBlocked: boolean;
+  status: OracleHealthStatus;
+  issues: string[];
+  error: string | null;
+}
+
+export interface OracleHealthReport {
+  slabs: OracleHealthEntry[];
+  summary: {
+    total: number;
+    ok: number;
+    warning: number;
+    critical: number;
+    stale: number;
+    wideConfidence: number;
+    capExceeded: number;
+    unreadable: number;
+    crankBlocked: number;
+  };
+  generatedAt: string;
+}
+
+interface HealthJob {
+  pubkey: string;
+  label: string;
+  collateralMint: string;
+  programKey: string;
+  program: string;
+  programId: string;
+  network: NetworkId;
+  oracleAddress?: string;
+  layout?: string;
+}
+
+// ── Assessment ──────────────────────────────────────────────────────────
+
+function assess(job: HealthJob, data: Buffer, reading: OracleReading | null, msPerSlot: number): OracleHealthEntry {
+  const config = parseConfig(data, slabLayoutOf(data, job));
+  const maxStalenessSlots = Number(config.maxStalenessSlots);
+  const storedE6 = config.lastEffectivePriceE6;
+  const error = reading ? reading.error : 'Oracle read failed';
+
+  const ageSlots = reading?.stalenessSlots ?? null;
+  const stale = reading?.stale ?? false;
+  const confidenceBps = reading?.confidenceBps ?? 0;
+  const wideConfidence = config.confFilterBps > 0 && confidenceBps > config.confFilterBps;
+
+  const liveE6 = reading?.priceE6 ?? 0n;
+  const deviationBps = liveE6 > 0n && storedE6 > 0n
+    ? Math.abs(Number(liveE6 - storedE6)) / Number(storedE6) * 10_000
+    : null;
+  const priceCapBps = config.oraclePriceCapE2bps > 0n ? Number(config.oraclePriceCapE2bps) / 100 : null;
+  const capExceeded = deviationBps !== null && priceCapBps !== null && deviationBps > priceCapBps;
+
+  const issues: string[] = [];
+  if (error) issues.push(`Oracle unreadable: ${error}`);
+  if (stale) issues.push(`Stale: ${ageSlots} slots > ${maxStalenessSlots} max`);
+  if (wideConfidence) issues.push(`Confidence ${confidenceBps.toFixed(1)}bps > ${config.confFilterBps}bps filter`);
+  if (capExceeded) {
+    issues.push(`Price cap: ${deviationBps!.toFixed(1)}bps move > ${priceCapBps}bps cap`);
+  } else if (priceCapBps === null && deviationBps !== null && deviationBps > DEVIATION_WARN_BPS) {
+    issues.push(`Deviation ${deviationBps.toFixed(1)}bps from last effective price`);
+  }
+
+  const crankBlocked = !!error || stale || wideConfidence;
+  const status: OracleHealthStatus = crankBlocked ? 'critical' : issues.length > 0 ? 'warning' : 'ok';
+
+  return {
+    slabAddress: job.pubkey,
+    slabLabel: job.label,
+    collateralSymbol: resolveMintSymbol(job.collateralMint),
+    programKey: job.programKey,
+    program: job.program,
+    programId: job.programId,
+    network: job.network,
+    source: reading?.source ?? 'unknown',
+    feed: reading?.feed ?? config.indexFeedId.toBase58(),
+    price: reading?.price ?? 0,
+    storedPrice: getEffectiveOraclePrice(storedE6, config.invert),
+    ageSlots,
+    ageSeconds: reading?.ageSeconds != null ? Math.round(reading.ageSeconds) : null,
+    maxStalenessSlots,
+    maxStalenessSeconds: Math.round(maxStalenessSlots * msPerSlot / 1000),
+    stale,
+    confidenceBps,
+    confFilterBps: config.confFilterBps,
+    wideConfidence,
+    deviationBps,
+    priceCapBps,
+    capExceeded,
+    crankBlocked,
+    status,
+    issues,
+    error,
+  };
+}
+
+// ── Scan ────────────────────────────────────────────────────────────────
+
+async function scanNetwork(network: NetworkId, jobs: HealthJob[], currentSlot: number): Promise<OracleHealthEntry[]> {
+  if (jobs.length === 0) return [];
+  const connection = getNetworkConnection(network);
+
+  // Header, config and params: everything before the engine
+  const prefixLen = maxOverLayouts((l) => l.engineOffset);
+  const prefixes = await batchFetchAccounts(
+    connection,
+    jobs.map((j) => new PublicKey(j.pubkey)),
+    10,
+    { offset: 0, length: prefixLen },
+  );
+  const [readings, { msPerSlot }] = await Promise.all([
+    readOraclesForSlabs(
+      connection,
+      jobs.map((j, i) => ({ data: prefixes[i], feed: j.oracleAddress, entry: j })),
+      currentSlot > 0 ? currentSlot : undefined,
+    ),
+    getSlotTiming(connection),
+  ]);
+
+  const entries: OracleHealthEntry[] = [];
+  jobs.forEach((job, i) => {
+    const data = prefixes[i];
+    if (!data) return;
+    try {
+      entries.push(assess(job, data, readings[i], msPerSlot));
+    } catch (err) {
+      console.warn(`[oracle-health] Failed to assess ${job.pubkey}:`, err);
+    }
+  });
+  return entries;
+}
+
+const STATUS_ORDER: Record<OracleHealthStatus, number> = { critical: 0, warning: 1, ok: 2 };
+
+/** Oracle health of every active slab, worst first; cached for 15s */
+export async function getOracleHealth(): Promise<OracleHealthReport> {
+  const cached = getCached<OracleHealthReport>(ORACLE_HEALTH_CACHE_KEY, ORACLE_HEALTH_CACHE_MS);
+  if (cached) return cached;
+
+  const radar = await scanEcosystem();
+  const jobsByNetwork = new Map<NetworkId, HealthJob[]>();
+  for (const program of radar.programs) {
+    const { oracleAddress, layout } = getRegistryEntry(program.id) ?? {};
+    for (const slab of program.slabs) {
+      if (slab.numUsedAccounts === 0 || !slab.layout) continue;
+      const jobs = jobsByNetwork.get(program.network) ?? [];
+      jobs.push({
+        pubkey: slab.pubkey,
+        label: slab.label,
+        collateralMint: slab.collateralMint,
+        programKey: program.id,
+        program: program.label,
+        programId: program.programId,
+        network: program.network,
+        oracleAddress,
+        layout,
+      });
+      jobsByNetwork.set(program.network, jobs);
+    }
+  }
+
+  const networks = getAllNetworks();
+  const results = await Promise.allSettled(
+    networks.map((network) =>
+      scanNetwork(network, jobsByNetwork.get(network) ?? [], radar.networkSlots[network] ?? 0),
+    ),
+  );
+  const slabs: OracleHealthEntry[] = [];
+  results.forEach((r, i) => {
+    if (r.status === 'fulfilled') slabs.push(...r.value);
+    else console.warn(`[oracle-health] ${networks[i]} scan failed:`, r.reason);
+  });
+
+  slabs.sort((a, b) =>
+    STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+    (b.deviationBps ?? 0) - (a.deviationBps ?? 0),
+  );
+
+  const report: OracleHealthReport = {
+    slabs,
+    summary: {
+      total: slabs.length,
+      ok: slabs.filter((s) => s.status === 'ok').length,
+      warning: slabs.filter((s) => s.status === 'warning').length,
+      critical: slabs.filter((s) => s.status === 'critical').length,
+      stale: slabs.filter((s) => s.stale).length,
+      wideConfidence: slabs.filter((s) => s.wideConfidence).length,
+      capExceeded: slabs.filter((s) => s.capExceeded).length,
+      unreadable: slabs.filter((s) => s.error).length,
+      crankBlocked: slabs.filter((s) => s.crankBlocked).length,
+    },
+    generatedAt: new Date().toISOString(),
+  };
+
+  setCache(ORACLE_HEALTH_CACHE_KEY, report);
+  return report;
+}
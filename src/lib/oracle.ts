@@ -1,9 +1,29 @@
 /**
- * Oracle price reading — Chainlink OCR2 on devnet
- * Ported from percolator-cli/scripts/dump-state.ts
+ * Oracle price reading.
+ *
+ * Each slab names its price source in `MarketConfig.indexFeedId`; the owner
+ * program of that account picks the reader:
+ *
+ *   Pyth       legacy price accounts and PriceUpdateV2 (receiver / push oracle)
+ *   Chainlink  OCR2 store transmissions (decimals @138, slot @200, answer @216)
+ *   PumpSwap   pool vault reserves
+ *   Raydium    CPMM vault reserves, CLMM sqrt price
+ *   Meteora    DLMM active bin
+ *
+ * An all-zero feed id means the admin pushes prices: `authorityPriceE6`,
+ * stamped with `authorityTimestamp`. A Pyth feed id that isn't an account is
+ * looked up as its push-oracle price account (shard 0).
+ *
+ * getOraclePrice() is the original Chainlink reader for the devnet Toly
+ * market, ported from percolator-cli/scripts/dump-state.ts.
  */
 import { Connection, PublicKey } from '@solana/web3.js';
 import { CONFIG } from './constants';
+import { parseConfig } from './percolator';
+import { slabLayoutOf } from './slab-layout';
+import { getSlotTiming } from './slot-time';
+import type { ProgramEntry } from './registry';
+import type { MarketConfig } from './types';
 
 export interface OraclePrice {
   /** Raw USD price (e.g. 142.47) */
@@ -63,3 +83,505 @@ export function getEffectiveOraclePrice(lastEffectivePriceE6: bigint, invert: nu
   }
   return Number(lastEffectivePriceE6) / 1_000_000;
 }
+
+// ── Per-slab oracle readers ─────────────────────────────────────────────
+
+export type OracleSource = 'admin' | 'pyth' | 'chainlink' | 'dex-pumpswap' | 'dex-raydium' | 'dex-meteora' | 'unknown';
+
+export interface OracleReading {
+  source: OracleSource;
+  /** Account the price was read from; the oracle authority for admin prices */
+  feed: string;
+  /** Feed price in the feed's own orientation (e.g. USD per SOL); 0 if unreadable */
+  price: number;
+  /** ± confidence in the same units as `price`; 0 for sources without one */
+  confidence: number;
+  /** Confidence relative to price, in bps */
+  confidenceBps: number;
+  /** Price in the slab's e6 units after `invert` — what the engine would see */
+  priceE6: bigint;
+  /** Slot the price was published at, when the source records it */
+  publishSlot: number | null;
+  /** Unix seconds the price was published at, when the source records it */
+  publishTime: number | null;
+  /** Age in slots; from publishTime at the measured slot time when there is no slot */
+  stalenessSlots: number | null;
+  /** Age in seconds; from stalenessSlots at the measured slot time when there is no publishTime */
+  ageSeconds: number | null;
+  /** Older than the slab's maxStalenessSlots */
+  stale: boolean;
+  /** Base and quote mints of a DEX pool feed, whose price is quote per base */
+  pair: { base: string; quote: string } | null;
+  /** Why the price couldn't be read */
+  error: string | null;
+}
+
+/** A slab to read: its config, and optionally a feed account overriding indexFeedId */
+export interface OracleTarget {
+  config: MarketConfig;
+  /** Registry `oracleAddress`, which programs with an oracle override crank with */
+  feed?: string;
+}
+
+/** getMultipleAccountsInfo limit */
+const MAX_ACCOUNTS_PER_CALL = 100;
+
+const PYTH_LEGACY_PROGRAMS = [
+  'FsJ3A3u2vn5cTVofAjvy6y5kwABJAqYWpe4975bi2epH', // mainnet
+  'gSbePebfvPy7tRqimPoVecS2UsBvYv46ynrzWocc92s', // devnet
+];
+const PYTH_RECEIVER = 'rec5EKMGg6MxZYaMdyBfgwp4d5rB9T1VQH5pJv5LtFJ';
+const PYTH_PUSH_ORACLE = new PublicKey('pythWSnswVUd12oZpeFP8e9CVaEqJg25g1Vtc2biRsT');
+const CHAINLINK_STORE = 'HEvSKofvBgfaexv23kMabbYqxasxU3mQ4ibBMEmJWHny';
+const PUMPSWAP_AMM = 'pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA';
+const RAYDIUM_CPMM = 'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C';
+const RAYDIUM_CLMM = 'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK';
+const METEORA_DLMM = 'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9t1hovBNE';
+
+/** A decoded feed: a price outright, or a pool that needs its vaults/mints read */
+export type FeedQuote =
+  | {
+      kind: 'price';
+      source: OracleSource;
+      price: number;
+      confidence: number;
+      publishSlot: number | null;
+      publishTime: number | null;
+      /** Base and quote mints of a DEX pool; the price is quote per base */
+      pair?: [PublicKey, PublicKey];
+    }
+  | {
+      kind: 'pool';
+      source: OracleSource;
+      accounts: PublicKey[];
+      /** Price from `accounts` data, in the same order; 0 if unusable */
+      price: (data: (Buffer | null)[]) => number;
+      pair: [PublicKey, PublicKey];
+    };
+
+/** A feed read without a slab: its price, or why it couldn't be read */
+export interface FeedPrice {
+  /** Account read; the push-oracle account when the feed was a Pyth feed id */
+  feed: string;
+  source: OracleSource;
+  price: number;
+  confidence: number;
+  publishSlot: number | null;
+  publishTime: number | null;
+  /** Priced from current pool reserves, so as fresh as the slot it was read at */
+  live: boolean;
+  pair: [PublicKey, PublicKey] | null;
+  error: string | null;
+}
+
+/** SPL token account amount (u64 @64) and mint decimals (u8 @44) */
+function tokenAmount(data: Buffer | null): number {
+  return data && data.length >= 72 ? Number(data.readBigUInt64LE(64)) : 0;
+}
+
+function mintDecimals(data: Buffer | null): number | null {
+  return data && data.length >= 45 ? data.readUInt8(44) : null;
+}
+
+function readU128(data: Buffer, offset: number): bigint {
+  return data.readBigUInt64LE(offset) + (data.readBigUInt64LE(offset + 8) << 64n);
+}
+
+function key(data: Buffer, offset: number): PublicKey {
+  return new PublicKey(data.subarray(offset, offset + 32));
+}
+
+/**
+ * Pyth legacy price account: expo i32 @20, timestamp i64 @96, aggregate
+ * price i64 @208, conf u64 @216, status u32 @224 (1 = trading), pub slot @232.
+ */
+export function decodePythPriceAccount(data: Buffer): FeedQuote {
+  if (data.length < 240 || data.readUInt32LE(0) !== 0xa1b2c3d4) throw new Error('Not a Pyth price account');
+  if (data.readUInt32LE(224) !== 1) throw new Error('Pyth price is not trading');
+  const scale = 10 ** data.readInt32LE(20);
+  const timestamp = Number(data.readBigInt64LE(96));
+  return {
+    kind: 'price',
+    source: 'pyth',
+    price: Number(data.readBigInt64LE(208)) * scale,
+    confidence: Number(data.readBigUInt64LE(216)) * scale,
+    publishSlot: Number(data.readBigUInt64LE(232)),
+    publishTime: timestamp > 0 ? timestamp : null,
+  };
+}
+
+/**
+ * Pyth PriceUpdateV2: discriminator, write authority, verification level
+ * (Partial carries a signature count byte), then the price feed message.
+ */
+export function decodePythPriceUpdate(data: Buffer): FeedQuote {
+  const msg = data.readUInt8(40) === 0 ? 42 : 41;
+  if (data.length < msg + 92) throw new Error('Truncated Pyth price update');
+  const scale = 10 ** data.readInt32LE(msg + 48);
+  return {
+    kind: 'price',
+    source: 'pyth',
+    price: Number(data.readBigInt64LE(msg + 32)) * scale,
+    confidence: Number(data.readBigUInt64LE(msg + 40)) * scale,
+    publishSlot: Number(data.readBigUInt64LE(msg + 84)),
+    publishTime: Number(data.readBigInt64LE(msg + 52)),
+  };
+}
+
+/** Chainlink OCR2 transmissions: decimals @138, latest round slot @200, timestamp @208, answer @216 */
+export function decodeChainlinkFeed(data: Buffer): FeedQuote {
+  if (data.length < 232) throw new Error('Truncated Chainlink feed');
+  const slot = Number(data.readBigUInt64LE(200));
+  const timestamp = data.readUInt32LE(208);
+  return {
+    kind: 'price',
+    source: 'chainlink',
+    price: Number(data.readBigInt64LE(216)) / 10 ** data.readUInt8(138),
+    confidence: 0,
+    publishSlot: slot > 0 ? slot : null,
+    publishTime: timestamp > 0 ? timestamp : null,
+  };
+}
+
+/** PumpSwap pool: quote per base from the pool's vault reserves */
+export function decodePumpSwapPool(data: Buffer): FeedQuote {
+  if (data.length < 203) throw new Error('Truncated PumpSwap pool');
+  return {
+    kind: 'pool',
+    source: 'dex-pumpswap',
+    accounts: [key(data, 139), key(data, 171), key(data, 43), key(data, 75)],
+    price: ([baseVault, quoteVault, baseMint, quoteMint]) => {
+      const base = tokenAmount(baseVault) / 10 ** (mintDecimals(baseMint) ?? 0);
+      const quote = tokenAmount(quoteVault) / 10 ** (mintDecimals(quoteMint) ?? 0);
+      return base > 0 ? quote / base : 0;
+    },
+    pair: [key(data, 43), key(data, 75)],
+  };
+}
+
+/** Raydium CPMM: token1 per token0 (mints @168/@200) from vault balances net of accrued protocol and fund fees */
+export function decodeRaydiumCpmmPool(data: Buffer): FeedQuote {
+  if (data.length < 381) throw new Error('Truncated Raydium CPMM pool');
+  const decimals0 = data.readUInt8(331);
+  const decimals1 = data.readUInt8(332);
+  const fees0 = Number(data.readBigUInt64LE(341) + data.readBigUInt64LE(357));
+  const fees1 = Number(data.readBigUInt64LE(349) + data.readBigUInt64LE(365));
+  return {
+    kind: 'pool',
+    source: 'dex-raydium',
+    accounts: [key(data, 72), key(data, 104)],
+    price: ([vault0, vault1]) => {
+      const reserve0 = (tokenAmount(vault0) - fees0) / 10 ** decimals0;
+      const reserve1 = (tokenAmount(vault1) - fees1) / 10 ** decimals1;
+      return reserve0 > 0 ? reserve1 / reserve0 : 0;
+    },
+    pair: [key(data, 168), key(data, 200)],
+  };
+}
+
+/** Raydium CLMM: token1 per token0 (mints @73/@105) from sqrt_price_x64 (u128 @253) */
+export function decodeRaydiumClmmPool(data: Buffer): FeedQuote {
+  if (data.length < 269) throw new Error('Truncated Raydium CLMM pool');
+  const sqrtPrice = Number(readU128(data, 253)) / 2 ** 64;
+  return {
+    kind: 'price',
+    source: 'dex-raydium',
+    price: sqrtPrice * sqrtPrice * 10 ** (data.readUInt8(233) - data.readUInt8(234)),
+    confidence: 0,
+    publishSlot: null,
+    publishTime: null,
+    pair: [key(data, 73), key(data, 105)],
+  };
+}
+
+/** Meteora DLMM: Y per X at the active bin, (1 + binStep/1e4)^activeId */
+export function decodeMeteoraDlmmPool(data: Buffer): FeedQuote {
+  if (data.length < 152) throw new Error('Truncated Meteora DLMM pair');
+  const activeId = data.readInt32LE(76);
+  const binStep = data.readUInt16LE(80);
+  return {
+    kind: 'pool',
+    source: 'dex-meteora',
+    accounts: [key(data, 88), key(data, 120)],
+    price: ([mintX, mintY]) => {
+      const decimalsX = mintDecimals(mintX);
+      const decimalsY = mintDecimals(mintY);
+      if (decimalsX === null || decimalsY === null) return 0;
+      return (1 + binStep / 10_000) ** activeId * 10 ** (decimalsX - decimalsY);
+    },
+    pair: [key(data, 88), key(data, 120)],
+  };
+}
+
+/** Decoder for a feed account by its owner program */
+function feedDecoder(owner: string): ((data: Buffer) => FeedQuote) | undefined {
+  if (PYTH_LEGACY_PROGRAMS.includes(owner)) return decodePythPriceAccount;
+  switch (owner) {
+    case PYTH_RECEIVER:
+    case PYTH_PUSH_ORACLE.toBase58():
+      return decodePythPriceUpdate;
+    case CHAINLINK_STORE:
+      return decodeChainlinkFeed;
+    case PUMPSWAP_AMM:
+      return decodePumpSwapPool;
+    case RAYDIUM_CPMM:
+      return decodeRaydiumCpmmPool;
+    case RAYDIUM_CLMM:
+      return decodeRaydiumClmmPool;
+    case METEORA_DLMM:
+      return decodeMeteoraDlmmPool;
+  }
+  return undefined;
+}
+
+/** Push-oracle price account for a Pyth feed id (shard 0) */
+function pythPushAccount(feedId: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync([Buffer.from([0, 0]), feedId.toBuffer()], PYTH_PUSH_ORACLE)[0];
+}
+
+async function fetchAccounts(
+  connection: Connection,
+  pubkeys: PublicKey[],
+): Promise<({ owner: string; data: Buffer } | null)[]> {
+  const results: ({ owner: string; data: Buffer } | null)[] = [];
+  for (let i = 0; i < pubkeys.length; i += MAX_ACCOUNTS_PER_CALL) {
+    const infos = await connection.getMultipleAccountsInfo(pubkeys.slice(i, i + MAX_ACCOUNTS_PER_CALL));
+    for (const info of infos) {
+      results.push(info ? { owner: info.owner.toBase58(), data: Buffer.from(info.data) } : null);
+    }
+  }
+  return results;
+}
+
+function toReading(
+  target: OracleTarget,
+  feed: string,
+  quote: { source: OracleSource; price: number; confidence: number; publishSlot: number | null; publishTime: number | null; pair?: [PublicKey, PublicKey] | null },
+  currentSlot: number,
+  msPerSlot: number,
+  error: string | null = null,
+): OracleReading {
+  const { config } = target;
+  const { price, confidence, publishSlot, publishTime, pair } = quote;
+
+  const rawE6 = price > 0 && Number.isFinite(price) ? BigInt(Math.round(price * 1_000_000)) : 0n;
+  const priceE6 = config.invert === 1 ? (rawE6 > 0n ? 1_000_000_000_000n / rawE6 : 0n) : rawE6;
+
+  const publishAgeSeconds = publishTime !== null ? Math.max(0, Date.now() / 1000 - publishTime) : null;
+  let stalenessSlots: number | null = null;
+  if (publishSlot !== null && currentSlot > 0) {
+    stalenessSlots = Math.max(0, currentSlot - publishSlot);
+  } else if (publishAgeSeconds !== null) {
+    stalenessSlots = Math.round(publishAgeSeconds * 1000 / msPerSlot);
+  }
+  const ageSeconds = publishAgeSeconds ?? (stalenessSlots !== null ? stalenessSlots * msPerSlot / 1000 : null);
+
+  return {
+    source: quote.source,
+    feed,
+    price: rawE6 > 0n ? price : 0,
+    confidence,
+    confidenceBps: price > 0 ? (confidence / price) * 10_000 : 0,
+    priceE6,
+    publishSlot,
+    publishTime,
+    stalenessSlots,
+    ageSeconds,
+    stale: stalenessSlots !== null && config.maxStalenessSlots > 0n && stalenessSlots > Number(config.maxStalenessSlots),
+    pair: pair ? { base: pair[0].toBase58(), quote: pair[1].toBase58() } : null,
+    error: error ?? (priceE6 > 0n ? null : 'No price'),
+  };
+}
+
+const NO_QUOTE = { price: 0, confidence: 0, publishSlot: null, publishTime: null };
+
+/**
+ * Read feed accounts on their own, in order. Feeds are fetched in one batch,
+ * missing Pyth feed ids are retried as push-oracle accounts, then pool vaults
+ * and mints in a final batch. Unreadable feeds carry `error` and a zero price.
+ */
+export async function readFeedPrices(connection: Connection, feeds: PublicKey[]): Promise<FeedPrice[]> {
+  const resolved = [...feeds];
+  const prices: FeedPrice[] = feeds.map((feed) => ({
+    feed: feed.toBase58(),
+    source: 'unknown',
+    ...NO_QUOTE,
+    live: false,
+    pair: null,
+    error: 'Oracle account not found',
+  }));
+  if (feeds.length === 0) return prices;
+
+  const accounts = await fetchAccounts(connection, feeds);
+
+  // Feed ids that aren't accounts may be Pyth feed ids
+  const missing = feeds.flatMap((_, i) => (accounts[i] ? [] : [i]));
+  if (missing.length > 0) {
+    const pushAccounts = await fetchAccounts(connection, missing.map((i) => pythPushAccount(feeds[i])));
+    missing.forEach((i, j) => {
+      if (!pushAccounts[j]) return;
+      resolved[i] = pythPushAccount(feeds[i]);
+      accounts[i] = pushAccounts[j];
+    });
+  }
+
+  const pools: { idx: number; quote: Extract<FeedQuote, { kind: 'pool' }> }[] = [];
+  accounts.forEach((account, i) => {
+    if (!account) return;
+    const feed = resolved[i].toBase58();
+    const decode = feedDecoder(account.owner);
+    if (!decode) {
+      prices[i] = { ...prices[i], feed, error: `Unsupported oracle program ${account.owner}` };
+      return;
+    }
+    try {
+      const quote = decode(account.data);
+      if (quote.kind === 'pool') {
+        pools.push({ idx: i, quote });
+      } else {
+        const { source, price, confidence, publishSlot, publishTime, pair } = quote;
+        prices[i] = { feed, source, price, confidence, publishSlot, publishTime, live: !!pair, pair: pair ?? null, error: null };
+      }
+    } catch (err) {
+      prices[i] = { ...prices[i], feed, error: err instanceof Error ? err.message : String(err) };
+    }
+  });
+
+  if (pools.length > 0) {
+    const poolAccounts = await fetchAccounts(connection, pools.flatMap((p) => p.quote.accounts));
+    let offset = 0;
+    for (const { idx, quote } of pools) {
+      const data = poolAccounts.slice(offset, offset + quote.accounts.length).map((a) => a?.data ?? null);
+      offset += quote.accounts.length;
+      prices[idx] = {
+        feed: resolved[idx].toBase58(),
+        source: quote.source,
+        ...NO_QUOTE,
+        price: quote.price(data),
+        live: true,
+        pair: quote.pair,
+        error: null,
+      };
+    }
+  }
+
+  return prices;
+}
+
+/** Admin-pushed price from the config itself; no account to read */
+function readAuthorityPrice(target: OracleTarget, currentSlot: number, msPerSlot: number): OracleReading {
+  const { config } = target;
+  const pushed = config.authorityPriceE6 > 0n;
+  return toReading(
+    target,
+    config.oracleAuthority.toBase58(),
+    {
+      source: 'admin',
+      price: Number(config.authorityPriceE6) / 1_000_000,
+      confidence: 0,
+      publishSlot: null,
+      publishTime: pushed && config.authorityTimestamp > 0n ? Number(config.authorityTimestamp) : null,
+    },
+    currentSlot,
+    msPerSlot,
+    pushed ? null : 'No authority price pushed',
+  );
+}
+
+/**
+ * Read the live oracle of each slab on one network, in order, batched as in
+ * readFeedPrices. Readings that fail carry `error` and a zero price rather
+ * than throwing.
+ */
+export async function readSlabOracles(
+  connection: Connection,
+  targets: OracleTarget[],
+  currentSlot?: number,
+): Promise<OracleReading[]> {
+  const readings: (OracleReading | null)[] = targets.map(() => null);
+  const feeds = targets.map((t) => (t.feed ? new PublicKey(t.feed) : t.config.indexFeedId));
+
+  const authority: number[] = [];
+  const pending: number[] = [];
+  targets.forEach((target, i) => {
+    if (!target.feed && target.config.indexFeedId.equals(PublicKey.default)) {
+      authority.push(i);
+    } else {
+      pending.push(i);
+    }
+  });
+
+  // Authority prices need no RPC beyond the (cached) slot timing
+  const [prices, slot, { msPerSlot }] = await Promise.all([
+    pending.length > 0 ? readFeedPrices(connection, pending.map((i) => feeds[i])) : [],
+    pending.length > 0 ? currentSlot ?? connection.getSlot('confirmed').catch(() => 0) : currentSlot ?? 0,
+    getSlotTiming(connection),
+  ]);
+
+  authority.forEach((i) => {
+    readings[i] = readAuthorityPrice(targets[i], currentSlot ?? 0, msPerSlot);
+  });
+
+  pending.forEach((i, j) => {
+    const { feed, error, live, ...quote } = prices[j];
+    // Reserves are read live, so a pool price is as fresh as the slot
+    const publishSlot = live && slot > 0 ? slot : quote.publishSlot;
+    readings[i] = toReading(targets[i], feed, { ...quote, publishSlot }, slot, msPerSlot, error);
+  });
+
+  return readings as OracleReading[];
+}
+
+/** Live oracle of a single slab */
+export async function readSlabOracle(
+  connection: Connection,
+  target: OracleTarget,
+  currentSlot?: number,
+): Promise<OracleReading> {
+  const [reading] = await readSlabOracles(connection, [target], currentSlot);
+  return reading;
+}
+
+/**
+ * readSlabOracles over fetched slab buffers, for the batch routes. Null where
+ * the buffer is missing or unparseable, or for all slabs if the read fails.
+ */
+export async function readOraclesForSlabs(
+  connection: Connection,
+  slabs: { data: Buffer | null; feed?: string; entry?: Pick<ProgramEntry, 'programId' | 'layout'> }[],
+  currentSlot?: number,
+): Promise<(OracleReading | null)[]> {
+  const targets: { idx: number; target: OracleTarget }[] = [];
+  slabs.forEach(({ data, feed, entry }, idx) => {
+    if (!data) return;
+    try {
+      targets.push({ idx, target: { config: parseConfig(data, slabLayoutOf(data, entry)), feed } });
+    } catch {
+      // Reported by the caller's own parse
+    }
+  });
+
+  const results: (OracleReading | null)[] = slabs.map(() => null);
+  if (targets.length === 0) return results;
+  try {
+    const readings = await readSlabOracles(connection, targets.map((t) => t.target), currentSlot);
+    targets.forEach(({ idx }, j) => { results[idx] = readings[j]; });
+  } catch (err) {
+    console.warn('[oracle] Batch oracle read failed:', err);
+  }
+  return results;
+}
+
+/** The live oracle price when it could be read, otherwise the slab's last effective price */
+export function slabOraclePrice(
+  config: MarketConfig,
+  reading: OracleReading | null | undefined,
+): { oraclePriceE6: bigint; solUsdPrice: number } {
+  if (reading && reading.priceE6 > 0n) {
+    return { oraclePriceE6: reading.priceE6, solUsdPrice: reading.price };
+  }
+  return {
+    oraclePriceE6: config.lastEffectivePriceE6,
+    solUsdPrice: getEffectiveOraclePrice(config.lastEffectivePriceE6, config.invert),
+  };
+}
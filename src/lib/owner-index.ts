@@ -0,0 +1,190 @@
+/**
+ * Owner index — which slab accounts belong to a wallet.
+ *
+ * An account's owner sits at `accounts + idx * account.size + account.owner`,
+ * a different offset for every slot, so getProgramAccounts memcmp filters
+ * can't find it. Instead each network is indexed in two sliced passes over
+ * the slabs discovery already knows about:
+ *
+ *   1. prefix  — header, config, params, engine and the used bitmap
+ *                (`accounts` bytes, ~9KB per slab, batched)
+ *   2. accounts — only up to the highest used slot, one call per slab
+ *
+ * and every used account is keyed by owner. A sparse slab costs a few KB
+ * instead of the full ~1MB; the index is cached per network so lookups for
+ * any owner within OWNER_INDEX_CACHE_MS share one scan.
+ */
+import { PublicKey } from '@solana/web3.js';
+import { getCached, setCache } from './connection';
+import { getNetworkConnection } from './connections';
+import { discoverSlabsForProgram } from './discovery';
+import { batchFetchAccounts } from './fetcher';
+import { parseAllAccounts, parseConfig, parseEngine, parseParams, parseUsedIndices } from './percolator';
+import type { Account, EngineState, MarketConfig, RiskParams } from './types';
+import { getRegistryByNetwork } from './registry';
+import type { NetworkId, ProgramEntry } from './registry';
+import { getSlabLayout } from './slab-layout';
+import type { SlabLayout } from './slab-layout';
+
+const OWNER_INDEX_CACHE_MS = 30_000;
+
+/** Concurrent per-slab account fetches in pass 2 */
+const ACCOUNT_FETCH_CONCURRENCY = 5;
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export interface IndexedSlab {
+  pubkey: string;
+  label: string;
+  entry: ProgramEntry;
+  layout: SlabLayout;
+  config: MarketConfig;
+  params: RiskParams;
+  engine: EngineState;
+}
+
+export interface OwnedAccount {
+  slab: IndexedSlab;
+  idx: number;
+  account: Account;
+}
+
+export interface OwnerIndex {
+  network: NetworkId;
+  /** Slabs whose accounts were read */
+  slabs: IndexedSlab[];
+  /** Owner (base58) → its accounts, in slab then index order */
+  byOwner: Map<string, OwnedAccount[]>;
+  /** Slabs skipped because a fetch failed or their layout is unsupported */
+  skipped: number;
+  builtAt: string;
+}
+
+// ── Index build ─────────────────────────────────────────────────────────
+
+/** Bytes from the slab start to the first account slot */
+function accountsStart(layout: SlabLayout): number {
+  return layout.engineOffset + layout.engine.accounts;
+}
+
+/**
+ * Index every account on `network`. Pass 1 reads each slab up to its
+ * accounts region; pass 2 reads account slots [0, highest used] and the two
+ * are joined into a sparse buffer the regular parsers accept.
+ */
+async function buildOwnerIndex(network: NetworkId): Promise<OwnerIndex> {
+  const connection = getNetworkConnection(network);
+  const entries = getRegistryByNetwork(network);
+
+  const discovered = await Promise.allSettled(entries.map((e) => discoverSlabsForProgram(connection, e)));
+  const candidates: { pubkey: PublicKey; label: string; entry: ProgramEntry; layout: SlabLayout; slabSize: number }[] = [];
+  let skipped = 0;
+
+  discovered.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      console.warn(`[owner-index] Discovery failed for ${entries[i].id}:`, result.reason);
+      return;
+    }
+    for (const slab of result.value) {
+      const layout = slab.layout ? getSlabLayout(slab.layout) : undefined;
+      if (!layout) {
+        skipped++;
+        continue;
+      }
+      if (slab.numUsedAccounts === 0) continue;
+      candidates.push({
+        pubkey: slab.pubkey,
+        label: slab.label,
+        entry: entries[i],
+        layout,
+        slabSize: slab.slabSize ?? entries[i].slabSizes[0],
+      });
+    }
+  });
+
+  // Pass 1: everything before the account slots, batched
+  const prefixLen = Math.max(0, ...candidates.map((c) => accountsStart(c.layout)));
+  const prefixes = await batchFetchAccounts(
+    connection,
+    candidates.map((c) => c.pubkey),
+    10,
+    { offset: 0, length: prefixLen },
+  );
+
+  // Pass 2: account slots up to the highest used index, per slab
+  const slabs: IndexedSlab[] = [];
+  const byOwner = new Map<string, OwnedAccount[]>();
+
+  const readSlab = async (i: number) => {
+    const c = candidates[i];
+    const prefix = prefixes[i];
+    if (!prefix || prefix.length < accountsStart(c.layout)) {
+      skipped++;
+      return;
+    }
+
+    const start = accountsStart(c.layout);
+    const used = parseUsedIndices(prefix, c.layout);
+    if (used.length === 0) return;
+    const length = Math.min((Math.max(...used) + 1) * c.layout.account.size, c.slabSize - start);
+
+    const info = await connection.getAccountInfo(c.pubkey, { dataSlice: { offset: start, length } });
+    if (!info) {
+      skipped++;
+      return;
+    }
+
+    const data = Buffer.alloc(start + info.data.length);
+    prefix.copy(data, 0, 0, start);
+    Buffer.from(info.data).copy(data, start);
+
+    const slab: IndexedSlab = {
+      pubkey: c.pubkey.toBase58(),
+      label: c.label,
+      entry: c.entry,
+      layout: c.layout,
+      config: parseConfig(data, c.layout),
+      params: parseParams(data, c.layout),
+      engine: parseEngine(data, c.layout),
+    };
+    slabs.push(slab);
+
+    for (const { idx, account } of parseAllAccounts(data, c.layout)) {
+      const owner = account.owner.toBase58();
+      const list = byOwner.get(owner) ?? [];
+      list.push({ slab, idx, account });
+      byOwner.set(owner, list);
+    }
+  };
+
+  for (let i = 0; i < candidates.length; i += ACCOUNT_FETCH_CONCURRENCY) {
+    const group = candidates.slice(i, i + ACCOUNT_FETCH_CONCURRENCY).map((_, j) => i + j);
+    const results = await Promise.allSettled(group.map(readSlab));
+    results.forEach((r, j) => {
+      if (r.status === 'rejected') {
+        skipped++;
+        console.warn(`[owner-index] Failed to read ${candidates[group[j]].pubkey.toBase58()}:`, r.reason);
+      }
+    });
+  }
+
+  // Keep slab order stable regardless of which fetch finished first
+  slabs.sort((a, b) => a.entry.id.localeCompare(b.entry.id) || a.label.localeCompare(b.label));
+  for (const list of byOwner.values()) {
+    list.sort((a, b) => slabs.indexOf(a.slab) - slabs.indexOf(b.slab) || a.idx - b.idx);
+  }
+
+  console.log(`[owner-index] ${network}: ${slabs.length} slabs, ${byOwner.size} owners${skipped ? `, ${skipped} skipped` : ''}`);
+  return { network, slabs, byOwner, skipped, builtAt: new Date().toISOString() };
+}
+
+/** Cached owner index for one network */
+export async function getOwnerIndex(network: NetworkId): Promise<OwnerIndex> {
+  const cacheKey = `owner_index_${network}`;
+  const cached = getCached<OwnerIndex>(cacheKey, OWNER_INDEX_CACHE_MS);
+  if (cached) return cached;
+
+  const index = await buildOwnerIndex(network);
+  setCache(cacheKey, index);
+  return index;
+}
@@ -1,93 +1,27 @@
 /**
  * Slab deserialization — ported from percolator-cli/src/solana/slab.ts
- * All offsets, constants, and parsing logic match the on-chain Rust layout exactly.
+ * Parsing logic matches the on-chain Rust layout exactly. Offsets come from a
+ * SlabLayout (slab-layout.ts); every parser defaults to the layout for the
+ * slab's header version and throws UnsupportedLayoutError for unknown ones.
+ *
+ * The serialize* functions at the bottom are the exact inverse, built on the
+ * same offset constants, for synthetic markets and local validator seeding.
  */
 import { Connection, PublicKey } from '@solana/web3.js';
 import {
   SlabHeader, MarketConfig, RiskParams, EngineState,
-  InsuranceFund, Account, AccountKind,
+  InsuranceFund, Account, AccountKind, SlabState,
 } from './types';
+import {
+  SLAB_VERSION_OFFSET, SlabLayout, crankStateLen, maxOverLayouts, resolveSlabLayout, slabLayoutOf,
+} from './slab-layout';
 
 // ============================================================================
-// Layout constants (from Rust repr(C), SBF 8-byte alignment for u128)
+// Layout — every offset comes from the versioned registry in slab-layout.ts
 // ============================================================================
 const MAGIC = 0x504552434f4c4154n; // "PERCOLAT"
-const HEADER_LEN = 72;
-const CONFIG_OFFSET = HEADER_LEN; // 72
-const CONFIG_LEN = 320;
-const RESERVED_OFF = 48;
 const FLAG_RESOLVED = 1 << 0;
 
-// Engine offset
-const ENGINE_OFF = 392; // HEADER_LEN + CONFIG_LEN
-
-// Engine field offsets (relative to ENGINE_OFF)
-const ENGINE_VAULT_OFF = 0;
-const ENGINE_INSURANCE_OFF = 16;
-const ENGINE_PARAMS_OFF = 48;
-const ENGINE_CURRENT_SLOT_OFF = 192;
-const ENGINE_FUNDING_INDEX_OFF = 200;
-const ENGINE_LAST_FUNDING_SLOT_OFF = 216;
-const ENGINE_FUNDING_RATE_BPS_OFF = 224;
-const ENGINE_LAST_CRANK_SLOT_OFF = 232;
-const ENGINE_MAX_CRANK_STALENESS_OFF = 240;
-const ENGINE_TOTAL_OI_OFF = 248;
-const ENGINE_C_TOT_OFF = 264;
-const ENGINE_PNL_POS_TOT_OFF = 280;
-const ENGINE_LIQ_CURSOR_OFF = 296;
-const ENGINE_GC_CURSOR_OFF = 298;
-const ENGINE_LAST_SWEEP_START_OFF = 304;
-const ENGINE_LAST_SWEEP_COMPLETE_OFF = 312;
-const ENGINE_CRANK_CURSOR_OFF = 320;
-const ENGINE_SWEEP_START_IDX_OFF = 322;
-const ENGINE_LIFETIME_LIQUIDATIONS_OFF = 328;
-const ENGINE_LIFETIME_FORCE_CLOSES_OFF = 336;
-const ENGINE_NET_LP_POS_OFF = 344;
-const ENGINE_LP_SUM_ABS_OFF = 360;
-const ENGINE_LP_MAX_ABS_OFF = 376;
-const ENGINE_LP_MAX_ABS_SWEEP_OFF = 392;
-const ENGINE_BITMAP_OFF = 408;
-const ENGINE_NUM_USED_OFF = 920;
-const ENGINE_NEXT_ACCOUNT_ID_OFF = 928;
-// const ENGINE_FREE_HEAD_OFF = 936;
-const ENGINE_ACCOUNTS_OFF = 9136;
-
-const BITMAP_WORDS = 64;
-const MAX_ACCOUNTS = 4096;
-const ACCOUNT_SIZE = 240;
-
-// RiskParams field offsets (relative to params base)
-const PARAMS_WARMUP_PERIOD_OFF = 0;
-const PARAMS_MAINTENANCE_MARGIN_OFF = 8;
-const PARAMS_INITIAL_MARGIN_OFF = 16;
-const PARAMS_TRADING_FEE_OFF = 24;
-const PARAMS_MAX_ACCOUNTS_OFF = 32;
-const PARAMS_NEW_ACCOUNT_FEE_OFF = 40;
-const PARAMS_RISK_THRESHOLD_OFF = 56;
-const PARAMS_MAINTENANCE_FEE_OFF = 72;
-const PARAMS_MAX_CRANK_STALENESS_OFF = 88;
-const PARAMS_LIQUIDATION_FEE_BPS_OFF = 96;
-const PARAMS_LIQUIDATION_FEE_CAP_OFF = 104;
-const PARAMS_LIQUIDATION_BUFFER_OFF = 120;
-const PARAMS_MIN_LIQUIDATION_OFF = 128;
-
-// Account field offsets (relative to account base)
-const ACCT_ACCOUNT_ID_OFF = 0;
-const ACCT_CAPITAL_OFF = 8;
-const ACCT_KIND_OFF = 24;
-const ACCT_PNL_OFF = 32;
-const ACCT_RESERVED_PNL_OFF = 48;
-const ACCT_WARMUP_STARTED_OFF = 56;
-const ACCT_WARMUP_SLOPE_OFF = 64;
-const ACCT_POSITION_SIZE_OFF = 80;
-const ACCT_ENTRY_PRICE_OFF = 96;
-const ACCT_FUNDING_INDEX_OFF = 104;
-const ACCT_MATCHER_PROGRAM_OFF = 120;
-const ACCT_MATCHER_CONTEXT_OFF = 152;
-const ACCT_OWNER_OFF = 184;
-const ACCT_FEE_CREDITS_OFF = 216;
-const ACCT_LAST_FEE_SLOT_OFF = 232;
-
 // ============================================================================
 // Binary helpers
 // ============================================================================
@@ -108,6 +42,24 @@ function readU128LE(buf: Buffer, offset: number): bigint {
   return (hi << 64n) | lo;
 }
 
+const U64_MASK = (1n << 64n) - 1n;
+const U128_MASK = (1n << 128n) - 1n;
+
+function writeU128LE(buf: Buffer, value: bigint, offset: number): void {
+  if (value < 0n || value > U128_MASK) {
+    throw new RangeError(`u128 out of range: ${value}`);
+  }
+  buf.writeBigUInt64LE(value & U64_MASK, offset);
+  buf.writeBigUInt64LE(value >> 64n, offset + 8);
+}
+
+function writeI128LE(buf: Buffer, value: bigint, offset: number): void {
+  if (value < -(1n << 127n) || value >= 1n << 127n) {
+    throw new RangeError(`i128 out of range: ${value}`);
+  }
+  writeU128LE(buf, value & U128_MASK, offset);
+}
+
 // ============================================================================
 // Fetch slab
 // ============================================================================
@@ -123,11 +75,11 @@ export async function fetchSlab(
 }
 
 // ============================================================================
-// Parse header (72 bytes)
+// Parse header (72 bytes in v1)
 // ============================================================================
-export function parseHeader(data: Buffer): SlabHeader {
-  if (data.length < HEADER_LEN) {
-    throw new Error(`Slab data too short for header: ${data.length} < ${HEADER_LEN}`);
+export function parseHeader(data: Buffer, layout?: SlabLayout): SlabHeader {
+  if (data.length < SLAB_VERSION_OFFSET + 4) {
+    throw new Error(`Slab data too short for header: ${data.length}`);
   }
 
   const magic = data.readBigUInt64LE(0);
@@ -135,12 +87,18 @@ export function parseHeader(data: Buffer): SlabHeader {
     throw new Error(`Invalid slab magic: expected ${MAGIC.toString(16)}, got ${magic.toString(16)}`);
   }
 
-  const version = data.readUInt32LE(8);
-  const bump = data.readUInt8(12);
-  const flags = data.readUInt8(13);
-  const admin = new PublicKey(data.subarray(16, 48));
-  const nonce = data.readBigUInt64LE(RESERVED_OFF);
-  const lastThrUpdateSlot = data.readBigUInt64LE(RESERVED_OFF + 8);
+  // Magic and version sit at the same offsets in every layout
+  const version = data.readUInt32LE(SLAB_VERSION_OFFSET);
+  layout ??= resolveSlabLayout(version);
+  if (data.length < layout.header.len) {
+    throw new Error(`Slab data too short for header: ${data.length} < ${layout.header.len}`);
+  }
+
+  const bump = data.readUInt8(layout.header.bump);
+  const flags = data.readUInt8(layout.header.flags);
+  const admin = new PublicKey(data.subarray(layout.header.admin, layout.header.admin + 32));
+  const nonce = data.readBigUInt64LE(layout.header.reserved);
+  const lastThrUpdateSlot = data.readBigUInt64LE(layout.header.reserved + 8);
 
   return {
     magic,
@@ -157,13 +115,13 @@ export function parseHeader(data: Buffer): SlabHeader {
 // ============================================================================
 // Parse market config (320 bytes starting at offset 72)
 // ============================================================================
-export function parseConfig(data: Buffer): MarketConfig {
-  const minLen = CONFIG_OFFSET + CONFIG_LEN;
+export function parseConfig(data: Buffer, layout: SlabLayout = slabLayoutOf(data)): MarketConfig {
+  const minLen = layout.config.offset + layout.config.len;
   if (data.length < minLen) {
     throw new Error(`Slab data too short for config: ${data.length} < ${minLen}`);
   }
 
-  let off = CONFIG_OFFSET;
+  let off = layout.config.offset;
 
   const collateralMint = new PublicKey(data.subarray(off, off + 32)); off += 32;
   const vaultPubkey = new PublicKey(data.subarray(off, off + 32)); off += 32;
@@ -211,83 +169,105 @@ export function parseConfig(data: Buffer): MarketConfig {
 }
 
 // ============================================================================
-// Parse RiskParams (144 bytes at ENGINE_OFF + 48)
+// Parse RiskParams (144 bytes at layout.engineOffset + 48)
 // ============================================================================
-export function parseParams(data: Buffer): RiskParams {
-  const base = ENGINE_OFF + ENGINE_PARAMS_OFF;
-  if (data.length < base + 144) {
+export function parseParams(data: Buffer, layout: SlabLayout = slabLayoutOf(data)): RiskParams {
+  const base = layout.engineOffset + layout.engine.params;
+  if (data.length < base + layout.params.len) {
     throw new Error('Slab data too short for RiskParams');
   }
 
   return {
-    warmupPeriodSlots: data.readBigUInt64LE(base + PARAMS_WARMUP_PERIOD_OFF),
-    maintenanceMarginBps: data.readBigUInt64LE(base + PARAMS_MAINTENANCE_MARGIN_OFF),
-    initialMarginBps: data.readBigUInt64LE(base + PARAMS_INITIAL_MARGIN_OFF),
-    tradingFeeBps: data.readBigUInt64LE(base + PARAMS_TRADING_FEE_OFF),
-    maxAccounts: data.readBigUInt64LE(base + PARAMS_MAX_ACCOUNTS_OFF),
-    newAccountFee: readU128LE(data, base + PARAMS_NEW_ACCOUNT_FEE_OFF),
-    riskReductionThreshold: readU128LE(data, base + PARAMS_RISK_THRESHOLD_OFF),
-    maintenanceFeePerSlot: readU128LE(data, base + PARAMS_MAINTENANCE_FEE_OFF),
-    maxCrankStalenessSlots: data.readBigUInt64LE(base + PARAMS_MAX_CRANK_STALENESS_OFF),
-    liquidationFeeBps: data.readBigUInt64LE(base + PARAMS_LIQUIDATION_FEE_BPS_OFF),
-    liquidationFeeCap: readU128LE(data, base + PARAMS_LIQUIDATION_FEE_CAP_OFF),
-    liquidationBufferBps: data.readBigUInt64LE(base + PARAMS_LIQUIDATION_BUFFER_OFF),
-    minLiquidationAbs: readU128LE(data, base + PARAMS_MIN_LIQUIDATION_OFF),
+    warmupPeriodSlots: data.readBigUInt64LE(base + layout.params.warmupPeriod),
+    maintenanceMarginBps: data.readBigUInt64LE(base + layout.params.maintenanceMargin),
+    initialMarginBps: data.readBigUInt64LE(base + layout.params.initialMargin),
+    tradingFeeBps: data.readBigUInt64LE(base + layout.params.tradingFee),
+    maxAccounts: data.readBigUInt64LE(base + layout.params.maxAccounts),
+    newAccountFee: readU128LE(data, base + layout.params.newAccountFee),
+    riskReductionThreshold: readU128LE(data, base + layout.params.riskThreshold),
+    maintenanceFeePerSlot: readU128LE(data, base + layout.params.maintenanceFee),
+    maxCrankStalenessSlots: data.readBigUInt64LE(base + layout.params.maxCrankStaleness),
+    liquidationFeeBps: data.readBigUInt64LE(base + layout.params.liquidationFeeBps),
+    liquidationFeeCap: readU128LE(data, base + layout.params.liquidationFeeCap),
+    liquidationBufferBps: data.readBigUInt64LE(base + layout.params.liquidationBuffer),
+    minLiquidationAbs: readU128LE(data, base + layout.params.minLiquidation),
+  };
+}
+
+// ============================================================================
+// Parse crank bookkeeping (fits in a dataSlice of the first CRANK_STATE_LEN bytes)
+// ============================================================================
+
+/** Enough for crank state under every registered layout */
+export const CRANK_STATE_LEN = maxOverLayouts(crankStateLen);
+
+export function parseCrankState(
+  data: Buffer,
+  layout: SlabLayout = slabLayoutOf(data),
+): { lastCrankSlot: bigint; maxCrankStalenessSlots: bigint } {
+  const minLen = crankStateLen(layout);
+  if (data.length < minLen) {
+    throw new Error(`Slab data too short for crank state: ${data.length} < ${minLen}`);
+  }
+
+  return {
+    lastCrankSlot: data.readBigUInt64LE(layout.engineOffset + layout.engine.lastCrankSlot),
+    maxCrankStalenessSlots: parseParams(data, layout).maxCrankStalenessSlots,
   };
 }
 
 // ============================================================================
 // Parse engine state
 // ============================================================================
-export function parseEngine(data: Buffer): EngineState {
-  const base = ENGINE_OFF;
-  if (data.length < base + ENGINE_ACCOUNTS_OFF) {
+export function parseEngine(data: Buffer, layout: SlabLayout = slabLayoutOf(data)): EngineState {
+  const base = layout.engineOffset;
+  if (data.length < base + layout.engine.accounts) {
     throw new Error('Slab data too short for RiskEngine');
   }
 
   return {
-    vault: readU128LE(data, base + ENGINE_VAULT_OFF),
+    vault: readU128LE(data, base + layout.engine.vault),
     insuranceFund: {
-      balance: readU128LE(data, base + ENGINE_INSURANCE_OFF),
-      feeRevenue: readU128LE(data, base + ENGINE_INSURANCE_OFF + 16),
+      balance: readU128LE(data, base + layout.engine.insurance),
+      feeRevenue: readU128LE(data, base + layout.engine.insurance + 16),
     } as InsuranceFund,
-    currentSlot: data.readBigUInt64LE(base + ENGINE_CURRENT_SLOT_OFF),
-    fundingIndexQpbE6: readI128LE(data, base + ENGINE_FUNDING_INDEX_OFF),
-    lastFundingSlot: data.readBigUInt64LE(base + ENGINE_LAST_FUNDING_SLOT_OFF),
-    fundingRateBpsPerSlotLast: data.readBigInt64LE(base + ENGINE_FUNDING_RATE_BPS_OFF),
-    lastCrankSlot: data.readBigUInt64LE(base + ENGINE_LAST_CRANK_SLOT_OFF),
-    maxCrankStalenessSlots: data.readBigUInt64LE(base + ENGINE_MAX_CRANK_STALENESS_OFF),
-    totalOpenInterest: readU128LE(data, base + ENGINE_TOTAL_OI_OFF),
-    cTot: readU128LE(data, base + ENGINE_C_TOT_OFF),
-    pnlPosTot: readU128LE(data, base + ENGINE_PNL_POS_TOT_OFF),
-    liqCursor: data.readUInt16LE(base + ENGINE_LIQ_CURSOR_OFF),
-    gcCursor: data.readUInt16LE(base + ENGINE_GC_CURSOR_OFF),
-    lastSweepStartSlot: data.readBigUInt64LE(base + ENGINE_LAST_SWEEP_START_OFF),
-    lastSweepCompleteSlot: data.readBigUInt64LE(base + ENGINE_LAST_SWEEP_COMPLETE_OFF),
-    crankCursor: data.readUInt16LE(base + ENGINE_CRANK_CURSOR_OFF),
-    sweepStartIdx: data.readUInt16LE(base + ENGINE_SWEEP_START_IDX_OFF),
-    lifetimeLiquidations: data.readBigUInt64LE(base + ENGINE_LIFETIME_LIQUIDATIONS_OFF),
-    lifetimeForceCloses: data.readBigUInt64LE(base + ENGINE_LIFETIME_FORCE_CLOSES_OFF),
-    netLpPos: readI128LE(data, base + ENGINE_NET_LP_POS_OFF),
-    lpSumAbs: readU128LE(data, base + ENGINE_LP_SUM_ABS_OFF),
-    lpMaxAbs: readU128LE(data, base + ENGINE_LP_MAX_ABS_OFF),
-    lpMaxAbsSweep: readU128LE(data, base + ENGINE_LP_MAX_ABS_SWEEP_OFF),
-    numUsedAccounts: data.readUInt16LE(base + ENGINE_NUM_USED_OFF),
-    nextAccountId: data.readBigUInt64LE(base + ENGINE_NEXT_ACCOUNT_ID_OFF),
+    currentSlot: data.readBigUInt64LE(base + layout.engine.currentSlot),
+    fundingIndexQpbE6: readI128LE(data, base + layout.engine.fundingIndex),
+    lastFundingSlot: data.readBigUInt64LE(base + layout.engine.lastFundingSlot),
+    fundingRateBpsPerSlotLast: data.readBigInt64LE(base + layout.engine.fundingRateBps),
+    lastCrankSlot: data.readBigUInt64LE(base + layout.engine.lastCrankSlot),
+    maxCrankStalenessSlots: data.readBigUInt64LE(base + layout.engine.maxCrankStaleness),
+    totalOpenInterest: readU128LE(data, base + layout.engine.totalOpenInterest),
+    cTot: readU128LE(data, base + layout.engine.cTot),
+    pnlPosTot: readU128LE(data, base + layout.engine.pnlPosTot),
+    liqCursor: data.readUInt16LE(base + layout.engine.liqCursor),
+    gcCursor: data.readUInt16LE(base + layout.engine.gcCursor),
+    lastSweepStartSlot: data.readBigUInt64LE(base + layout.engine.lastSweepStart),
+    lastSweepCompleteSlot: data.readBigUInt64LE(base + layout.engine.lastSweepComplete),
+    crankCursor: data.readUInt16LE(base + layout.engine.crankCursor),
+    sweepStartIdx: data.readUInt16LE(base + layout.engine.sweepStartIdx),
+    lifetimeLiquidations: data.readBigUInt64LE(base + layout.engine.lifetimeLiquidations),
+    lifetimeForceCloses: data.readBigUInt64LE(base + layout.engine.lifetimeForceCloses),
+    netLpPos: readI128LE(data, base + layout.engine.netLpPos),
+    lpSumAbs: readU128LE(data, base + layout.engine.lpSumAbs),
+    lpMaxAbs: readU128LE(data, base + layout.engine.lpMaxAbs),
+    lpMaxAbsSweep: readU128LE(data, base + layout.engine.lpMaxAbsSweep),
+    numUsedAccounts: data.readUInt16LE(base + layout.engine.numUsed),
+    nextAccountId: data.readBigUInt64LE(base + layout.engine.nextAccountId),
   };
 }
 
 // ============================================================================
 // Bitmap — get used account indices
 // ============================================================================
-export function parseUsedIndices(data: Buffer): number[] {
-  const base = ENGINE_OFF + ENGINE_BITMAP_OFF;
-  if (data.length < base + BITMAP_WORDS * 8) {
+export function parseUsedIndices(data: Buffer, layout: SlabLayout = slabLayoutOf(data)): number[] {
+  const base = layout.engineOffset + layout.engine.bitmap;
+  if (data.length < base + layout.bitmapWords * 8) {
     throw new Error('Slab data too short for bitmap');
   }
 
   const used: number[] = [];
-  for (let word = 0; word < BITMAP_WORDS; word++) {
+  for (let word = 0; word < layout.bitmapWords; word++) {
     const bits = data.readBigUInt64LE(base + word * 8);
     if (bits === 0n) continue;
     for (let bit = 0; bit < 64; bit++) {
@@ -299,69 +279,299 @@ export function parseUsedIndices(data: Buffer): number[] {
   return used;
 }
 
-function maxAccountIndex(dataLen: number): number {
-  const accountsEnd = dataLen - ENGINE_OFF - ENGINE_ACCOUNTS_OFF;
+function maxAccountIndex(dataLen: number, layout: SlabLayout): number {
+  const accountsEnd = dataLen - layout.engineOffset - layout.engine.accounts;
   if (accountsEnd <= 0) return 0;
-  return Math.floor(accountsEnd / ACCOUNT_SIZE);
+  return Math.min(Math.floor(accountsEnd / layout.account.size), layout.maxAccounts);
 }
 
 // ============================================================================
-// Parse single account (240 bytes)
+// Parse single account (240 bytes in v1)
 // ============================================================================
-export function parseAccount(data: Buffer, idx: number): Account {
-  const maxIdx = maxAccountIndex(data.length);
+export function parseAccount(data: Buffer, idx: number, layout: SlabLayout = slabLayoutOf(data)): Account {
+  const maxIdx = maxAccountIndex(data.length, layout);
   if (idx < 0 || idx >= maxIdx) {
     throw new Error(`Account index out of range: ${idx} (max: ${maxIdx - 1})`);
   }
 
-  const base = ENGINE_OFF + ENGINE_ACCOUNTS_OFF + idx * ACCOUNT_SIZE;
-  if (data.length < base + ACCOUNT_SIZE) {
+  const base = layout.engineOffset + layout.engine.accounts + idx * layout.account.size;
+  if (data.length < base + layout.account.size) {
     throw new Error('Slab data too short for account');
   }
 
-  const kindByte = data.readUInt8(base + ACCT_KIND_OFF);
+  const kindByte = data.readUInt8(base + layout.account.kind);
   const kind = kindByte === 1 ? AccountKind.LP : AccountKind.User;
 
   return {
     kind,
-    accountId: data.readBigUInt64LE(base + ACCT_ACCOUNT_ID_OFF),
-    capital: readU128LE(data, base + ACCT_CAPITAL_OFF),
-    pnl: readI128LE(data, base + ACCT_PNL_OFF),
-    reservedPnl: data.readBigUInt64LE(base + ACCT_RESERVED_PNL_OFF),
-    warmupStartedAtSlot: data.readBigUInt64LE(base + ACCT_WARMUP_STARTED_OFF),
-    warmupSlopePerStep: readU128LE(data, base + ACCT_WARMUP_SLOPE_OFF),
-    positionSize: readI128LE(data, base + ACCT_POSITION_SIZE_OFF),
-    entryPrice: data.readBigUInt64LE(base + ACCT_ENTRY_PRICE_OFF),
-    fundingIndex: readI128LE(data, base + ACCT_FUNDING_INDEX_OFF),
-    matcherProgram: new PublicKey(data.subarray(base + ACCT_MATCHER_PROGRAM_OFF, base + ACCT_MATCHER_PROGRAM_OFF + 32)),
-    matcherContext: new PublicKey(data.subarray(base + ACCT_MATCHER_CONTEXT_OFF, base + ACCT_MATCHER_CONTEXT_OFF + 32)),
-    owner: new PublicKey(data.subarray(base + ACCT_OWNER_OFF, base + ACCT_OWNER_OFF + 32)),
-    feeCredits: readI128LE(data, base + ACCT_FEE_CREDITS_OFF),
-    lastFeeSlot: data.readBigUInt64LE(base + ACCT_LAST_FEE_SLOT_OFF),
+    accountId: data.readBigUInt64LE(base + layout.account.accountId),
+    capital: readU128LE(data, base + layout.account.capital),
+    pnl: readI128LE(data, base + layout.account.pnl),
+    reservedPnl: data.readBigUInt64LE(base + layout.account.reservedPnl),
+    warmupStartedAtSlot: data.readBigUInt64LE(base + layout.account.warmupStarted),
+    warmupSlopePerStep: readU128LE(data, base + layout.account.warmupSlope),
+    positionSize: readI128LE(data, base + layout.account.positionSize),
+    entryPrice: data.readBigUInt64LE(base + layout.account.entryPrice),
+    fundingIndex: readI128LE(data, base + layout.account.fundingIndex),
+    matcherProgram: new PublicKey(data.subarray(base + layout.account.matcherProgram, base + layout.account.matcherProgram + 32)),
+    matcherContext: new PublicKey(data.subarray(base + layout.account.matcherContext, base + layout.account.matcherContext + 32)),
+    owner: new PublicKey(data.subarray(base + layout.account.owner, base + layout.account.owner + 32)),
+    feeCredits: readI128LE(data, base + layout.account.feeCredits),
+    lastFeeSlot: data.readBigUInt64LE(base + layout.account.lastFeeSlot),
   };
 }
 
 // ============================================================================
 // Parse all used accounts
 // ============================================================================
-export function parseAllAccounts(data: Buffer): { idx: number; account: Account }[] {
-  const indices = parseUsedIndices(data);
-  const maxIdx = maxAccountIndex(data.length);
+export function parseAllAccounts(
+  data: Buffer,
+  layout: SlabLayout = slabLayoutOf(data),
+): { idx: number; account: Account }[] {
+  const indices = parseUsedIndices(data, layout);
+  const maxIdx = maxAccountIndex(data.length, layout);
   const validIndices = indices.filter(idx => idx < maxIdx);
   return validIndices.map(idx => ({
     idx,
-    account: parseAccount(data, idx),
+    account: parseAccount(data, idx, layout),
   }));
 }
 
+// ============================================================================
+// Parse whole slab
+// ============================================================================
+export function parseSlab(data: Buffer, layout: SlabLayout = slabLayoutOf(data)): SlabState {
+  return {
+    header: parseHeader(data, layout),
+    config: parseConfig(data, layout),
+    params: parseParams(data, layout),
+    engine: parseEngine(data, layout),
+    accounts: parseAllAccounts(data, layout),
+  };
+}
+
+// ============================================================================
+// Serialization — inverse of the parsers above, same layouts
+// ============================================================================
+
+/** Default slab size (v1 4096-account layout) */
+export const SLAB_SIZE = 992_560;
+
+export function serializeHeader(
+  data: Buffer,
+  header: SlabHeader,
+  layout: SlabLayout = resolveSlabLayout(header.version),
+): void {
+  if (data.length < layout.header.len) {
+    throw new Error(`Slab data too short for header: ${data.length} < ${layout.header.len}`);
+  }
+
+  data.writeBigUInt64LE(header.magic, 0);
+  data.writeUInt32LE(header.version, SLAB_VERSION_OFFSET);
+  data.writeUInt8(header.bump, layout.header.bump);
+  data.writeUInt8(header.flags, layout.header.flags);
+  header.admin.toBuffer().copy(data, layout.header.admin);
+  data.writeBigUInt64LE(header.nonce, layout.header.reserved);
+  data.writeBigUInt64LE(header.lastThrUpdateSlot, layout.header.reserved + 8);
+}
+
+export function serializeConfig(data: Buffer, config: MarketConfig, layout: SlabLayout = slabLayoutOf(data)): void {
+  const minLen = layout.config.offset + layout.config.len;
+  if (data.length < minLen) {
+    throw new Error(`Slab data too short for config: ${data.length} < ${minLen}`);
+  }
+
+  let off = layout.config.offset;
+
+  config.collateralMint.toBuffer().copy(data, off); off += 32;
+  config.vaultPubkey.toBuffer().copy(data, off); off += 32;
+  config.indexFeedId.toBuffer().copy(data, off); off += 32;
+  data.writeBigUInt64LE(config.maxStalenessSlots, off); off += 8;
+  data.writeUInt16LE(config.confFilterBps, off); off += 2;
+  data.writeUInt8(config.vaultAuthorityBump, off); off += 1;
+  data.writeUInt8(config.invert, off); off += 1;
+  data.writeUInt32LE(config.unitScale, off); off += 4;
+
+  // Funding rate parameters
+  data.writeBigUInt64LE(config.fundingHorizonSlots, off); off += 8;
+  data.writeBigUInt64LE(config.fundingKBps, off); off += 8;
+  writeI128LE(data, config.fundingInvScaleNotionalE6, off); off += 16;
+  data.writeBigUInt64LE(config.fundingMaxPremiumBps, off); off += 8;
+  data.writeBigUInt64LE(config.fundingMaxBpsPerSlot, off); off += 8;
+
+  // Threshold parameters
+  writeU128LE(data, config.threshFloor, off); off += 16;
+  data.writeBigUInt64LE(config.threshRiskBps, off); off += 8;
+  data.writeBigUInt64LE(config.threshUpdateIntervalSlots, off); off += 8;
+  data.writeBigUInt64LE(config.threshStepBps, off); off += 8;
+  data.writeBigUInt64LE(config.threshAlphaBps, off); off += 8;
+  writeU128LE(data, config.threshMin, off); off += 16;
+  writeU128LE(data, config.threshMax, off); off += 16;
+  writeU128LE(data, config.threshMinStep, off); off += 16;
+
+  // Oracle authority fields
+  config.oracleAuthority.toBuffer().copy(data, off); off += 32;
+  data.writeBigUInt64LE(config.authorityPriceE6, off); off += 8;
+  data.writeBigInt64LE(config.authorityTimestamp, off); off += 8;
+  data.writeBigUInt64LE(config.oraclePriceCapE2bps, off); off += 8;
+  data.writeBigUInt64LE(config.lastEffectivePriceE6, off);
+}
+
+export function serializeParams(data: Buffer, params: RiskParams, layout: SlabLayout = slabLayoutOf(data)): void {
+  const base = layout.engineOffset + layout.engine.params;
+  if (data.length < base + layout.params.len) {
+    throw new Error('Slab data too short for RiskParams');
+  }
+
+  data.writeBigUInt64LE(params.warmupPeriodSlots, base + layout.params.warmupPeriod);
+  data.writeBigUInt64LE(params.maintenanceMarginBps, base + layout.params.maintenanceMargin);
+  data.writeBigUInt64LE(params.initialMarginBps, base + layout.params.initialMargin);
+  data.writeBigUInt64LE(params.tradingFeeBps, base + layout.params.tradingFee);
+  data.writeBigUInt64LE(params.maxAccounts, base + layout.params.maxAccounts);
+  writeU128LE(data, params.newAccountFee, base + layout.params.newAccountFee);
+  writeU128LE(data, params.riskReductionThreshold, base + layout.params.riskThreshold);
+  writeU128LE(data, params.maintenanceFeePerSlot, base + layout.params.maintenanceFee);
+  data.writeBigUInt64LE(params.maxCrankStalenessSlots, base + layout.params.maxCrankStaleness);
+  data.writeBigUInt64LE(params.liquidationFeeBps, base + layout.params.liquidationFeeBps);
+  writeU128LE(data, params.liquidationFeeCap, base + layout.params.liquidationFeeCap);
+  data.writeBigUInt64LE(params.liquidationBufferBps, base + layout.params.liquidationBuffer);
+  writeU128LE(data, params.minLiquidationAbs, base + layout.params.minLiquidation);
+}
+
+/**
+ * Write engine scalars. RiskParams and the account bitmap live inside the
+ * engine too but have their own writers (serializeParams, setAccountUsed).
+ */
+export function serializeEngine(data: Buffer, engine: EngineState, layout: SlabLayout = slabLayoutOf(data)): void {
+  const base = layout.engineOffset;
+  if (data.length < base + layout.engine.accounts) {
+    throw new Error('Slab data too short for RiskEngine');
+  }
+
+  writeU128LE(data, engine.vault, base + layout.engine.vault);
+  writeU128LE(data, engine.insuranceFund.balance, base + layout.engine.insurance);
+  writeU128LE(data, engine.insuranceFund.feeRevenue, base + layout.engine.insurance + 16);
+  data.writeBigUInt64LE(engine.currentSlot, base + layout.engine.currentSlot);
+  writeI128LE(data, engine.fundingIndexQpbE6, base + layout.engine.fundingIndex);
+  data.writeBigUInt64LE(engine.lastFundingSlot, base + layout.engine.lastFundingSlot);
+  data.writeBigInt64LE(engine.fundingRateBpsPerSlotLast, base + layout.engine.fundingRateBps);
+  data.writeBigUInt64LE(engine.lastCrankSlot, base + layout.engine.lastCrankSlot);
+  data.writeBigUInt64LE(engine.maxCrankStalenessSlots, base + layout.engine.maxCrankStaleness);
+  writeU128LE(data, engine.totalOpenInterest, base + layout.engine.totalOpenInterest);
+  writeU128LE(data, engine.cTot, base + layout.engine.cTot);
+  writeU128LE(data, engine.pnlPosTot, base + layout.engine.pnlPosTot);
+  data.writeUInt16LE(engine.liqCursor, base + layout.engine.liqCursor);
+  data.writeUInt16LE(engine.gcCursor, base + layout.engine.gcCursor);
+  data.writeBigUInt64LE(engine.lastSweepStartSlot, base + layout.engine.lastSweepStart);
+  data.writeBigUInt64LE(engine.lastSweepCompleteSlot, base + layout.engine.lastSweepComplete);
+  data.writeUInt16LE(engine.crankCursor, base + layout.engine.crankCursor);
+  data.writeUInt16LE(engine.sweepStartIdx, base + layout.engine.sweepStartIdx);
+  data.writeBigUInt64LE(engine.lifetimeLiquidations, base + layout.engine.lifetimeLiquidations);
+  data.writeBigUInt64LE(engine.lifetimeForceCloses, base + layout.engine.lifetimeForceCloses);
+  writeI128LE(data, engine.netLpPos, base + layout.engine.netLpPos);
+  writeU128LE(data, engine.lpSumAbs, base + layout.engine.lpSumAbs);
+  writeU128LE(data, engine.lpMaxAbs, base + layout.engine.lpMaxAbs);
+  writeU128LE(data, engine.lpMaxAbsSweep, base + layout.engine.lpMaxAbsSweep);
+  data.writeUInt16LE(engine.numUsedAccounts, base + layout.engine.numUsed);
+  data.writeBigUInt64LE(engine.nextAccountId, base + layout.engine.nextAccountId);
+}
+
+/** Set or clear an account slot in the used bitmap */
+export function setAccountUsed(
+  data: Buffer,
+  idx: number,
+  used: boolean,
+  layout: SlabLayout = slabLayoutOf(data),
+): void {
+  if (idx < 0 || idx >= layout.maxAccounts) {
+    throw new Error(`Account index out of range: ${idx} (max: ${layout.maxAccounts - 1})`);
+  }
+
+  const off = layout.engineOffset + layout.engine.bitmap + Math.floor(idx / 64) * 8;
+  const bit = 1n << BigInt(idx % 64);
+  const word = data.readBigUInt64LE(off);
+  data.writeBigUInt64LE(used ? word | bit : word & ~bit & U64_MASK, off);
+}
+
+/** Write one account's 240 bytes. Does not touch the bitmap. */
+export function serializeAccount(
+  data: Buffer,
+  idx: number,
+  account: Account,
+  layout: SlabLayout = slabLayoutOf(data),
+): void {
+  const maxIdx = maxAccountIndex(data.length, layout);
+  if (idx < 0 || idx >= maxIdx) {
+    throw new Error(`Account index out of range: ${idx} (max: ${maxIdx - 1})`);
+  }
+
+  const base = layout.engineOffset + layout.engine.accounts + idx * layout.account.size;
+
+  data.writeBigUInt64LE(account.accountId, base + layout.account.accountId);
+  writeU128LE(data, account.capital, base + layout.account.capital);
+  data.writeUInt8(account.kind === AccountKind.LP ? 1 : 0, base + layout.account.kind);
+  writeI128LE(data, account.pnl, base + layout.account.pnl);
+  data.writeBigUInt64LE(account.reservedPnl, base + layout.account.reservedPnl);
+  data.writeBigUInt64LE(account.warmupStartedAtSlot, base + layout.account.warmupStarted);
+  writeU128LE(data, account.warmupSlopePerStep, base + layout.account.warmupSlope);
+  writeI128LE(data, account.positionSize, base + layout.account.positionSize);
+  data.writeBigUInt64LE(account.entryPrice, base + layout.account.entryPrice);
+  writeI128LE(data, account.fundingIndex, base + layout.account.fundingIndex);
+  account.matcherProgram.toBuffer().copy(data, base + layout.account.matcherProgram);
+  account.matcherContext.toBuffer().copy(data, base + layout.account.matcherContext);
+  account.owner.toBuffer().copy(data, base + layout.account.owner);
+  writeI128LE(data, account.feeCredits, base + layout.account.feeCredits);
+  data.writeBigUInt64LE(account.lastFeeSlot, base + layout.account.lastFeeSlot);
+}
+
+/**
+ * Build a slab buffer from typed state: header, config, params, engine, and
+ * each account plus its bitmap bit. `engine.numUsedAccounts` is written as
+ * given. The layout follows `header.version`.
+ * parseSlab(serializeSlab(s, size)) returns `s`.
+ */
+export function serializeSlab(state: SlabState, size: number = SLAB_SIZE): Buffer {
+  const layout = resolveSlabLayout(state.header.version);
+  if (size < layout.engineOffset + layout.engine.accounts) {
+    throw new Error(`Slab size too small: ${size} < ${layout.engineOffset + layout.engine.accounts}`);
+  }
+
+  const data = Buffer.alloc(size);
+  serializeHeader(data, state.header, layout);
+  serializeConfig(data, state.config, layout);
+  serializeEngine(data, state.engine, layout);
+  serializeParams(data, state.params, layout);
+  for (const { idx, account } of state.accounts) {
+    serializeAccount(data, idx, account, layout);
+    setAccountUsed(data, idx, true, layout);
+  }
+  return data;
+}
+
 // ============================================================================
 // Funding rate calculation (ported from dump-state.ts)
 // ============================================================================
+
+/** Solana's target slot time; used until a measured one is available (slot-time.ts) */
+export const DEFAULT_MS_PER_SLOT = 400;
+
+const MS_PER_YEAR = 365 * 86_400_000;
+
+/** Per-slot funding in bps as a simple annual rate, in percent */
+export function annualizeBpsPerSlot(bpsPerSlot: number, msPerSlot: number): number {
+  return bpsPerSlot * (MS_PER_YEAR / msPerSlot) / 100;
+}
+
+/**
+ * Funding rate implied by the LP book. Per-hour and annual figures scale by
+ * `msPerSlot`; pass a measured slot time (getSlotTiming) where there is one.
+ */
 export function calculateFundingRate(
   engine: EngineState,
   config: MarketConfig,
-  oraclePriceE6: bigint
-): { rateBpsPerSlot: number; rateBpsPerHour: number; direction: 'longs_pay' | 'shorts_pay' | 'neutral' } {
+  oraclePriceE6: bigint,
+  msPerSlot = DEFAULT_MS_PER_SLOT,
+): { rateBpsPerSlot: number; rateBpsPerHour: number; aprPct: number; direction: 'longs_pay' | 'shorts_pay' | 'neutral' } {
   const netLpPos = engine.netLpPos;
   const horizonSlots = config.fundingHorizonSlots;
   const kBps = config.fundingKBps;
@@ -370,7 +580,7 @@ export function calculateFundingRate(
   const maxBpsPerSlot = config.fundingMaxBpsPerSlot;
 
   if (netLpPos === 0n || oraclePriceE6 === 0n || horizonSlots === 0n) {
-    return { rateBpsPerSlot: 0, rateBpsPerHour: 0, direction: 'neutral' };
+    return { rateBpsPerSlot: 0, rateBpsPerHour: 0, aprPct: 0, direction: 'neutral' };
   }
 
   const absPos = netLpPos < 0n ? -netLpPos : netLpPos;
@@ -388,26 +598,94 @@ export function calculateFundingRate(
 
   return {
     rateBpsPerSlot: perSlotBps,
-    rateBpsPerHour: perSlotBps * 7200, // ~2.5 slots/sec * 3600 sec/hr ≈ 7200 slots/hr (devnet)
+    rateBpsPerHour: perSlotBps * 3_600_000 / msPerSlot,
+    aprPct: annualizeBpsPerSlot(perSlotBps, msPerSlot),
     direction,
   };
 }
 
+// ============================================================================
+// PnL attribution
+// ============================================================================
+
+/** computePnlAttribution's result, in collateral base units */
+export interface PnlAttributionRaw {
+  price: bigint;
+  funding: bigint;
+  fees: bigint;
+  total: bigint;
+}
+
+/**
+ * The price-independent part of unrealized PnL: funding not yet settled
+ * against `fundingIndexQpbE6`, and maintenance fees accrued up to `slot`
+ * beyond what the account's fee credits cover.
+ */
+function computeUnsettled(
+  account: Account,
+  params: RiskParams,
+  fundingIndexQpbE6: bigint,
+  slot: bigint,
+) {
+  const funding = -(account.positionSize * (fundingIndexQpbE6 - account.fundingIndex) / 1_000_000n);
+  const { netCredits } = computeMaintenanceFeeState(account, params, slot);
+  return { funding, fees: netCredits < 0n ? netCredits : 0n };
+}
+
+/**
+ * Split an account's unrealized PnL at `oraclePriceE6` into what the price
+ * move, unsettled funding and unsettled maintenance fees contribute:
+ *
+ *   price    position × (price − entry) / 1e6
+ *   funding  −position × (engine index − account index) / 1e6, what the next
+ *            settlement moves into pnl (positive when the account receives)
+ *   fees     min(0, feeCredits − accrued): maintenance fees accrued since
+ *            lastFeeSlot that prepaid fee credits don't cover
+ *
+ * The total is what computeMarginMetrics counts as unrealized PnL. Amounts
+ * are in collateral base units; position sides are the engine's.
+ */
+export function computePnlAttribution(
+  account: Account,
+  oraclePriceE6: bigint,
+  params: RiskParams,
+  fundingIndexQpbE6: bigint,
+  slot: bigint,
+): PnlAttributionRaw {
+  const price = account.positionSize * (oraclePriceE6 - account.entryPrice) / 1_000_000n;
+  const { funding, fees } = computeUnsettled(account, params, fundingIndexQpbE6, slot);
+  return {
+    price,
+    funding,
+    fees,
+    total: price + funding + fees,
+  };
+}
+
 // ============================================================================
 // Margin/liquidation helpers
 // ============================================================================
+
+/**
+ * Margin state at `oraclePriceE6`. Unrealized PnL includes funding the
+ * account hasn't settled against `fundingIndexQpbE6` and maintenance fees
+ * accrued up to `slot`, as the next crank would book them.
+ */
 export function computeMarginMetrics(
   account: Account,
   oraclePriceE6: bigint,
   params: RiskParams,
+  fundingIndexQpbE6: bigint,
+  slot: bigint,
 ) {
   const posAbs = account.positionSize < 0n ? -account.positionSize : account.positionSize;
   const notionalLamports = posAbs * oraclePriceE6 / 1_000_000n;
   const maintenanceReq = notionalLamports * params.maintenanceMarginBps / 10_000n;
   const initialReq = notionalLamports * params.initialMarginBps / 10_000n;
 
-  // Unrealized PnL: position * (currentPrice - entryPrice) / 1e6
-  const unrealizedPnl = account.positionSize * (oraclePriceE6 - account.entryPrice) / 1_000_000n;
+  // Unrealized PnL: price move + unsettled funding + accrued maintenance fees
+  const attribution = computePnlAttribution(account, oraclePriceE6, params, fundingIndexQpbE6, slot);
+  const unrealizedPnl = attribution.total;
 
   // Effective capital = deposited + realized PnL + unrealized PnL
   const effectiveCapital = account.capital + account.pnl + unrealizedPnl;
@@ -439,6 +717,7 @@ export function computeMarginMetrics(
     maintenanceReq,
     initialReq,
     unrealizedPnl,
+    attribution,
     effectiveCapital,
     marginRatioBps: Number(marginRatioBps),
     buffer,
@@ -452,7 +731,9 @@ export function computeMarginMetrics(
 /**
  * Estimate liquidation price for a position.
  * Derived from: effectiveCapital_at_liqPrice = maintenanceReq_at_liqPrice
- *   capital + pnl + pos*(liqPrice - entry)/1e6 = |pos|*liqPrice*mmBps/1e6/10000
+ *   capital + pnl + unsettled + pos*(liqPrice - entry)/1e6 = |pos|*liqPrice*mmBps/1e6/10000
+ * where unsettled is the funding and uncovered fees computeMarginMetrics counts
+ * (they don't move with price, so they fold into capital).
  * Solving for liqPrice:
  *   For long (pos > 0):  liqPrice = (capital + pnl - pos*entry/1e6) / (pos/1e6 * (1 - mmBps/10000))  (inverted)
  *   For short (pos < 0): liqPrice = (capital + pnl - pos*entry/1e6) / (pos/1e6 * (1 + mmBps/10000))  (inverted sign)
@@ -462,13 +743,17 @@ export function computeMarginMetrics(
 export function estimateLiquidationPrice(
   account: Account,
   params: RiskParams,
+  fundingIndexQpbE6: bigint,
+  slot: bigint,
 ): number {
   if (account.positionSize === 0n) return 0;
 
+  const unsettled = computeUnsettled(account, params, fundingIndexQpbE6, slot);
   const pos = Number(account.positionSize);
   const entry = Number(account.entryPrice);
   const capital = Number(account.capital);
-  const pnl = Number(account.pnl);
+  // Realized PnL plus what the next settlement books
+  const pnl = Number(account.pnl + unsettled.funding + unsettled.fees);
   const mmRate = Number(params.maintenanceMarginBps) / 10_000;
 
   // equity at liquidation = maintenance margin at liquidation
@@ -479,7 +764,8 @@ export function estimateLiquidationPrice(
 
   const absPos = Math.abs(pos);
   const numerator = pos * entry / 1e6 - capital - pnl;
-  const denominator = (pos - (pos > 0 ? absPos * mmRate : -absPos * mmRate)) / 1e6;
+  // pos - |pos|*mm: pos*(1 - mm) for longs, pos*(1 + mm) for shorts
+  const denominator = (pos - absPos * mmRate) / 1e6;
 
   if (Math.abs(denominator) < 1e-10) return 0;
 
@@ -488,3 +774,52 @@ export function estimateLiquidationPrice(
 
   return liqPriceE6;
 }
+
+// ============================================================================
+// Warmup / maintenance fee helpers
+// ============================================================================
+
+/**
+ * PnL warmup at `slot`. Positive PnL (less what is reserved) unlocks at
+ * warmupSlopePerStep per slot from warmupStartedAtSlot; the rest stays locked.
+ */
+export function computeWarmupState(
+  account: Account,
+  params: RiskParams,
+  slot: bigint,
+) {
+  const elapsedSlots = slot > account.warmupStartedAtSlot ? slot - account.warmupStartedAtSlot : 0n;
+  const period = params.warmupPeriodSlots;
+  const remainingSlots = elapsedSlots < period ? period - elapsedSlots : 0n;
+  const progress = period > 0n ? Math.min(1, Number(elapsedSlots) / Number(period)) : 1;
+
+  const available = account.pnl - account.reservedPnl > 0n ? account.pnl - account.reservedPnl : 0n;
+  const slopeUnlocked = account.warmupSlopePerStep * elapsedSlots;
+  const warmedPnl = slopeUnlocked < available ? slopeUnlocked : available;
+
+  return {
+    elapsedSlots,
+    remainingSlots,
+    progress,
+    warmedPnl,
+    lockedPnl: available - warmedPnl,
+  };
+}
+
+/**
+ * Maintenance fees due since lastFeeSlot. feeCredits is the prepaid balance
+ * the next settlement draws from; a negative netCredits means the account owes.
+ */
+export function computeMaintenanceFeeState(
+  account: Account,
+  params: RiskParams,
+  slot: bigint,
+) {
+  const slotsSinceFee = slot > account.lastFeeSlot ? slot - account.lastFeeSlot : 0n;
+  const accrued = slotsSinceFee * params.maintenanceFeePerSlot;
+  return {
+    slotsSinceFee,
+    accrued,
+    netCredits: account.feeCredits - accrued,
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * On-chain pool price provider — USD prices from DEX pool reserves.
+ *
+ * Each mint it prices is mapped to a pool, e.g.
+ * PRICE_POOLS="<mint>:<pool>,<mint>:<pool>". The pool is read with the
+ * oracle decoders (PumpSwap, Raydium CPMM/CLMM, Meteora DLMM; see oracle.ts),
+ * which price it in its other token; that token is valued at $1 when it is a
+ * stablecoin, otherwise through the rest of the provider chain.
+ *
+ * Pools are read on mainnet unless the caller passes a connection.
+ */
+import { PublicKey } from '@solana/web3.js';
+import { getNetworkConnection } from './connections';
+import { readFeedPrices } from './oracle';
+import type { PriceProvider } from './price-providers';
+
+/** Quote tokens priced without a lookup */
+const USD_STABLES = new Set([
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', // USDT
+]);
+
+/** `mint:pool` pairs, comma-separated; malformed entries are skipped */
+export function parsePricePools(value: string | undefined): Record<string, string> {
+  const pools: Record<string, string> = {};
+  for (const entry of (value ?? '').split(',')) {
+    const [mint, pool] = entry.split(':').map((s) => s.trim());
+    if (!mint || !pool) continue;
+    try {
+      new PublicKey(mint);
+      new PublicKey(pool);
+      pools[mint] = pool;
+    } catch {
+      console.warn(`[prices] Ignoring malformed PRICE_POOLS entry "${entry}"`);
+    }
+  }
+  return pools;
+}
+
+export function createPoolPriceProvider(pools: Record<string, string>): PriceProvider {
+  return {
+    name: 'pools',
+
+    async fetchPrices(mints, ctx) {
+      const results = new Map<string, number>();
+      const wanted = mints.filter((mint) => pools[mint]);
+      if (wanted.length === 0) return results;
+
+      const connection = ctx.connection ?? getNetworkConnection('mainnet');
+      const reads = await readFeedPrices(connection, wanted.map((mint) => new PublicKey(pools[mint])));
+
+      // Which side of each pool the mint is on, and what it's priced in
+      const quotes = wanted.flatMap((mint, i) => {
+        const { pair, price, error } = reads[i];
+        if (error || !pair || price <= 0) return [];
+        const [base, quote] = pair.map((k) => k.toBase58());
+        if (base === mint) return [{ mint, other: quote, perOther: price }];
+        if (quote === mint) return [{ mint, other: base, perOther: 1 / price }];
+        console.warn(`[prices] Pool ${pools[mint]} doesn't trade ${mint}`);
+        return [];
+      });
+
+      const lookup = quotes.map((q) => q.other).filter((m) => !USD_STABLES.has(m));
+      const otherUsd = lookup.length > 0 && ctx.lookupPrices
+        ? await ctx.lookupPrices(lookup)
+        : new Map<string, number>();
+
+      for (const { mint, other, perOther } of quotes) {
+        const usd = USD_STABLES.has(other) ? 1 : otherUsd.get(other) ?? 0;
+        if (usd > 0) results.set(mint, perOther * usd);
+      }
+      return results;
+    },
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Wallet portfolio — every account an owner holds across all programs and
+ * networks, with exposure, margin health and PnL aggregated per market.
+ *
+ * Accounts come from the owner index (owner-index.ts); each market is priced
+ * the same way as the slab detail view, so position rows match it exactly.
+ * Amounts are only summed within a market, in its own collateral; across
+ * markets the wallet totals are counts and the worst health.
+ */
+import { getNetworkConnection } from './connections';
+import { resolveSlabOraclePrice, toSlabPosition } from './fetcher';
+import type { SlabPosition } from './fetcher';
+import { resolveMintSymbol } from './known-mints';
+import { getOwnerIndex } from './owner-index';
+import type { OwnedAccount } from './owner-index';
+import { getAllNetworks } from './registry';
+import type { NetworkId } from './registry';
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+/** Counts and worst health over a set of positions; comparable across collaterals */
+export interface PortfolioRisk {
+  accounts: number;
+  /** Accounts with a non-zero position */
+  openPositions: number;
+  /** Lowest margin health of any open position (100 when none are open) */
+  minHealth: number;
+  atRisk: number;
+  liquidatable: number;
+}
+
+/** Sums over one market's positions; amounts in that market's collateral units */
+export interface PortfolioTotals extends PortfolioRisk {
+  collateral: number;
+  effectiveCapital: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  /** Σ |notional| */
+  grossExposure: number;
+  /** Σ signed notional, long positive */
+  netExposure: number;
+}
+
+export interface PortfolioMarket extends PortfolioTotals {
+  slabPubkey: string;
+  slabLabel: string;
+  programId: string;
+  programLabel: string;
+  network: NetworkId;
+  collateralMint: string;
+  collateralSymbol: string;
+  invertedMarket: boolean;
+  solUsdPrice: number;
+  positions: SlabPosition[];
+}
+
+export interface OwnerPortfolio {
+  owner: string;
+  markets: PortfolioMarket[];
+  /** Markets hold different collaterals, so no amounts are summed here */
+  totals: PortfolioRisk & { markets: number };
+  /** Slabs indexed per network, so "no accounts" can be told apart from "not scanned" */
+  scanned: { network: NetworkId; slabs: number; skipped: number; builtAt: string }[];
+  /** Networks whose index could not be built */
+  errors: { network: NetworkId; error: string }[];
+  timestamp: string;
+}
+
+// ── Aggregation ─────────────────────────────────────────────────────────
+
+function riskOf(positions: SlabPosition[]): PortfolioRisk {
+  const open = positions.filter((p) => p.side !== 'flat');
+  return {
+    accounts: positions.length,
+    openPositions: open.length,
+    minHealth: open.length > 0 ? Math.min(...open.map((p) => p.marginHealth)) : 100,
+    atRisk: positions.filter((p) => p.status === 'at_risk').length,
+    liquidatable: positions.filter((p) => p.status === 'liquidatable').length,
+  };
+}
+
+function sumPositions(positions: SlabPosition[]): PortfolioTotals {
+  const open = positions.filter((p) => p.side !== 'flat');
+  return {
+    ...riskOf(positions),
+    collateral: positions.reduce((s, p) => s + p.collateral, 0),
+    effectiveCapital: positions.reduce((s, p) => s + p.effectiveCapital, 0),
+    realizedPnl: positions.reduce((s, p) => s + p.realizedPnl, 0),
+    unrealizedPnl: positions.reduce((s, p) => s + p.unrealizedPnl, 0),
+    grossExposure: open.reduce((s, p) => s + p.size, 0),
+    netExposure: open.reduce((s, p) => s + (p.side === 'long' ? p.size : -p.size), 0),
+  };
+}
+
+/** One market's rows: all of the owner's accounts on a single slab */
+async function buildMarket(owned: OwnedAccount[], slot: number): Promise<PortfolioMarket> {
+  const { slab } = owned[0];
+  const connection = getNetworkConnection(slab.entry.network);
+  const { oraclePriceE6, solUsdPrice } = await resolveSlabOraclePrice(slab.entry, connection, slab.config);
+  const positionSlot = slot > 0 ? BigInt(slot) : slab.engine.currentSlot;
+  const collateralMint = slab.config.collateralMint.toBase58();
+
+  const positions = owned.map(({ idx, account }) =>
+    toSlabPosition(idx, account, slab.params, oraclePriceE6, solUsdPrice, positionSlot, slab.engine.fundingIndexQpbE6),
+  );
+
+  return {
+    slabPubkey: slab.pubkey,
+    slabLabel: slab.label,
+    programId: slab.entry.programId,
+    programLabel: slab.entry.label,
+    network: slab.entry.network,
+    collateralMint,
+    collateralSymbol: resolveMintSymbol(collateralMint),
+    invertedMarket: slab.config.invert === 1,
+    solUsdPrice,
+    positions,
+    ...sumPositions(positions),
+  };
+}
+
+/**
+ * Portfolio of `owner` (base58) across every registered network. A network
+ * that fails to index is reported in `errors`; the others still return.
+ */
+export async function getOwnerPortfolio(owner: string): Promise<OwnerPortfolio> {
+  const networks = getAllNetworks();
+  const results = await Promise.allSettled(
+    networks.map(async (network) => {
+      const [index, slot] = await Promise.all([
+        getOwnerIndex(network),
+        getNetworkConnection(network).getSlot('confirmed').catch(() => 0),
+      ]);
+      const owned = index.byOwner.get(owner) ?? [];
+
+      // Group by slab, keeping index order
+      const bySlab = new Map<string, OwnedAccount[]>();
+      for (const o of owned) {
+        const list = bySlab.get(o.slab.pubkey) ?? [];
+        list.push(o);
+        bySlab.set(o.slab.pubkey, list);
+      }
+      const markets = await Promise.all([...bySlab.values()].map((list) => buildMarket(list, slot)));
+      return { index, markets };
+    }),
+  );
+
+  const markets: PortfolioMarket[] = [];
+  const scanned: OwnerPortfolio['scanned'] = [];
+  const errors: OwnerPortfolio['errors'] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      console.warn(`[portfolio] ${networks[i]} unavailable:`, error);
+      errors.push({ network: networks[i], error });
+      return;
+    }
+    const { index, markets: networkMarkets } = result.value;
+    markets.push(...networkMarkets);
+    scanned.push({ network: index.network, slabs: index.slabs.length, skipped: index.skipped, builtAt: index.builtAt });
+  });
+
+  return {
+    owner,
+    markets,
+    totals: { markets: markets.length, ...riskOf(markets.flatMap((m) => m.positions)) },
+    scanned,
+    errors,
+    timestamp: new Date().toISOString(),
+  };
+}
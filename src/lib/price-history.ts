@@ -1,39 +1,73 @@
 /**
- * In-memory price history accumulator.
+ * Price history accumulator.
  *
  * Records price + TVL + OI snapshots for slabs over time.
  * Data is accumulated server-side whenever slab detail is fetched,
  * giving the frontend an immediate chart on first load.
  *
- * Limits:
- *   - Max 360 data points per slab (~1 hour at 10s intervals)
- *   - Max 50 tracked slabs (LRU eviction)
- *   - All data is in-memory (lost on server restart)
+ * Storage is pluggable (see history-store.ts):
+ *   - SLAB_HISTORY_DB=/path/to/history.db → SQLite file, survives restarts
+ *   - unset → in-memory, max 50 tracked slabs (LRU eviction)
+ *
+ * Raw points are rolled up into 1m / 1h / 1d candles on write and pruned
+ * per resolution (raw 24h, 1m 7d, 1h 90d, 1d forever).
+ *
+ * Per-account samples (capital, PnL, position) ride along with each slab
+ * snapshot and are kept for 7 days; unchanged accounts are only re-sampled
+ * every few minutes so idle slots don't flood the store.
  */
+import {
+  createMemoryHistoryStore,
+  type AccountHistoryQuery,
+  type AccountPoint,
+  type HistoryQuery,
+  type HistoryStore,
+  type PriceCandle,
+  type PricePoint,
+} from './history-store';
+import { createSqliteHistoryStore } from './history-store-sqlite';
 
-export interface PricePoint {
-  /** ISO timestamp */
-  t: string;
-  /** Price in USD */
-  p: number;
-  /** TVL in SOL */
-  tvl: number;
-  /** Open interest in SOL */
-  oi: number;
-  /** Funding rate bps/hour */
-  fr: number;
-}
+export type { PricePoint, PriceCandle, HistoryResolution, AccountPoint } from './history-store';
 
-const MAX_POINTS_PER_SLAB = 360;  // ~1 hour at 10s intervals
-const MAX_TRACKED_SLABS = 50;
 const MIN_INTERVAL_MS = 5_000;     // Don't record faster than every 5s
+const PRUNE_INTERVAL_MS = 60_000;  // Apply retention at most once a minute
+const DEFAULT_RAW_LIMIT = 360;     // ~1 hour at 10s intervals
+const ACCOUNT_KEEPALIVE_MS = 300_000; // Re-sample an unchanged account every 5m
+const DEFAULT_ACCOUNT_LIMIT = 500;
+
+// Per-process dedupe; the store itself is append-only
+const lastRecordedAt = new Map<string, number>();
+// `${slab}:${idx}` → last recorded sample
+const lastAccountPoint = new Map<string, { at: number; key: string }>();
+let lastPrunedAt = 0;
+
+let _store: HistoryStore | null = null;
 
-interface SlabHistory {
-  points: PricePoint[];
-  lastRecordedAt: number;
+/**
+ * Get the process-wide history store.
+ * Uses SQLite when SLAB_HISTORY_DB is set, in-memory otherwise.
+ */
+export function getHistoryStore(): HistoryStore {
+  if (_store) return _store;
+
+  const dbPath = process.env.SLAB_HISTORY_DB;
+  if (dbPath) {
+    _store = createSqliteHistoryStore(dbPath);
+    console.log(`[history] SQLite store at ${dbPath}`);
+  } else {
+    _store = createMemoryHistoryStore();
+  }
+  return _store;
 }
 
-const historyStore = new Map<string, SlabHistory>();
+/**
+ * Replace the process-wide store (tests, scripts).
+ */
+export function setHistoryStore(store: HistoryStore): void {
+  _store = store;
+  lastRecordedAt.clear();
+  lastAccountPoint.clear();
+}
 
 /**
  * Record a price snapshot for a slab.
@@ -45,42 +79,74 @@ export function recordPricePoint(
   point: PricePoint,
 ): void {
   const now = Date.now();
-  let history = historyStore.get(slabAddress);
+  const last = lastRecordedAt.get(slabAddress) ?? 0;
+  if (now - last < MIN_INTERVAL_MS) return;
+  lastRecordedAt.set(slabAddress, now);
 
-  if (history) {
-    // Skip if too recent
-    if (now - history.lastRecordedAt < MIN_INTERVAL_MS) return;
-
-    history.points.push(point);
-    history.lastRecordedAt = now;
-
-    // Trim to max
-    if (history.points.length > MAX_POINTS_PER_SLAB) {
-      history.points = history.points.slice(-MAX_POINTS_PER_SLAB);
-    }
-  } else {
-    // Evict LRU if at capacity
-    if (historyStore.size >= MAX_TRACKED_SLABS) {
-      let oldestKey = '';
-      let oldestTime = Infinity;
-      for (const [key, val] of historyStore) {
-        if (val.lastRecordedAt < oldestTime) {
-          oldestTime = val.lastRecordedAt;
-          oldestKey = key;
-        }
-      }
-      if (oldestKey) historyStore.delete(oldestKey);
+  const store = getHistoryStore();
+  try {
+    store.append(slabAddress, point);
+    if (now - lastPrunedAt > PRUNE_INTERVAL_MS) {
+      lastPrunedAt = now;
+      store.prune(now);
     }
-
-    history = { points: [point], lastRecordedAt: now };
-    historyStore.set(slabAddress, history);
+  } catch (err) {
+    console.warn(`[history] Failed to record point for ${slabAddress}:`, err);
   }
 }
 
 /**
  * Get accumulated price history for a slab.
+ * Defaults to the most recent hour of raw points.
  * Returns empty array if no history exists.
  */
-export function getPriceHistory(slabAddress: string): PricePoint[] {
-  return historyStore.get(slabAddress)?.points ?? [];
+export function getPriceHistory(
+  slabAddress: string,
+  query: HistoryQuery = {},
+): PriceCandle[] {
+  const resolution = query.resolution ?? 'raw';
+  const limit = query.limit ?? (resolution === 'raw' ? DEFAULT_RAW_LIMIT : undefined);
+  return getHistoryStore().query(slabAddress, { ...query, resolution, limit });
+}
+
+/**
+ * Record one sample per account for a slab snapshot.
+ * An account is skipped while its values are unchanged and its last sample
+ * is younger than ACCOUNT_KEEPALIVE_MS.
+ */
+export function recordAccountPoints(
+  slabAddress: string,
+  points: { idx: number; point: AccountPoint }[],
+): void {
+  const now = Date.now();
+  const changed = points.filter(({ idx, point }) => {
+    const dedupeKey = `${slabAddress}:${idx}`;
+    const key = `${point.id}|${point.capital}|${point.pnl}|${point.position}`;
+    const last = lastAccountPoint.get(dedupeKey);
+    if (last && last.key === key && now - last.at < ACCOUNT_KEEPALIVE_MS) return false;
+    lastAccountPoint.set(dedupeKey, { at: now, key });
+    return true;
+  });
+  if (changed.length === 0) return;
+
+  try {
+    getHistoryStore().appendAccountPoints(slabAddress, changed);
+  } catch (err) {
+    console.warn(`[history] Failed to record account points for ${slabAddress}:`, err);
+  }
+}
+
+/**
+ * Get recorded samples for one account slot, oldest first.
+ * Pass `accountId` to drop samples from earlier occupants of the slot.
+ */
+export function getAccountHistory(
+  slabAddress: string,
+  idx: number,
+  query: AccountHistoryQuery = {},
+): AccountPoint[] {
+  return getHistoryStore().accountHistory(slabAddress, idx, {
+    ...query,
+    limit: query.limit ?? DEFAULT_ACCOUNT_LIMIT,
+  });
 }
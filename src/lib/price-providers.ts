@@ -0,0 +1,319 @@
+/**
+ * USD prices and token metadata behind swappable providers.
+ *
+ *   PRICE_PROVIDERS     default dexscreener,jupiter,pools
+ *   METADATA_PROVIDERS  default jupiter,metaplex
+ *
+ * Providers are asked in order, each only for the mints the earlier ones
+ * couldn't answer. With PRICE_FILE set the static JSON provider goes first in
+ * both chains; `PRICE_PROVIDERS=static METADATA_PROVIDERS=static` runs with
+ * no outside calls at all (tests, air-gapped hosts).
+ *
+ * Resolved prices, and misses, are kept for 60s in the shared cache
+ * (connection.ts). Every provider call is timed and counted; see
+ * getProviderHealth().
+ */
+import type { Connection } from '@solana/web3.js';
+import { getCached, setCache } from './connection';
+import { dexScreenerPriceProvider } from './dexscreener';
+import { jupiterMetadataProvider, jupiterPriceProvider } from './jupiter';
+import { metaplexMetadataProvider } from './metaplex';
+import { createPoolPriceProvider, parsePricePools } from './pool-prices';
+import { createStaticProvider } from './static-prices';
+
+const PRICE_CACHE_MS = 60_000;
+
+const DEFAULT_PRICE_PROVIDERS = ['dexscreener', 'jupiter', 'pools'];
+const DEFAULT_METADATA_PROVIDERS = ['jupiter', 'metaplex'];
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export interface ProviderContext {
+  /** RPC for on-chain providers; they pick a default network without one */
+  connection?: Connection;
+  /** USD prices from the rest of the chain, for providers that price in another token */
+  lookupPrices?: (mints: string[]) => Promise<Map<string, number>>;
+}
+
+export interface PriceProvider {
+  readonly name: string;
+  /** USD price per mint; only the mints it could price. Throws when the source is down. */
+  fetchPrices(mints: string[], ctx: ProviderContext): Promise<Map<string, number>>;
+}
+
+export interface TokenMetadata {
+  symbol: string;
+  name?: string;
+  decimals?: number;
+}
+
+export interface MetadataProvider {
+  readonly name: string;
+  /** Metadata per mint; only the mints it knows. Throws when the source is down. */
+  fetchMetadata(mints: string[], ctx: ProviderContext): Promise<Map<string, TokenMetadata>>;
+}
+
+export interface TokenPrice {
+  /** 0 when no provider could price the mint */
+  usd: number;
+  /** Provider that answered; null for a miss */
+  source: string | null;
+}
+
+export interface ProviderHealth {
+  name: string;
+  kind: 'price' | 'metadata';
+  calls: number;
+  /** Calls that threw (timeouts, HTTP errors, bad files) */
+  failures: number;
+  mintsRequested: number;
+  mintsResolved: number;
+  avgLatencyMs: number | null;
+  lastLatencyMs: number | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+// ── Provider chains ─────────────────────────────────────────────────────
+
+let _priceProviders: PriceProvider[] | null = null;
+let _metadataProviders: MetadataProvider[] | null = null;
+let _staticProvider: ReturnType<typeof createStaticProvider> | null = null;
+
+/** `kind:name` → stats, and summed latency for the average */
+const health = new Map<string, ProviderHealth>();
+const totalLatencyMs = new Map<string, number>();
+
+function staticProvider(): ReturnType<typeof createStaticProvider> | null {
+  const path = process.env.PRICE_FILE;
+  if (!path) return null;
+  if (!_staticProvider) _staticProvider = createStaticProvider(path);
+  return _staticProvider;
+}
+
+/** Provider names from an env list, or the defaults with `static` first when PRICE_FILE is set */
+function providerNames(value: string | undefined, defaults: string[]): string[] {
+  if (value) return value.split(',').map((s) => s.trim().toLowerCase()).filter(Boolean);
+  return process.env.PRICE_FILE ? ['static', ...defaults] : defaults;
+}
+
+function buildPriceProvider(name: string): PriceProvider | null {
+  switch (name) {
+    case 'dexscreener':
+      return dexScreenerPriceProvider;
+    case 'jupiter':
+      return jupiterPriceProvider;
+    case 'pools':
+      return createPoolPriceProvider(parsePricePools(process.env.PRICE_POOLS));
+    case 'static':
+      return staticProvider();
+  }
+  return null;
+}
+
+function buildMetadataProvider(name: string): MetadataProvider | null {
+  switch (name) {
+    case 'jupiter':
+      return jupiterMetadataProvider;
+    case 'metaplex':
+      return metaplexMetadataProvider;
+    case 'static':
+      return staticProvider();
+  }
+  return null;
+}
+
+function buildChain<T>(kind: string, names: string[], build: (name: string) => T | null): T[] {
+  return names.flatMap((name) => {
+    const provider = build(name);
+    if (!provider) console.warn(`[prices] Unknown or unconfigured ${kind} provider "${name}", skipped`);
+    return provider ? [provider] : [];
+  });
+}
+
+/** Price providers in fallback order, from PRICE_PROVIDERS */
+export function getPriceProviders(): PriceProvider[] {
+  if (!_priceProviders) {
+    _priceProviders = buildChain('price', providerNames(process.env.PRICE_PROVIDERS, DEFAULT_PRICE_PROVIDERS), buildPriceProvider);
+  }
+  return _priceProviders;
+}
+
+/** Metadata providers in fallback order, from METADATA_PROVIDERS */
+export function getMetadataProviders(): MetadataProvider[] {
+  if (!_metadataProviders) {
+    _metadataProviders = buildChain('metadata', providerNames(process.env.METADATA_PROVIDERS, DEFAULT_METADATA_PROVIDERS), buildMetadataProvider);
+  }
+  return _metadataProviders;
+}
+
+/**
+ * Replace the process-wide chains (tests, scripts). Omitted chains are left
+ * as they are; health stats start over.
+ */
+export function setProviders(chains: { prices?: PriceProvider[]; metadata?: MetadataProvider[] }): void {
+  if (chains.prices) _priceProviders = chains.prices;
+  if (chains.metadata) _metadataProviders = chains.metadata;
+  health.clear();
+  totalLatencyMs.clear();
+}
+
+// ── Health ──────────────────────────────────────────────────────────────
+
+function healthEntry(kind: ProviderHealth['kind'], name: string): ProviderHealth {
+  const key = `${kind}:${name}`;
+  let entry = health.get(key);
+  if (!entry) {
+    entry = {
+      name,
+      kind,
+      calls: 0,
+      failures: 0,
+      mintsRequested: 0,
+      mintsResolved: 0,
+      avgLatencyMs: null,
+      lastLatencyMs: null,
+      lastSuccessAt: null,
+      lastError: null,
+      lastErrorAt: null,
+    };
+    health.set(key, entry);
+  }
+  return entry;
+}
+
+/** Run one provider call, recording latency and outcome. Null when it threw. */
+async function callProvider<V>(
+  kind: ProviderHealth['kind'],
+  name: string,
+  mints: string[],
+  run: () => Promise<Map<string, V>>,
+): Promise<Map<string, V> | null> {
+  const entry = healthEntry(kind, name);
+  const start = Date.now();
+  entry.calls++;
+  entry.mintsRequested += mints.length;
+  try {
+    const result = await run();
+    entry.mintsResolved += result.size;
+    entry.lastSuccessAt = new Date().toISOString();
+    return result;
+  } catch (err) {
+    entry.failures++;
+    entry.lastError = err instanceof Error ? err.message : String(err);
+    entry.lastErrorAt = new Date().toISOString();
+    return null;
+  } finally {
+    const key = `${kind}:${name}`;
+    const latency = Date.now() - start;
+    const total = (totalLatencyMs.get(key) ?? 0) + latency;
+    totalLatencyMs.set(key, total);
+    entry.lastLatencyMs = latency;
+    entry.avgLatencyMs = Math.round(total / entry.calls);
+  }
+}
+
+/** Stats for every configured provider, price chain first, in fallback order */
+export function getProviderHealth(): ProviderHealth[] {
+  return [
+    ...getPriceProviders().map((p) => healthEntry('price', p.name)),
+    ...getMetadataProviders().map((p) => healthEntry('metadata', p.name)),
+  ].map((entry) => ({ ...entry }));
+}
+
+// ── Resolution ──────────────────────────────────────────────────────────
+
+function priceCacheKey(mint: string): string {
+  return `token_price_${mint}`;
+}
+
+async function resolvePrices(
+  mints: string[],
+  ctx: ProviderContext,
+  skip: ReadonlySet<string>,
+): Promise<Map<string, TokenPrice>> {
+  const results = new Map<string, TokenPrice>();
+  let pending: string[] = [];
+  for (const mint of new Set(mints)) {
+    const cached = getCached<TokenPrice>(priceCacheKey(mint), PRICE_CACHE_MS);
+    if (cached) results.set(mint, cached);
+    else pending.push(mint);
+  }
+
+  let outage = false;
+  for (const provider of getPriceProviders()) {
+    if (pending.length === 0) break;
+    if (skip.has(provider.name)) continue;
+
+    // A provider pricing in another token asks the rest of the chain, never itself
+    const nested = new Set([...skip, provider.name]);
+    const lookupPrices = async (quoteMints: string[]) => {
+      const quotes = await resolvePrices(quoteMints, ctx, nested);
+      return new Map([...quotes].map(([mint, price]) => [mint, price.usd]));
+    };
+
+    const asked = pending;
+    const found = await callProvider('price', provider.name, asked, () =>
+      provider.fetchPrices(asked, { ...ctx, lookupPrices }),
+    );
+    if (!found) {
+      outage = true;
+      continue;
+    }
+    for (const mint of asked) {
+      const usd = found.get(mint);
+      if (usd === undefined || !Number.isFinite(usd) || usd <= 0) continue;
+      const price: TokenPrice = { usd, source: provider.name };
+      results.set(mint, price);
+      setCache(priceCacheKey(mint), price);
+    }
+    pending = asked.filter((mint) => !results.has(mint));
+  }
+
+  for (const mint of pending) {
+    const miss: TokenPrice = { usd: 0, source: null };
+    results.set(mint, miss);
+    // A miss during an outage may price fine on the next call
+    if (!outage) setCache(priceCacheKey(mint), miss);
+  }
+  return results;
+}
+
+/** USD price and answering provider per mint */
+export async function getTokenPriceQuotes(
+  mints: string[],
+  ctx: ProviderContext = {},
+): Promise<Map<string, TokenPrice>> {
+  return resolvePrices(mints, ctx, new Set());
+}
+
+/** USD price per mint, 0 where no provider could price it */
+export async function getTokenPrices(
+  mints: string[],
+  ctx: ProviderContext = {},
+): Promise<Map<string, number>> {
+  const quotes = await resolvePrices(mints, ctx, new Set());
+  return new Map([...quotes].map(([mint, price]) => [mint, price.usd]));
+}
+
+/** Metadata for the mints any provider knows; callers cache (see known-mints.ts) */
+export async function getTokenMetadata(
+  mints: string[],
+  ctx: ProviderContext = {},
+): Promise<Map<string, TokenMetadata>> {
+  const results = new Map<string, TokenMetadata>();
+  let pending = [...new Set(mints)];
+  for (const provider of getMetadataProviders()) {
+    if (pending.length === 0) break;
+    const asked = pending;
+    const found = await callProvider('metadata', provider.name, asked, () => provider.fetchMetadata(asked, ctx));
+    if (!found) continue;
+    for (const mint of asked) {
+      const meta = found.get(mint);
+      if (meta?.symbol) results.set(mint, meta);
+    }
+    pending = asked.filter((mint) => !results.has(mint));
+  }
+  return results;
+}
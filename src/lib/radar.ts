@@ -27,6 +27,8 @@ export interface SlabRadarEntry {
   collateralMint: string;     // extracted from header for early mint resolution
   collateralSymbol?: string;  // resolved token symbol (SOL, USDC, etc.)
   health: HealthStatus;
+  layout: string | null;      // SlabLayout id, null when unsupported
+  error?: string;             // e.g. unsupported layout version
 }
 
 export interface ProgramRadarEntry {
@@ -184,6 +186,8 @@ async function _scanEcosystemImpl(): Promise<EcosystemRadar> {
           vaultPubkey: s.vaultPubkey.toBase58(),
           collateralMint: s.collateralMint?.toBase58() ?? '',
           health: computeHealth(lastCrank, currentSlot, s.numUsedAccounts),
+          layout: s.layout ?? null,
+          error: s.layoutError,
         };
       });
 
@@ -196,6 +200,9 @@ async function _scanEcosystemImpl(): Promise<EcosystemRadar> {
       );
       const crankAge = currentSlot > 0 ? (currentSlot - mostRecentCrank) * 0.4 : 0;
 
+      // Slabs this build can't read are counted but surfaced, never misparsed
+      const unsupported = slabEntries.filter((s) => s.error);
+
       programs.push({
         id: entry.id,
         label: entry.label,
@@ -209,6 +216,9 @@ async function _scanEcosystemImpl(): Promise<EcosystemRadar> {
         lastCrankAge: Math.round(crankAge),
         health: computeHealth(mostRecentCrank, currentSlot, accountCount),
         slabs: slabEntries,
+        error: unsupported.length > 0
+          ? `${unsupported.length}/${slabEntries.length} slabs: ${unsupported[0].error}`
+          : undefined,
       });
     }
   }
@@ -21,6 +21,8 @@ export interface ProgramEntry {
   slabSizes: number[];
   /** Oracle account override if different from default */
   oracleAddress?: string;
+  /** Pin a slab layout id (slab-layout.ts); otherwise chosen by header version */
+  layout?: string;
   /** Brief description */
   description?: string;
 }
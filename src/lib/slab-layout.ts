@@ -0,0 +1,251 @@
+/**
+ * Slab layout registry.
+ *
+ * Every byte offset the parser, serializer and discovery use lives in a
+ * SlabLayout. Layouts are selected by the header `version` (the u32 after the
+ * magic, which every layout keeps in place) or pinned per program with
+ * `ProgramEntry.layout`. A Percolator upgrade that moves fields adds a layout
+ * here; a slab whose version matches none fails with UnsupportedLayoutError
+ * instead of being misread.
+ */
+import type { ProgramEntry } from './registry';
+
+// ── Types ───────────────────────────────────────────────────────────────
+
+export interface SlabLayout {
+  /** Stable id, e.g. "v1"; referenced by ProgramEntry.layout */
+  id: string;
+  description: string;
+  /** Header versions written by programs with this layout */
+  versions: number[];
+
+  /** SlabHeader field offsets (magic @0 and version @8 are fixed) */
+  header: { len: number; bump: number; flags: number; admin: number; reserved: number };
+  /** MarketConfig position; fields are read in declaration order */
+  config: { offset: number; len: number };
+  /** RiskEngine position in the slab */
+  engineOffset: number;
+  /** Field offsets relative to the RiskEngine */
+  engine: {
+    vault: number;
+    insurance: number;
+    params: number;
+    currentSlot: number;
+    fundingIndex: number;
+    lastFundingSlot: number;
+    fundingRateBps: number;
+    lastCrankSlot: number;
+    maxCrankStaleness: number;
+    totalOpenInterest: number;
+    cTot: number;
+    pnlPosTot: number;
+    liqCursor: number;
+    gcCursor: number;
+    lastSweepStart: number;
+    lastSweepComplete: number;
+    crankCursor: number;
+    sweepStartIdx: number;
+    lifetimeLiquidations: number;
+    lifetimeForceCloses: number;
+    netLpPos: number;
+    lpSumAbs: number;
+    lpMaxAbs: number;
+    lpMaxAbsSweep: number;
+    bitmap: number;
+    numUsed: number;
+    nextAccountId: number;
+    accounts: number;
+  };
+  /** Field offsets relative to RiskParams */
+  params: {
+    len: number;
+    warmupPeriod: number;
+    maintenanceMargin: number;
+    initialMargin: number;
+    tradingFee: number;
+    maxAccounts: number;
+    newAccountFee: number;
+    riskThreshold: number;
+    maintenanceFee: number;
+    maxCrankStaleness: number;
+    liquidationFeeBps: number;
+    liquidationFeeCap: number;
+    liquidationBuffer: number;
+    minLiquidation: number;
+  };
+  /** Field offsets relative to each Account slot */
+  account: {
+    size: number;
+    accountId: number;
+    capital: number;
+    kind: number;
+    pnl: number;
+    reservedPnl: number;
+    warmupStarted: number;
+    warmupSlope: number;
+    positionSize: number;
+    entryPrice: number;
+    fundingIndex: number;
+    matcherProgram: number;
+    matcherContext: number;
+    owner: number;
+    feeCredits: number;
+    lastFeeSlot: number;
+  };
+  maxAccounts: number;
+  bitmapWords: number;
+}
+
+export class UnsupportedLayoutError extends Error {
+  constructor(
+    readonly version: number,
+    readonly programId: string | null = null,
+  ) {
+    super(`Unsupported slab layout: header version ${version}`);
+    this.name = 'UnsupportedLayoutError';
+  }
+}
+
+// ── Layouts ─────────────────────────────────────────────────────────────
+
+/**
+ * Layout of every deployed program today (Rust repr(C), SBF 8-byte
+ * alignment for u128), ported from percolator-cli/src/solana/slab.ts.
+ */
+export const SLAB_LAYOUT_V1: SlabLayout = {
+  id: 'v1',
+  description: 'Percolator v1 — 4096-slot RiskEngine',
+  versions: [0, 1],
+  header: { len: 72, bump: 12, flags: 13, admin: 16, reserved: 48 },
+  config: { offset: 72, len: 320 },
+  engineOffset: 392,
+  engine: {
+    vault: 0,
+    insurance: 16,
+    params: 48,
+    currentSlot: 192,
+    fundingIndex: 200,
+    lastFundingSlot: 216,
+    fundingRateBps: 224,
+    lastCrankSlot: 232,
+    maxCrankStaleness: 240,
+    totalOpenInterest: 248,
+    cTot: 264,
+    pnlPosTot: 280,
+    liqCursor: 296,
+    gcCursor: 298,
+    lastSweepStart: 304,
+    lastSweepComplete: 312,
+    crankCursor: 320,
+    sweepStartIdx: 322,
+    lifetimeLiquidations: 328,
+    lifetimeForceCloses: 336,
+    netLpPos: 344,
+    lpSumAbs: 360,
+    lpMaxAbs: 376,
+    lpMaxAbsSweep: 392,
+    bitmap: 408,
+    numUsed: 920,
+    nextAccountId: 928,
+    accounts: 9136,
+  },
+  params: {
+    len: 144,
+    warmupPeriod: 0,
+    maintenanceMargin: 8,
+    initialMargin: 16,
+    tradingFee: 24,
+    maxAccounts: 32,
+    newAccountFee: 40,
+    riskThreshold: 56,
+    maintenanceFee: 72,
+    maxCrankStaleness: 88,
+    liquidationFeeBps: 96,
+    liquidationFeeCap: 104,
+    liquidationBuffer: 120,
+    minLiquidation: 128,
+  },
+  account: {
+    size: 240,
+    accountId: 0,
+    capital: 8,
+    kind: 24,
+    pnl: 32,
+    reservedPnl: 48,
+    warmupStarted: 56,
+    warmupSlope: 64,
+    positionSize: 80,
+    entryPrice: 96,
+    fundingIndex: 104,
+    matcherProgram: 120,
+    matcherContext: 152,
+    owner: 184,
+    feeCredits: 216,
+    lastFeeSlot: 232,
+  },
+  maxAccounts: 4096,
+  bitmapWords: 64,
+};
+
+export const SLAB_LAYOUTS: SlabLayout[] = [SLAB_LAYOUT_V1];
+
+// ── Resolution ──────────────────────────────────────────────────────────
+
+/** Offset of the header version (u32), the same in every layout */
+export const SLAB_VERSION_OFFSET = 8;
+
+export function getSlabLayout(id: string): SlabLayout | undefined {
+  return SLAB_LAYOUTS.find((l) => l.id === id);
+}
+
+/**
+ * Layout for a header version. A program pinned to a layout must still
+ * write one of its versions; anything else throws UnsupportedLayoutError.
+ */
+export function resolveSlabLayout(
+  version: number,
+  entry?: Pick<ProgramEntry, 'programId' | 'layout'>,
+): SlabLayout {
+  const pinned = entry?.layout ? getSlabLayout(entry.layout) : undefined;
+  if (entry?.layout && !pinned) {
+    throw new Error(`Unknown slab layout "${entry.layout}" for program ${entry.programId}`);
+  }
+
+  const layout = pinned ?? SLAB_LAYOUTS.find((l) => l.versions.includes(version));
+  if (!layout || !layout.versions.includes(version)) {
+    throw new UnsupportedLayoutError(version, entry?.programId ?? null);
+  }
+  return layout;
+}
+
+/** Layout for slab data (or a prefix of it) from its header version */
+export function slabLayoutOf(
+  data: Buffer,
+  entry?: Pick<ProgramEntry, 'programId' | 'layout'>,
+): SlabLayout {
+  if (data.length < SLAB_VERSION_OFFSET + 4) {
+    throw new Error(`Slab data too short for header version: ${data.length}`);
+  }
+  return resolveSlabLayout(data.readUInt32LE(SLAB_VERSION_OFFSET), entry);
+}
+
+// ── Derived sizes ───────────────────────────────────────────────────────
+
+/** Bytes needed to read crank bookkeeping (lastCrankSlot + params staleness) */
+export function crankStateLen(layout: SlabLayout): number {
+  const engine = layout.engineOffset;
+  return Math.max(
+    engine + layout.engine.lastCrankSlot + 8,
+    engine + layout.engine.params + layout.params.maxCrankStaleness + 8,
+  );
+}
+
+/** Bytes discovery reads: header, config mint/vault, lastCrankSlot, numUsed */
+export function discoverySliceLen(layout: SlabLayout): number {
+  return Math.max(crankStateLen(layout), layout.engineOffset + layout.engine.numUsed + 2);
+}
+
+/** Largest of `fn` over every registered layout, for dataSlice lengths */
+export function maxOverLayouts(fn: (layout: SlabLayout) => number): number {
+  return Math.max(...SLAB_LAYOUTS.map(fn));
+}
@@ -0,0 +1,42 @@
+/**
+ * Measured slot time per RPC endpoint.
+ *
+ * Per-hour funding rates and APRs are quoted per slot on-chain, so they
+ * scale with how fast slots actually go. Solana targets 400ms but runs
+ * slower under load; getRecentPerformanceSamples reports the cluster's real
+ * slots per minute. Cached for 5 minutes; the 400ms target stands in when
+ * the RPC can't answer.
+ */
+import type { Connection } from '@solana/web3.js';
+import { getCached, setCache } from './connection';
+import { DEFAULT_MS_PER_SLOT } from './percolator';
+
+const CACHE_MS = 5 * 60_000;
+const SAMPLES = 30;  // one per minute
+
+export interface SlotTiming {
+  msPerSlot: number;
+  /** rpc: recent performance samples; default: the 400ms target */
+  source: 'rpc' | 'default';
+  /** Slots the measurement covers (0 for the default) */
+  sampleSlots: number;
+}
+
+export async function getSlotTiming(connection: Connection): Promise<SlotTiming> {
+  const cacheKey = `slot_timing_${connection.rpcEndpoint}`;
+  const cached = getCached<SlotTiming>(cacheKey, CACHE_MS);
+  if (cached) return cached;
+
+  let timing: SlotTiming = { msPerSlot: DEFAULT_MS_PER_SLOT, source: 'default', sampleSlots: 0 };
+  try {
+    const samples = await connection.getRecentPerformanceSamples(SAMPLES);
+    const slots = samples.reduce((sum, s) => sum + s.numSlots, 0);
+    const ms = samples.reduce((sum, s) => sum + s.samplePeriodSecs * 1000, 0);
+    if (slots > 0 && ms > 0) timing = { msPerSlot: ms / slots, source: 'rpc', sampleSlots: slots };
+  } catch (err) {
+    console.warn('[slot-time] Performance samples unavailable, assuming 400ms slots:', err instanceof Error ? err.message : err);
+  }
+  // The default is cached too, so a failing RPC is asked once per window
+  setCache(cacheKey, timing);
+  return timing;
+}
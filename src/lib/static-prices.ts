@@ -0,0 +1,55 @@
+/**
+ * Static price + metadata provider — a JSON file stands in for the network.
+ *
+ *   {
+ *     "prices": { "<mint>": 150.25 },
+ *     "tokens": { "<mint>": { "symbol": "SOL", "name": "Wrapped SOL", "decimals": 9 } }
+ *   }
+ *
+ * Point PRICE_FILE at it for tests and air-gapped runs (see
+ * fixtures/prices.json). The file is re-read when its mtime changes, so it
+ * can be edited while the app runs.
+ */
+import { readFileSync, statSync } from 'fs';
+import type { MetadataProvider, PriceProvider, TokenMetadata } from './price-providers';
+
+interface StaticPriceFile {
+  prices?: Record<string, number>;
+  tokens?: Record<string, TokenMetadata>;
+}
+
+export function createStaticProvider(path: string): PriceProvider & MetadataProvider {
+  let loaded: { mtimeMs: number; file: StaticPriceFile } | null = null;
+
+  // Throws on a missing or malformed file, so the chain records the failure
+  function load(): StaticPriceFile {
+    const { mtimeMs } = statSync(path);
+    if (!loaded || loaded.mtimeMs !== mtimeMs) {
+      loaded = { mtimeMs, file: JSON.parse(readFileSync(path, 'utf-8')) as StaticPriceFile };
+    }
+    return loaded.file;
+  }
+
+  return {
+    name: 'static',
+
+    async fetchPrices(mints) {
+      const { prices = {} } = load();
+      const results = new Map<string, number>();
+      for (const mint of mints) {
+        const price = prices[mint];
+        if (typeof price === 'number' && price > 0) results.set(mint, price);
+      }
+      return results;
+    },
+
+    async fetchMetadata(mints) {
+      const { tokens = {} } = load();
+      const results = new Map<string, TokenMetadata>();
+      for (const mint of mints) {
+        if (tokens[mint]?.symbol) results.set(mint, tokens[mint]);
+      }
+      return results;
+    },
+  };
+}
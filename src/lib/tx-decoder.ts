@@ -0,0 +1,320 @@
+/**
+ * Percolator transaction decoder.
+ *
+ * Turns slab transactions into typed events using the instruction codec in
+ * instructions.ts. Works on a
+ * plain RecordedTransaction shape so the same code decodes live RPC results
+ * and recorded JSON fixtures (fixtures/transactions, scripts/tx-fixtures.ts).
+ */
+import { PublicKey, type Connection, type VersionedTransactionResponse } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { decodeInstructionData, SLAB_ACCOUNT_INDEX, type DecodedInstruction } from './instructions';
+import { PROGRAM_REGISTRY, type NetworkId } from './registry';
+import { getNetworkConnection } from './connections';
+import { getCached, setCache } from './connection';
+import type { ActivityEvent } from './types';
+
+// ── Recorded transaction shape ──────────────────────────────────────────
+
+/** Compiled instruction as returned by getTransaction (json encoding) */
+export interface RecordedInstruction {
+  programIdIndex: number;
+  accounts: number[];
+  /** base58 instruction data */
+  data: string;
+}
+
+export interface RecordedTransaction {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  err: unknown;
+  /** Static keys followed by lookup-table writable, then readonly keys */
+  accountKeys: string[];
+  instructions: RecordedInstruction[];
+  innerInstructions: { index: number; instructions: RecordedInstruction[] }[];
+}
+
+/**
+ * Normalize a web3.js transaction response into a RecordedTransaction.
+ */
+export function toRecordedTransaction(
+  signature: string,
+  tx: VersionedTransactionResponse,
+): RecordedTransaction {
+  const message = tx.transaction.message;
+  const keys = message.getAccountKeys({
+    accountKeysFromLookups: tx.meta?.loadedAddresses ?? undefined,
+  });
+
+  return {
+    signature,
+    slot: tx.slot,
+    blockTime: tx.blockTime ?? null,
+    err: tx.meta?.err ?? null,
+    accountKeys: keys.keySegments().flat().map((k) => k.toBase58()),
+    instructions: message.compiledInstructions.map((ix) => ({
+      programIdIndex: ix.programIdIndex,
+      accounts: [...ix.accountKeyIndexes],
+      data: bs58.encode(ix.data),
+    })),
+    innerInstructions: (tx.meta?.innerInstructions ?? []).map((inner) => ({
+      index: inner.index,
+      instructions: inner.instructions.map((ix) => ({
+        programIdIndex: ix.programIdIndex,
+        accounts: [...ix.accounts],
+        data: ix.data,
+      })),
+    })),
+  };
+}
+
+// ── Transactions ────────────────────────────────────────────────────────
+
+export type DecodedTxEvent = DecodedInstruction & {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  failed: boolean;
+  programId: string;
+  slab: string | null;
+  /**
+   * First account of the instruction: the user, caller or authority that
+   * signed it, or the program that invoked it via CPI. Not necessarily the
+   * transaction's fee payer.
+   */
+  firstAccount: string;
+  /** Order of this event among those returned for the transaction */
+  ixIndex: number;
+  /**
+   * InitUser only: index of the account it created, taken from a later
+   * instruction in the same transaction by the same first account that names
+   * a user index (e.g. the opening deposit). Absent when none does.
+   */
+  createdIdx?: number;
+};
+
+const PERCOLATOR_PROGRAM_IDS = new Set(PROGRAM_REGISTRY.map((p) => p.programId));
+
+/**
+ * Decode every Percolator instruction in a transaction, including CPIs,
+ * in execution order. Pass `slab` to keep only instructions touching it.
+ */
+export function decodeTransaction(
+  tx: RecordedTransaction,
+  opts: { slab?: string; programIds?: Set<string> } = {},
+): DecodedTxEvent[] {
+  const programIds = opts.programIds ?? PERCOLATOR_PROGRAM_IDS;
+  const innerByIndex = new Map(tx.innerInstructions.map((i) => [i.index, i.instructions]));
+
+  const ordered: RecordedInstruction[] = [];
+  tx.instructions.forEach((ix, i) => {
+    ordered.push(ix, ...(innerByIndex.get(i) ?? []));
+  });
+
+  const events: DecodedTxEvent[] = [];
+  for (const ix of ordered) {
+    const programId = tx.accountKeys[ix.programIdIndex];
+    if (!programId || !programIds.has(programId)) continue;
+
+    const decoded = decodeInstructionData(Buffer.from(bs58.decode(ix.data)));
+    if (!decoded) continue;
+
+    const slabKeyIdx = ix.accounts[SLAB_ACCOUNT_INDEX[decoded.kind]];
+    const slab = slabKeyIdx !== undefined ? tx.accountKeys[slabKeyIdx] ?? null : null;
+    if (opts.slab && slab !== opts.slab) continue;
+
+    events.push({
+      ...decoded,
+      signature: tx.signature,
+      slot: tx.slot,
+      blockTime: tx.blockTime,
+      failed: tx.err !== null,
+      programId,
+      slab,
+      firstAccount: tx.accountKeys[ix.accounts[0]] ?? '',
+      ixIndex: events.length,
+    });
+  }
+
+  // InitUser names no index; take it from the same account's next indexed instruction
+  events.forEach((event, i) => {
+    if (event.kind !== 'init-user') return;
+    const next = events
+      .slice(i + 1)
+      .find((e) => e.slab === event.slab && e.firstAccount === event.firstAccount && userIdxOf(e) !== null);
+    if (next) event.createdIdx = userIdxOf(next)!;
+  });
+
+  return events;
+}
+
+/** User index an instruction acts on, if it names one */
+function userIdxOf(event: DecodedTxEvent): number | null {
+  switch (event.kind) {
+    case 'deposit':
+    case 'withdraw':
+    case 'close':
+    case 'trade':
+      return event.userIdx;
+    default:
+      return null;
+  }
+}
+
+/**
+ * True when an event acts on the account at `idx`. InitUser carries no index,
+ * so it matches only when its created index could be inferred (createdIdx).
+ */
+export function eventTouchesAccount(event: DecodedTxEvent, idx: number): boolean {
+  switch (event.kind) {
+    case 'deposit':
+    case 'withdraw':
+    case 'close':
+      return event.userIdx === idx;
+    case 'trade':
+      return event.userIdx === idx || event.lpIdx === idx;
+    case 'crank':
+      return event.callerIdx === idx;
+    case 'set-lp-params':
+      return event.lpIdx === idx;
+    case 'init-user':
+      return event.createdIdx === idx;
+    default:
+      return false;
+  }
+}
+
+// ── Fetching ────────────────────────────────────────────────────────────
+
+const TX_BATCH_SIZE = 20;
+const TX_EVENTS_CACHE_MS = 15_000;
+
+/**
+ * Fetch and decode a slab's most recent transactions, newest first.
+ * Cached for 15s per slab + limit.
+ */
+export async function fetchSlabTxEvents(
+  slabAddress: string,
+  opts: { network?: NetworkId; limit?: number; connection?: Connection } = {},
+): Promise<DecodedTxEvent[]> {
+  const limit = opts.limit ?? 25;
+  const network = opts.network ?? 'devnet';
+  const cacheKey = `tx_events_${network}_${slabAddress}_${limit}`;
+  const cached = getCached<DecodedTxEvent[]>(cacheKey, TX_EVENTS_CACHE_MS);
+  if (cached) return cached;
+
+  const connection = opts.connection ?? getNetworkConnection(network);
+  const signatures = await connection.getSignaturesForAddress(new PublicKey(slabAddress), { limit });
+
+  const events: DecodedTxEvent[] = [];
+  for (let i = 0; i < signatures.length; i += TX_BATCH_SIZE) {
+    const batch = signatures.slice(i, i + TX_BATCH_SIZE).map((s) => s.signature);
+    const txs = await connection.getTransactions(batch, { maxSupportedTransactionVersion: 0 });
+    txs.forEach((tx, j) => {
+      if (!tx) return;
+      events.push(...decodeTransaction(toRecordedTransaction(batch[j], tx), { slab: slabAddress }));
+    });
+  }
+
+  setCache(cacheKey, events);
+  return events;
+}
+
+// ── Presentation ────────────────────────────────────────────────────────
+
+type Jsonify<T> = T extends bigint | PublicKey
+  ? string
+  : T extends object
+    ? { [K in keyof T]: Jsonify<T[K]> }
+    : T;
+
+/** DecodedTxEvent with bigints as decimal strings and pubkeys as base58, for JSON responses */
+export type DecodedTxEventJson = Jsonify<DecodedTxEvent>;
+
+export function serializeTxEvent(event: DecodedTxEvent): DecodedTxEventJson {
+  // PublicKey serializes itself via toJSON()
+  return JSON.parse(
+    JSON.stringify(event, (_key, value) => (typeof value === 'bigint' ? value.toString() : value)),
+  ) as DecodedTxEventJson;
+}
+
+function formatCollateral(amount: bigint): string {
+  return (Number(amount) / 1e9).toFixed(4);
+}
+
+/**
+ * Render a decoded event as an activity feed entry.
+ */
+export function toActivityEvent(event: DecodedTxEvent, slabLabel: string): ActivityEvent {
+  const tag = `[${slabLabel}]`;
+  const who = `${event.firstAccount.slice(0, 4)}…${event.firstAccount.slice(-4)}`;
+
+  let type: ActivityEvent['type'];
+  let details: string;
+  let severity: ActivityEvent['severity'] = 'normal';
+
+  switch (event.kind) {
+    case 'trade': {
+      const side = event.size >= 0n ? 'long' : 'short';
+      const abs = event.size < 0n ? -event.size : event.size;
+      type = 'trade';
+      details = `${tag} ${who} trade #${event.userIdx} vs LP #${event.lpIdx}: ${side} ${Number(abs).toExponential(2)} units`;
+      break;
+    }
+    case 'deposit':
+      type = 'deposit';
+      details = `${tag} ${who} deposit #${event.userIdx}: +${formatCollateral(event.amount)} collateral`;
+      break;
+    case 'withdraw':
+      type = 'withdraw';
+      details = `${tag} ${who} withdraw #${event.userIdx}: -${formatCollateral(event.amount)} collateral`;
+      severity = Number(event.amount) / 1e9 > 1 ? 'warning' : 'normal';
+      break;
+    case 'crank':
+      type = 'crank';
+      details = `${tag} Keeper crank by ${who}${event.allowPanic ? ' (panic allowed)' : ''}`;
+      break;
+    case 'close':
+      type = 'withdraw';
+      details = `${tag} ${who} closed account #${event.userIdx}`;
+      break;
+    case 'oracle':
+      type = 'info';
+      details = `${tag} Oracle price pushed: ${(Number(event.priceE6) / 1e6).toFixed(4)}`;
+      break;
+    case 'init-user':
+      type = 'deposit';
+      details = `${tag} ${who} opened a trader account`;
+      break;
+    case 'set-lp-params':
+      type = 'info';
+      details = `${tag} LP #${event.lpIdx} matcher set by ${who}`;
+      break;
+    case 'set-oracle-authority':
+      type = 'info';
+      details = `${tag} Oracle authority changed to ${event.newAuthority.toBase58().slice(0, 8)}...`;
+      severity = 'warning';
+      break;
+    case 'init-slab':
+      type = 'info';
+      details = `${tag} Slab initialized by ${who}`;
+      break;
+  }
+
+  if (event.failed) {
+    details = `${details} — FAILED`;
+    severity = 'warning';
+  }
+
+  return {
+    timestamp: event.blockTime
+      ? new Date(event.blockTime * 1000).toISOString()
+      : new Date().toISOString(),
+    type,
+    details,
+    severity,
+    signature: event.signature,
+    slabLabel,
+  };
+}
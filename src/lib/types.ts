@@ -116,6 +116,15 @@ export interface Account {
   lastFeeSlot: bigint;
 }
 
+/** A whole slab as typed structures (parseSlab / serializeSlab) */
+export interface SlabState {
+  header: SlabHeader;
+  config: MarketConfig;
+  params: RiskParams;
+  engine: EngineState;
+  accounts: { idx: number; account: Account }[];
+}
+
 // ============================================================================
 // API response types
 // ============================================================================
@@ -152,7 +161,34 @@ export interface MarketResponse {
   oracleAddress: string;
 }
 
-export interface PositionEntry {
+/** Per-account fields beyond the position itself, for drill-down debugging */
+export interface AccountDetailFields {
+  reservedPnl: number;
+  warmupStartedAtSlot: string;
+  warmupSlopePerStep: string;
+  warmupElapsedSlots: string;
+  warmupRemainingSlots: string;
+  warmupProgress: number;       // 0..1 of params.warmupPeriodSlots
+  warmedPnl: number;            // positive PnL already unlocked
+  lockedPnl: number;            // positive PnL still warming up
+  feeCredits: number;
+  lastFeeSlot: string;
+  slotsSinceFee: string;
+  accruedMaintenanceFee: number; // due since lastFeeSlot, not yet settled
+  netFeeCredits: number;         // feeCredits - accrued; negative = owed
+  matcherProgram: string;
+  matcherContext: string;
+}
+
+/** Unrealized PnL split by source, in SOL (see computePnlAttribution) */
+export interface PnlAttribution {
+  price: number;     // position × (mark - entry)
+  funding: number;   // unsettled funding; positive = receiving
+  fees: number;      // accrued maintenance fees fee credits don't cover (<= 0)
+  total: number;
+}
+
+export interface PositionEntry extends AccountDetailFields {
   accountIndex: number;
   slabPubkey: string;
   slabLabel: string;
@@ -174,6 +210,7 @@ export interface PositionEntry {
   liquidationPrice: number;
   isLP: boolean;
   status: 'safe' | 'at_risk' | 'liquidatable';
+  pnlAttribution: PnlAttribution;
 }
 
 export interface PositionsResponse {